@@ -3,24 +3,39 @@ const esbuild = require("esbuild");
 const watch = process.argv.includes("--watch");
 const production = process.argv.includes("--production");
 
+const options = {
+  bundle: true,
+  format: "cjs",
+  platform: "node",
+  sourcemap: !production,
+  minify: production,
+};
+
 async function main() {
-  const ctx = await esbuild.context({
-    entryPoints: ["src/extension.ts"],
-    bundle: true,
-    outfile: "dist/extension.js",
-    external: ["vscode"],
-    format: "cjs",
-    platform: "node",
-    sourcemap: !production,
-    minify: production,
-  });
+  const contexts = await Promise.all([
+    esbuild.context({
+      ...options,
+      entryPoints: ["src/extension.ts"],
+      outfile: "dist/extension.js",
+      external: ["vscode"],
+    }),
+    // The `sbt-dependencies-lint` CLI, built from the same sources without VS Code
+    esbuild.context({
+      ...options,
+      entryPoints: ["src/cli.ts"],
+      outfile: "dist/cli.js",
+      banner: { js: "#!/usr/bin/env node" },
+    }),
+  ]);
 
   if (watch) {
-    await ctx.watch();
+    await Promise.all(contexts.map((ctx) => ctx.watch()));
     console.log("Watching for changes...");
   } else {
-    await ctx.rebuild();
-    await ctx.dispose();
+    for (const ctx of contexts) {
+      await ctx.rebuild();
+      await ctx.dispose();
+    }
   }
 }
 
@@ -0,0 +1,135 @@
+import { describe, it, expect } from "vitest";
+import { bomCoordinate, filterBoms, hardcodedPinned, summarizeBoms } from "./bom-explorer";
+import { ResolutionsDump, ResolutionsIndex } from "./resolutions";
+
+const jackson = "com.fasterxml.jackson:jackson-bom:2.17.0@2.13";
+const other = "com.example:other-bom:1.0.0@2.13";
+const unused = "com.example:unused-bom:0.1.0@2.13";
+
+const dump: ResolutionsDump = {
+  version: 1,
+  boms: {
+    [other]: {
+      organization: "com.example",
+      name: "other-bom",
+      version: "1.0.0",
+      entries: [
+        { organization: "com.fasterxml.jackson.core", name: "jackson-databind", version: "9.9.9" },
+        { organization: "com.example", name: "thing", version: "1.2.3" },
+      ],
+    },
+    [jackson]: {
+      organization: "com.fasterxml.jackson",
+      name: "jackson-bom",
+      version: "2.17.0",
+      entries: [
+        { organization: "com.fasterxml.jackson.core", name: "jackson-databind", version: "2.17.0" },
+        { organization: "org.typelevel", name: "cats-core_2.13", version: "2.10.0" },
+      ],
+    },
+    [unused]: { organization: "com.example", name: "unused-bom", version: "0.1.0", entries: [] },
+  },
+  projects: {
+    core: { scalaBinaryVersions: ["2.13"], boms: [jackson, other], variables: [] },
+    api: { scalaBinaryVersions: ["2.13"], boms: [other], variables: [] },
+  },
+};
+
+const metaDump: ResolutionsDump = {
+  version: 1,
+  boms: {
+    "com.example:plugin-bom:1.0.0@2.12": {
+      organization: "com.example",
+      name: "plugin-bom",
+      version: "1.0.0",
+      entries: [{ organization: "com.example", name: "sbt-thing", version: "0.4.0" }],
+    },
+  },
+  projects: { "sbt-build": { scalaBinaryVersions: ["2.12"], boms: ["com.example:plugin-bom:1.0.0@2.12"], variables: [] } },
+};
+
+describe("summarizeBoms", () => {
+  it("lists the BOMs of both dumps with the groups importing them, unused ones last", () => {
+    const boms = summarizeBoms(dump, metaDump);
+
+    expect(boms.map((b) => [bomCoordinate(b), b.groups])).toEqual([
+      ["com.example:other-bom:1.0.0", ["api", "core"]],
+      ["com.example:plugin-bom:1.0.0", ["sbt-build"]],
+      ["com.fasterxml.jackson:jackson-bom:2.17.0", ["core"]],
+      ["com.example:unused-bom:0.1.0", []],
+    ]);
+  });
+
+  it("marks pins a BOM imported before shadows", () => {
+    const boms = summarizeBoms(dump);
+    const otherBom = boms.find((b) => b.key === other)!;
+
+    expect(otherBom.pins[0].shadowedBy).toEqual([
+      { group: "core", bom: "com.fasterxml.jackson:jackson-bom:2.17.0", version: "2.17.0" },
+    ]);
+    expect(otherBom.pins[1].shadowedBy).toEqual([]);
+    expect(boms.find((b) => b.key === jackson)!.pins.every((p) => p.shadowedBy.length === 0)).toBe(true);
+  });
+
+  it("returns nothing without dumps", () => {
+    expect(summarizeBoms(undefined, undefined)).toEqual([]);
+  });
+});
+
+describe("filterBoms", () => {
+  const boms = summarizeBoms(dump);
+
+  it("keeps every pin of a BOM matching by coordinate", () => {
+    const [bom] = filterBoms(boms, "JACKSON-BOM");
+
+    expect(bom.key).toBe(jackson);
+    expect(bom.pins).toHaveLength(2);
+  });
+
+  it("keeps only the matching pins otherwise", () => {
+    const result = filterBoms(boms, "databind");
+
+    expect(result.map((b) => b.key)).toEqual([other, jackson]);
+    expect(result.map((b) => b.pins.map((p) => p.name))).toEqual([["jackson-databind"], ["jackson-databind"]]);
+  });
+
+  it("keeps everything for an empty query", () => {
+    expect(filterBoms(boms, "  ")).toBe(boms);
+  });
+});
+
+describe("hardcodedPinned", () => {
+  const lookup = new ResolutionsIndex(dump, undefined).asLookup(false);
+  const boms = summarizeBoms(dump);
+  const jacksonBom = boms.find((b) => b.key === jackson)!;
+  const otherBom = boms.find((b) => b.key === other)!;
+
+  const lines = [
+    "core = [",
+    '  "com.fasterxml.jackson.core:jackson-databind:2.16.0"',
+    '  { dependency = "org.typelevel::cats-core:2.9.0", note = "x" }',
+    '  "com.example:thing:*"',
+    "]",
+    "api = [",
+    '  "com.fasterxml.jackson.core:jackson-databind:2.15.0"',
+    '  "com.example:thing:1.0.0"',
+    "]",
+  ];
+
+  it("finds hardcoded versions in the groups where the BOM wins the pin", () => {
+    expect(hardcodedPinned(lines, lookup, jacksonBom, jacksonBom.pins[0])).toEqual([
+      { group: "core", range: { startLine: 1, startCol: 3, endLine: 1, endCol: 53 }, version: "2.16.0" },
+    ]);
+    expect(hardcodedPinned(lines, lookup, otherBom, otherBom.pins[0]).map((h) => h.group)).toEqual(["api"]);
+  });
+
+  it("matches cross-built artifacts and object entries", () => {
+    expect(hardcodedPinned(lines, lookup, jacksonBom, jacksonBom.pins[1])).toEqual([
+      { group: "core", range: { startLine: 2, startCol: 18, endLine: 2, endCol: 48 }, version: "2.9.0" },
+    ]);
+  });
+
+  it("skips dependencies already using `*`", () => {
+    expect(hardcodedPinned(lines, lookup, otherBom, otherBom.pins[1]).map((h) => h.version)).toEqual(["1.0.0"]);
+  });
+});
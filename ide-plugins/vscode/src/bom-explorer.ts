@@ -0,0 +1,146 @@
+import { parseDependency } from "./hover";
+import { dependencyOf, rangeOf, toDocument, DocumentSource, TextRange } from "./parser";
+import { ResolutionLookup, ResolutionsDump } from "./resolutions";
+import { parseNumeric } from "./version";
+
+/** A group where a pin loses to the same artifact pinned by a BOM imported before. */
+export interface PinShadow {
+  group: string;
+  /** The `org:name:version` of the BOM that wins. */
+  bom: string;
+  /** The version the winning BOM pins. */
+  version: string;
+}
+
+/** One pin of a BOM, with the groups where a higher-precedence BOM shadows it. */
+export interface BomPinSummary {
+  organization: string;
+  name: string;
+  version: string;
+  shadowedBy: PinShadow[];
+}
+
+/** A BOM from the resolutions dump, with the groups importing it and its pins. */
+export interface BomSummary {
+  /** The BOM's key in the dump (`org:name:version@scalaBinaryVersion`). */
+  key: string;
+  organization: string;
+  name: string;
+  version: string;
+  /** The groups that see this BOM, sorted. */
+  groups: string[];
+  pins: BomPinSummary[];
+}
+
+/** A dependency with a hardcoded version that a BOM's pin could manage instead. */
+export interface HardcodedPin {
+  group: string;
+  /** The range of the dependency string (inside its quotes). */
+  range: TextRange;
+  version: string;
+}
+
+/** The `org:name:version` a BOM is shown as. */
+export function bomCoordinate(bom: { organization: string; name: string; version: string }): string {
+  return `${bom.organization}:${bom.name}:${bom.version}`;
+}
+
+/**
+ * Summarizes the BOMs of the main and meta-build dumps: which groups import each one and, for every pin, the groups
+ * where a BOM earlier in their precedence order pins the same artifact (first BOM wins, as in the plugin). BOMs no
+ * group imports are kept, sorted after the rest by coordinate.
+ */
+export function summarizeBoms(...dumps: (ResolutionsDump | undefined)[]): BomSummary[] {
+  const summaries: BomSummary[] = [];
+
+  for (const dump of dumps) {
+    if (!dump) continue;
+
+    // `org:name` → version, per BOM, to find what an earlier BOM pins
+    const pinsByBom = new Map<string, Map<string, string>>();
+    for (const [key, bom] of Object.entries(dump.boms)) {
+      pinsByBom.set(key, new Map(bom.entries.map((pin) => [`${pin.organization}:${pin.name}`, pin.version])));
+    }
+
+    for (const [key, bom] of Object.entries(dump.boms)) {
+      const groups = Object.keys(dump.projects)
+        .filter((group) => dump.projects[group].boms.includes(key))
+        .sort();
+
+      const pins = bom.entries.map((pin): BomPinSummary => {
+        const shadowedBy: PinShadow[] = [];
+        for (const group of groups) {
+          const precedence = dump.projects[group].boms;
+          for (const earlier of precedence.slice(0, precedence.indexOf(key))) {
+            const version = pinsByBom.get(earlier)?.get(`${pin.organization}:${pin.name}`);
+            const winner = dump.boms[earlier];
+            if (version === undefined || !winner) continue;
+            shadowedBy.push({ group, bom: bomCoordinate(winner), version });
+            break;
+          }
+        }
+        return { ...pin, shadowedBy };
+      });
+
+      summaries.push({ key, organization: bom.organization, name: bom.name, version: bom.version, groups, pins });
+    }
+  }
+
+  return summaries.sort(
+    (a, b) =>
+      Number(a.groups.length === 0) - Number(b.groups.length === 0) || bomCoordinate(a).localeCompare(bomCoordinate(b))
+  );
+}
+
+/**
+ * Narrows BOMs to those matching `query` (case-insensitive, on `org:name:version` or on a pin's `org:name`). A BOM
+ * matching by coordinate keeps every pin; otherwise only the matching pins are kept. An empty query keeps everything.
+ */
+export function filterBoms(boms: BomSummary[], query: string): BomSummary[] {
+  const needle = query.trim().toLowerCase();
+  if (!needle) return boms;
+
+  return boms.flatMap((bom) => {
+    if (bomCoordinate(bom).toLowerCase().includes(needle)) return [bom];
+    const pins = bom.pins.filter((pin) => `${pin.organization}:${pin.name}`.toLowerCase().includes(needle));
+    return pins.length > 0 ? [{ ...bom, pins }] : [];
+  });
+}
+
+/**
+ * The dependencies of `source` hardcoding the version of an artifact `pin` manages, in the groups where `bom` is the
+ * one pinning it (so replacing the version with `*` would resolve through this BOM). Skips `*`, `{{variable}}` and
+ * `bom`/`sbt-plugin` dependencies, as the BOM-managed quick fix does.
+ */
+export function hardcodedPinned(
+  source: DocumentSource,
+  lookup: ResolutionLookup,
+  bom: BomSummary,
+  pin: BomPinSummary
+): HardcodedPin[] {
+  const document = toDocument(source);
+  const results: HardcodedPin[] = [];
+
+  for (const group of document.groups) {
+    if (!bom.groups.includes(group.name)) continue;
+
+    for (const entry of group.entries) {
+      const field = dependencyOf(entry);
+      const dep = field && parseDependency(field.value);
+      if (!field || !dep?.version || !parseNumeric(dep.version)) continue;
+      if (dep.config === "bom" || dep.config === "sbt-plugin") continue;
+
+      const isCross = dep.separator === "::";
+      const samePin =
+        dep.org === pin.organization && (pin.name === dep.artifact || (isCross && pin.name.startsWith(`${dep.artifact}_`)));
+      if (!samePin) continue;
+
+      const winner = lookup.pinFor(group.name, dep.org, dep.artifact, isCross)?.bom;
+      if (winner && bomCoordinate(winner) === bomCoordinate(bom)) {
+        results.push({ group: group.name, range: rangeOf(document, field.valueSpan), version: dep.version });
+      }
+    }
+  }
+
+  return results;
+}
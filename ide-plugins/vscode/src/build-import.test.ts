@@ -1,28 +1,63 @@
 import { describe, it, expect } from "vitest";
-import { shouldPromptImport } from "./build-import";
+import { chooseImportBackend, importStatusBarTooltip, shouldPromptImport, ImportEnvironment } from "./build-import";
 
 describe("shouldPromptImport", () => {
-  it("prompts when stale, Metals is installed and the content is new", () => {
-    expect(shouldPromptImport(true, true, undefined, "abc")).toBe(true);
+  it("prompts when stale, a back end can import and the content is new", () => {
+    expect(shouldPromptImport(true, "metals", undefined, "abc")).toBe(true);
+    expect(shouldPromptImport(true, "sbtn", undefined, "abc")).toBe(true);
   });
 
   it("prompts again when the content changed since the last prompt", () => {
-    expect(shouldPromptImport(true, true, "abc", "def")).toBe(true);
+    expect(shouldPromptImport(true, "metals", "abc", "def")).toBe(true);
   });
 
   it("does not prompt twice for the same content", () => {
-    expect(shouldPromptImport(true, true, "abc", "abc")).toBe(false);
+    expect(shouldPromptImport(true, "metals", "abc", "abc")).toBe(false);
   });
 
   it("does not prompt when the buffer matches the last import", () => {
-    expect(shouldPromptImport(false, true, undefined, "abc")).toBe(false);
+    expect(shouldPromptImport(false, "metals", undefined, "abc")).toBe(false);
   });
 
   it("does not prompt when staleness is unknown (no dump)", () => {
-    expect(shouldPromptImport(undefined, true, undefined, "abc")).toBe(false);
+    expect(shouldPromptImport(undefined, "metals", undefined, "abc")).toBe(false);
   });
 
-  it("does not prompt when Metals is not installed", () => {
-    expect(shouldPromptImport(true, false, undefined, "abc")).toBe(false);
+  it("does not prompt when no back end can import", () => {
+    expect(shouldPromptImport(true, undefined, undefined, "abc")).toBe(false);
+  });
+});
+
+describe("chooseImportBackend", () => {
+  const none: ImportEnvironment = { metalsInstalled: false, sbtServerRunning: false, customCommand: "" };
+
+  it("prefers Metals, then the sbt server, then sbtn", () => {
+    expect(chooseImportBackend("auto", { ...none, metalsInstalled: true, sbtServerRunning: true })).toBe("metals");
+    expect(chooseImportBackend("auto", { ...none, sbtServerRunning: true })).toBe("sbtServer");
+    expect(chooseImportBackend("auto", none)).toBe("sbtn");
+  });
+
+  it("uses Metals only when installed", () => {
+    expect(chooseImportBackend("metals", { ...none, metalsInstalled: true })).toBe("metals");
+    expect(chooseImportBackend("metals", none)).toBeUndefined();
+  });
+
+  it("uses the custom command only when set", () => {
+    expect(chooseImportBackend("command", { ...none, customCommand: "./sbt reload" })).toBe("command");
+    expect(chooseImportBackend("command", { ...none, customCommand: "  " })).toBeUndefined();
+  });
+
+  it("always uses the sbt server and sbtn back ends", () => {
+    expect(chooseImportBackend("sbtServer", none)).toBe("sbtServer");
+    expect(chooseImportBackend("sbtn", { ...none, metalsInstalled: true })).toBe("sbtn");
+  });
+});
+
+describe("importStatusBarTooltip", () => {
+  it("names what clicking does", () => {
+    expect(importStatusBarTooltip("metals")).toBe(
+      "dependencies.conf changed since the last sbt import. Click to import the build with Metals."
+    );
+    expect(importStatusBarTooltip(undefined)).toBe("dependencies.conf changed since the last sbt import. Click to reload the build.");
   });
 });
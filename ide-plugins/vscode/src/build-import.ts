@@ -1,30 +1,76 @@
 /**
  * Decision logic for the "import sbt build" prompt shown when `dependencies.conf` changes after the last sbt
  * (re)load, mirroring the IntelliJ plugin's reload widget. Metals' own change detection only covers `.sbt`,
- * `.scala` and `build.properties` files, so the extension prompts itself and delegates the import to Metals.
+ * `.scala` and `build.properties` files, so the extension prompts itself and delegates the import to Metals, the
+ * running sbt server, `sbtn` or a user-defined command.
  *
  * Pure module: the vscode wiring (status bar item, notification, command) lives in `extension.ts`.
  */
 
+/** How the build gets reloaded. */
+export type ImportBackend = "metals" | "sbtServer" | "sbtn" | "command";
+
+/** The `sbt-dependencies.buildImport.backend` setting: a back end, or `auto` to pick the first one available. */
+export type ImportBackendSetting = ImportBackend | "auto";
+
+/** What is available to reload the build with. */
+export interface ImportEnvironment {
+  metalsInstalled: boolean;
+  /** Whether the build has an sbt server running (its `project/target/active.json` exists). */
+  sbtServerRunning: boolean;
+  /** The `sbt-dependencies.buildImport.command` setting. */
+  customCommand: string;
+}
+
 export const importStatusBarText = "$(warning) sbt build outdated";
 
-export const importStatusBarTooltip =
-  "dependencies.conf changed since the last sbt import. Click to import the build with Metals.";
+/** How each back end is described in the status bar tooltip. */
+const backendDescriptions: Record<ImportBackend, string> = {
+  metals: "import the build with Metals",
+  sbtServer: "reload the build on the running sbt server",
+  sbtn: "reload the build with `sbtn reload`",
+  command: "reload the build with the configured command",
+};
 
 export const importPromptMessage = "dependencies.conf changed since the last sbt import.";
 
 export const importPromptButton = "Import build";
 
+/** The status bar tooltip, naming what clicking it does. */
+export function importStatusBarTooltip(backend: ImportBackend | undefined): string {
+  const action = backend ? backendDescriptions[backend] : "reload the build";
+  return `dependencies.conf changed since the last sbt import. Click to ${action}.`;
+}
+
+/**
+ * The back end to reload the build with. `auto` picks Metals when installed, then the running sbt server, then
+ * `sbtn`. An explicit back end is used as long as it can run: `metals` needs the extension and `command` a
+ * non-empty command. Returns `undefined` otherwise.
+ */
+export function chooseImportBackend(setting: ImportBackendSetting, environment: ImportEnvironment): ImportBackend | undefined {
+  switch (setting) {
+    case "auto":
+      if (environment.metalsInstalled) return "metals";
+      return environment.sbtServerRunning ? "sbtServer" : "sbtn";
+    case "metals":
+      return environment.metalsInstalled ? "metals" : undefined;
+    case "command":
+      return environment.customCommand.trim() ? "command" : undefined;
+    default:
+      return setting;
+  }
+}
+
 /**
- * Whether saving a document warrants the import notification: the buffer is stale against the last import, Metals
- * is installed to execute it, and this exact content hasn't been prompted for already (so the notification shows
+ * Whether saving a document warrants the import notification: the buffer is stale against the last import, there
+ * is a back end to execute it, and this exact content hasn't been prompted for already (so the notification shows
  * once per change, not on every save).
  */
 export function shouldPromptImport(
   stale: boolean | undefined,
-  metalsInstalled: boolean,
+  backend: ImportBackend | undefined,
   alreadyPromptedHash: string | undefined,
   currentHash: string
 ): boolean {
-  return stale === true && metalsInstalled && alreadyPromptedHash !== currentHash;
+  return stale === true && backend !== undefined && alreadyPromptedHash !== currentHash;
 }
@@ -0,0 +1,74 @@
+import * as path from "node:path";
+import { describe, it, expect } from "vitest";
+import { buildRootOf, buildRootsOf, buildSbtPathOf, chooseBuildRoot, dependenciesConfPathOf, isBuildRoot } from "./build-roots";
+
+/** A fake file system holding a root build and a nested one under `services/api`. */
+const files = new Set(
+  [
+    "/repo/build.sbt",
+    "/repo/project/build.properties",
+    "/repo/project/dependencies.conf",
+    "/repo/services/api/build.sbt",
+    "/repo/services/api/project/dependencies.conf",
+    "/other/project/build.properties",
+  ].map(path.normalize)
+);
+const exists = (file: string) => files.has(path.normalize(file));
+
+describe("isBuildRoot", () => {
+  it("recognizes build.sbt, build.properties and dependencies.conf", () => {
+    expect(isBuildRoot("/repo", exists)).toBe(true);
+    expect(isBuildRoot("/other", exists)).toBe(true);
+    expect(isBuildRoot("/repo/services", exists)).toBe(false);
+  });
+});
+
+describe("buildRootOf", () => {
+  it("finds the closest build above a file", () => {
+    expect(buildRootOf("/repo/modules/core/src/Main.scala", undefined, exists)).toBe(path.normalize("/repo"));
+    expect(buildRootOf("/repo/services/api/build.sbt", undefined, exists)).toBe(path.normalize("/repo/services/api"));
+    expect(buildRootOf("/repo/services/api/src/Api.scala", undefined, exists)).toBe(path.normalize("/repo/services/api"));
+  });
+
+  it("owns a build's project/ files by the build, not the meta-build", () => {
+    expect(buildRootOf("/repo/services/api/project/dependencies.conf", undefined, exists)).toBe(
+      path.normalize("/repo/services/api")
+    );
+    expect(buildRootOf("/other/project/plugins.sbt", undefined, exists)).toBe(path.normalize("/other"));
+  });
+
+  it("stops at the workspace folder", () => {
+    expect(buildRootOf("/repo/services/web/src/Web.scala", "/repo/services", exists)).toBeUndefined();
+    expect(buildRootOf("/elsewhere/file.txt", undefined, exists)).toBeUndefined();
+  });
+});
+
+describe("buildRootsOf", () => {
+  it("returns the distinct roots of the files, sorted", () => {
+    expect(
+      buildRootsOf(
+        ["/repo/services/api/project/dependencies.conf", "/repo/build.sbt", "/repo/project/dependencies.conf", "/tmp/x"],
+        exists
+      )
+    ).toEqual([path.normalize("/repo"), path.normalize("/repo/services/api")]);
+  });
+});
+
+describe("chooseBuildRoot", () => {
+  it("prefers the active file's build", () => {
+    expect(chooseBuildRoot(["/a", "/b"], "/b")).toBe("/b");
+  });
+
+  it("uses the only build otherwise, and leaves the choice to the user when there are several", () => {
+    expect(chooseBuildRoot(["/a"], undefined)).toBe("/a");
+    expect(chooseBuildRoot(["/a", "/b"], undefined)).toBeUndefined();
+    expect(chooseBuildRoot([], undefined)).toBeUndefined();
+  });
+});
+
+describe("paths", () => {
+  it("places dependencies.conf and build.sbt in the build", () => {
+    expect(dependenciesConfPathOf("/repo")).toBe(path.join("/repo", "project", "dependencies.conf"));
+    expect(buildSbtPathOf("/repo")).toBe(path.join("/repo", "build.sbt"));
+  });
+});
@@ -0,0 +1,67 @@
+import * as fs from "node:fs";
+import * as path from "node:path";
+
+/**
+ * Discovery of the sbt builds in a workspace. A build root is a directory holding a `build.sbt`, or a `project/`
+ * directory with `build.properties` or `dependencies.conf`. Every file belongs to the closest build root above it,
+ * so monorepos with builds in subdirectories and multi-root workspaces work the same as a single build.
+ */
+
+/** Whether the directory at `dir` is the root of an sbt build. */
+export function isBuildRoot(dir: string, exists: (file: string) => boolean = fs.existsSync): boolean {
+  return (
+    exists(path.join(dir, "build.sbt")) ||
+    exists(path.join(dir, "project", "build.properties")) ||
+    exists(path.join(dir, "project", "dependencies.conf"))
+  );
+}
+
+/**
+ * The root of the sbt build owning the file at `filePath`: the closest build root among its ancestors, not looking
+ * above `stopAt` (the workspace folder). A `project/` directory is its build's meta-build, never a root of its own.
+ */
+export function buildRootOf(
+  filePath: string,
+  stopAt?: string,
+  exists: (file: string) => boolean = fs.existsSync
+): string | undefined {
+  let dir = path.dirname(filePath);
+
+  for (;;) {
+    if (path.basename(dir) !== "project" && isBuildRoot(dir, exists)) return dir;
+    if (stopAt !== undefined && path.relative(stopAt, dir) === "") return undefined;
+
+    const parent = path.dirname(dir);
+    if (parent === dir) return undefined;
+    dir = parent;
+  }
+}
+
+/** The `dependencies.conf` of the build at `root`. */
+export function dependenciesConfPathOf(root: string): string {
+  return path.join(root, "project", "dependencies.conf");
+}
+
+/** The `build.sbt` of the build at `root`. */
+export function buildSbtPathOf(root: string): string {
+  return path.join(root, "build.sbt");
+}
+
+/** The distinct build roots owning `files`, sorted. Files outside any build are ignored. */
+export function buildRootsOf(files: string[], exists: (file: string) => boolean = fs.existsSync): string[] {
+  const roots = new Set<string>();
+  for (const file of files) {
+    const root = buildRootOf(file, undefined, exists);
+    if (root) roots.add(root);
+  }
+  return [...roots].sort();
+}
+
+/**
+ * The build a command runs against: the one owning the active file, or the only build of the workspace. Returns
+ * `undefined` when that is ambiguous (or there is no build), for the caller to ask.
+ */
+export function chooseBuildRoot(roots: string[], activeRoot: string | undefined): string | undefined {
+  if (activeRoot) return activeRoot;
+  return roots.length === 1 ? roots[0] : undefined;
+}
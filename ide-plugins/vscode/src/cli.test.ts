@@ -0,0 +1,147 @@
+import { describe, it, expect } from "vitest";
+import { runCli, CliIo } from "./cli";
+
+/** An in-memory file system, capturing what the CLI prints and writes. */
+function memoryIo(files: Record<string, string>, editorConfigs: Record<string, string> = {}) {
+  const out: string[] = [];
+  const err: string[] = [];
+  const io: CliIo = {
+    readFile: (file) => {
+      if (!(file in files)) throw new Error("no such file");
+      return files[file];
+    },
+    writeFile: (file, text) => {
+      files[file] = text;
+    },
+    editorConfigFiles: () => Object.entries(editorConfigs).map(([dir, text]) => ({ dir, text })),
+    stdout: (text) => out.push(text),
+    stderr: (text) => err.push(text),
+  };
+  return { io, files, stdout: () => out.join(""), stderr: () => err.join("") };
+}
+
+const formatted = ["core = [", '  "co.fs2::fs2-core:3.9.4"', '  "org.typelevel::cats-core:2.10.0"', "]", ""].join("\n");
+const unsorted = ["core = [", '  "org.typelevel::cats-core:2.10.0"', '  "co.fs2::fs2-core:3.9.4"', "]", ""].join("\n");
+const invalid = ["core = [", '  "co.fs2::fs2-core:3.9.4"', '  "not a dependency"', "]", ""].join("\n");
+
+describe("runCli check", () => {
+  it("passes on files without errors", () => {
+    const { io, stdout } = memoryIo({ "a.conf": formatted });
+    expect(runCli(["check", "a.conf"], io)).toBe(0);
+    expect(stdout()).toBe("");
+  });
+
+  it("prints diagnostics one-based and fails on errors", () => {
+    const { io, stdout } = memoryIo({ "a.conf": invalid });
+    expect(runCli(["check", "a.conf"], io)).toBe(1);
+    expect(stdout()).toMatch(/^a\.conf:3:4: error: Malformed dependency/);
+  });
+
+  it("reads project/dependencies.conf by default", () => {
+    const { io, stderr } = memoryIo({});
+    expect(runCli(["check"], io)).toBe(2);
+    expect(stderr()).toContain("dependencies.conf: no such file");
+  });
+
+  it("writes the diagnostics as JSON", () => {
+    const { io, stdout } = memoryIo({ "a.conf": invalid });
+    runCli(["check", "--output", "json", "a.conf"], io);
+    const report = JSON.parse(stdout());
+    expect(report.files).toHaveLength(1);
+    expect(report.files[0].file).toBe("a.conf");
+    expect(report.files[0].diagnostics[0]).toMatchObject({ severity: "error", range: { startLine: 2, startCol: 3 } });
+  });
+
+  it("writes the diagnostics as SARIF", () => {
+    const { io, stdout } = memoryIo({ "a.conf": invalid });
+    runCli(["check", "--output", "sarif", "a.conf"], io);
+    const log = JSON.parse(stdout());
+    expect(log.version).toBe("2.1.0");
+    expect(log.runs[0].tool.driver.name).toBe("sbt-dependencies-lint");
+    expect(log.runs[0].results[0]).toMatchObject({
+      ruleId: "diagnostic",
+      level: "error",
+      locations: [{ physicalLocation: { artifactLocation: { uri: "a.conf" }, region: { startLine: 3, startColumn: 4 } } }],
+    });
+  });
+});
+
+describe("runCli format", () => {
+  it("reports unformatted files with --check", () => {
+    const { io, files, stdout } = memoryIo({ "a.conf": unsorted, "b.conf": formatted });
+    expect(runCli(["format", "--check", "a.conf", "b.conf"], io)).toBe(1);
+    expect(stdout()).toBe("a.conf: File is not formatted\n");
+    expect(files["a.conf"]).toBe(unsorted);
+  });
+
+  it("accepts CRLF line endings as formatted", () => {
+    const { io } = memoryIo({ "a.conf": formatted.replace(/\n/g, "\r\n") });
+    expect(runCli(["format", "--check", "a.conf"], io)).toBe(0);
+  });
+
+  it("formats files in place with --write", () => {
+    const { io, files } = memoryIo({ "a.conf": unsorted });
+    expect(runCli(["format", "--write", "a.conf"], io)).toBe(0);
+    expect(files["a.conf"]).toBe(formatted);
+  });
+
+  it("follows the style options and .editorconfig", () => {
+    const fromOption = memoryIo({ "a.conf": unsorted });
+    runCli(["format", "--write", "--indent-width", "4", "--sort-order", "preserve", "a.conf"], fromOption.io);
+    expect(fromOption.files["a.conf"]).toBe(unsorted.replace(/^ {2}/gm, "    "));
+
+    const fromEditorConfig = memoryIo({ "a.conf": unsorted }, { "/": "[*]\nindent_size = 3\n" });
+    runCli(["format", "--write", "a.conf"], fromEditorConfig.io);
+    expect(fromEditorConfig.files["a.conf"]).toBe(formatted.replace(/^ {2}/gm, "   "));
+  });
+
+  it.each([["--check"], ["--write"]])("fails on files with syntax errors with %s", (mode) => {
+    const broken = 'core = [\n  "b:b:1"\n  "a:a:1"\n';
+    const { io, files, stdout } = memoryIo({ "a.conf": broken });
+    expect(runCli(["format", mode, "a.conf"], io)).toBe(1);
+    expect(stdout()).toMatch(/^a\.conf: File is not formatted\na\.conf:1:8: error: /);
+    expect(files["a.conf"]).toBe(broken);
+  });
+
+  it("reports syntax errors in JSON", () => {
+    const { io, stdout } = memoryIo({ "a.conf": "core = [\n" });
+    runCli(["format", "--check", "--output", "json", "a.conf"], io);
+    const [report] = JSON.parse(stdout()).files;
+    expect(report).toMatchObject({ file: "a.conf", formatted: false, diagnostics: [{ severity: "error" }] });
+  });
+
+  it("reports unformatted files in SARIF", () => {
+    const { io, stdout } = memoryIo({ "a.conf": unsorted });
+    runCli(["format", "--check", "--output", "sarif", "a.conf"], io);
+    expect(JSON.parse(stdout()).runs[0].results).toEqual([
+      {
+        ruleId: "formatting",
+        level: "error",
+        message: { text: "File is not formatted" },
+        locations: [{ physicalLocation: { artifactLocation: { uri: "a.conf" } } }],
+      },
+    ]);
+  });
+});
+
+describe("runCli usage", () => {
+  it.each([
+    [[]],
+    [["lint"]],
+    [["format", "a.conf"]],
+    [["check", "--write"]],
+    [["format", "--check", "--indent-width", "0"]],
+    [["check", "--output", "xml"]],
+    [["check", "--verbose"]],
+  ])("rejects %j", (args) => {
+    const { io, stderr } = memoryIo({});
+    expect(runCli(args, io)).toBe(2);
+    expect(stderr()).toContain("Usage: sbt-dependencies-lint");
+  });
+
+  it("prints the help", () => {
+    const { io, stdout } = memoryIo({});
+    expect(runCli(["--help"], io)).toBe(0);
+    expect(stdout()).toContain("format --check");
+  });
+});
@@ -0,0 +1,313 @@
+import * as fs from "node:fs";
+import * as path from "node:path";
+import { parseDiagnostics, DiagnosticResult } from "./diagnostics";
+import { editorConfigIndentWidth, readEditorConfigFiles, EditorConfigFile } from "./editorconfig";
+import { defaultFormatOptions, formatDocument, FormatOptions } from "./formatting";
+import { parseText, rangeOf } from "./parser";
+
+/**
+ * `sbt-dependencies-lint`: the diagnostics and formatter of the extension as a command-line tool, so that pre-commit
+ * hooks and code review bots can run the same rules on `dependencies.conf` files without an editor or sbt.
+ */
+
+/** What the CLI reads and writes, so that it can run against something other than the file system. */
+export interface CliIo {
+  /** The text of the file at `file`; throws when it can't be read. */
+  readFile(file: string): string;
+  writeFile(file: string, text: string): void;
+  /** The `.editorconfig` files of the directories above the file at `file`, closest first. */
+  editorConfigFiles(file: string): EditorConfigFile[];
+  stdout(text: string): void;
+  stderr(text: string): void;
+}
+
+type OutputFormat = "text" | "json" | "sarif";
+
+interface CliOptions {
+  command: "check" | "format";
+  mode: "check" | "write";
+  output: OutputFormat;
+  strict: boolean;
+  files: string[];
+  style: Partial<FormatOptions>;
+}
+
+/** The diagnostics of a file, and whether it is formatted. */
+interface FileReport {
+  file: string;
+  /** Every diagnostic for `check`; the syntax errors keeping the file from being formatted for `format`. */
+  diagnostics: DiagnosticResult[];
+  /** Whether the file is formatted; `undefined` for `check`. */
+  formatted?: boolean;
+}
+
+const toolName = "sbt-dependencies-lint";
+const informationUri = "https://github.com/alejandrohdezma/sbt-dependencies";
+const defaultFile = path.join("project", "dependencies.conf");
+const unformattedMessage = "File is not formatted";
+
+export const usage = `Usage: ${toolName} <command> [options] [files...]
+
+Commands:
+  check                Report the diagnostics of each file, failing on errors
+  format --check       Report the files that aren't formatted, failing when any isn't
+  format --write       Format the files in place
+
+Options:
+  --output <format>                text (default), json or sarif
+  --strict                         Fail on warnings too (check)
+  --indent-width <n>               Spaces per indentation level (default: .editorconfig's indent_size, or 2)
+  --max-object-line-length <n>     Longest single-line object entry (default: 120)
+  --expand-objects                 Always write object entries on several lines
+  --sort-order <order>             config-first (default), org-first or preserve
+  -h, --help                       Show this help
+
+Files default to ${defaultFile}. Exits with 1 when problems are found, and 2 on invalid usage or unreadable files.`;
+
+/** The options of `args`, or an error message when they are invalid. */
+function parseArgs(args: string[]): CliOptions | string {
+  const [command, ...rest] = args;
+  if (command !== "check" && command !== "format") return command ? `Unknown command '${command}'` : "Missing command";
+
+  const options: CliOptions = { command, mode: "check", output: "text", strict: false, files: [], style: {} };
+  let mode: "check" | "write" | undefined;
+
+  for (let i = 0; i < rest.length; i++) {
+    const arg = rest[i];
+    const value = () => rest[++i];
+    const positive = (name: string): number | string => {
+      const n = Number(value());
+      return Number.isInteger(n) && n > 0 ? n : `${name} takes a positive integer`;
+    };
+
+    switch (arg) {
+      case "--check":
+      case "--write":
+        if (command !== "format") return `${arg} only applies to format`;
+        if (mode && mode !== arg.slice(2)) return "--check and --write can't be combined";
+        mode = arg === "--check" ? "check" : "write";
+        break;
+      case "--output": {
+        const output = value();
+        if (output !== "text" && output !== "json" && output !== "sarif") return "--output takes text, json or sarif";
+        options.output = output;
+        break;
+      }
+      case "--strict":
+        options.strict = true;
+        break;
+      case "--indent-width": {
+        const width = positive(arg);
+        if (typeof width === "string") return width;
+        options.style.indentWidth = width;
+        break;
+      }
+      case "--max-object-line-length": {
+        const length = positive(arg);
+        if (typeof length === "string") return length;
+        options.style.maxObjectLineLength = length;
+        break;
+      }
+      case "--expand-objects":
+        options.style.expandObjects = true;
+        break;
+      case "--sort-order": {
+        const order = value();
+        if (order !== "config-first" && order !== "org-first" && order !== "preserve") {
+          return "--sort-order takes config-first, org-first or preserve";
+        }
+        options.style.sortOrder = order;
+        break;
+      }
+      default:
+        if (arg.startsWith("-")) return `Unknown option '${arg}'`;
+        options.files.push(arg);
+    }
+  }
+
+  if (command === "format") {
+    if (!mode) return "format takes --check or --write";
+    options.mode = mode;
+  }
+  if (options.files.length === 0) options.files.push(defaultFile);
+  return options;
+}
+
+/** The formatter layout for `file`: the options given, then `.editorconfig`'s indentation, then the defaults. */
+function formatOptionsFor(file: string, style: Partial<FormatOptions>, io: CliIo): FormatOptions {
+  const resolved = path.resolve(file);
+  const indentWidth =
+    style.indentWidth ?? editorConfigIndentWidth(io.editorConfigFiles(resolved), resolved.split(path.sep).join("/"));
+  return { ...defaultFormatOptions, ...style, indentWidth: indentWidth ?? defaultFormatOptions.indentWidth };
+}
+
+/**
+ * Runs the CLI with `args` (without the node and script paths), returning its exit code: 0 when every file passes,
+ * 1 when problems are found and 2 on invalid usage or unreadable files.
+ */
+export function runCli(args: string[], io: CliIo = nodeIo): number {
+  if (args.includes("--help") || args.includes("-h")) {
+    io.stdout(`${usage}\n`);
+    return 0;
+  }
+
+  const options = parseArgs(args);
+  if (typeof options === "string") {
+    io.stderr(`${options}\n\n${usage}\n`);
+    return 2;
+  }
+
+  const reports: FileReport[] = [];
+  let unreadable = false;
+
+  for (const file of options.files) {
+    let text: string;
+    try {
+      text = io.readFile(file);
+    } catch (e) {
+      io.stderr(`${file}: ${e instanceof Error ? e.message : String(e)}\n`);
+      unreadable = true;
+      continue;
+    }
+
+    const document = parseText(text);
+    if (options.command === "check") {
+      reports.push({ file, diagnostics: parseDiagnostics(document) });
+      continue;
+    }
+
+    // The formatter leaves files with syntax errors as they are, which doesn't make them formatted
+    if (document.syntax.errors.length > 0) {
+      const diagnostics = document.syntax.errors.map((error): DiagnosticResult => ({
+        message: error.message,
+        severity: "error",
+        source: "sbt-dependencies",
+        range: rangeOf(document, error.span),
+      }));
+      reports.push({ file, diagnostics, formatted: false });
+      continue;
+    }
+
+    const formatted = formatDocument(document, formatOptionsFor(file, options.style, io));
+    // The formatter writes `\n` line endings, which git may turn into `\r\n` on checkout
+    const unchanged = formatted === text.replace(/\r\n/g, "\n");
+    if (!unchanged && options.mode === "write") io.writeFile(file, formatted);
+    reports.push({ file, diagnostics: [], formatted: unchanged || options.mode === "write" });
+  }
+
+  io.stdout(render(reports, options));
+
+  if (unreadable) return 2;
+  const failing = reports.some(
+    (report) =>
+      report.formatted === false ||
+      report.diagnostics.some((d) => d.severity === "error" || (options.strict && d.severity === "warning"))
+  );
+  return failing ? 1 : 0;
+}
+
+// ── Output ──────────────────────────────────────────────────────────
+
+function render(reports: FileReport[], options: CliOptions): string {
+  switch (options.output) {
+    case "json":
+      return `${JSON.stringify(jsonReport(reports), null, 2)}\n`;
+    case "sarif":
+      return `${JSON.stringify(sarifReport(reports), null, 2)}\n`;
+    default:
+      return textReport(reports);
+  }
+}
+
+/** One `file:line:col: severity: message` line per problem (one-based), as compilers print them. */
+function textReport(reports: FileReport[]): string {
+  const lines = reports.flatMap((report) => [
+    ...(report.formatted === false ? [`${report.file}: ${unformattedMessage}`] : []),
+    ...report.diagnostics.map(
+      (d) => `${report.file}:${d.range.startLine + 1}:${d.range.startCol + 1}: ${d.severity}: ${d.message}`
+    ),
+  ]);
+  return lines.map((line) => `${line}\n`).join("");
+}
+
+/** Every file with its diagnostics (zero-based ranges, as the extension reports them) and formatting state. */
+function jsonReport(reports: FileReport[]): object {
+  return {
+    files: reports.map((report) => ({
+      file: report.file,
+      ...(report.formatted === undefined ? {} : { formatted: report.formatted }),
+      diagnostics: report.diagnostics.map(({ message, severity, range }) => ({ message, severity, range })),
+    })),
+  };
+}
+
+const sarifLevels: Record<DiagnosticResult["severity"], string> = { error: "error", warning: "warning", information: "note" };
+
+/** A SARIF 2.1.0 log of every problem, for code review bots and code scanning. */
+function sarifReport(reports: FileReport[]): object {
+  const uri = (file: string) => file.split(path.sep).join("/");
+  const results = reports.flatMap((report) => [
+    ...report.diagnostics.map((d) => ({
+      ruleId: "diagnostic",
+      level: sarifLevels[d.severity],
+      message: { text: d.message },
+      locations: [
+        {
+          physicalLocation: {
+            artifactLocation: { uri: uri(report.file) },
+            region: {
+              startLine: d.range.startLine + 1,
+              startColumn: d.range.startCol + 1,
+              endLine: d.range.endLine + 1,
+              endColumn: d.range.endCol + 1,
+            },
+          },
+        },
+      ],
+    })),
+    ...(report.formatted === false
+      ? [
+          {
+            ruleId: "formatting",
+            level: "error",
+            message: { text: unformattedMessage },
+            locations: [{ physicalLocation: { artifactLocation: { uri: uri(report.file) } } }],
+          },
+        ]
+      : []),
+  ]);
+
+  return {
+    $schema: "https://json.schemastore.org/sarif-2.1.0.json",
+    version: "2.1.0",
+    runs: [
+      {
+        tool: {
+          driver: {
+            name: toolName,
+            informationUri,
+            rules: [
+              { id: "diagnostic", shortDescription: { text: "dependencies.conf is read by sbt-dependencies as written" } },
+              { id: "formatting", shortDescription: { text: "dependencies.conf is formatted" } },
+            ],
+          },
+        },
+        results,
+      },
+    ],
+  };
+}
+
+// ── Entry point ─────────────────────────────────────────────────────
+
+const nodeIo: CliIo = {
+  readFile: (file) => fs.readFileSync(file, "utf-8"),
+  writeFile: (file, text) => fs.writeFileSync(file, text),
+  editorConfigFiles: (file) => readEditorConfigFiles(file),
+  stdout: (text) => process.stdout.write(text),
+  stderr: (text) => process.stderr.write(text),
+};
+
+if (typeof require !== "undefined" && typeof module !== "undefined" && require.main === module) {
+  process.exitCode = runCli(process.argv.slice(2));
+}
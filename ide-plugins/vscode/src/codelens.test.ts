@@ -68,6 +68,31 @@ describe("parseCodeLenses", () => {
     });
   });
 
+  describe("cross projects", () => {
+    it("gives crossProject one name per platform after the shared one", () => {
+      const lines = ["lazy val core = crossProject(JVMPlatform, JSPlatform)"];
+      const result = parseCodeLenses(lines, ["core-jvm"]);
+      expect(result.map((r) => [r.projectName, r.line, r.groupExists])).toEqual([
+        ["core", 0, false],
+        ["core-jvm", 0, true],
+        ["core-js", 0, false],
+      ]);
+    });
+
+    it("reads projectMatrix platforms from the chained calls", () => {
+      const lines = [
+        'lazy val core = (projectMatrix in file("core"))',
+        "  .settings(commonSettings)",
+        '  .jvmPlatform(scalaVersions = Seq("2.13.12"))',
+        '  .nativePlatform(scalaVersions = Seq("2.13.12"))',
+        "",
+        "lazy val other = project.jsPlatform()",
+      ];
+      const result = parseCodeLenses(lines, []);
+      expect(result.map((r) => r.projectName)).toEqual(["core", "core-jvm", "core-native", "other"]);
+    });
+  });
+
   describe("backtick-quoted names", () => {
     it("extracts backtick-quoted name without backticks", () => {
       const lines = ["lazy val `my-project` = project"];
@@ -111,8 +136,15 @@ describe("parseCodeLenses", () => {
       expect(result).toHaveLength(0);
     });
 
-    it("ignores val without lazy", () => {
-      const lines = ["val core = project"];
+    it("ignores val without lazy unless it defines a project", () => {
+      const lines = ["val core = project", "val settings = Seq()"];
+      const result = parseCodeLenses(lines, []);
+      expect(result).toHaveLength(1);
+      expect(result[0].projectName).toBe("core");
+    });
+
+    it("ignores aliases of a cross project's platforms", () => {
+      const lines = ["lazy val coreJVM = core.jvm", "lazy val coreJS = core.js"];
       const result = parseCodeLenses(lines, []);
       expect(result).toHaveLength(0);
     });
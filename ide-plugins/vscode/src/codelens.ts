@@ -1,29 +1,26 @@
+import { findProjectDefinitions } from "./projects";
+
 export interface CodeLensData {
   line: number;
   projectName: string;
   groupExists: boolean;
 }
 
-const projectPattern = /^\s*lazy\s+val\s+(?:`([^`]+)`|(\w+))\s*=/;
-
+/**
+ * One entry per name of every project definition in a build file, telling whether `dependencies.conf` has a group
+ * for it. Cross projects get an entry for each of their names (`core`, `core-jvm`, `core-js`) on the same line.
+ */
 export function parseCodeLenses(
   buildSbtLines: string[],
   groupNames: string[]
 ): CodeLensData[] {
   const groupSet = new Set(groupNames);
-  const results: CodeLensData[] = [];
-
-  for (let i = 0; i < buildSbtLines.length; i++) {
-    const match = projectPattern.exec(buildSbtLines[i]);
-    if (match) {
-      const projectName = match[1] ?? match[2];
-      results.push({
-        line: i,
-        projectName,
-        groupExists: groupSet.has(projectName),
-      });
-    }
-  }
 
-  return results;
+  return findProjectDefinitions(buildSbtLines).flatMap((definition) =>
+    definition.names.map((projectName) => ({
+      line: definition.line,
+      projectName,
+      groupExists: groupSet.has(projectName),
+    }))
+  );
 }
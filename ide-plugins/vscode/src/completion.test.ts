@@ -0,0 +1,190 @@
+import { describe, it, expect } from "vitest";
+import {
+  completeConfigurations,
+  completeCoordinates,
+  completeCrossVersions,
+  completeFields,
+  completeVariables,
+  coordinateContext,
+  crossVersionContext,
+  fieldContext,
+  variablesIn,
+} from "./completion";
+import { CoursierIndex } from "./coursier-index";
+import { parseText } from "./parser";
+
+const index: CoursierIndex = {
+  organizations: new Map([
+    [
+      "org.typelevel",
+      [
+        { org: "org.typelevel", artifact: "cats-effect", separator: "::", sbtPlugin: false, versions: ["3.5.4"] },
+        { org: "org.typelevel", artifact: "cats-core", separator: "::", sbtPlugin: false, versions: ["2.12.0", "2.10.0"] },
+        { org: "org.typelevel", artifact: "jawn-parser", separator: ":", sbtPlugin: false, versions: ["1.5.1"] },
+      ],
+    ],
+    ["ch.epfl.scala", [{ org: "ch.epfl.scala", artifact: "sbt-scalafix", separator: ":", sbtPlugin: true, versions: ["0.14.0"] }]],
+  ]),
+};
+
+/** The context at the `|` in `line`. */
+function contextAt(line: string) {
+  return coordinateContext(line.replace("|", ""), line.indexOf("|"));
+}
+
+describe("coordinateContext", () => {
+  it("completes organizations from the start of a dependency string", () => {
+    expect(contextAt('  "org.ty|')).toMatchObject({ kind: "organization", start: 3, end: 9, prefix: "org.ty" });
+    expect(contextAt('  { dependency = "|" }')).toMatchObject({ kind: "organization", start: 18, end: 18 });
+    expect(contextAt('core = ["|"]')).toMatchObject({ kind: "organization" });
+  });
+
+  it("completes artifacts from the separator", () => {
+    expect(contextAt('  "org.typelevel:|')).toMatchObject({ kind: "artifact", org: "org.typelevel", start: 16, prefix: ":" });
+    expect(contextAt('  "org.typelevel::ca|ts:2.10.0"')).toMatchObject({
+      kind: "artifact",
+      prefix: "::ca",
+      end: 22,
+      followedByColon: true,
+    });
+  });
+
+  it("completes versions after their marker", () => {
+    expect(contextAt('  "org.typelevel::cats-core:^2.1|"')).toMatchObject({
+      kind: "version",
+      org: "org.typelevel",
+      separator: "::",
+      artifact: "cats-core",
+      start: 29,
+      prefix: "2.1",
+      followedByColon: false,
+    });
+    expect(contextAt('  "org.typelevel::cats-core:|:test"')).toMatchObject({ kind: "version", followedByColon: true });
+  });
+
+  it("ignores notes, keys and configurations", () => {
+    expect(contextAt('  { dependency = "a:b:1.0", note = "|" }')).toBeUndefined();
+    expect(contextAt('  "org.typelevel::cats-core:2.10.0:test:|"')).toBeUndefined();
+    expect(contextAt("  org.type|")).toBeUndefined();
+    expect(contextAt('  "a b|"')).toBeUndefined();
+  });
+});
+
+describe("completeCoordinates", () => {
+  it("lists organizations alphabetically", () => {
+    const items = completeCoordinates(index, contextAt('  "|')!);
+    expect(items.map((i) => [i.label, i.detail])).toEqual([
+      ["ch.epfl.scala", "1 cached artifact(s)"],
+      ["org.typelevel", "3 cached artifact(s)"],
+    ]);
+  });
+
+  it("writes Scala artifacts with `::` and ends them with the version separator", () => {
+    const items = completeCoordinates(index, contextAt('  "org.typelevel:|')!);
+    expect(items.map((i) => [i.label, i.insertText, i.sortText])).toEqual([
+      ["::cats-core", "::cats-core:", "000000"],
+      ["::cats-effect", "::cats-effect:", "000001"],
+      [":jawn-parser", ":jawn-parser:", "000002"],
+    ]);
+    expect(items[0].range).toEqual({ start: 16, end: 17 });
+    expect(completeCoordinates(index, contextAt('  "org.typelevel::c|:2.10.0"')!)[0].insertText).toBe("::cats-core");
+  });
+
+  it("lists versions newest first", () => {
+    const items = completeCoordinates(index, contextAt('  "org.typelevel::cats-core:|"')!);
+    expect(items.map((i) => i.label)).toEqual(["2.12.0", "2.10.0"]);
+    expect(completeCoordinates(index, contextAt('  "org.typelevel:cats-core:|"')!)).toEqual([]);
+  });
+
+  it("adds the sbt-plugin configuration to plugin versions", () => {
+    expect(completeCoordinates(index, contextAt('  "ch.epfl.scala:sbt-scalafix:|"')!)[0].insertText).toBe("0.14.0:sbt-plugin");
+    expect(completeCoordinates(index, contextAt('  "ch.epfl.scala:sbt-scalafix:|:sbt-plugin"')!)[0].insertText).toBe("0.14.0");
+  });
+});
+
+describe("completeVariables", () => {
+  const variables = new Map([
+    ["scala", undefined],
+    ["catsVersion", "2.10.0"],
+  ]);
+
+  it("lists variables after the cached versions at a version position", () => {
+    const items = completeVariables(contextAt('  "org.typelevel::cats-core:{{c|"')!, variables);
+    expect(items.map((i) => [i.label, i.detail, i.range])).toEqual([
+      ["{{catsVersion}}", "resolves to 2.10.0", { start: 28, end: 31 }],
+      ["{{scala}}", undefined, { start: 28, end: 31 }],
+    ]);
+    expect(items[0].sortText > "999999").toBe(true);
+  });
+
+  it("offers nothing outside a version", () => {
+    expect(completeVariables(contextAt('  "org.typelevel:|')!, variables)).toEqual([]);
+  });
+
+  it("collects the variables used in a document", () => {
+    expect(variablesIn('a = [\n  "x:y:{{b}}"\n  "x:z:{{a}}"\n  "x:w:{{b}}"\n]')).toEqual(["b", "a"]);
+  });
+});
+
+describe("completeConfigurations", () => {
+  it("lists configurations after the version", () => {
+    const context = contextAt('  "org.typelevel::cats-core:2.10.0:t|"')!;
+    expect(context).toMatchObject({ kind: "configuration", version: "2.10.0", prefix: "t", start: 35 });
+
+    const items = completeConfigurations(context);
+    expect(items.map((i) => i.label)).toEqual(["test", "provided", "runtime", "optional", "it", "compile", "sbt-plugin", "compiler-plugin", "bom"]);
+    expect(items.every((i) => i.documentation)).toBe(true);
+  });
+
+  it("leaves out what a `*` version can't take", () => {
+    const labels = completeConfigurations(contextAt('  "com.fasterxml.jackson.core:jackson-databind:*:|"')!).map((i) => i.label);
+    expect(labels).not.toContain("bom");
+    expect(labels).not.toContain("sbt-plugin");
+  });
+});
+
+describe("fieldContext", () => {
+  /** The field context at the `|` in `text`, with the range as text. */
+  function fieldsAt(text: string) {
+    const offset = text.indexOf("|");
+    const source = text.replace("|", "");
+    return fieldContext(parseText(source), offset);
+  }
+
+  it("finds key positions in object entries", () => {
+    expect(fieldsAt('a = [\n  { dependency = "x:y:1.0", |}\n]')).toEqual({ start: 28, end: 28, present: ["dependency"] });
+    expect(fieldsAt('a = [\n  { no|te = "x" }\n]')).toEqual({ start: 4, end: 8, present: [] });
+    expect(fieldsAt('a {\n  dependencies = [\n    {\n      |\n    }\n  ]\n}')).toMatchObject({ start: 6, end: 6 });
+  });
+
+  it("ignores values, plain entries and positions outside entries", () => {
+    expect(fieldsAt('a = [\n  { note = "x, |" }\n]')).toBeUndefined();
+    expect(fieldsAt('a = [\n  { note = |"x" }\n]')).toBeUndefined();
+    expect(fieldsAt('a = [\n  "x:y:1.0"|\n]')).toBeUndefined();
+    expect(fieldsAt('a = [\n  { note = "x" }\n  |\n]')).toBeUndefined();
+  });
+
+  it("lists the missing fields as snippets", () => {
+    const items = completeFields({ start: 0, end: 0, present: ["dependency", "note"] });
+    expect(items.map((i) => [i.label, i.insertText])).toEqual([
+      ["intransitive", "intransitive = true$0"],
+      ["scala-filter", 'scala-filter = "$0"'],
+      ["cross-version", 'cross-version = "$0"'],
+    ]);
+    expect(items.every((i) => i.snippet && i.documentation)).toBe(true);
+  });
+});
+
+describe("crossVersionContext", () => {
+  it("completes the legal values inside a cross-version string", () => {
+    const line = '  { dependency = "a:b:1.0", cross-version = "bi" }';
+    const context = crossVersionContext(line, line.indexOf("bi") + 1);
+    expect(context).toEqual({ start: 45, end: 47 });
+    expect(completeCrossVersions(context!).map((i) => i.label)).toEqual(["full", "binary", "patch", "disabled"]);
+  });
+
+  it("ignores other fields", () => {
+    const line = '  { dependency = "a:b:1.0", note = "' ;
+    expect(crossVersionContext(line, line.length)).toBeUndefined();
+  });
+});
@@ -0,0 +1,306 @@
+import { CoursierIndex } from "./coursier-index";
+import { legalCrossVersionValues } from "./diagnostics";
+import { CROSS_VERSION, DEPENDENCY, ENTRY_FIELDS, INTRANSITIVE, NOTE, SCALA_FILTER } from "./fields";
+import { DependenciesDocument } from "./parser";
+import { compareNewestFirst } from "./version";
+
+/**
+ * What the text around the cursor in a dependency string is asking for: the `[start, end)` column range of the
+ * coordinate being typed, and what was typed of it before the cursor.
+ */
+export type CoordinateContext = { start: number; end: number; prefix: string; followedByColon: boolean } & (
+  | { kind: "organization" }
+  | { kind: "artifact"; org: string }
+  | { kind: "version"; org: string; separator: string; artifact: string }
+  | { kind: "configuration"; version: string }
+);
+
+/** Where the cursor sits in a value or key that completes from a fixed list: the `[start, end)` column range. */
+export interface ValueContext {
+  start: number;
+  end: number;
+}
+
+/** A key position inside an object entry, with the fields the entry already declares. */
+export interface FieldContext extends ValueContext {
+  present: string[];
+}
+
+/** A completion item, with the zero-based column range on the line it replaces. */
+export interface CompletionData {
+  label: string;
+  insertText: string;
+  filterText: string;
+  /** Keeps the order of the list, as VS Code otherwise sorts items alphabetically. */
+  sortText: string;
+  detail?: string;
+  /** Markdown explaining what picking the item does. */
+  documentation?: string;
+  /** Whether `insertText` is a snippet (with a `$0` final cursor position). */
+  snippet?: boolean;
+  kind: "module" | "constant" | "variable" | "enum" | "field";
+  range: { start: number; end: number };
+}
+
+/**
+ * Reads the coordinates typed so far in the dependency string around `character` (an array element or the value of
+ * a `dependency` field):
+ *
+ * - `"org.type` completes an organization from the start of the string
+ * - `"org.typelevel:` or `"org.typelevel::cats` completes an artifact, replacing the separator too (so a Scala
+ *   artifact can turn `:` into `::`)
+ * - `"org.typelevel::cats-core:^2.1` completes a version after its marker (or a `{{variable}}`)
+ * - `"org.typelevel::cats-core:2.10.0:` completes a configuration
+ *
+ * The range ends where the coordinate does after the cursor, so picking an item replaces the whole coordinate.
+ * Returns `undefined` outside a dependency string or past the configuration.
+ */
+export function coordinateContext(line: string, character: number): CoordinateContext | undefined {
+  const before = line.slice(0, character);
+  const quote = before.lastIndexOf('"');
+  if (quote < 0 || (before.slice(0, quote).split('"').length - 1) % 2 !== 0) return undefined;
+  if (!/(?:^|[[,{]|\bdependency\s*[=:])\s*$/.test(before.slice(0, quote))) return undefined;
+
+  const typed = before.slice(quote + 1);
+  if (/\s/.test(typed)) return undefined;
+
+  const rest = /^[^\s:"]*/.exec(line.slice(character))![0];
+  const end = character + rest.length;
+  const followedByColon = line[end] === ":";
+
+  const version = /^([^:]+)(::?)([^:]+):[=^~]?([^:]*)$/.exec(typed);
+  if (version) {
+    const [, org, separator, artifact, prefix] = version;
+    return { kind: "version", start: character - prefix.length, end, prefix, followedByColon, org, separator, artifact };
+  }
+
+  const configuration = /^[^:]+::?[^:]+:([^:]+):([^:]*)$/.exec(typed);
+  if (configuration) {
+    const [, version, prefix] = configuration;
+    return { kind: "configuration", start: character - prefix.length, end, prefix, followedByColon, version };
+  }
+
+  const artifact = /^([^:]+)(::?[^:]*)$/.exec(typed);
+  if (artifact) {
+    return { kind: "artifact", start: quote + 1 + artifact[1].length, end, prefix: artifact[2], followedByColon, org: artifact[1] };
+  }
+
+  if (!typed.includes(":")) return { kind: "organization", start: quote + 1, end, prefix: typed, followedByColon };
+
+  return undefined;
+}
+
+/** Pads a list position so items sort in list order. */
+function sortTextOf(index: number): string {
+  return index.toString().padStart(6, "0");
+}
+
+/**
+ * Completes the coordinates at `context` from the Coursier cache index: organizations alphabetically, artifacts with
+ * Scala ones written `org::artifact`, and versions newest first.
+ */
+export function completeCoordinates(index: CoursierIndex, context: CoordinateContext): CompletionData[] {
+  const range = { start: context.start, end: context.end };
+
+  switch (context.kind) {
+    case "organization":
+      return [...index.organizations.keys()].sort().map((org, i) => ({
+        label: org,
+        insertText: org,
+        filterText: org,
+        sortText: sortTextOf(i),
+        detail: `${index.organizations.get(org)!.length} cached artifact(s)`,
+        kind: "module",
+        range,
+      }));
+
+    case "artifact": {
+      const artifacts = [...(index.organizations.get(context.org) ?? [])].sort((a, b) => a.artifact.localeCompare(b.artifact));
+      return artifacts.map((a, i) => ({
+        label: `${a.separator}${a.artifact}`,
+        insertText: `${a.separator}${a.artifact}${context.followedByColon ? "" : ":"}`,
+        filterText: `${a.separator}${a.artifact}`,
+        sortText: sortTextOf(i),
+        detail: `${a.sbtPlugin ? "sbt plugin, " : ""}latest ${a.versions[0]}`,
+        kind: "module",
+        range,
+      }));
+    }
+
+    case "version": {
+      const artifacts = (index.organizations.get(context.org) ?? []).filter(
+        (a) => a.artifact === context.artifact && a.separator === context.separator
+      );
+      const seen = new Set<string>();
+      return artifacts
+        .flatMap((a) => a.versions.map((version) => ({ version, sbtPlugin: a.sbtPlugin })))
+        .filter(({ version }) => !seen.has(version) && seen.add(version))
+        .sort((a, b) => compareNewestFirst(a.version, b.version))
+        .map(({ version, sbtPlugin }, i) => ({
+          label: version,
+          insertText: sbtPlugin && !context.followedByColon ? `${version}:sbt-plugin` : version,
+          filterText: version,
+          sortText: sortTextOf(i),
+          detail: sbtPlugin ? "sbt plugin" : undefined,
+          kind: "constant",
+          range,
+        }));
+    }
+
+    case "configuration":
+      return [];
+  }
+}
+
+/** The configurations `dependencies.conf` understands, with what each one does. */
+const configurations: [name: string, documentation: string][] = [
+  ["test", "Only on the test classpath (`% Test`)."],
+  ["provided", "On the compile classpath but not packaged, as the runtime provides it (`% Provided`)."],
+  ["runtime", "Only on the runtime classpath (`% Runtime`)."],
+  ["optional", "On the compile classpath, marked optional for downstream projects (`% Optional`)."],
+  ["it", "Only on the integration-test classpath (`% IntegrationTest`)."],
+  ["compile", "The default: on every classpath. Usually left out."],
+  ["sbt-plugin", "An sbt plugin, added like `addSbtPlugin`. Belongs in the `sbt-build` group."],
+  ["compiler-plugin", "A Scala compiler plugin, added like `addCompilerPlugin` (`plugin->default(compile)`)."],
+  [
+    "bom",
+    "A Maven BOM: never added to `libraryDependencies`, its pins fill in the `*` versions of the group (and of the " +
+      "projects depending on it).",
+  ],
+];
+
+/** Lists the configurations after a version's `:`, leaving out those a `*` version can't take. */
+export function completeConfigurations(context: CoordinateContext): CompletionData[] {
+  if (context.kind !== "configuration") return [];
+
+  const range = { start: context.start, end: context.end };
+  return configurations
+    .filter(([name]) => context.version !== "*" || (name !== "bom" && name !== "sbt-plugin"))
+    .map(([name, documentation], i) => ({
+      label: name,
+      insertText: name,
+      filterText: name,
+      sortText: sortTextOf(i),
+      documentation,
+      kind: "enum",
+      range,
+    }));
+}
+
+/** The names of the `{{variables}}` used in `text`, in order of first use. */
+export function variablesIn(text: string): string[] {
+  return [...new Set([...text.matchAll(/\{\{(\w+)\}\}/g)].map((m) => m[1]))];
+}
+
+/**
+ * Lists `{{variable}}` versions at a version position, after the cached versions: every name in `variables`, with the
+ * version it resolved to in the last sbt load when known.
+ */
+export function completeVariables(context: CoordinateContext, variables: ReadonlyMap<string, string | undefined>): CompletionData[] {
+  if (context.kind !== "version") return [];
+
+  const range = { start: context.start, end: context.end };
+  return [...variables.keys()].sort().map((name, i) => {
+    const version = variables.get(name);
+    return {
+      label: `{{${name}}}`,
+      insertText: `{{${name}}}`,
+      filterText: `{{${name}}}`,
+      sortText: `~${sortTextOf(i)}`,
+      detail: version && `resolves to ${version}`,
+      documentation:
+        `Takes the version from the \`${name}\` entry of \`dependencyVersionVariables\` in the build. ` +
+        "`updateDependencies` shows the latest version but keeps the reference.",
+      kind: "variable",
+      range,
+    };
+  });
+}
+
+/** What each object-entry field does. */
+const fieldDocumentation: Record<string, string> = {
+  [DEPENDENCY]: "The dependency coordinates, as in a plain entry: `org::artifact:version[:configuration]`.",
+  [NOTE]: "A free-form note explaining the entry, kept by `updateDependencies`.",
+  [INTRANSITIVE]: "`true` excludes the dependency's transitive dependencies (`.intransitive()`).",
+  [SCALA_FILTER]: 'Restricts the entry to matching Scala binary versions, as a prefix: `"2"` matches `2.12` and `2.13`.',
+  [CROSS_VERSION]: "Overrides the `CrossVersion` sbt applies: `full`, `binary`, `patch` or `disabled`.",
+};
+
+/** What to insert after each object-entry field's name. */
+const fieldSnippets: Record<string, string> = {
+  [DEPENDENCY]: 'dependency = "$0"',
+  [NOTE]: 'note = "$0"',
+  [INTRANSITIVE]: "intransitive = true$0",
+  [SCALA_FILTER]: 'scala-filter = "$0"',
+  [CROSS_VERSION]: 'cross-version = "$0"',
+};
+
+/**
+ * Finds whether `offset` is at a key position (right after `{`, a `,` or a line break) of an object entry, returning
+ * the range of the key typed so far and the fields the entry already has.
+ */
+export function fieldContext(document: DependenciesDocument, offset: number): FieldContext | undefined {
+  const entry = document.groups
+    .flatMap((group) => group.entries)
+    .filter((e) => e.span.start < offset)
+    .pop();
+  if (entry?.kind !== "object" || (offset >= entry.span.end && entry.node.closed)) return undefined;
+
+  const before = document.text.slice(entry.span.start, offset);
+  if ((before.split('"').length - 1) % 2 !== 0) return undefined;
+
+  const key = /(?:^\{|[,\n])[ \t]*([\w-]*)$/.exec(before);
+  if (!key) return undefined;
+
+  const rest = /^[\w-]*/.exec(document.text.slice(offset))![0];
+  const lineStart = document.text.lastIndexOf("\n", offset - 1) + 1;
+  const start = offset - key[1].length - lineStart;
+  const present = entry.node.fields.map((f) => f.key.value).filter((k) => k !== key[1] + rest);
+  return { start, end: start + key[1].length + rest.length, present };
+}
+
+/** Lists the object-entry fields not already in the entry. */
+export function completeFields(context: FieldContext): CompletionData[] {
+  const range = { start: context.start, end: context.end };
+  return ENTRY_FIELDS.filter((field) => !context.present.includes(field)).map((field, i) => ({
+    label: field,
+    insertText: fieldSnippets[field],
+    filterText: field,
+    sortText: sortTextOf(i),
+    documentation: fieldDocumentation[field],
+    snippet: true,
+    kind: "field",
+    range,
+  }));
+}
+
+/** Finds whether `character` is inside the value of a `cross-version` field on `line`. */
+export function crossVersionContext(line: string, character: number): ValueContext | undefined {
+  const value = /\bcross-version\s*[=:]\s*"([\w-]*)$/.exec(line.slice(0, character));
+  if (!value) return undefined;
+
+  const rest = /^[\w-]*/.exec(line.slice(character))![0];
+  return { start: character - value[1].length, end: character + rest.length };
+}
+
+/** What each `cross-version` value does. */
+const crossVersionDocumentation: Record<(typeof legalCrossVersionValues)[number], string> = {
+  full: "Suffixes the artifact with the full Scala version (`_2.13.16`), as compiler plugins need.",
+  binary: "Suffixes the artifact with the Scala binary version (`_2.13`, `_3`): the default for `::`.",
+  patch: "Like `full`, but drops any pre-release or build suffix from the Scala version.",
+  disabled: "No suffix at all: the default for `:`.",
+};
+
+/** Lists the legal `cross-version` values. */
+export function completeCrossVersions(context: ValueContext): CompletionData[] {
+  const range = { start: context.start, end: context.end };
+  return legalCrossVersionValues.map((value, i) => ({
+    label: value,
+    insertText: value,
+    filterText: value,
+    sortText: sortTextOf(i),
+    documentation: crossVersionDocumentation[value],
+    kind: "enum",
+    range,
+  }));
+}
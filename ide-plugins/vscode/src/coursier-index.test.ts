@@ -0,0 +1,137 @@
+import * as path from "node:path";
+import { describe, it, expect } from "vitest";
+import {
+  collapseArtifactName,
+  extractGroupId,
+  indexCoursierCache,
+  parseMavenMetadataVersions,
+} from "./coursier-index";
+
+describe("collapseArtifactName", () => {
+  it("collapses Scala suffixes to `::`", () => {
+    expect(collapseArtifactName("cats-core_2.13")).toEqual({ artifact: "cats-core", separator: "::", sbtPlugin: false });
+    expect(collapseArtifactName("cats-core_3")).toEqual({ artifact: "cats-core", separator: "::", sbtPlugin: false });
+  });
+
+  it("recognizes sbt plugins", () => {
+    expect(collapseArtifactName("sbt-scalafix_2.12_1.0")).toEqual({ artifact: "sbt-scalafix", separator: ":", sbtPlugin: true });
+  });
+
+  it("keeps Java artifacts as they are", () => {
+    expect(collapseArtifactName("guava")).toEqual({ artifact: "guava", separator: ":", sbtPlugin: false });
+  });
+
+  it("skips Scala.js and Scala Native artifacts", () => {
+    expect(collapseArtifactName("cats-core_sjs1_2.13")).toBeUndefined();
+    expect(collapseArtifactName("cats-core_native0.4_3")).toBeUndefined();
+  });
+});
+
+describe("parseMavenMetadataVersions", () => {
+  it("reads the listed versions", () => {
+    const xml = `<metadata>
+      <groupId>org.typelevel</groupId>
+      <versioning>
+        <latest>2.12.0</latest>
+        <versions>
+          <version>2.10.0</version>
+          <version>2.12.0</version>
+        </versions>
+      </versioning>
+    </metadata>`;
+    expect(parseMavenMetadataVersions(xml)).toEqual(["2.10.0", "2.12.0"]);
+    expect(parseMavenMetadataVersions("<metadata/>")).toEqual([]);
+  });
+});
+
+describe("extractGroupId", () => {
+  it("prefers the project's groupId over its parent's", () => {
+    const pom = `<project><parent><groupId>org.parent</groupId></parent><groupId>org.child</groupId></project>`;
+    expect(extractGroupId(pom)).toBe("org.child");
+  });
+
+  it("falls back to the parent's groupId", () => {
+    expect(extractGroupId(`<project><parent><groupId>org.parent</groupId></parent></project>`)).toBe("org.parent");
+  });
+});
+
+describe("indexCoursierCache", () => {
+  const cache = "/cache";
+  const central = path.join(cache, "https", "repo1.maven.org", "maven2");
+  const sonatype = path.join(cache, "https", "oss.sonatype.org", "content", "repositories", "releases");
+
+  const pom = (groupId: string) => `<project><groupId>${groupId}</groupId></project>`;
+
+  /** Builds a fake file system from file paths and their contents. */
+  function fakeFs(files: Record<string, string>) {
+    const dirs = new Map<string, Set<string>>();
+    for (const file of Object.keys(files)) {
+      let child = file;
+      while (child !== cache) {
+        const parent = path.dirname(child);
+        if (!dirs.has(parent)) dirs.set(parent, new Set());
+        dirs.get(parent)!.add(path.basename(child));
+        child = parent;
+      }
+    }
+    const readdir = async (dir: string) => {
+      if (!dirs.has(dir)) throw new Error(`ENOTDIR: ${dir}`);
+      return [...dirs.get(dir)!];
+    };
+    return { readdir, readFile: async (file: string) => files[file] };
+  }
+
+  const files = {
+    [path.join(central, "org/typelevel/cats-core_2.13/2.10.0/cats-core_2.13-2.10.0.pom")]: pom("org.typelevel"),
+    [path.join(central, "org/typelevel/cats-core_2.13/2.10.0/cats-core_2.13-2.10.0.jar")]: "",
+    [path.join(central, "org/typelevel/cats-core_3/2.12.0/cats-core_3-2.12.0.pom")]: pom("org.typelevel"),
+    [path.join(central, "org/typelevel/cats-core_sjs1_2.13/2.10.0/cats-core_sjs1_2.13-2.10.0.pom")]: pom("org.typelevel"),
+    [path.join(central, "org/typelevel/cats-effect_2.13/maven-metadata.xml")]:
+      "<metadata><groupId>org.typelevel</groupId><versioning><versions><version>3.5.0</version><version>3.5.4</version></versions></versioning></metadata>",
+    [path.join(central, "ch/epfl/scala/sbt-scalafix_2.12_1.0/0.14.0/sbt-scalafix_2.12_1.0-0.14.0.pom")]: pom("ch.epfl.scala"),
+    [path.join(sonatype, "com/google/guava/guava/33.0.0-jre/guava-33.0.0-jre.pom")]: pom("com.google.guava"),
+    [path.join(sonatype, "org/typelevel/cats-core_2.13/2.11.0/cats-core_2.13-2.11.0.pom")]: pom("org.typelevel"),
+  };
+
+  it("indexes every artifact under its organization, versions newest first", async () => {
+    const { readdir, readFile } = fakeFs(files);
+    const index = await indexCoursierCache(cache, readdir, readFile);
+
+    expect([...index.organizations.keys()].sort()).toEqual(["ch.epfl.scala", "com.google.guava", "org.typelevel"]);
+    expect(index.organizations.get("org.typelevel")).toEqual(
+      expect.arrayContaining([
+        { org: "org.typelevel", artifact: "cats-core", separator: "::", sbtPlugin: false, versions: ["2.12.0", "2.11.0", "2.10.0"] },
+        { org: "org.typelevel", artifact: "cats-effect", separator: "::", sbtPlugin: false, versions: ["3.5.4", "3.5.0"] },
+      ])
+    );
+    expect(index.organizations.get("org.typelevel")).toHaveLength(2);
+    expect(index.organizations.get("ch.epfl.scala")).toEqual([
+      { org: "ch.epfl.scala", artifact: "sbt-scalafix", separator: ":", sbtPlugin: true, versions: ["0.14.0"] },
+    ]);
+    expect(index.organizations.get("com.google.guava")![0].versions).toEqual(["33.0.0-jre"]);
+  });
+
+  it("looks up the Maven bases of each organization under the same host (JFrog Artifactory)", async () => {
+    const artifactory = path.join(cache, "https", "example.jfrog.io", "artifactory");
+    const { readdir, readFile } = fakeFs({
+      [path.join(artifactory, "libs/com/example/core/1.0.0/core-1.0.0.pom")]: pom("com.example"),
+      [path.join(artifactory, "plugins/org/example/sbt-example_2.12_1.0/0.1.0/sbt-example_2.12_1.0-0.1.0.pom")]:
+        pom("org.example"),
+    });
+    const index = await indexCoursierCache(cache, readdir, readFile);
+
+    expect(index.organizations.get("com.example")?.map((a) => a.artifact)).toEqual(["core"]);
+    expect(index.organizations.get("org.example")?.map((a) => a.artifact)).toEqual(["sbt-example"]);
+  });
+
+  it("returns an empty index when the cache doesn't exist", async () => {
+    const index = await indexCoursierCache(
+      "/nowhere",
+      async () => {
+        throw new Error("ENOENT");
+      },
+      async () => undefined
+    );
+    expect(index.organizations.size).toBe(0);
+  });
+});
@@ -0,0 +1,165 @@
+import * as path from "node:path";
+import { defaultReadFile, defaultReaddir, findMavenBases, getCoursierCachePath, ReadDir, ReadFile } from "./pom";
+import { compareNewestFirst } from "./version";
+
+/** An artifact found in the Coursier cache, named the way `dependencies.conf` writes it. */
+export interface CachedArtifact {
+  org: string;
+  /** Artifact name without its Scala (or sbt-plugin) suffix. */
+  artifact: string;
+  /** `::` for Scala artifacts published with a `_2.1x`/`_3` suffix, `:` otherwise. */
+  separator: ":" | "::";
+  /** Whether the artifact is an sbt plugin (published with the `_2.12_1.0` suffix). */
+  sbtPlugin: boolean;
+  /** Every cached or listed version, newest first. */
+  versions: string[];
+}
+
+/** The artifacts of the Coursier cache, grouped by organization. */
+export interface CoursierIndex {
+  organizations: Map<string, CachedArtifact[]>;
+}
+
+/** Maven layout files that are never directories, skipped without listing them. */
+const filePattern = /\.(?:pom|jar|xml|sha1|md5|asc|lock|properties|module|checked|part)$|^\./;
+
+/** Deepest directory level searched below a repository host. */
+const maxDepth = 12;
+
+/**
+ * Splits an artifact directory name into the name written in `dependencies.conf` and its kind: `cats-core_2.13` is
+ * the Scala artifact `cats-core`, `sbt-scalafix_2.12_1.0` the sbt plugin `sbt-scalafix`. Scala.js and Scala Native
+ * artifacts (`_sjs1_2.13`, `_native0.4_3`) can't be written in `dependencies.conf`, so they return `undefined`.
+ */
+export function collapseArtifactName(
+  name: string
+): Pick<CachedArtifact, "artifact" | "separator" | "sbtPlugin"> | undefined {
+  const plugin = /^(.+)_2\.12_1\.0$/.exec(name);
+  if (plugin) return { artifact: plugin[1], separator: ":", sbtPlugin: true };
+
+  const scala = /^(.+)_(?:2\.1[0-3]|3)$/.exec(name);
+  if (scala) {
+    if (/_(?:sjs|native)\d/.test(scala[1])) return undefined;
+    return { artifact: scala[1], separator: "::", sbtPlugin: false };
+  }
+
+  return { artifact: name, separator: ":", sbtPlugin: false };
+}
+
+/** Reads the versions listed in a `maven-metadata.xml` file. */
+export function parseMavenMetadataVersions(xml: string): string[] {
+  const versions = /<versions>([\s\S]*?)<\/versions>/.exec(xml)?.[1] ?? "";
+  return [...versions.matchAll(/<version>\s*([^<\s]+)\s*<\/version>/g)].map((m) => m[1]);
+}
+
+/** Reads the `groupId` of a POM (falling back to its parent's) or of a `maven-metadata.xml` file. */
+export function extractGroupId(xml: string): string | undefined {
+  const own = /<groupId>\s*([^<\s]+)\s*<\/groupId>/.exec(xml.replace(/<parent>[\s\S]*?<\/parent>/, ""));
+  return (own ?? /<groupId>\s*([^<\s]+)\s*<\/groupId>/.exec(xml))?.[1];
+}
+
+/**
+ * Indexes every artifact in the Coursier cache, reading nothing but directory listings, POM `groupId`s and
+ * `maven-metadata*.xml` files, so it works fully offline.
+ *
+ * Every repository host under `{cache}/https` and `{cache}/http` is walked looking for artifact directories: ones
+ * whose sub-directories hold `<artifact>-<version>.pom` (or `.jar`) files, or that hold a `maven-metadata*.xml` file.
+ * The organization is the path from the host's Maven base ({@link findMavenBases}) to the artifact directory; bases
+ * are looked up with the `groupId` of the first POM (or metadata file) read outside the ones already found.
+ */
+export async function indexCoursierCache(
+  cachePath: string = getCoursierCachePath(),
+  readdir: ReadDir = defaultReaddir,
+  readFile: ReadFile = defaultReadFile
+): Promise<CoursierIndex> {
+  const artifacts = new Map<string, CachedArtifact>();
+
+  const list = (dir: string): Promise<string[]> => readdir(dir).catch(() => []);
+
+  const add = (org: string, name: string, versions: string[]) => {
+    const collapsed = collapseArtifactName(name);
+    if (!collapsed || versions.length === 0) return;
+
+    const key = `${org}${collapsed.separator}${collapsed.artifact}${collapsed.sbtPlugin ? ":sbt-plugin" : ""}`;
+    const existing = artifacts.get(key);
+    if (existing) {
+      existing.versions.push(...versions.filter((v) => !existing.versions.includes(v)));
+    } else {
+      artifacts.set(key, { org, ...collapsed, versions: [...new Set(versions)] });
+    }
+  };
+
+  for (const protocol of ["https", "http"]) {
+    const protocolDir = path.join(cachePath, protocol);
+
+    for (const host of await list(protocolDir)) {
+      const hostDir = path.join(protocolDir, host);
+
+      // The Maven bases of the host found so far, and the organization first components they were looked up for
+      const bases: string[] = [];
+      const searched = new Set<string>();
+
+      // The outermost base holding the directory, as a false match of `findMavenBases` may sit inside a real one
+      const baseOf = (dir: string) =>
+        bases.filter((base) => dir.startsWith(`${base}${path.sep}`)).sort((a, b) => a.length - b.length)[0];
+
+      const organizationOf = async (orgDir: string, groupId: () => Promise<string | undefined>) => {
+        let base = baseOf(orgDir);
+        if (base === undefined) {
+          const orgFirstComponent = (await groupId())?.split(".")[0];
+          if (!orgFirstComponent || searched.has(orgFirstComponent)) return undefined;
+          searched.add(orgFirstComponent);
+          bases.push(...(await findMavenBases(hostDir, orgFirstComponent, readdir)));
+          base = baseOf(orgDir);
+        }
+        return base === undefined ? undefined : path.relative(base, orgDir).split(path.sep).join(".");
+      };
+
+      const walk = async (dir: string, entries: string[], depth: number): Promise<void> => {
+        const name = path.basename(dir);
+        const versions: string[] = [];
+        const metadataFiles = entries.filter((e) => /^maven-metadata.*\.xml$/.test(e));
+
+        for (const entry of entries) {
+          if (filePattern.test(entry)) continue;
+
+          const children = await list(path.join(dir, entry));
+          if (children.length === 0) continue;
+
+          const prefix = `${name}-${entry}`;
+          if (children.some((c) => c.startsWith(prefix) && /\.(?:pom|jar)$/.test(c))) {
+            versions.push(entry);
+          } else if (depth < maxDepth) {
+            await walk(path.join(dir, entry), children, depth + 1);
+          }
+        }
+
+        if (versions.length === 0 && metadataFiles.length === 0) return;
+
+        const metadata = await Promise.all(
+          metadataFiles.map(async (file) => (await readFile(path.join(dir, file))) ?? "")
+        );
+        const org = await organizationOf(path.dirname(dir), async () => {
+          const pomFile = versions.length > 0 ? path.join(dir, versions[0], `${name}-${versions[0]}.pom`) : undefined;
+          const pom = pomFile && (await readFile(pomFile));
+          return (pom && extractGroupId(pom)) ?? metadata.map(extractGroupId).find((id) => id !== undefined);
+        });
+        if (!org) return;
+
+        add(org, name, [...versions, ...metadata.flatMap(parseMavenMetadataVersions)]);
+      };
+
+      await walk(hostDir, await list(hostDir), 0);
+    }
+  }
+
+  const organizations = new Map<string, CachedArtifact[]>();
+  for (const artifact of artifacts.values()) {
+    artifact.versions.sort(compareNewestFirst);
+    const forOrg = organizations.get(artifact.org) ?? [];
+    forOrg.push(artifact);
+    organizations.set(artifact.org, forOrg);
+  }
+
+  return { organizations };
+}
@@ -11,6 +11,7 @@ function fakePinLookup(stale = false): ResolutionLookup {
       group === "my-group" && org === "com.fasterxml.jackson.core" && name === "jackson-databind"
         ? { version: "2.18.2", bom: { organization: "com.fasterxml.jackson", name: "jackson-bom", version: "2.18.2" } }
         : undefined,
+    knownVariables: () => new Map(),
     stale,
   };
 }
@@ -1,5 +1,5 @@
 import { parseDependency } from "./hover";
-import { walkDocument, objectDepFieldPattern } from "./parser";
+import { toDocument, positionAt, DocumentSource } from "./parser";
 import { ResolutionLookup } from "./resolutions";
 
 export interface DepCodeLensData {
@@ -25,27 +25,21 @@ export interface BomManagedLensData {
  *
  * ponytail: plain-string-only — object-form entries carry notes/cross-version and are left alone.
  */
-export function parseBomManagedVersions(lines: string[], lookup: ResolutionLookup): BomManagedLensData[] {
+export function parseBomManagedVersions(source: DocumentSource, lookup: ResolutionLookup): BomManagedLensData[] {
+  const document = toDocument(source);
   const results: BomManagedLensData[] = [];
-  let group: string | undefined;
 
-  for (const event of walkDocument(lines)) {
-    if (event.type === "group-start") {
-      group = event.name;
-      continue;
-    }
-    if (event.type === "group-end") {
-      group = undefined;
-      continue;
-    }
-    if (event.type !== "dependency-string" || group === undefined) continue;
+  for (const group of document.groups) {
+    for (const entry of group.entries) {
+      if (entry.kind !== "line") continue;
 
-    const dep = parseDependency(event.content);
-    if (!dep?.version || dep.version === "*" || dep.version.startsWith("{{")) continue;
-    if (dep.config === "bom" || dep.config === "sbt-plugin") continue;
+      const dep = parseDependency(entry.content);
+      if (!dep?.version || dep.version === "*" || dep.version.startsWith("{{")) continue;
+      if (dep.config === "bom" || dep.config === "sbt-plugin") continue;
 
-    const pin = lookup.pinFor(group, dep.org, dep.artifact, dep.separator === "::");
-    if (pin) results.push({ line: event.lineIndex, version: dep.version, bomName: pin.bom.name });
+      const pin = lookup.pinFor(group.name, dep.org, dep.artifact, dep.separator === "::");
+      if (pin) results.push({ line: positionAt(document, entry.span.start).line, version: dep.version, bomName: pin.bom.name });
+    }
   }
 
   return results;
@@ -60,56 +54,24 @@ export function parseBomManagedVersions(lines: string[], lookup: ResolutionLooku
  * Intransitive entries without a `note` produce a CodeLens suggesting
  * the user to document why the dependency is intransitive.
  */
-export function parsePinnedWithoutNote(lines: string[]): DepCodeLensData[] {
+export function parsePinnedWithoutNote(source: DocumentSource): DepCodeLensData[] {
+  const document = toDocument(source);
   const results: DepCodeLensData[] = [];
 
-  for (const event of walkDocument(lines)) {
-    switch (event.type) {
-      case "dependency-string": {
-        const dep = parseDependency(event.rawLine);
+  for (const group of document.groups) {
+    for (const entry of group.entries) {
+      const line = positionAt(document, entry.span.start).line;
+
+      if (entry.kind === "line") {
+        const dep = parseDependency(entry.content);
         if (dep && dep.version && /^[=^~]/.test(dep.version)) {
-          results.push({
-            line: event.lineIndex,
-            org: dep.org,
-            artifact: dep.artifact,
-            version: dep.version,
-            reason: "pinned",
-          });
+          results.push({ line, org: dep.org, artifact: dep.artifact, version: dep.version, reason: "pinned" });
         }
-        break;
-      }
-      case "single-line-object": {
-        if (event.intransitive && !event.note) {
-          const depMatch = event.dependency ? objectDepFieldPattern.exec(event.objectText) : undefined;
-          if (depMatch) {
-            const dep = parseDependency(depMatch[1]);
-            if (dep) {
-              results.push({
-                line: event.lineIndex,
-                org: dep.org,
-                artifact: dep.artifact,
-                version: dep.version ?? "",
-                reason: "intransitive",
-              });
-            }
-          }
-        }
-        break;
-      }
-      case "multi-line-object-end": {
-        if (event.hasIntransitive && !event.hasNote && event.dependencyValue) {
-          const dep = parseDependency(event.dependencyValue);
-          if (dep) {
-            results.push({
-              line: event.objectStartLine,
-              org: dep.org,
-              artifact: dep.artifact,
-              version: dep.version ?? "",
-              reason: "intransitive",
-            });
-          }
+      } else if (entry.kind === "object" && entry.intransitive && !entry.note && entry.dependency) {
+        const dep = parseDependency(entry.dependency.value);
+        if (dep) {
+          results.push({ line, org: dep.org, artifact: dep.artifact, version: dep.version ?? "", reason: "intransitive" });
         }
-        break;
       }
     }
   }
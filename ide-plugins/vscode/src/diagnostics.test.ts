@@ -170,8 +170,175 @@ describe("parseDiagnostics", () => {
         '  other-field = ["not-a-dep"]',
         '}',
       ];
+      // Only the unknown key is flagged, not its contents
+      expect(parseDiagnostics(lines).map((d) => d.message)).toEqual([
+        "Unknown setting 'other-field': expected one of scala-version, scala-versions, java-version, dependencies",
+      ]);
+    });
+  });
+
+  describe("group settings", () => {
+    /** The diagnostics of `lines`, each with its severity and the text it points at. */
+    function check(lines: string[]): [string, string, string][] {
+      return parseDiagnostics(lines).map((d) => [d.severity, d.message, lines[d.range.startLine].slice(d.range.startCol, d.range.endCol)]);
+    }
+
+    it("accepts valid settings", () => {
+      const lines = [
+        'common-settings {',
+        '  java-version = "17"',
+        '  scala-versions = ["2.13.16", "~3.3.7"]',
+        '}',
+        'my-group {',
+        '  scala-version = "=2.12.20"',
+        '  java-version = "1.8"',
+        '  dependencies = []',
+        '}',
+      ];
       expect(parseDiagnostics(lines)).toEqual([]);
     });
+
+    it("warns on unknown keys, suggesting the setting they misspell", () => {
+      const lines = [
+        'my-group {',
+        '  scala-verison = "2.13.16"',
+        '  dependency = []',
+        '}',
+      ];
+      expect(check(lines)).toEqual([
+        ["warning", "Unknown setting 'scala-verison': did you mean 'scala-version'?", "scala-verison"],
+        ["warning", "Unknown setting 'dependency': did you mean 'dependencies'?", "dependency"],
+      ]);
+    });
+
+    it("flags invalid Scala versions", () => {
+      const lines = [
+        'my-group {',
+        '  scala-versions = ["2.13.16", "three", "99999999999.0"]',
+        '}',
+        'other-group {',
+        '  scala-version = "latest"',
+        '}',
+      ];
+      expect(check(lines)).toEqual([
+        ["error", "Invalid Scala version: three", "three"],
+        ["error", "Invalid Scala version: 99999999999.0", "99999999999.0"],
+        ["error", "Invalid Scala version: latest", "latest"],
+      ]);
+    });
+
+    it("flags values of the wrong type the way the plugin reads them", () => {
+      const lines = [
+        'my-group {',
+        '  scala-version = ["2.13.16"]',
+        '  java-version = 17',
+        '  dependencies = "org:art:1.0"',
+        '}',
+        'other-group {',
+        '  scala-versions = "2.13.16"',
+        '}',
+        'empty-group {',
+        '  scala-versions = []',
+        '}',
+      ];
+      expect(check(lines)).toEqual([
+        ["error", "'scala-version' must be a string, got LIST", '["2.13.16"]'],
+        ["error", "'java-version' must be a string, got NUMBER", "17"],
+        ["error", "'dependencies' must be a list, got STRING", '"org:art:1.0"'],
+        ["error", "'scala-versions' must be a list, got STRING", '"2.13.16"'],
+        ["error", "'scala-versions' cannot be empty", "[]"],
+      ]);
+    });
+
+    it("flags a non-numeric Java version", () => {
+      expect(check(['my-group {', '  java-version = "seventeen"', '}'])).toEqual([
+        ["error", "Invalid Java version: seventeen", "seventeen"],
+      ]);
+    });
+
+    it("flags scala-version together with scala-versions", () => {
+      const lines = [
+        'my-group {',
+        '  scala-version = "2.13.16"',
+        '  scala-versions = ["2.13.16", "3.3.7"]',
+        '}',
+      ];
+      expect(check(lines)).toEqual([["error", "Only one of 'scala-versions' or 'scala-version' can be present", "scala-versions"]]);
+    });
+
+    it("flags Scala and Java settings in sbt-build", () => {
+      const lines = [
+        'sbt-build {',
+        '  scala-version = "2.12.20"',
+        '  java-version = "17"',
+        '  dependencies = []',
+        '}',
+      ];
+      const result = check(lines);
+      expect(result.map(([, , text]) => text)).toEqual(["scala-version", "java-version"]);
+      expect(result[0][1]).toBe(
+        "`sbt-build` cannot define `scala-version`. Move it to the `common-settings` group (build-wide default) or to a per-project group (project-specific value)."
+      );
+    });
+  });
+
+  describe("syntax errors", () => {
+    it("points an unclosed group at its opening bracket and keeps checking the next groups", () => {
+      const lines = [
+        'my-group = [',
+        '  "org.typelevel::cats-core:2.10.0"',
+        '',
+        'other-group = [',
+        '  "bad"',
+        ']',
+      ];
+      const result = parseDiagnostics(lines);
+      expect(result).toHaveLength(2);
+      expect(result[0]).toMatchObject({
+        message: 'Unclosed array: missing "]"',
+        severity: "error",
+        range: { startLine: 0, startCol: 11, endLine: 0, endCol: 12 },
+      });
+      expect(result[1]).toMatchObject({ message: 'Malformed dependency: expected format "org:artifact" or "org::artifact"', range: { startLine: 4 } });
+    });
+
+    it("points an unclosed advanced group at its opening brace", () => {
+      const lines = [
+        'my-group {',
+        '  scala-versions = ["2.13.12", "3.3.3"]',
+        '',
+        'other-group = []',
+      ];
+      expect(parseDiagnostics(lines)).toMatchObject([
+        { message: 'Unclosed object: missing "}"', range: { startLine: 0, startCol: 9, endLine: 0, endCol: 10 } },
+      ]);
+    });
+
+    it("flags unclosed object entries, block comments and stray closers", () => {
+      const lines = [
+        'my-group = [',
+        '  { dependency = "org.typelevel::cats-core:2.10.0", note = "x"',
+        ']',
+        '}',
+        '/* unfinished',
+      ];
+      expect(parseDiagnostics(lines).map((d) => [d.message, d.range.startLine, d.range.startCol])).toEqual([
+        ['Unclosed object: missing "}"', 1, 2],
+        ['Unexpected "}": no object to close', 3, 0],
+        ['Unclosed block comment: missing "*/"', 4, 0],
+      ]);
+    });
+
+    it("flags a missing `=` at the group name", () => {
+      const lines = [
+        'my-group [',
+        '  "org.typelevel::cats-core:2.10.0"',
+        ']',
+      ];
+      expect(parseDiagnostics(lines)).toMatchObject([
+        { message: 'Missing "=" after "my-group"', range: { startLine: 0, startCol: 0, endLine: 0, endCol: 8 } },
+      ]);
+    });
   });
 
   describe("comment handling", () => {
@@ -597,7 +764,7 @@ describe("parseDiagnostics", () => {
 
     it("handles empty dependencies array on single line in advanced block", () => {
       const lines = [
-        'sbt-build {',
+        'common-settings {',
         '  scala-version = "~2.12.21"',
         '  dependencies = []',
         '}',
@@ -635,5 +802,29 @@ describe("parseDiagnostics", () => {
       expect(result).toHaveLength(1);
       expect(result[0].range.startLine).toBe(4);
     });
+
+    it("keeps validating after a multi-line object whose note contains a closing brace", () => {
+      const lines = [
+        'my-group = [',
+        '  {',
+        '    dependency = "org.typelevel::cats-core:^2.10.0"',
+        '    note = "see }"',
+        '  }',
+        '  "bad"',
+        ']',
+      ];
+      const result = parseDiagnostics(lines);
+      expect(result).toHaveLength(1);
+      expect(result[0].range).toEqual({ startLine: 5, startCol: 3, endLine: 5, endCol: 6 });
+    });
+
+    it("validates quoted group names and groups sharing a line", () => {
+      const lines = [
+        '"group-a" = ["org.typelevel::cats-core:2.10.0"], group-b = ["bad"]',
+      ];
+      const result = parseDiagnostics(lines);
+      expect(result).toHaveLength(1);
+      expect(result[0].range).toEqual({ startLine: 0, startCol: 61, endLine: 0, endCol: 64 });
+    });
   });
 });
@@ -1,6 +1,11 @@
-import { walkDocument, objectDepFieldPattern, objectNoteFieldPattern, objectIntransitiveFieldPattern, objectScalaFilterFieldPattern, objectCrossVersionFieldPattern } from "./parser";
+import { toDocument, dependencyOf, positionAt, rangeOf, DependenciesDocument, DependencyObject, Field, Group, Setting, Span, DocumentSource } from "./parser";
+import { valueTypeOf, HoconString } from "./hocon";
+import { DEPENDENCIES, GROUP_SETTINGS, JAVA_VERSION, SCALA_VERSION, SCALA_VERSIONS } from "./fields";
+import { SBT_BUILD } from "./groups";
+import { parseNumeric } from "./version";
 
-const legalCrossVersionValues = ["full", "binary", "patch", "disabled"] as const;
+/** The values the `cross-version` annotation accepts. */
+export const legalCrossVersionValues = ["full", "binary", "patch", "disabled"] as const;
 const missingAnnotationMessage = "Object entry must have a 'note', 'intransitive', 'scala-filter', or 'cross-version' field";
 const invalidCrossVersionMessage = `Invalid cross-version value: must be one of ${legalCrossVersionValues.map(v => `"${v}"`).join(", ")}`;
 const wildcardBomConfigMessage = 'Version "*" cannot be combined with the "bom" configuration — a BOM coordinate cannot take its version from a BOM';
@@ -18,7 +23,7 @@ function isWildcardDependency(content: string): boolean {
 
 export interface DiagnosticResult {
   message: string;
-  severity: "error" | "warning";
+  severity: "error" | "warning" | "information";
   source: "sbt-dependencies";
   range: { startLine: number; startCol: number; endLine: number; endCol: number };
 }
@@ -101,202 +106,208 @@ export function validateDependencyString(
 }
 
 /**
- * Validates a single-line object entry `{ dependency = "...", note = "..." }`.
+ * Validates an object entry `{ dependency = "...", note = "..." }`, single- or multi-line.
  *
  * Returns diagnostics for missing fields or invalid dependency values.
  */
 function validateObjectEntry(
-  objectText: string,
-  lineIndex: number,
-  objectStartCol: number
+  document: DependenciesDocument,
+  entry: DependencyObject
 ): { diagnostics: DiagnosticResult[]; depKey: string | undefined } {
   const diagnostics: DiagnosticResult[] = [];
-  let depKey: string | undefined;
-
-  const depMatch = objectDepFieldPattern.exec(objectText);
-  const hasNote = objectNoteFieldPattern.test(objectText);
-  const hasIntransitive = objectIntransitiveFieldPattern.test(objectText);
-  const hasScalaFilter = objectScalaFilterFieldPattern.test(objectText);
-  const cvMatch = objectCrossVersionFieldPattern.exec(objectText);
-  const hasCrossVersion = cvMatch !== null;
-
-  if (!depMatch) {
-    diagnostics.push({
-      message: "Object entry must have a 'dependency' field",
-      severity: "error",
-      source: "sbt-dependencies",
-      range: { startLine: lineIndex, startCol: objectStartCol, endLine: lineIndex, endCol: objectStartCol + objectText.length },
-    });
-    return { diagnostics, depKey };
+  const error = (message: string, span: Span): DiagnosticResult => ({ message, severity: "error", source: "sbt-dependencies", range: rangeOf(document, span) });
+
+  if (!entry.dependency) {
+    diagnostics.push(error("Object entry must have a 'dependency' field", entry.span));
+    return { diagnostics, depKey: undefined };
   }
 
-  if (!hasNote && !hasIntransitive && !hasScalaFilter && !hasCrossVersion) {
-    diagnostics.push({
-      message: missingAnnotationMessage,
-      severity: "error",
-      source: "sbt-dependencies",
-      range: { startLine: lineIndex, startCol: objectStartCol, endLine: lineIndex, endCol: objectStartCol + objectText.length },
-    });
-    return { diagnostics, depKey };
+  if (!entry.note && !entry.intransitive && !entry.scalaFilter && !entry.crossVersion) {
+    diagnostics.push(error(missingAnnotationMessage, entry.span));
+    return { diagnostics, depKey: undefined };
   }
 
-  if (cvMatch && !(legalCrossVersionValues as readonly string[]).includes(cvMatch[1])) {
-    const valueStartCol = objectStartCol + cvMatch.index + cvMatch[0].indexOf('"') + 1;
-    diagnostics.push({
-      message: invalidCrossVersionMessage,
-      severity: "error",
-      source: "sbt-dependencies",
-      range: { startLine: lineIndex, startCol: valueStartCol, endLine: lineIndex, endCol: valueStartCol + cvMatch[1].length },
-    });
-  } else if (cvMatch && (cvMatch[1] === "full" || cvMatch[1] === "patch") && isWildcardDependency(depMatch[1])) {
-    const valueStartCol = objectStartCol + cvMatch.index + cvMatch[0].indexOf('"') + 1;
-    diagnostics.push({
-      message: wildcardCrossVersionMessage(cvMatch[1]),
-      severity: "error",
-      source: "sbt-dependencies",
-      range: { startLine: lineIndex, startCol: valueStartCol, endLine: lineIndex, endCol: valueStartCol + cvMatch[1].length },
-    });
+  const crossVersion = entry.crossVersion;
+  if (crossVersion && !(legalCrossVersionValues as readonly string[]).includes(crossVersion.value)) {
+    diagnostics.push(error(invalidCrossVersionMessage, crossVersion.valueSpan));
+  } else if (crossVersion && (crossVersion.value === "full" || crossVersion.value === "patch") && isWildcardDependency(entry.dependency.value)) {
+    diagnostics.push(error(wildcardCrossVersionMessage(crossVersion.value), crossVersion.valueSpan));
   }
 
-  const depContent = depMatch[1];
-  const depStartCol = objectStartCol + depMatch.index + depMatch[0].indexOf('"') + 1;
-  const diag = validateDependencyString(depContent, lineIndex, depStartCol);
+  const { line, col } = positionAt(document, entry.dependency.valueSpan.start);
+  const diag = validateDependencyString(entry.dependency.value, line, col);
   if (diag) {
     diagnostics.push(diag);
-  } else {
-    depKey = extractDepKey(depContent);
+    return { diagnostics, depKey: undefined };
+  }
+
+  return { diagnostics, depKey: extractDepKey(entry.dependency.value) };
+}
+
+/** How many edits away from a known setting an unknown key can be to get a "did you mean" suggestion. */
+const settingSuggestionDistance = 3;
+
+/** The closest known group setting to `key`, if it is close enough to be a typo. */
+function suggestSetting(key: string): string | undefined {
+  let best: string | undefined;
+  let bestDistance = settingSuggestionDistance + 1;
+  for (const candidate of GROUP_SETTINGS) {
+    const distance = editDistance(key, candidate);
+    if (distance < bestDistance) {
+      best = candidate;
+      bestDistance = distance;
+    }
+  }
+  return best;
+}
+
+/** Levenshtein distance between two strings. */
+function editDistance(a: string, b: string): number {
+  let previous = Array.from({ length: b.length + 1 }, (_, j) => j);
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    for (let j = 1; j <= b.length; j++) {
+      current[j] = Math.min(previous[j] + 1, current[j - 1] + 1, previous[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1));
+    }
+    previous = current;
+  }
+  return previous[b.length];
+}
+
+/**
+ * Validates the settings of an advanced group the way `GroupConfig.parse` reads them: unknown keys, value types,
+ * Scala and Java versions, `scala-version` together with `scala-versions`, and Scala/Java settings in `sbt-build`.
+ */
+function validateSettings(document: DependenciesDocument, group: Group): DiagnosticResult[] {
+  const diagnostics: DiagnosticResult[] = [];
+  const report = (severity: DiagnosticResult["severity"], message: string, span: Span) =>
+    diagnostics.push({ message, severity, source: "sbt-dependencies", range: rangeOf(document, span) });
+
+  const seen = new Set<string>();
+
+  for (const setting of group.settings) {
+    const { key, value } = setting;
+
+    if (!GROUP_SETTINGS.includes(key)) {
+      const suggestion = suggestSetting(key);
+      const hint = suggestion ? `did you mean '${suggestion}'?` : `expected one of ${GROUP_SETTINGS.join(", ")}`;
+      report("warning", `Unknown setting '${key}': ${hint}`, setting.keySpan);
+      continue;
+    }
+
+    if (group.name === SBT_BUILD && key !== DEPENDENCIES) {
+      report(
+        "error",
+        `\`sbt-build\` cannot define \`${key}\`. Move it to the \`common-settings\` group (build-wide default) or to a per-project group (project-specific value).`,
+        setting.keySpan
+      );
+      continue;
+    }
+
+    if ((key === SCALA_VERSION && seen.has(SCALA_VERSIONS)) || (key === SCALA_VERSIONS && seen.has(SCALA_VERSION))) {
+      report("error", "Only one of 'scala-versions' or 'scala-version' can be present", setting.keySpan);
+    }
+    seen.add(key);
+
+    if (!value) continue;
+    const type = valueTypeOf(value);
+    if (!type) continue;
+
+    switch (key) {
+      case DEPENDENCIES:
+        report("error", `'dependencies' must be a list, got ${type}`, value.span);
+        break;
+
+      case SCALA_VERSION:
+        if (type !== "STRING") report("error", `'scala-version' must be a string, got ${type}`, value.span);
+        else validateScalaVersions(setting, report);
+        break;
+
+      case SCALA_VERSIONS:
+        if (value.type !== "array") report("error", `'scala-versions' must be a list, got ${type}`, value.span);
+        else if (value.elements.length === 0) report("error", "'scala-versions' cannot be empty", value.span);
+        else validateScalaVersions(setting, report);
+        break;
+
+      case JAVA_VERSION:
+        if (type !== "STRING") report("error", `'java-version' must be a string, got ${type}`, value.span);
+        else if (value.type === "string" && !/^\d+(\.\d+)*$/.test(value.value)) report("error", `Invalid Java version: ${value.value}`, value.contentSpan);
+        break;
+    }
   }
 
-  return { diagnostics, depKey };
+  return diagnostics;
+}
+
+/** Flags each string of a `scala-version` / `scala-versions` value that isn't a valid version. */
+function validateScalaVersions(setting: Setting, report: (severity: "error", message: string, span: Span) => void): void {
+  const strings: HoconString[] = [];
+  if (setting.value?.type === "string") strings.push(setting.value);
+  if (setting.value?.type === "array") {
+    for (const element of setting.value.elements) if (element.type === "string") strings.push(element);
+  }
+
+  for (const version of strings) {
+    if (!parseNumeric(version.value)) report("error", `Invalid Scala version: ${version.value}`, version.contentSpan);
+  }
 }
 
 /**
- * Scans lines from a `dependencies.conf` file for malformed dependency strings
- * and returns diagnostic results.
+ * Scans lines from a `dependencies.conf` file for syntax errors (unclosed
+ * brackets and block comments, stray closers, missing `=`), invalid
+ * advanced-group settings and malformed dependency strings, and returns
+ * diagnostic results.
  *
- * Uses a line-based state machine to only validate strings inside dependency
- * arrays (simple-group `= [...]` or advanced-group `dependencies = [...]`).
+ * Only strings inside dependency arrays (simple-group `= [...]` or
+ * advanced-group `dependencies = [...]`) are validated.
  *
  * Supports both plain string entries and object entries with `dependency` and `note` fields.
  */
-export function parseDiagnostics(lines: string[]): DiagnosticResult[] {
-  const diagnostics: DiagnosticResult[] = [];
-  let seenInGroup = new Map<string, number>();
+export function parseDiagnostics(source: DocumentSource): DiagnosticResult[] {
+  const document = toDocument(source);
+  const diagnostics: DiagnosticResult[] = document.syntax.errors.map((error) => ({
+    message: error.message,
+    severity: "error",
+    source: "sbt-dependencies",
+    range: rangeOf(document, error.span),
+  }));
 
-  for (const event of walkDocument(lines)) {
-    switch (event.type) {
-      case "group-start": {
-        seenInGroup = new Map();
-        break;
-      }
-      case "dependency-string": {
-        const diag = validateDependencyString(event.content, event.lineIndex, event.startCol);
+  for (const group of document.groups) {
+    diagnostics.push(...validateSettings(document, group));
+
+    const seenInGroup = new Set<string>();
+
+    for (const entry of group.entries) {
+      let dependency: Field | undefined;
+      let depKey: string | undefined;
+
+      if (entry.kind === "line") {
+        const { line, col } = positionAt(document, entry.contentSpan.start);
+        const diag = validateDependencyString(entry.content, line, col);
         if (diag) {
           diagnostics.push(diag);
-        } else {
-          const key = extractDepKey(event.content);
-          if (key) {
-            if (seenInGroup.has(key)) {
-              diagnostics.push({
-                message: "Duplicate dependency in group",
-                severity: "warning",
-                source: "sbt-dependencies",
-                range: { startLine: event.lineIndex, startCol: event.startCol, endLine: event.lineIndex, endCol: event.startCol + event.content.length },
-              });
-            } else {
-              seenInGroup.set(key, event.lineIndex);
-            }
-          }
-        }
-        break;
-      }
-      case "single-line-object": {
-        const { diagnostics: objDiags, depKey } = validateObjectEntry(event.objectText, event.lineIndex, event.objectStartCol);
-        diagnostics.push(...objDiags);
-        if (depKey) {
-          if (seenInGroup.has(depKey)) {
-            const depMatch = objectDepFieldPattern.exec(event.objectText);
-            if (depMatch) {
-              const depContent = depMatch[1];
-              const depStartCol = event.objectStartCol + depMatch.index + depMatch[0].indexOf('"') + 1;
-              diagnostics.push({
-                message: "Duplicate dependency in group",
-                severity: "warning",
-                source: "sbt-dependencies",
-                range: { startLine: event.lineIndex, startCol: depStartCol, endLine: event.lineIndex, endCol: depStartCol + depContent.length },
-              });
-            }
-          } else {
-            seenInGroup.set(depKey, event.lineIndex);
-          }
+          continue;
         }
-        break;
+        dependency = dependencyOf(entry);
+        depKey = extractDepKey(entry.content);
+      } else if (entry.kind === "object") {
+        const result = validateObjectEntry(document, entry);
+        diagnostics.push(...result.diagnostics);
+        dependency = entry.dependency;
+        depKey = result.depKey;
       }
-      case "multi-line-object-field": {
-        // Validate the dependency value on the line it appears
-        if (event.field === "dependency" && event.fieldValue !== undefined && event.fieldValueStartCol !== undefined) {
-          const diag = validateDependencyString(event.fieldValue, event.lineIndex, event.fieldValueStartCol);
-          if (diag) {
-            diagnostics.push(diag);
-          } else {
-            const key = extractDepKey(event.fieldValue);
-            if (key) {
-              if (seenInGroup.has(key)) {
-                diagnostics.push({
-                  message: "Duplicate dependency in group",
-                  severity: "warning",
-                  source: "sbt-dependencies",
-                  range: { startLine: event.lineIndex, startCol: event.fieldValueStartCol, endLine: event.lineIndex, endCol: event.fieldValueStartCol + event.fieldValue.length },
-                });
-              } else {
-                seenInGroup.set(key, event.lineIndex);
-              }
-            }
-          }
-        }
-        if (
-          event.field === "cross-version" &&
-          event.fieldValue !== undefined &&
-          event.fieldValueStartCol !== undefined &&
-          !(legalCrossVersionValues as readonly string[]).includes(event.fieldValue)
-        ) {
-          diagnostics.push({
-            message: invalidCrossVersionMessage,
-            severity: "error",
-            source: "sbt-dependencies",
-            range: { startLine: event.lineIndex, startCol: event.fieldValueStartCol, endLine: event.lineIndex, endCol: event.fieldValueStartCol + event.fieldValue.length },
-          });
-        }
-        break;
-      }
-      case "multi-line-object-end": {
-        if (!event.hasDependency) {
-          diagnostics.push({
-            message: "Object entry must have a 'dependency' field",
-            severity: "error",
-            source: "sbt-dependencies",
-            range: { startLine: event.objectStartLine, startCol: 0, endLine: event.lineIndex, endCol: event.rawLine.length },
-          });
-        } else if (!event.hasNote && !event.hasIntransitive && !event.hasScalaFilter && !event.hasCrossVersion) {
-          diagnostics.push({
-            message: missingAnnotationMessage,
-            severity: "error",
-            source: "sbt-dependencies",
-            range: { startLine: event.objectStartLine, startCol: 0, endLine: event.lineIndex, endCol: event.rawLine.length },
-          });
-        } else if (
-          (event.crossVersionValue === "full" || event.crossVersionValue === "patch") &&
-          event.dependencyValue !== undefined &&
-          isWildcardDependency(event.dependencyValue)
-        ) {
-          diagnostics.push({
-            message: wildcardCrossVersionMessage(event.crossVersionValue),
-            severity: "error",
-            source: "sbt-dependencies",
-            range: { startLine: event.objectStartLine, startCol: 0, endLine: event.lineIndex, endCol: event.rawLine.length },
-          });
-        }
-        break;
+
+      if (!dependency || !depKey) continue;
+
+      if (seenInGroup.has(depKey)) {
+        diagnostics.push({
+          message: "Duplicate dependency in group",
+          severity: "warning",
+          source: "sbt-dependencies",
+          range: rangeOf(document, dependency.valueSpan),
+        });
+      } else {
+        seenInGroup.add(depKey);
       }
     }
   }
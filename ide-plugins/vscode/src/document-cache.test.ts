@@ -0,0 +1,78 @@
+import { describe, it, expect } from "vitest";
+import { DocumentCache } from "./document-cache";
+import { parseText } from "./parser";
+
+const uri = "file:///repo/project/dependencies.conf";
+
+const text = [
+  "sbt-build = [",
+  '  "ch.epfl.scala:sbt-scalafix:0.14.0:sbt-plugin"',
+  "]",
+  "",
+  "core = [",
+  '  "org.typelevel::cats-core:2.10.0"',
+  "]",
+].join("\n");
+
+/** Builds the change that replaces the first occurrence of `from` in `source` with `to`. */
+function replace(source: string, from: string, to: string) {
+  return { rangeOffset: source.indexOf(from), rangeLength: from.length, text: to };
+}
+
+describe("DocumentCache", () => {
+  it("parses once per version", () => {
+    const cache = new DocumentCache();
+    let reads = 0;
+    const getText = () => {
+      reads++;
+      return text;
+    };
+
+    const first = cache.get(uri, 1, getText);
+    expect(cache.get(uri, 1, getText)).toBe(first);
+    expect(reads).toBe(1);
+
+    expect(cache.get(uri, 2, getText)).not.toBe(first);
+    expect(reads).toBe(2);
+  });
+
+  it("applies an edit to the previous version without reading the text again", () => {
+    const cache = new DocumentCache();
+    const before = cache.get(uri, 1, () => text);
+
+    cache.update(uri, 2, [replace(text, "2.10.0", "2.12.0")]);
+    const after = cache.get(uri, 2, () => {
+      throw new Error("should not be read");
+    });
+
+    const expected = text.replace("2.10.0", "2.12.0");
+    expect(after.text).toBe(expected);
+    expect(after.groups).toEqual(parseText(expected).groups);
+    // The untouched group is reused as is
+    expect(after.groups[0].node).toBe(before.groups[0].node);
+  });
+
+  it("falls back to a full parse when it can't apply the changes", () => {
+    const cache = new DocumentCache();
+    cache.get(uri, 1, () => text);
+
+    cache.update(uri, 3, [replace(text, "core", "api")]);
+    expect(cache.get(uri, 3, () => "api = []").text).toBe("api = []");
+
+    cache.update(uri, 4, [replace("api = []", "api", "x"), replace("api = []", "[]", "[ ]")]);
+    expect(cache.get(uri, 4, () => "x = [ ]").text).toBe("x = [ ]");
+  });
+
+  it("ignores updates for documents it hasn't parsed", () => {
+    const cache = new DocumentCache();
+    cache.update(uri, 2, [replace(text, "core", "api")]);
+    expect(cache.get(uri, 2, () => text).groups.map((g) => g.name)).toEqual(["sbt-build", "core"]);
+  });
+
+  it("forgets deleted documents", () => {
+    const cache = new DocumentCache();
+    cache.get(uri, 1, () => text);
+    cache.delete(uri);
+    expect(cache.get(uri, 1, () => "api = []").groups.map((g) => g.name)).toEqual(["api"]);
+  });
+});
@@ -0,0 +1,50 @@
+import { parseText, updateDocument, DependenciesDocument } from "./parser";
+
+/** A content change as reported by `TextDocumentChangeEvent.contentChanges`. */
+export interface ContentChange {
+  rangeOffset: number;
+  rangeLength: number;
+  text: string;
+}
+
+/**
+ * Parsed `dependencies.conf` documents keyed by URI and version, so each edit is
+ * parsed once and every provider reads the same result.
+ *
+ * Edits reported through `update` are applied incrementally, reparsing only the
+ * groups they touched; anything else (a version the cache never saw, several
+ * changes in one event) falls back to a full parse on the next `get`.
+ */
+export class DocumentCache {
+  private readonly entries = new Map<string, { version: number; document: DependenciesDocument }>();
+
+  /** Returns the parsed document for `uri` at `version`, reading `getText` only on a cache miss. */
+  get(uri: string, version: number, getText: () => string): DependenciesDocument {
+    const entry = this.entries.get(uri);
+    if (entry?.version === version) return entry.document;
+
+    const document = parseText(getText());
+    this.entries.set(uri, { version, document });
+    return document;
+  }
+
+  /** Brings the cached document for `uri` to `version` by applying `changes` to the previous version. */
+  update(uri: string, version: number, changes: readonly ContentChange[]): void {
+    const entry = this.entries.get(uri);
+    if (!entry || entry.version === version) return;
+
+    if (entry.version !== version - 1 || changes.length !== 1) {
+      this.entries.delete(uri);
+      return;
+    }
+
+    const [change] = changes;
+    const document = updateDocument(entry.document, { offset: change.rangeOffset, length: change.rangeLength, text: change.text });
+    this.entries.set(uri, { version, document });
+  }
+
+  /** Forgets the document for `uri` (e.g. when it is closed). */
+  delete(uri: string): void {
+    this.entries.delete(uri);
+  }
+}
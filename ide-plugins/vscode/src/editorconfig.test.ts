@@ -0,0 +1,52 @@
+import { describe, it, expect } from "vitest";
+import { editorConfigIndentWidth, readEditorConfigFiles } from "./editorconfig";
+
+describe("editorConfigIndentWidth", () => {
+  it("reads indent_size from a matching section", () => {
+    const files = [{ dir: "/repo", text: "root = true\n\n[*]\nindent_size = 4\n" }];
+    expect(editorConfigIndentWidth(files, "/repo/project/dependencies.conf")).toBe(4);
+  });
+
+  it("lets later sections override earlier ones", () => {
+    const text = ["[*]", "indent_size = 4", "", "[*.conf]", "indent_size = 3"].join("\n");
+    expect(editorConfigIndentWidth([{ dir: "/repo", text }], "/repo/project/dependencies.conf")).toBe(3);
+    expect(editorConfigIndentWidth([{ dir: "/repo", text }], "/repo/build.sbt")).toBe(4);
+  });
+
+  it("lets closer files override farther ones, stopping at the root one", () => {
+    const files = [
+      { dir: "/repo/project", text: "[dependencies.conf]\nindent_size = 8\n" },
+      { dir: "/repo", text: "root = true\n[*]\nindent_size = 4\n" },
+      { dir: "/", text: "[*]\nindent_size = 6\ntab_width = 5\n" },
+    ];
+    expect(editorConfigIndentWidth(files, "/repo/project/dependencies.conf")).toBe(8);
+    expect(editorConfigIndentWidth(files.slice(1), "/repo/project/dependencies.conf")).toBe(4);
+  });
+
+  it("uses tab_width for indent_size = tab", () => {
+    const files = [{ dir: "/repo", text: "[*]\nindent_size = tab\ntab_width = 4\n" }];
+    expect(editorConfigIndentWidth(files, "/repo/dependencies.conf")).toBe(4);
+  });
+
+  it("matches paths, braces and double stars", () => {
+    const text = ["[project/*.conf]", "indent_size = 3", "[{a,b}/**.conf]", "indent_size = 5"].join("\n");
+    expect(editorConfigIndentWidth([{ dir: "/repo", text }], "/repo/project/dependencies.conf")).toBe(3);
+    expect(editorConfigIndentWidth([{ dir: "/repo", text }], "/repo/b/sub/project/dependencies.conf")).toBe(5);
+    expect(editorConfigIndentWidth([{ dir: "/repo", text }], "/repo/c/project/dependencies.conf")).toBeUndefined();
+  });
+
+  it("ignores comments and invalid sizes", () => {
+    const files = [{ dir: "/repo", text: "# indent_size = 4\n[*]\nindent_size = wide\n" }];
+    expect(editorConfigIndentWidth(files, "/repo/dependencies.conf")).toBeUndefined();
+  });
+});
+
+describe("readEditorConfigFiles", () => {
+  it("reads the files above the file, closest first", () => {
+    const files: Record<string, string> = { "/repo/.editorconfig": "root = true", "/repo/project/.editorconfig": "[*]" };
+    expect(readEditorConfigFiles("/repo/project/dependencies.conf", (file) => files[file])).toEqual([
+      { dir: "/repo/project", text: "[*]" },
+      { dir: "/repo", text: "root = true" },
+    ]);
+  });
+});
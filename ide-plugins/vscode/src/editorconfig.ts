@@ -0,0 +1,146 @@
+import * as fs from "node:fs";
+import * as path from "node:path";
+
+/**
+ * Reads the indentation `.editorconfig` files set for a file, following the EditorConfig rules: files are read from
+ * the file's directory upwards until one declares `root = true`, closer files win over farther ones, and later
+ * sections of a file win over earlier ones.
+ */
+
+/** An `.editorconfig` file: the directory holding it and its text. */
+export interface EditorConfigFile {
+  dir: string;
+  text: string;
+}
+
+interface Section {
+  pattern: RegExp;
+  properties: Map<string, string>;
+}
+
+/** The sections of an `.editorconfig` file and whether it is the root one. */
+function parse(text: string): { root: boolean; sections: Section[] } {
+  let root = false;
+  const sections: Section[] = [];
+  let current: Section | undefined;
+
+  for (const raw of text.split(/\r?\n/)) {
+    const line = raw.trim();
+    if (line === "" || line.startsWith("#") || line.startsWith(";")) continue;
+
+    const header = /^\[(.+)\]$/.exec(line);
+    if (header) {
+      current = { pattern: globToRegExp(header[1]), properties: new Map() };
+      sections.push(current);
+      continue;
+    }
+
+    const property = /^([^=:]+?)\s*[=:]\s*(.*)$/.exec(line);
+    if (!property) continue;
+    const key = property[1].toLowerCase();
+    const value = property[2].replace(/\s+[#;].*$/, "").toLowerCase();
+    if (current) current.properties.set(key, value);
+    else if (key === "root") root = value === "true";
+  }
+
+  return { root, sections };
+}
+
+/**
+ * A section glob as a regular expression over paths relative to the `.editorconfig` directory. Globs without a `/`
+ * match the file name in any directory; `*` stays within a directory while `**` crosses them.
+ */
+function globToRegExp(glob: string): RegExp {
+  const relative = glob.includes("/") ? glob.replace(/^\//, "") : `**/${glob}`;
+  let source = "";
+
+  for (let i = 0; i < relative.length; i++) {
+    const char = relative[i];
+    if (char === "*" && relative[i + 1] === "*") {
+      // `**/` also matches no directory at all
+      source += relative[i + 2] === "/" ? "(?:.*/)?" : ".*";
+      i += relative[i + 2] === "/" ? 2 : 1;
+    } else if (char === "*") {
+      source += "[^/]*";
+    } else if (char === "?") {
+      source += "[^/]";
+    } else if (char === "[") {
+      const end = relative.indexOf("]", i);
+      if (end === -1) {
+        source += "\\[";
+        continue;
+      }
+      source += `[${relative.slice(i + 1, end).replace(/^!/, "^").replace(/\\/g, "\\\\")}]`;
+      i = end;
+    } else if (char === "{") {
+      const end = relative.indexOf("}", i);
+      if (end === -1) {
+        source += "\\{";
+        continue;
+      }
+      const options = relative.slice(i + 1, end).split(",");
+      source += `(?:${options.map((option) => option.replace(/[.+^$()|\\]/g, "\\$&").replace(/\*/g, "[^/]*")).join("|")})`;
+      i = end;
+    } else {
+      source += char.replace(/[.+^$()|\\]/g, "\\$&");
+    }
+  }
+
+  return new RegExp(`^${source}$`);
+}
+
+/**
+ * The indentation width `.editorconfig` files set for the file at `filePath` (`indent_size`, or `tab_width` when it
+ * is `tab`), or `undefined` when none does. `files` are the `.editorconfig` files of the file's directory and its
+ * ancestors, closest first; paths use `/` separators.
+ */
+export function editorConfigIndentWidth(files: EditorConfigFile[], filePath: string): number | undefined {
+  const properties = new Map<string, string>();
+
+  // Farthest first, so that closer files and later sections override
+  const applicable: EditorConfigFile[] = [];
+  for (const file of files) {
+    applicable.unshift(file);
+    if (parse(file.text).root) break;
+  }
+
+  for (const file of applicable) {
+    const dir = file.dir.replace(/\/+$/, "");
+    if (!filePath.startsWith(`${dir}/`)) continue;
+    const relative = filePath.slice(dir.length + 1);
+    for (const section of parse(file.text).sections) {
+      if (!section.pattern.test(relative)) continue;
+      for (const [key, value] of section.properties) properties.set(key, value);
+    }
+  }
+
+  const size = properties.get("indent_size");
+  const width = size === "tab" ? properties.get("tab_width") : size;
+  const parsed = width !== undefined && /^\d+$/.test(width) ? Number(width) : undefined;
+  return parsed !== undefined && parsed > 0 ? parsed : undefined;
+}
+
+/** The text of the file at `file`, or `undefined` when it can't be read. */
+function readIfExists(file: string): string | undefined {
+  try {
+    return fs.readFileSync(file, "utf-8");
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * The `.editorconfig` files of the directories above the file at `filePath`, closest first, with `/`-separated
+ * directories as {@link editorConfigIndentWidth} expects.
+ */
+export function readEditorConfigFiles(
+  filePath: string,
+  read: (file: string) => string | undefined = readIfExists
+): EditorConfigFile[] {
+  const files: EditorConfigFile[] = [];
+  for (let dir = path.dirname(path.resolve(filePath)); ; dir = path.dirname(dir)) {
+    const text = read(path.join(dir, ".editorconfig"));
+    if (text !== undefined) files.push({ dir: dir.split(path.sep).join("/"), text });
+    if (path.dirname(dir) === dir) return files;
+  }
+}
@@ -0,0 +1,86 @@
+import { describe, it, expect } from "vitest";
+import { dependencyDescription, dependencyIcon, explorerGroups } from "./explorer";
+import { ResolutionLookup } from "./resolutions";
+
+/** A fake lookup resolving `*` to 2.18.2 and `{{cats}}` to 2.10.0 in the `core` group. */
+function fakeLookup(): ResolutionLookup {
+  return {
+    resolveWildcard: (group, org) =>
+      group === "core" && org === "com.fasterxml.jackson.core"
+        ? { version: "2.18.2", bom: { organization: "com.fasterxml.jackson", name: "jackson-bom", version: "2.18.2" } }
+        : undefined,
+    resolveVariable: (group, org) =>
+      group === "core" && org === "org.typelevel" ? { version: "2.10.0", variable: "cats" } : undefined,
+    pinFor: () => undefined,
+    knownVariables: () => new Map(),
+    stale: false,
+  };
+}
+
+const lines = [
+  "core = [",
+  '  "org.typelevel::cats-core:{{cats}}"',
+  '  "com.fasterxml.jackson.core:jackson-databind:*"',
+  '  { dependency = "io.circe::circe-core:=0.14.6", note = "Needs Scala 2.12" }',
+  '  { dependency = "com.example:legacy:1.0.0", intransitive = true }',
+  "]",
+  "",
+  "docs = [",
+  '  "com.lihaoyi::scalatags:0.13.1"',
+  "]",
+];
+
+describe("explorerGroups", () => {
+  it("lists groups and their dependencies in file order", () => {
+    const groups = explorerGroups(lines);
+
+    expect(groups.map((g) => g.name)).toEqual(["core", "docs"]);
+    expect(groups[0].dependencies.map((d) => d.label)).toEqual([
+      "org.typelevel::cats-core:{{cats}}",
+      "com.fasterxml.jackson.core:jackson-databind:*",
+      "io.circe::circe-core:=0.14.6",
+      "com.example:legacy:1.0.0",
+    ]);
+    expect(groups[1].dependencies[0].range).toEqual({ startLine: 8, startCol: 3, endLine: 8, endCol: 32 });
+  });
+
+  it("badges variables, BOM-managed, pinned, intransitive and noted dependencies", () => {
+    const [core, docs] = explorerGroups(lines);
+
+    expect(core.dependencies.map((d) => d.badges)).toEqual([["variable"], ["bom"], ["pinned", "noted"], ["intransitive"]]);
+    expect(core.dependencies[2].note).toBe("Needs Scala 2.12");
+    expect(docs.dependencies[0].badges).toEqual([]);
+  });
+
+  it("resolves `*` and `{{variable}}` versions through the lookup", () => {
+    const [core, docs] = explorerGroups(lines, fakeLookup());
+
+    expect(core.dependencies.map((d) => d.resolved)).toEqual(["2.10.0", "2.18.2", undefined, undefined]);
+    expect(docs.dependencies[0].resolved).toBeUndefined();
+  });
+
+  it("keeps dependencies that don't parse, without coordinates", () => {
+    const [group] = explorerGroups(["g = [", '  "not a dependency"', "]"]);
+
+    expect(group.dependencies[0].label).toBe("not a dependency");
+    expect(group.dependencies[0].dependency).toBeUndefined();
+  });
+});
+
+describe("dependencyIcon", () => {
+  it("uses the icon of the first badge", () => {
+    const [core, docs] = explorerGroups(lines);
+
+    expect(core.dependencies.map(dependencyIcon)).toEqual(["symbol-variable", "library", "pinned", "debug-step-over"]);
+    expect(dependencyIcon(docs.dependencies[0])).toBe("package");
+  });
+});
+
+describe("dependencyDescription", () => {
+  it("shows the resolved version before the badges", () => {
+    const [core] = explorerGroups(lines, fakeLookup());
+
+    expect(dependencyDescription(core.dependencies[0])).toBe("→ 2.10.0 · variable");
+    expect(dependencyDescription(core.dependencies[2])).toBe("pinned · noted");
+  });
+});
@@ -0,0 +1,107 @@
+import { parseDependency, DependencyMatch } from "./hover";
+import { dependencyOf, rangeOf, toDocument, DocumentSource, Entry, TextRange } from "./parser";
+import { ResolutionLookup } from "./resolutions";
+import { parseDocumentSymbols } from "./symbols";
+import { parseNumeric } from "./version";
+
+/** What makes a dependency worth an icon in the explorer, in the order the icon is picked. */
+export type DependencyBadge = "pinned" | "bom" | "variable" | "intransitive" | "noted";
+
+const badgeOrder: DependencyBadge[] = ["pinned", "bom", "variable", "intransitive", "noted"];
+
+/** A dependency node of the Dependencies explorer. */
+export interface ExplorerDependency {
+  /** The dependency string as written. */
+  label: string;
+  /** The range of the dependency string (inside its quotes). */
+  range: TextRange;
+  /** The parsed coordinates, when the string is a valid dependency. */
+  dependency: DependencyMatch | undefined;
+  badges: DependencyBadge[];
+  /** The version a `*` or `{{variable}}` resolved to on the last sbt load. */
+  resolved?: string;
+  note?: string;
+}
+
+/** A group node of the Dependencies explorer, with its dependencies in file order. */
+export interface ExplorerGroup {
+  name: string;
+  range: TextRange;
+  dependencies: ExplorerDependency[];
+}
+
+/**
+ * The groups and dependencies of a `dependencies.conf` document, as listed in the Dependencies explorer: the
+ * document symbols, with the badges of each dependency (marker, `*`, `{{variable}}`, `intransitive`, `note`) and,
+ * given a `lookup`, the versions its `*` and `{{variable}}` dependencies resolved to.
+ */
+export function explorerGroups(source: DocumentSource, lookup?: ResolutionLookup): ExplorerGroup[] {
+  const document = toDocument(source);
+
+  // Object entries, keyed by where their dependency string starts, to read the fields symbols leave out
+  const entries = new Map<string, Entry>();
+  for (const group of document.groups) {
+    for (const entry of group.entries) {
+      const field = dependencyOf(entry);
+      if (!field) continue;
+      const { startLine, startCol } = rangeOf(document, field.valueSpan);
+      entries.set(`${startLine}:${startCol}`, entry);
+    }
+  }
+
+  return parseDocumentSymbols(document).map((group) => ({
+    name: group.name,
+    range: group.range,
+    dependencies: (group.children ?? []).map((symbol) => {
+      const entry = entries.get(`${symbol.range.startLine}:${symbol.range.startCol}`);
+      const dep = parseDependency(symbol.name);
+      const version = dep?.version;
+
+      const badges = new Set<DependencyBadge>();
+      if (version && (parseNumeric(version)?.marker ?? "") !== "") badges.add("pinned");
+      if (version === "*") badges.add("bom");
+      if (version?.startsWith("{{")) badges.add("variable");
+      if (entry?.kind === "object" && entry.intransitive) badges.add("intransitive");
+      const note = entry?.kind === "object" ? entry.note?.value : undefined;
+      if (note) badges.add("noted");
+
+      const result: ExplorerDependency = {
+        label: symbol.name,
+        range: symbol.range,
+        dependency: dep,
+        badges: badgeOrder.filter((badge) => badges.has(badge)),
+      };
+
+      const resolved = dep && lookup && resolvedVersion(lookup, group.name, dep);
+      if (resolved) result.resolved = resolved;
+      if (note) result.note = note;
+      return result;
+    }),
+  }));
+}
+
+function resolvedVersion(lookup: ResolutionLookup, group: string, dep: DependencyMatch): string | undefined {
+  const isCross = dep.separator === "::";
+  if (dep.version === "*") return lookup.resolveWildcard(group, dep.org, dep.artifact, isCross)?.version;
+  if (dep.version?.startsWith("{{")) return lookup.resolveVariable(group, dep.org, dep.artifact, isCross)?.version;
+  return undefined;
+}
+
+const badgeIcons: Record<DependencyBadge, string> = {
+  pinned: "pinned",
+  bom: "library",
+  variable: "symbol-variable",
+  intransitive: "debug-step-over",
+  noted: "note",
+};
+
+/** The codicon of a dependency node: its first badge's, or a plain package. */
+export function dependencyIcon(dependency: ExplorerDependency): string {
+  return dependency.badges.length > 0 ? badgeIcons[dependency.badges[0]] : "package";
+}
+
+/** The description shown next to a dependency node: the resolved version, then its badges. */
+export function dependencyDescription(dependency: ExplorerDependency): string {
+  const parts = dependency.resolved ? [`→ ${dependency.resolved}`] : [];
+  return [...parts, ...dependency.badges].join(" · ");
+}
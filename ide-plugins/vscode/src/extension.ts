@@ -1,58 +1,264 @@
 import * as fs from "node:fs";
+import * as childProcess from "node:child_process";
 import * as crypto from "node:crypto";
+import * as path from "node:path";
 import * as vscode from "vscode";
 import {
+  chooseImportBackend,
   shouldPromptImport,
   importStatusBarText,
   importStatusBarTooltip,
   importPromptMessage,
   importPromptButton,
+  ImportBackend,
+  ImportBackendSetting,
 } from "./build-import";
+import { buildRootOf, buildRootsOf, buildSbtPathOf, chooseBuildRoot, dependenciesConfPathOf } from "./build-roots";
+import { bomCoordinate, filterBoms, hardcodedPinned, summarizeBoms, BomPinSummary, BomSummary } from "./bom-explorer";
 import { parseCodeLenses } from "./codelens";
+import {
+  completeConfigurations,
+  completeCoordinates,
+  completeCrossVersions,
+  completeFields,
+  completeVariables,
+  coordinateContext,
+  crossVersionContext,
+  fieldContext,
+  variablesIn,
+  CompletionData,
+} from "./completion";
+import { indexCoursierCache, parseMavenMetadataVersions, CoursierIndex } from "./coursier-index";
 import { parseResolvedDecorations } from "./resolved-decorations";
 import { dumpPathsFor, parseResolutionsDump, ResolutionsIndex, ResolutionLookup } from "./resolutions";
 import { parsePinnedWithoutNote, parseBomManagedVersions } from "./dep-codelens";
-import { parseDiagnostics } from "./diagnostics";
-import { formatDocument } from "./formatting";
-import { COMMON_SETTINGS, SBT_BUILD } from "./groups";
-import { parseDependency, buildHoverMarkdown, HoverResolution } from "./hover";
+import { parseDiagnostics, DiagnosticResult } from "./diagnostics";
+import { DocumentCache } from "./document-cache";
+import { editorConfigIndentWidth, readEditorConfigFiles } from "./editorconfig";
+import { dependencyDescription, dependencyIcon, explorerGroups, ExplorerDependency, ExplorerGroup } from "./explorer";
+import { defaultFormatOptions, formatDocument, formatRange, formattingEdits, FormatOptions, SortOrder } from "./formatting";
+import { parseDependency, buildHoverMarkdown, buildMvnRepositoryUrl, HoverResolution } from "./hover";
 import { parseGroupHeader, buildGroupHoverMarkdown } from "./group-hover";
+import { RESERVED } from "./groups";
 import { parseDocumentLinks } from "./links";
 import { parseNoteDecorations } from "./note-decorations";
+import { dependencyMatrix, matrixHtml, matrixTableHtml } from "./matrix";
+import { mavenMetadataUrls, outdatedHintLabel, parseOutdatedHints, versionQueries, VersionsQuery } from "./outdated";
+import { DependenciesDocument, DocumentSource, parseText, TextRange } from "./parser";
 import { DependencyPasteEditProvider } from "./paste";
 import { resolveRepositoryUrl } from "./pom";
+import {
+  checkGroupsAgainstProjects,
+  checkProjectsAgainstGroups,
+  groupInsertion,
+  groupRemoval,
+  missingGroupOf,
+  orphanGroupOf,
+} from "./project-groups";
+import { BuildFile, BuildProjects, discoverProjects } from "./projects";
 import { findReferences } from "./references";
 import { getQuickFixes } from "./quickfix";
-import { prepareVariableRename, computeVariableRenameEdits } from "./rename";
+import {
+  computeVariableRenameEdits,
+  groupRenameEdits,
+  prepareGroupRename,
+  prepareProjectRename,
+  prepareVariableRename,
+  projectRenameEdits,
+  projectRenameError,
+  RenameEdit,
+} from "./rename";
+import {
+  dependenciesInsertion,
+  findMovableDependencies,
+  movableDependenciesMessage,
+  movableDependenciesRemoval,
+  movableDependencyDiagnostics,
+} from "./sbt-migration";
+import { activeJsonPath, connectToSbtServer, SbtServerClient, ServerDiagnostics } from "./sbt-server";
 import { parseDocumentSymbols } from "./symbols";
+import { installTask, isModifyingTask, mapTaskOutput, taskCommandLine, PLUGIN_TASKS, SbtTaskDefinition, TASK_TYPE } from "./tasks";
+import { parseNumeric } from "./version";
+import { WorkspaceSymbolIndex } from "./workspace-symbols";
+
+/** Parsed `dependencies.conf` documents, shared by every provider and updated as the user types. */
+const parsedDocuments = new DocumentCache();
+
+/** The parsed view of a `dependencies.conf` document at its current version. */
+function parsed(document: vscode.TextDocument): DependenciesDocument {
+  return parsedDocuments.get(document.uri.toString(), document.version, () => document.getText());
+}
+
+/**
+ * The `build.sbt` of the build owning a `dependencies.conf`, or `undefined` when the file isn't its build's
+ * `project/dependencies.conf`.
+ */
+function buildSbtUriFor(confUri: vscode.Uri): vscode.Uri | undefined {
+  const root = buildRootOfConf(confUri);
+  return root ? vscode.Uri.file(buildSbtPathOf(root)) : undefined;
+}
+
+/** The root of the build whose `project/dependencies.conf` is at `confUri`, or `undefined` for any other conf. */
+function buildRootOfConf(confUri: vscode.Uri): string | undefined {
+  const root = buildRootOf(confUri.fsPath);
+  return root && dependenciesConfPathOf(root) === confUri.fsPath ? root : undefined;
+}
+
+/** The `project/dependencies.conf` of the build an `.sbt` file (`build.sbt`, `project/plugins.sbt`...) belongs to. */
+function dependenciesConfUriFor(sbtUri: vscode.Uri): vscode.Uri {
+  const root = buildRootOf(sbtUri.fsPath) ?? path.dirname(sbtUri.fsPath);
+  return vscode.Uri.file(dependenciesConfPathOf(root));
+}
+
+function isSbtFile(document: vscode.TextDocument): boolean {
+  return document.uri.scheme === "file" && document.uri.path.endsWith(".sbt");
+}
+
+/** Whether an `.sbt` file belongs to the meta-build (`project/plugins.sbt`...). */
+function isMetaBuildSbt(uri: vscode.Uri): boolean {
+  return path.basename(path.dirname(uri.fsPath)) === "project";
+}
+
+/** Whether a file is a Scala source of a build's `project/` directory, where projects can be defined too. */
+function isBuildScala(uri: vscode.Uri): boolean {
+  return uri.scheme === "file" && uri.path.endsWith(".scala") && path.basename(path.dirname(uri.fsPath)) === "project";
+}
+
+/** The open document for `uri`, if any. */
+function openDocument(uri: vscode.Uri): vscode.TextDocument | undefined {
+  return vscode.workspace.textDocuments.find((doc) => doc.uri.toString() === uri.toString());
+}
+
+/** The lines of a build file (`build.sbt`...), from its editor when open (so unsaved edits count), or `undefined` when missing. */
+function readBuildFileLines(uri: vscode.Uri): string[] | undefined {
+  const document = openDocument(uri);
+  if (document) return document.getText().split(/\r?\n/);
+  try {
+    return fs.readFileSync(uri.fsPath, "utf-8").split(/\r?\n/);
+  } catch {
+    return undefined;
+  }
+}
+
+/** The files of the build at `root` that can define projects: its `*.sbt` files and its `project/*.scala` ones. */
+function buildFilesOf(root: string): BuildFile[] {
+  const files: string[] = [];
+  for (const [dir, extension] of [[root, ".sbt"], [path.join(root, "project"), ".scala"]]) {
+    try {
+      const names = fs.readdirSync(dir).filter((name) => name.endsWith(extension)).sort();
+      files.push(...names.map((name) => path.join(dir, name)));
+    } catch {
+      // No such directory
+    }
+  }
+
+  return files.flatMap((file) => {
+    const lines = readBuildFileLines(vscode.Uri.file(file));
+    return lines ? [{ path: file, lines }] : [];
+  });
+}
+
+/**
+ * Cache of the projects of each build root, so that diagnostics don't re-read every build file on each keystroke.
+ * Invalidated when a build file is edited or changes on disk, and when the resolutions dumps change.
+ */
+const buildProjectsCache = new Map<string, BuildProjects>();
+
+/** The projects of the build at `root`, as listed by its resolutions dump when sbt wrote one. */
+function buildProjectsOf(root: string): BuildProjects {
+  const cached = buildProjectsCache.get(root);
+  if (cached) return cached;
+
+  const dumps = resolutionsIndexFor(dependenciesConfPathOf(root))?.dumps;
+  const projects = discoverProjects(buildFilesOf(root), dumps?.flatMap((dump) => Object.keys(dump.projects)));
+  buildProjectsCache.set(root, projects);
+  return projects;
+}
+
+/** Drops the cached projects of the build the file at `uri` belongs to, when it is one of its build files. */
+function invalidateBuildProjects(uri: vscode.Uri): void {
+  if (uri.scheme !== "file" || !(uri.path.endsWith(".sbt") || isBuildScala(uri))) return;
+  const root = buildRootOf(uri.fsPath);
+  if (root) buildProjectsCache.delete(root);
+}
+
+/** The parsed `dependencies.conf`, from its editor when open, or `undefined` when missing. */
+function readDependenciesConf(uri: vscode.Uri): DependenciesDocument | undefined {
+  const document = openDocument(uri);
+  if (document) return parsed(document);
+  try {
+    return parseText(fs.readFileSync(uri.fsPath, "utf-8"));
+  } catch {
+    return undefined;
+  }
+}
+
+function toDiagnostic(r: DiagnosticResult): vscode.Diagnostic {
+  const range = new vscode.Range(r.range.startLine, r.range.startCol, r.range.endLine, r.range.endCol);
+  const severity =
+    r.severity === "information"
+      ? vscode.DiagnosticSeverity.Information
+      : r.severity === "warning"
+        ? vscode.DiagnosticSeverity.Warning
+        : vscode.DiagnosticSeverity.Error;
+  const d = new vscode.Diagnostic(range, r.message, severity);
+  d.source = r.source;
+  return d;
+}
 
 /**
- * Scans a `dependencies.conf` document for malformed dependency strings
- * and publishes diagnostics.
+ * Scans a `dependencies.conf` document for malformed dependency strings and groups without a project, or a build file
+ * for projects without a group (and, in `.sbt` files, for dependencies `dependencies.conf` could manage instead), and
+ * publishes diagnostics.
  */
 function updateDiagnostics(
   document: vscode.TextDocument,
   collection: vscode.DiagnosticCollection
 ): void {
-  if (document.languageId !== "sbt-dependencies") {
+  const buildScala = isBuildScala(document.uri);
+  if (isSbtFile(document) || buildScala) {
+    const lines = document.getText().split(/\r?\n/);
+    const conf = readDependenciesConf(dependenciesConfUriFor(document.uri));
+    const results = conf && !buildScala ? movableDependencyDiagnostics(lines, isMetaBuildSbt(document.uri)) : [];
+    const root = buildRootOf(document.uri.fsPath);
+    if (conf && root && (buildScala || !isMetaBuildSbt(document.uri))) {
+      results.unshift(...checkProjectsAgainstGroups(buildProjectsOf(root), document.uri.fsPath, conf));
+    }
+    collection.set(document.uri, results.map(toDiagnostic));
     return;
   }
 
-  const lines: string[] = [];
-  for (let i = 0; i < document.lineCount; i++) {
-    lines.push(document.lineAt(i).text);
+  if (document.languageId !== "sbt-dependencies") {
+    return;
   }
 
-  const results = parseDiagnostics(lines);
-  const diagnostics = results.map((r) => {
-    const range = new vscode.Range(r.range.startLine, r.range.startCol, r.range.endLine, r.range.endCol);
-    const severity = r.severity === "warning" ? vscode.DiagnosticSeverity.Warning : vscode.DiagnosticSeverity.Error;
-    const d = new vscode.Diagnostic(range, r.message, severity);
-    d.source = r.source;
-    return d;
-  });
+  const conf = parsed(document);
+  const results = parseDiagnostics(conf);
+  const root = buildRootOfConf(document.uri);
+  if (root) results.push(...checkGroupsAgainstProjects(conf, buildProjectsOf(root)));
+
+  collection.set(document.uri, results.map(toDiagnostic));
+}
 
-  collection.set(document.uri, diagnostics);
+/**
+ * Refreshes the diagnostics of the open counterparts of `document`: the `dependencies.conf` of a build file (an `.sbt`
+ * file or a `project/*.scala` one), or the build files of a `dependencies.conf`'s build.
+ */
+function updateCounterpartDiagnostics(
+  document: vscode.TextDocument,
+  collection: vscode.DiagnosticCollection
+): void {
+  if (isSbtFile(document) || isBuildScala(document.uri)) {
+    const conf = openDocument(dependenciesConfUriFor(document.uri));
+    if (conf) updateDiagnostics(conf, collection);
+  } else if (document.languageId === "sbt-dependencies") {
+    const sbtFiles = vscode.workspace.textDocuments.filter(
+      (other) =>
+        (isSbtFile(other) || isBuildScala(other.uri)) &&
+        dependenciesConfUriFor(other.uri).toString() === document.uri.toString()
+    );
+    for (const sbtFile of sbtFiles) updateDiagnostics(sbtFile, collection);
+  }
 }
 
 /** Cache of parsed resolutions dumps, keyed by conf path and invalidated when either dump's mtime changes. */
@@ -84,8 +290,22 @@ function readDump(filePath: string) {
  */
 function getResolutions(document: vscode.TextDocument): ResolutionLookup | undefined {
   if (document.languageId !== "sbt-dependencies") return undefined;
+  return resolutionsFor(document.uri.fsPath, document.getText());
+}
+
+/** The resolution lookup for the `dependencies.conf` at `conf` whose current content is `text`. */
+function resolutionsFor(conf: string, text: string): ResolutionLookup | undefined {
+  const index = resolutionsIndexFor(conf);
+  if (!index) return undefined;
+
+  const bufferHash = crypto.createHash("sha1").update(text, "utf8").digest("hex");
+  const stale = index.sourceHash !== undefined && index.sourceHash !== bufferHash;
+
+  return index.asLookup(stale);
+}
 
-  const conf = document.uri.fsPath;
+/** The cached index of the dumps next to the `dependencies.conf` at `conf`, re-read when a dump's mtime changes. */
+function resolutionsIndexFor(conf: string): ResolutionsIndex | undefined {
   const { main, meta } = dumpPathsFor(conf);
   const mainMtime = mtimeOf(main);
   const metaMtime = mtimeOf(meta);
@@ -105,17 +325,12 @@ function getResolutions(document: vscode.TextDocument): ResolutionLookup | undef
     resolutionsCache.set(conf, entry);
   }
 
-  if (!entry.index.hasData) return undefined;
-
-  const bufferHash = crypto.createHash("sha1").update(document.getText(), "utf8").digest("hex");
-  const stale = entry.index.sourceHash !== undefined && entry.index.sourceHash !== bufferHash;
-
-  return entry.index.asLookup(stale);
+  return entry.index.hasData ? entry.index : undefined;
 }
 
 /** The name of the group whose range contains `line`, or `undefined` when outside any group. */
-function groupAtLine(lines: string[], line: number): string | undefined {
-  return parseDocumentSymbols(lines).find(
+function groupAtLine(source: DocumentSource, line: number): string | undefined {
+  return parseDocumentSymbols(source).find(
     (s) => s.kind === "group" && line >= s.range.startLine && line <= s.range.endLine
   )?.name;
 }
@@ -137,10 +352,7 @@ function resolveHoverVersion(
   const lookup = getResolutions(document);
   if (!lookup) return undefined;
 
-  const lines: string[] = [];
-  for (let i = 0; i < document.lineCount; i++) lines.push(document.lineAt(i).text);
-
-  const group = groupAtLine(lines, line);
+  const group = groupAtLine(parsed(document), line);
   if (!group) return undefined;
 
   if (version === "*") {
@@ -220,15 +432,19 @@ function warmAvailabilityCache(document: vscode.TextDocument): void {
 /** Cache of repository URL lookups from Coursier POM files. */
 const repoUrlCache = new Map<string, string | undefined>();
 
+function repoUrlCacheKey(dep: import("./hover").DependencyMatch): string {
+  return `${dep.org}:${dep.artifact}:${dep.separator}:${dep.config ?? ""}`;
+}
+
 /**
  * Resolves and caches the project repository URL for a dependency by
  * reading POM files in the Coursier cache.
  */
-function resolveAndCacheRepoUrl(dep: import("./hover").DependencyMatch): string | undefined {
-  const cacheKey = `${dep.org}:${dep.artifact}:${dep.separator}:${dep.config ?? ""}`;
+async function resolveAndCacheRepoUrl(dep: import("./hover").DependencyMatch): Promise<string | undefined> {
+  const cacheKey = repoUrlCacheKey(dep);
   if (repoUrlCache.has(cacheKey)) return repoUrlCache.get(cacheKey);
 
-  const url = resolveRepositoryUrl(dep);
+  const url = await resolveRepositoryUrl(dep);
   repoUrlCache.set(cacheKey, url);
   return url;
 }
@@ -245,11 +461,91 @@ function warmRepoUrlCache(document: vscode.TextDocument): void {
     const dep = parseDependency(text);
 
     if (dep) {
-      resolveAndCacheRepoUrl(dep);
+      void resolveAndCacheRepoUrl(dep);
     }
   }
 }
 
+/** The Coursier cache index used for completion, `undefined` until the first indexing finishes. */
+let coursierIndex: CoursierIndex | undefined;
+
+/** Whether an indexing is running, so overlapping requests don't walk the cache twice. */
+let indexingCoursierCache = false;
+
+/** Fires when the known versions change: the Coursier cache was re-indexed or versions were fetched. */
+const versionsChanged = new vscode.EventEmitter<void>();
+
+/**
+ * (Re)indexes the Coursier cache in the background. Runs on activation and after each sbt reload, since that's when
+ * new artifacts get downloaded.
+ */
+function reindexCoursierCache(): void {
+  if (indexingCoursierCache) return;
+  indexingCoursierCache = true;
+
+  indexCoursierCache()
+    .then((index) => {
+      coursierIndex = index;
+      versionsChanged.fire();
+    })
+    .catch(() => undefined)
+    .finally(() => (indexingCoursierCache = false));
+}
+
+const completionItemKinds: Record<CompletionData["kind"], vscode.CompletionItemKind> = {
+  module: vscode.CompletionItemKind.Module,
+  constant: vscode.CompletionItemKind.Constant,
+  variable: vscode.CompletionItemKind.Variable,
+  enum: vscode.CompletionItemKind.EnumMember,
+  field: vscode.CompletionItemKind.Field,
+};
+
+function toCompletionItem(data: CompletionData, line: number): vscode.CompletionItem {
+  const item = new vscode.CompletionItem(data.label, completionItemKinds[data.kind]);
+  item.insertText = data.snippet ? new vscode.SnippetString(data.insertText) : data.insertText;
+  item.filterText = data.filterText;
+  item.sortText = data.sortText;
+  item.detail = data.detail;
+  if (data.documentation) item.documentation = new vscode.MarkdownString(data.documentation);
+  item.range = new vscode.Range(line, data.range.start, line, data.range.end);
+  return item;
+}
+
+/**
+ * Completes dependency strings (organizations, artifacts and versions from the local Coursier cache, then
+ * `{{variables}}` and configurations), object-entry fields and `cross-version` values.
+ */
+class DependencyCompletionProvider implements vscode.CompletionItemProvider {
+  provideCompletionItems(
+    document: vscode.TextDocument,
+    position: vscode.Position
+  ): vscode.CompletionItem[] | vscode.CompletionList | undefined {
+    const line = document.lineAt(position.line).text;
+    const toItems = (items: CompletionData[]) => items.map((data) => toCompletionItem(data, position.line));
+
+    const crossVersion = crossVersionContext(line, position.character);
+    if (crossVersion) return toItems(completeCrossVersions(crossVersion));
+
+    const conf = parsed(document);
+    const field = fieldContext(conf, document.offsetAt(position));
+    if (field) return toItems(completeFields(field));
+
+    const context = coordinateContext(line, position.character);
+    if (!context) return undefined;
+    if (context.kind === "configuration") return toItems(completeConfigurations(context));
+
+    const variables = new Map<string, string | undefined>(variablesIn(conf.text).map((name) => [name, undefined]));
+    const group = groupAtLine(conf, position.line);
+    if (group) getResolutions(document)?.knownVariables(group).forEach((version, name) => variables.set(name, version));
+    const variableItems = toItems(completeVariables(context, variables));
+
+    // Still indexing: mark the list incomplete so it's asked again on the next keystroke
+    if (!coursierIndex) return new vscode.CompletionList(variableItems, true);
+
+    return [...toItems(completeCoordinates(coursierIndex, context)), ...variableItems];
+  }
+}
+
 /**
  * Provides hover tooltips for dependencies found in `dependencies.conf` files,
  * showing organization, artifact, version marker explanation, configuration,
@@ -324,12 +620,7 @@ class GroupHeaderHoverProvider implements vscode.HoverProvider {
  */
 class DependencyDocumentSymbolProvider implements vscode.DocumentSymbolProvider {
   provideDocumentSymbols(document: vscode.TextDocument): vscode.DocumentSymbol[] {
-    const lines: string[] = [];
-    for (let i = 0; i < document.lineCount; i++) {
-      lines.push(document.lineAt(i).text);
-    }
-
-    return parseDocumentSymbols(lines).map((group) => {
+    return parseDocumentSymbols(parsed(document)).map((group) => {
       const groupRange = new vscode.Range(
         group.range.startLine, group.range.startCol,
         group.range.endLine, group.range.endCol
@@ -357,6 +648,52 @@ class DependencyDocumentSymbolProvider implements vscode.DocumentSymbolProvider
   }
 }
 
+/** The symbols of every `dependencies.conf` in the workspace, indexed on the first search. */
+const workspaceSymbols = new WorkspaceSymbolIndex();
+
+/** The initial indexing, started by the first workspace symbol search. */
+let workspaceSymbolsIndexed: Promise<void> | undefined;
+
+/**
+ * (Re)indexes one `dependencies.conf`, from its buffer when open (unless `fromDisk`), dropping it once it no longer
+ * exists.
+ */
+function indexWorkspaceSymbols(uri: vscode.Uri, fromDisk = false): void {
+  if (!workspaceSymbolsIndexed) return;
+
+  const document = fromDisk ? undefined : openDocument(uri);
+  const text = document ? undefined : readFileText(uri);
+  if (document) workspaceSymbols.update(uri.toString(), parsed(document));
+  else if (text !== undefined) workspaceSymbols.update(uri.toString(), parseText(text));
+  else workspaceSymbols.delete(uri.toString());
+}
+
+/**
+ * Serves Cmd+T across every `dependencies.conf` of the workspace (every build, meta-builds included): groups by name
+ * and dependencies by `org:artifact`, each dependency showing its group and version.
+ */
+class DependencyWorkspaceSymbolProvider implements vscode.WorkspaceSymbolProvider {
+  async provideWorkspaceSymbols(query: string): Promise<vscode.SymbolInformation[]> {
+    workspaceSymbolsIndexed ??= Promise.resolve(
+      vscode.workspace.findFiles("**/dependencies.conf", "**/{node_modules,target}/**")
+    ).then((uris) => uris.forEach((uri) => indexWorkspaceSymbols(uri)));
+    await workspaceSymbolsIndexed;
+
+    return workspaceSymbols.search(query).map(({ key, symbol }) => {
+      const uri = vscode.Uri.parse(key);
+      const { startLine, startCol, endLine, endCol } = symbol.range;
+      const location = new vscode.Location(uri, new vscode.Range(startLine, startCol, endLine, endCol));
+
+      if (symbol.kind === "group") {
+        const root = buildRootOf(uri.fsPath);
+        return new vscode.SymbolInformation(symbol.name, vscode.SymbolKind.Namespace, root ? buildLabel(root) : "", location);
+      }
+      const container = symbol.version ? `${symbol.group} · ${symbol.version}` : symbol.group;
+      return new vscode.SymbolInformation(symbol.name, vscode.SymbolKind.Package, container, location);
+    });
+  }
+}
+
 /**
  * Provides "Find All References" for variables (`{{varName}}`) and
  * dependencies (`org::artifact`) in `dependencies.conf` files.
@@ -366,12 +703,7 @@ class DependencyReferenceProvider implements vscode.ReferenceProvider {
     document: vscode.TextDocument,
     position: vscode.Position
   ): vscode.Location[] | undefined {
-    const lines: string[] = [];
-    for (let i = 0; i < document.lineCount; i++) {
-      lines.push(document.lineAt(i).text);
-    }
-
-    const refs = findReferences(lines, position.line, position.character);
+    const refs = findReferences(parsed(document), position.line, position.character);
     if (!refs) return undefined;
 
     return refs.map(
@@ -393,15 +725,18 @@ class DependencyDocumentLinkProvider implements vscode.DocumentLinkProvider {
   async provideDocumentLinks(
     document: vscode.TextDocument
   ): Promise<vscode.DocumentLink[]> {
-    const lines: string[] = [];
-    for (let i = 0; i < document.lineCount; i++) {
-      lines.push(document.lineAt(i).text);
-    }
-
-    const parsed = parseDocumentLinks(lines, resolveAndCacheRepoUrl);
+    const lines = parsed(document).lines;
+    // Resolve the repository URLs first, as `parseDocumentLinks` looks them up synchronously
+    await Promise.all(
+      lines.flatMap((line) => {
+        const dep = parseDependency(line);
+        return dep ? [resolveAndCacheRepoUrl(dep)] : [];
+      })
+    );
+    const links = parseDocumentLinks(lines, (dep) => repoUrlCache.get(repoUrlCacheKey(dep)));
     const results: vscode.DocumentLink[] = [];
 
-    for (const link of parsed) {
+    for (const link of links) {
       const isMvnRepository = link.url.includes("mvnrepository.com");
 
       // When the link points to a repo URL (not mvnrepository), skip the
@@ -430,22 +765,23 @@ class DependencyDocumentLinkProvider implements vscode.DocumentLinkProvider {
 
 /**
  * Provides rename support for `{{varName}}` tokens in `dependencies.conf`
- * files.  F2 on a variable renames all occurrences in the document.
+ * files.  F2 on a variable renames all occurrences in the document; F2 on
+ * a group name renames the group together with its `build.sbt` project.
  */
 class DependencyRenameProvider implements vscode.RenameProvider {
   prepareRename(
     document: vscode.TextDocument,
     position: vscode.Position
   ): vscode.Range | undefined {
-    const lines: string[] = [];
-    for (let i = 0; i < document.lineCount; i++) {
-      lines.push(document.lineAt(i).text);
-    }
+    const range = prepareVariableRename(parsed(document), position.line, position.character);
+    if (range) return new vscode.Range(range.startLine, range.startCol, range.endLine, range.endCol);
 
-    const range = prepareVariableRename(lines, position.line, position.character);
-    if (!range) return undefined;
+    const group = prepareGroupRename(parsed(document), position.line, position.character);
+    if (!group) return undefined;
+    if (RESERVED.has(group.name)) throw new Error(`The '${group.name}' group is reserved and can't be renamed`);
 
-    return new vscode.Range(range.startLine, range.startCol, range.endLine, range.endCol);
+    const { startLine, startCol, endLine, endCol } = group.range;
+    return new vscode.Range(startLine, startCol, endLine, endCol);
   }
 
   provideRenameEdits(
@@ -453,118 +789,409 @@ class DependencyRenameProvider implements vscode.RenameProvider {
     position: vscode.Position,
     newName: string
   ): vscode.WorkspaceEdit | undefined {
-    const lines: string[] = [];
-    for (let i = 0; i < document.lineCount; i++) {
-      lines.push(document.lineAt(i).text);
+    const result = computeVariableRenameEdits(parsed(document), position.line, position.character, newName);
+    if (result) {
+      const edit = new vscode.WorkspaceEdit();
+      addRenameEdits(edit, document.uri, result.edits);
+      return edit;
     }
 
-    const result = computeVariableRenameEdits(lines, position.line, position.character, newName);
-    if (!result) return undefined;
+    const group = prepareGroupRename(parsed(document), position.line, position.character);
+    if (!group || RESERVED.has(group.name)) return undefined;
+    return projectRenameEdit(document.uri, buildSbtUriFor(document.uri), group.name, newName);
+  }
+}
+
+/** F2 on the `lazy val` of a `build.sbt` project renames it together with its `dependencies.conf` group. */
+class BuildSbtRenameProvider implements vscode.RenameProvider {
+  prepareRename(
+    document: vscode.TextDocument,
+    position: vscode.Position
+  ): vscode.Range | undefined {
+    const project = prepareProjectRename(document.getText().split(/\r?\n/), position.line, position.character);
+    if (!project) return undefined;
 
-    const edit = new vscode.WorkspaceEdit();
-    for (const e of result.edits) {
-      edit.replace(
-        document.uri,
-        new vscode.Range(e.line, e.startCol, e.line, e.endCol),
-        e.newText
-      );
-    }
-    return edit;
+    const { startLine, startCol, endLine, endCol } = project.range;
+    return new vscode.Range(startLine, startCol, endLine, endCol);
+  }
+
+  provideRenameEdits(
+    document: vscode.TextDocument,
+    position: vscode.Position,
+    newName: string
+  ): vscode.WorkspaceEdit | undefined {
+    const project = prepareProjectRename(document.getText().split(/\r?\n/), position.line, position.character);
+    if (!project) return undefined;
+    return projectRenameEdit(dependenciesConfUriFor(document.uri), document.uri, project.name, newName);
   }
 }
 
+function addRenameEdits(edit: vscode.WorkspaceEdit, uri: vscode.Uri, edits: RenameEdit[]): void {
+  for (const e of edits) {
+    edit.replace(uri, new vscode.Range(e.line, e.startCol, e.line, e.endCol), e.newText);
+  }
+}
+
+/**
+ * Renames the group `oldName` of the `dependencies.conf` at `confUri` and the project of the same name in
+ * `build.sbt`. Either file may lack its side (no such group, no `build.sbt`), leaving just the other one renamed.
+ * Throws with the reason when `newName` isn't allowed, which VS Code shows to the user.
+ */
+function projectRenameEdit(
+  confUri: vscode.Uri,
+  buildSbtUri: vscode.Uri | undefined,
+  oldName: string,
+  newName: string
+): vscode.WorkspaceEdit {
+  const name = newName.trim().replace(/^`(.*)`$/, "$1");
+  const conf = parseText(confText(confUri) ?? "");
+  const error = projectRenameError(conf, oldName, name);
+  if (error) throw new Error(error);
+
+  const edit = new vscode.WorkspaceEdit();
+  addRenameEdits(edit, confUri, groupRenameEdits(conf, oldName, name));
+
+  const buildSbtLines = buildSbtUri && readBuildFileLines(buildSbtUri);
+  if (buildSbtUri && buildSbtLines && parseCodeLenses(buildSbtLines, []).some((data) => data.projectName === oldName)) {
+    addRenameEdits(edit, buildSbtUri, projectRenameEdits(buildSbtLines, oldName, name));
+  }
+  return edit;
+}
+
 /**
  * Provides document formatting for `dependencies.conf` files, sorting
  * dependencies alphabetically within groups and normalizing indentation.
+ * Range formatting only reformats the groups the range touches, and both
+ * return edits of the changed lines only, keeping the cursor, folding and
+ * undo history of the untouched ones.
  */
 class DependencyDocumentFormattingProvider implements vscode.DocumentFormattingEditProvider, vscode.DocumentRangeFormattingEditProvider {
   provideDocumentFormattingEdits(
     document: vscode.TextDocument
   ): vscode.TextEdit[] {
-    return this.formatFullDocument(document);
+    const conf = parsed(document);
+    return toTextEdits(conf.text, formatDocument(conf, formatOptionsFor(document.uri)));
   }
 
   provideDocumentRangeFormattingEdits(
-    document: vscode.TextDocument
+    document: vscode.TextDocument,
+    range: vscode.Range
   ): vscode.TextEdit[] {
-    return this.formatFullDocument(document);
+    const conf = parsed(document);
+    return toTextEdits(conf.text, formatRange(conf, {
+      startLine: range.start.line,
+      startCol: range.start.character,
+      endLine: range.end.line,
+      endCol: range.end.character,
+    }, formatOptionsFor(document.uri)));
   }
+}
 
-  private formatFullDocument(document: vscode.TextDocument): vscode.TextEdit[] {
-    const lines: string[] = [];
-    for (let i = 0; i < document.lineCount; i++) {
-      lines.push(document.lineAt(i).text);
-    }
+/**
+ * The formatter layout for `uri` from the `sbt-dependencies.format.*` settings. Without an indent width set, the one
+ * `.editorconfig` files give the file is used, and the plugin's own otherwise.
+ */
+function formatOptionsFor(uri: vscode.Uri): FormatOptions {
+  const config = vscode.workspace.getConfiguration("sbt-dependencies.format", uri);
+  const indentWidth =
+    config.get<number | null>("indentWidth") ?? editorConfigIndentWidth(readEditorConfigFiles(uri.fsPath), uri.fsPath.split(path.sep).join("/"));
+
+  return {
+    indentWidth: indentWidth ?? defaultFormatOptions.indentWidth,
+    maxObjectLineLength: config.get("maxObjectLineLength", defaultFormatOptions.maxObjectLineLength),
+    expandObjects: config.get("expandObjects", defaultFormatOptions.expandObjects),
+    sortOrder: config.get<SortOrder>("sortOrder", defaultFormatOptions.sortOrder),
+  };
+}
 
-    const formatted = formatDocument(lines);
-    const fullRange = new vscode.Range(
-      0, 0,
-      document.lineCount - 1, document.lineAt(document.lineCount - 1).text.length
-    );
+function toTextEdits(before: string, after: string): vscode.TextEdit[] {
+  if (after === before) return [];
+  return formattingEdits(before, after).map(({ range, newText }) =>
+    vscode.TextEdit.replace(new vscode.Range(range.startLine, range.startCol, range.endLine, range.endCol), newText)
+  );
+}
 
-    return [vscode.TextEdit.replace(fullRange, formatted)];
-  }
+// ── Tasks ───────────────────────────────────────────────────────────
+
+/** The root of the sbt build owning the active file, if any. */
+function activeBuildRoot(): string | undefined {
+  const active = vscode.window.activeTextEditor?.document.uri;
+  if (active?.scheme !== "file") return undefined;
+  return buildRootOf(active.fsPath, vscode.workspace.getWorkspaceFolder(active)?.uri.fsPath);
+}
+
+/** The roots of every sbt build in the workspace folders, nested ones included. */
+async function workspaceBuildRoots(): Promise<string[]> {
+  const files = await vscode.workspace.findFiles(
+    "**/{build.sbt,build.properties,dependencies.conf}",
+    "**/{node_modules,target}/**"
+  );
+  return buildRootsOf(files.map((uri) => uri.fsPath));
+}
+
+/** How a build is named to the user: its workspace folder, followed by its directory inside it. */
+function buildLabel(root: string): string {
+  const folder = vscode.workspace.getWorkspaceFolder(vscode.Uri.file(root));
+  if (!folder) return root;
+  const relative = path.relative(folder.uri.fsPath, root);
+  return relative ? path.join(folder.name, relative) : folder.name;
 }
 
 /**
- * Returns an existing terminal named `"sbt-dependencies"` or creates a new
- * one with `cwd` set to the first workspace folder.
+ * The sbt build a command runs against: the one owning the active file, else the only one in the workspace, else
+ * the one the user picks. Returns `undefined` when there is none (after saying so) or the user cancels.
  */
-function getSbtTerminal(): vscode.Terminal {
-  const existing = vscode.window.terminals.find(t => t.name === "sbt-dependencies");
-  if (existing) return existing;
+async function pickBuildRoot(): Promise<string | undefined> {
+  const active = activeBuildRoot();
+  const roots = active ? [] : await workspaceBuildRoots();
+  const chosen = chooseBuildRoot(roots, active);
+  if (chosen) return chosen;
+
+  if (roots.length === 0) {
+    vscode.window.showErrorMessage("No sbt build found in the workspace.");
+    return undefined;
+  }
 
-  const cwd = vscode.workspace.workspaceFolders?.[0]?.uri;
-  return vscode.window.createTerminal({ name: "sbt-dependencies", cwd });
+  const picked = await vscode.window.showQuickPick(
+    roots.map((root) => ({ label: buildLabel(root), root })),
+    { placeHolder: "Select the sbt build" }
+  );
+  return picked?.root;
 }
 
-function runUpdateAllDependencies(): void {
-  if (!vscode.workspace.workspaceFolders) {
-    vscode.window.showErrorMessage("No workspace folder open.");
+/** `definition` scoped to the build at `root`, relative to the workspace folder it runs in. */
+function inBuildRoot(definition: SbtTaskDefinition, folder: vscode.WorkspaceFolder, root: string): SbtTaskDefinition {
+  const relative = path.relative(folder.uri.fsPath, root);
+  return relative ? { ...definition, buildRoot: relative } : definition;
+}
+
+/** Maps the output of a plugin command back to the `project/dependencies.conf` of the build at `root` as diagnostics. */
+function publishTaskDiagnostics(collection: vscode.DiagnosticCollection, root: string, output: string[]): void {
+  const confUri = vscode.Uri.file(dependenciesConfPathOf(root));
+  let text: string;
+  try {
+    text = fs.readFileSync(confUri.fsPath, "utf-8");
+  } catch {
     return;
   }
-  const terminal = getSbtTerminal();
-  terminal.show();
-  terminal.sendText("sbtn updateAllDependencies");
+  collection.set(confUri, mapTaskOutput(parseText(text), output).map(toDiagnostic));
 }
 
-function runUpdateDependencies(): void {
-  if (!vscode.workspace.workspaceFolders) {
-    vscode.window.showErrorMessage("No workspace folder open.");
-    return;
+/**
+ * A pseudoterminal running one plugin command through `sbtn` in a build root. Its output is echoed as-is and, once
+ * the command exits, mapped back to `project/dependencies.conf` as diagnostics. Closing the terminal kills `sbtn`.
+ */
+class SbtTaskTerminal implements vscode.Pseudoterminal {
+  private readonly writeEmitter = new vscode.EventEmitter<string>();
+  private readonly closeEmitter = new vscode.EventEmitter<number>();
+  readonly onDidWrite = this.writeEmitter.event;
+  readonly onDidClose = this.closeEmitter.event;
+
+  private process: childProcess.ChildProcess | undefined;
+
+  constructor(
+    private readonly root: string,
+    private readonly definition: SbtTaskDefinition,
+    private readonly diagnostics: vscode.DiagnosticCollection
+  ) {}
+
+  open(): void {
+    const commandLine = taskCommandLine(this.definition);
+    this.writeEmitter.fire(`> sbtn ${commandLine}\r\n\r\n`);
+
+    const output: string[] = [];
+    let pending = "";
+    const onData = (data: Buffer) => {
+      const text = data.toString("utf-8");
+      this.writeEmitter.fire(text.replace(/\r?\n/g, "\r\n"));
+      const lines = (pending + text).split(/\r?\n/);
+      pending = lines.pop() ?? "";
+      output.push(...lines);
+    };
+
+    const sbtn = childProcess.spawn("sbtn", [commandLine], {
+      cwd: this.root,
+      shell: process.platform === "win32",
+    });
+    this.process = sbtn;
+    sbtn.stdout?.on("data", onData);
+    sbtn.stderr?.on("data", onData);
+    sbtn.on("error", (error) => {
+      this.writeEmitter.fire(`Could not run sbtn: ${error.message}\r\n`);
+      this.closeEmitter.fire(127);
+    });
+    sbtn.on("close", (code) => {
+      this.process = undefined;
+      if (pending) output.push(pending);
+      publishTaskDiagnostics(this.diagnostics, this.root, output);
+      this.closeEmitter.fire(code ?? 1);
+    });
+  }
+
+  close(): void {
+    this.process?.kill();
   }
-  const terminal = getSbtTerminal();
-  terminal.show();
-  terminal.sendText("sbtn updateDependencies");
+
 }
 
-function runUpdateSpecificDependency(org: string, artifact: string): void {
-  if (!vscode.workspace.workspaceFolders) {
-    vscode.window.showErrorMessage("No workspace folder open.");
-    return;
+/** Exposes every plugin command of every build as an `sbt-dependencies` task, run by an {@link SbtTaskTerminal}. */
+class SbtTaskProvider implements vscode.TaskProvider {
+  constructor(readonly diagnostics: vscode.DiagnosticCollection) {}
+
+  async provideTasks(): Promise<vscode.Task[]> {
+    return (await workspaceBuildRoots()).flatMap((root) => {
+      const folder = vscode.workspace.getWorkspaceFolder(vscode.Uri.file(root));
+      if (!folder) return [];
+
+      return PLUGIN_TASKS.map(({ command, detail }) => {
+        const task = this.createTask(inBuildRoot({ type: TASK_TYPE, command }, folder, root), folder);
+        task.detail = detail;
+        return task;
+      });
+    });
+  }
+
+  resolveTask(task: vscode.Task): vscode.Task | undefined {
+    const definition = task.definition as SbtTaskDefinition;
+    if (definition.type !== TASK_TYPE || !definition.command) return undefined;
+
+    const folder = typeof task.scope === "object" ? task.scope : vscode.workspace.workspaceFolders?.[0];
+    return folder && this.createTask(definition, folder);
+  }
+
+  /** The task running `definition` in its build, `definition.buildRoot` inside `folder` (the folder itself by default). */
+  createTask(definition: SbtTaskDefinition, folder: vscode.WorkspaceFolder): vscode.Task {
+    const root = definition.buildRoot ? path.join(folder.uri.fsPath, definition.buildRoot) : folder.uri.fsPath;
+    const name = definition.buildRoot
+      ? `${taskCommandLine(definition)} (${definition.buildRoot})`
+      : taskCommandLine(definition);
+    const task = new vscode.Task(
+      definition,
+      folder,
+      name,
+      TASK_TYPE,
+      new vscode.CustomExecution(async () => new SbtTaskTerminal(root, definition, this.diagnostics)),
+      ["$sbt-dependencies"]
+    );
+    task.presentationOptions = { reveal: vscode.TaskRevealKind.Always, clear: true };
+    return task;
+  }
+}
+
+let taskProvider: SbtTaskProvider | undefined;
+
+/** Fired once a plugin command ends, whether it ran as a task or on the sbt server. */
+const pluginCommandEnded = new vscode.EventEmitter<SbtTaskDefinition>();
+
+/** Where the log of plugin commands run on the sbt server goes. */
+let sbtServerOutput: vscode.OutputChannel | undefined;
+
+/** The compilation diagnostics the sbt server publishes while running plugin commands. */
+let sbtServerDiagnostics: vscode.DiagnosticCollection | undefined;
+
+const serverSeverities = [
+  vscode.DiagnosticSeverity.Error,
+  vscode.DiagnosticSeverity.Warning,
+  vscode.DiagnosticSeverity.Information,
+  vscode.DiagnosticSeverity.Hint,
+];
+
+function publishServerDiagnostics(params: ServerDiagnostics): void {
+  if (!sbtServerDiagnostics) return;
+
+  const uri = vscode.Uri.parse(params.uri);
+  const diagnostics = params.diagnostics.map((d) => {
+    const { start, end } = d.range;
+    const range = new vscode.Range(start.line, start.character, end.line, end.character);
+    const diagnostic = new vscode.Diagnostic(range, d.message, serverSeverities[(d.severity ?? 1) - 1]);
+    diagnostic.source = d.source ?? "sbt";
+    return diagnostic;
+  });
+  const previous = params.reset === false ? sbtServerDiagnostics.get(uri) ?? [] : [];
+  sbtServerDiagnostics.set(uri, [...previous, ...diagnostics]);
+}
+
+/**
+ * Runs a plugin command on the sbt server behind `client`, with a cancellable progress notification showing its log.
+ * The full log goes to the "sbt-dependencies" output channel, shown when the command fails.
+ */
+async function runOnSbtServer(client: SbtServerClient, root: string, definition: SbtTaskDefinition): Promise<void> {
+  const commandLine = taskCommandLine(definition);
+  const output: string[] = [];
+  sbtServerOutput?.appendLine(`> ${commandLine}`);
+
+  const result = await vscode.window.withProgress(
+    { location: vscode.ProgressLocation.Notification, title: `sbt ${commandLine}`, cancellable: true },
+    (progress, token) => {
+      const controller = new AbortController();
+      token.onCancellationRequested(() => controller.abort());
+
+      return client.exec(
+        commandLine,
+        {
+          onLog: (line) => {
+            output.push(line);
+            sbtServerOutput?.appendLine(line);
+            const message = line.replace(/^\[\w+\]\s?/, "").trim();
+            if (message) progress.report({ message });
+          },
+          onDiagnostics: publishServerDiagnostics,
+        },
+        controller.signal
+      );
+    }
+  );
+  client.close();
+
+  if (taskProvider) publishTaskDiagnostics(taskProvider.diagnostics, root, output);
+  pluginCommandEnded.fire(definition);
+
+  if (result.status === "failed") {
+    const choice = await vscode.window.showErrorMessage(
+      `sbt ${commandLine} failed${result.message ? `: ${result.message}` : "."}`,
+      "Show Output"
+    );
+    if (choice) sbtServerOutput?.show();
   }
-  const terminal = getSbtTerminal();
-  terminal.show();
-  terminal.sendText(`sbtn updateDependencies ${org}:${artifact}`);
 }
 
 /**
- * Returns the correct sbtn command for installing a dependency in a group.
- * The `sbt-build` and `common-settings` groups use separate global commands.
+ * Runs a plugin command in the build at `root` (by default, the one {@link pickBuildRoot} picks): on its running sbt
+ * server when there is one, as a task (through `sbtn`) otherwise.
  */
-function getInstallCommand(groupName: string, dependency: string): string {
-  if (groupName === SBT_BUILD) {
-    return `sbtn installBuildDependencies ${dependency}`;
+async function runPluginTask(definition: SbtTaskDefinition, root?: string): Promise<void> {
+  const buildRoot = root ?? (await pickBuildRoot());
+  if (!buildRoot) return;
+
+  const folder = vscode.workspace.getWorkspaceFolder(vscode.Uri.file(buildRoot));
+  if (!folder || !taskProvider) {
+    vscode.window.showErrorMessage("No workspace folder open.");
+    return;
   }
-  if (groupName === COMMON_SETTINGS) {
-    return `sbtn installCommonDependencies ${dependency}`;
+
+  const client = await connectToSbtServer(buildRoot);
+  if (client) {
+    await runOnSbtServer(client, buildRoot, definition);
+  } else {
+    await vscode.tasks.executeTask(taskProvider.createTask(inBuildRoot(definition, folder, buildRoot), folder));
   }
-  return `sbtn ${groupName}/install ${dependency}`;
+}
+
+function runUpdateAllDependencies(): Promise<void> {
+  return runPluginTask({ type: TASK_TYPE, command: "updateAllDependencies" });
+}
+
+function runUpdateDependencies(): Promise<void> {
+  return runPluginTask({ type: TASK_TYPE, command: "updateDependencies" });
+}
+
+function runUpdateSpecificDependency(org: string, artifact: string, root?: string): Promise<void> {
+  return runPluginTask({ type: TASK_TYPE, command: "updateDependencies", args: `${org}:${artifact}` }, root);
 }
 
 /**
  * Command Palette handler: prompts the user to pick a group and enter a
- * dependency string, then runs the install command in the SBT terminal.
+ * dependency string, then runs the install task.
  */
 async function runInstallDependency(): Promise<void> {
   if (!vscode.workspace.workspaceFolders) {
@@ -578,12 +1205,7 @@ async function runInstallDependency(): Promise<void> {
     return;
   }
 
-  const lines: string[] = [];
-  for (let i = 0; i < editor.document.lineCount; i++) {
-    lines.push(editor.document.lineAt(i).text);
-  }
-
-  const groupNames = parseDocumentSymbols(lines).map((g) => g.name);
+  const groupNames = parseDocumentSymbols(parsed(editor.document)).map((g) => g.name);
   if (groupNames.length === 0) {
     vscode.window.showErrorMessage("No dependency groups found in the current file.");
     return;
@@ -600,14 +1222,12 @@ async function runInstallDependency(): Promise<void> {
   });
   if (!dependency) return;
 
-  const terminal = getSbtTerminal();
-  terminal.show();
-  terminal.sendText(getInstallCommand(group, dependency));
+  await runPluginTask(installTask(group, dependency));
 }
 
 /**
  * Code Action handler: prompts the user for a dependency string and runs the
- * install command for the given group.
+ * install task for the given group.
  */
 async function runInstallDependencyInGroup(groupName: string): Promise<void> {
   if (!vscode.workspace.workspaceFolders) {
@@ -621,9 +1241,7 @@ async function runInstallDependencyInGroup(groupName: string): Promise<void> {
   });
   if (!dependency) return;
 
-  const terminal = getSbtTerminal();
-  terminal.show();
-  terminal.sendText(getInstallCommand(groupName, dependency));
+  await runPluginTask(installTask(groupName, dependency));
 }
 
 /**
@@ -638,12 +1256,8 @@ async function replaceVersionsWithVariable(groupName: string): Promise<void> {
   }
 
   const document = editor.document;
-  const lines: string[] = [];
-  for (let i = 0; i < document.lineCount; i++) {
-    lines.push(document.lineAt(i).text);
-  }
-
-  const symbols = parseDocumentSymbols(lines);
+  const conf = parsed(document);
+  const symbols = parseDocumentSymbols(conf);
   const group = symbols.find((s) => s.name === groupName);
   if (!group || !group.children) {
     vscode.window.showWarningMessage(`Group '${groupName}' not found.`);
@@ -654,9 +1268,9 @@ async function replaceVersionsWithVariable(groupName: string): Promise<void> {
   const replacements: { line: number; startCol: number; endCol: number }[] = [];
   for (const child of group.children) {
     if (child.kind !== "dependency") continue;
-    const line = lines[child.range.startLine];
+    const line = conf.lines[child.range.startLine];
     const dep = parseDependency(line);
-    if (!dep || !dep.version || dep.version.startsWith("{{")) continue;
+    if (!dep?.version || !parseNumeric(dep.version)) continue;
     const versionStart = dep.matchStart + dep.org.length + dep.separator.length + dep.artifact.length + 1;
     replacements.push({ line: child.range.startLine, startCol: versionStart, endCol: versionStart + dep.version.length });
   }
@@ -717,9 +1331,7 @@ class DependencyCodeActionProvider implements vscode.CodeActionProvider {
 
       // Materialize a `*` into the resolved concrete version (the forward `version -> *` suggestion is a CodeLens).
       if (dep.version === "*") {
-        const confLines: string[] = [];
-        for (let i = 0; i < document.lineCount; i++) confLines.push(document.lineAt(i).text);
-        const group = groupAtLine(confLines, range.start.line);
+        const group = groupAtLine(parsed(document), range.start.line);
         const lookup = group ? getResolutions(document) : undefined;
         const resolved = lookup && !lookup.stale ? lookup.resolveWildcard(group!, dep.org, dep.artifact, dep.separator === "::") : undefined;
 
@@ -735,9 +1347,7 @@ class DependencyCodeActionProvider implements vscode.CodeActionProvider {
     }
 
     // Check if cursor is on a group header line
-    const simpleMatch = /^(\s*)([\w][\w.-]*)\s*=\s*\[/.exec(line);
-    const advancedMatch = /^(\s*)([\w][\w.-]*)\s*\{/.exec(line);
-    const groupName = simpleMatch?.[2] ?? advancedMatch?.[2];
+    const groupName = parseGroupHeader(line)?.name;
 
     if (groupName) {
       const action = new vscode.CodeAction(
@@ -764,13 +1374,30 @@ class DependencyCodeActionProvider implements vscode.CodeActionProvider {
     }
 
     for (const diagnostic of context.diagnostics) {
+      const orphan = orphanGroupOf(diagnostic.message);
+      const removal = orphan ? groupRemoval(parsed(document), orphan) : undefined;
+      if (removal) {
+        const action = new vscode.CodeAction(`Remove group '${orphan}'`, vscode.CodeActionKind.QuickFix);
+        action.diagnostics = [diagnostic];
+        action.edit = new vscode.WorkspaceEdit();
+        action.edit.delete(
+          document.uri,
+          new vscode.Range(removal.startLine, removal.startCol, removal.endLine, removal.endCol)
+        );
+        actions.push(action);
+      }
+
       const fixes = getQuickFixes(diagnostic.message, diagnostic.range.start.line);
       for (const fix of fixes) {
         const action = new vscode.CodeAction(fix.title, vscode.CodeActionKind.QuickFix);
         action.isPreferred = true;
         action.diagnostics = [diagnostic];
         const edit = new vscode.WorkspaceEdit();
-        edit.delete(document.uri, document.lineAt(fix.deleteLineIndex).rangeIncludingLineBreak);
+        if (fix.replacement !== undefined) {
+          edit.replace(document.uri, diagnostic.range, fix.replacement);
+        } else if (fix.deleteLineIndex !== undefined) {
+          edit.delete(document.uri, document.lineAt(fix.deleteLineIndex).rangeIncludingLineBreak);
+        }
         action.edit = edit;
         actions.push(action);
       }
@@ -781,8 +1408,86 @@ class DependencyCodeActionProvider implements vscode.CodeActionProvider {
 }
 
 /**
- * Provides CodeLens annotations on `lazy val ... = project` lines in `.sbt`
- * files, linking each project to its group in `dependencies.conf`.
+ * Provides quick fixes in build files (`.sbt`, `project/*.scala`) creating the missing group of a project in
+ * `dependencies.conf`.
+ */
+class BuildSbtCodeActionProvider implements vscode.CodeActionProvider {
+  provideCodeActions(
+    document: vscode.TextDocument,
+    _range: vscode.Range | vscode.Selection,
+    context: vscode.CodeActionContext
+  ): vscode.CodeAction[] | undefined {
+    const confUri = dependenciesConfUriFor(document.uri);
+    const actions: vscode.CodeAction[] = [];
+
+    for (const diagnostic of context.diagnostics) {
+      const project = missingGroupOf(diagnostic.message);
+      const conf = project ? readDependenciesConf(confUri) : undefined;
+      if (!project || !conf) continue;
+
+      const insertion = groupInsertion(conf, project);
+      const action = new vscode.CodeAction(`Create group '${project}' in dependencies.conf`, vscode.CodeActionKind.QuickFix);
+      action.isPreferred = true;
+      action.diagnostics = [diagnostic];
+      action.edit = new vscode.WorkspaceEdit();
+      action.edit.insert(confUri, new vscode.Position(insertion.line, insertion.col), insertion.text);
+      actions.push(action);
+    }
+
+    return actions.length > 0 ? actions : undefined;
+  }
+}
+
+/**
+ * Provides the quick fix moving `libraryDependencies` and `addSbtPlugin` settings of an `.sbt` file into their group of
+ * `dependencies.conf`, deleting them from the `.sbt` file and adding them (and the group, when missing) to the conf in
+ * a single edit.
+ */
+class SbtMigrationCodeActionProvider implements vscode.CodeActionProvider {
+  provideCodeActions(
+    document: vscode.TextDocument,
+    range: vscode.Range | vscode.Selection,
+    context: vscode.CodeActionContext
+  ): vscode.CodeAction[] | undefined {
+    const confUri = dependenciesConfUriFor(document.uri);
+    const conf = readDependenciesConf(confUri);
+    if (!conf) return undefined;
+
+    const lines = document.getText().split(/\r?\n/);
+    const actions: vscode.CodeAction[] = [];
+
+    for (const movable of findMovableDependencies(lines, isMetaBuildSbt(document.uri))) {
+      if (range.end.line < movable.startLine || range.start.line > movable.endLine) continue;
+
+      const action = new vscode.CodeAction(
+        `Move to the '${movable.group}' group of dependencies.conf`,
+        vscode.CodeActionKind.QuickFix
+      );
+      action.diagnostics = context.diagnostics.filter(
+        (d) => d.range.start.line === movable.startLine && d.message === movableDependenciesMessage(movable)
+      );
+      action.isPreferred = true;
+      action.edit = new vscode.WorkspaceEdit();
+
+      const removal = movableDependenciesRemoval(lines, movable);
+      action.edit.delete(
+        document.uri,
+        new vscode.Range(removal.startLine, removal.startCol, removal.endLine, removal.endCol)
+      );
+      const insertion = dependenciesInsertion(conf, movable.group, movable.dependencies);
+      if (insertion) action.edit.insert(confUri, new vscode.Position(insertion.line, insertion.col), insertion.text);
+
+      actions.push(action);
+    }
+
+    return actions.length > 0 ? actions : undefined;
+  }
+}
+
+/**
+ * Provides CodeLens annotations on project definitions in `.sbt` and
+ * `project/*.scala` files, linking each project to its group in
+ * `dependencies.conf` (one per platform group for cross projects).
  */
 class SbtBuildCodeLensProvider implements vscode.CodeLensProvider {
   provideCodeLenses(document: vscode.TextDocument): vscode.CodeLens[] {
@@ -791,12 +1496,7 @@ class SbtBuildCodeLensProvider implements vscode.CodeLensProvider {
       buildSbtLines.push(document.lineAt(i).text);
     }
 
-    const depsConfUri = vscode.Uri.joinPath(
-      document.uri,
-      "..",
-      "project",
-      "dependencies.conf"
-    );
+    const depsConfUri = dependenciesConfUriFor(document.uri);
 
     let groupLineMap = new Map<string, number>();
     try {
@@ -810,65 +1510,53 @@ class SbtBuildCodeLensProvider implements vscode.CodeLensProvider {
     }
 
     const groupNames = Array.from(groupLineMap.keys());
-    const codeLensDataList = parseCodeLenses(buildSbtLines, groupNames);
+    const codeLensDataList = parseCodeLenses(buildSbtLines, groupNames).filter((data) => data.groupExists);
 
-    return codeLensDataList
-      .filter((data) => data.groupExists)
-      .map((data) => {
-        const range = new vscode.Range(data.line, 0, data.line, 0);
+    return codeLensDataList.map((data) => {
+      const range = new vscode.Range(data.line, 0, data.line, 0);
+      const shared = codeLensDataList.some((other) => other !== data && other.line === data.line);
 
-        return new vscode.CodeLens(range, {
-          title: "View dependencies",
-          command: "sbt-dependencies.openDependenciesGroup",
-          arguments: [depsConfUri, groupLineMap.get(data.projectName)],
-        });
+      return new vscode.CodeLens(range, {
+        title: shared ? `View dependencies (${data.projectName})` : "View dependencies",
+        command: "sbt-dependencies.openDependenciesGroup",
+        arguments: [depsConfUri, groupLineMap.get(data.projectName)],
       });
+    });
   }
 }
 
 /**
  * Provides CodeLens annotations on group headers in `dependencies.conf`
- * files, linking each group to its project definition in `build.sbt`.
+ * files, linking each group to its project definition in the build's
+ * `.sbt` or `project/*.scala` files.
  */
 class DependencyGroupCodeLensProvider implements vscode.CodeLensProvider {
   provideCodeLenses(document: vscode.TextDocument): vscode.CodeLens[] {
-    const confLines: string[] = [];
-    for (let i = 0; i < document.lineCount; i++) {
-      confLines.push(document.lineAt(i).text);
-    }
-
-    const buildSbtUri = vscode.Uri.joinPath(
-      document.uri,
-      "..",
-      "..",
-      "build.sbt"
-    );
+    const root = buildRootOfConf(document.uri);
+    if (!root) return [];
 
-    let projectLineMap = new Map<string, number>();
-    try {
-      const content = fs.readFileSync(buildSbtUri.fsPath, "utf-8");
-      const buildLines: string[] = content.split(/\r?\n/);
-      for (const data of parseCodeLenses(buildLines, [])) {
-        projectLineMap.set(data.projectName, data.line);
+    const definitions = new Map<string, { uri: vscode.Uri; line: number }>();
+    for (const definition of buildProjectsOf(root).definitions) {
+      for (const name of definition.names) {
+        if (!definitions.has(name)) definitions.set(name, { uri: vscode.Uri.file(definition.file), line: definition.line });
       }
-    } catch {
-      // build.sbt doesn't exist or can't be read
     }
 
-    const groups = parseDocumentSymbols(confLines);
+    const groups = parseDocumentSymbols(parsed(document));
 
     return groups
-      .filter((group) => projectLineMap.has(group.name))
+      .filter((group) => definitions.has(group.name))
       .map((group) => {
         const range = new vscode.Range(
           group.range.startLine, 0,
           group.range.startLine, 0
         );
+        const definition = definitions.get(group.name)!;
 
         return new vscode.CodeLens(range, {
           title: "View project",
           command: "sbt-dependencies.openBuildProject",
-          arguments: [buildSbtUri, projectLineMap.get(group.name)],
+          arguments: [definition.uri, definition.line],
         });
       });
   }
@@ -1017,12 +1705,7 @@ async function useBomManagedVersion(line: number): Promise<void> {
  */
 class PinnedDepCodeLensProvider implements vscode.CodeLensProvider {
   provideCodeLenses(document: vscode.TextDocument): vscode.CodeLens[] {
-    const lines: string[] = [];
-    for (let i = 0; i < document.lineCount; i++) {
-      lines.push(document.lineAt(i).text);
-    }
-
-    return parsePinnedWithoutNote(lines).map((data) => {
+    return parsePinnedWithoutNote(parsed(document)).map((data) => {
       const range = new vscode.Range(data.line, 0, data.line, 0);
       const title =
         data.reason === "intransitive"
@@ -1055,12 +1738,7 @@ class BomManagedCodeLensProvider implements vscode.CodeLensProvider {
     const lookup = getResolutions(document);
     if (!lookup || lookup.stale) return [];
 
-    const lines: string[] = [];
-    for (let i = 0; i < document.lineCount; i++) {
-      lines.push(document.lineAt(i).text);
-    }
-
-    return parseBomManagedVersions(lines, lookup).map((data) => {
+    return parseBomManagedVersions(parsed(document), lookup).map((data) => {
       const range = new vscode.Range(data.line, 0, data.line, 0);
       return new vscode.CodeLens(range, {
         title: `$(sparkle) Managed by ${data.bomName} — replace ${data.version} with *`,
@@ -1071,6 +1749,86 @@ class BomManagedCodeLensProvider implements vscode.CodeLensProvider {
   }
 }
 
+/** Versions fetched from the configured Maven repository, keyed like {@link versionsKey}. */
+const fetchedVersions = new Map<string, string[]>();
+
+function versionsKey(query: VersionsQuery): string {
+  return `${query.org}${query.separator}${query.artifact}${query.sbtPlugin ? ":sbt-plugin" : ""}`;
+}
+
+/** Every known version of a dependency: from the Coursier cache index plus any fetched ones. */
+function knownVersions(query: VersionsQuery): string[] {
+  const cached = (coursierIndex?.organizations.get(query.org) ?? [])
+    .filter((a) => a.artifact === query.artifact && a.separator === query.separator && a.sbtPlugin === query.sbtPlugin)
+    .flatMap((a) => a.versions);
+  return [...cached, ...(fetchedVersions.get(versionsKey(query)) ?? [])];
+}
+
+/**
+ * Shows, after each dependency, the newest version its marker allows and the newest overall, from the versions known
+ * offline (see {@link knownVersions}).
+ */
+class OutdatedInlayHintsProvider implements vscode.InlayHintsProvider {
+  readonly onDidChangeInlayHints = versionsChanged.event;
+
+  provideInlayHints(document: vscode.TextDocument, range: vscode.Range): vscode.InlayHint[] {
+    if (!vscode.workspace.getConfiguration("sbt-dependencies").get("outdatedHints.enabled", true)) return [];
+
+    return parseOutdatedHints(parsed(document), knownVersions, getResolutions(document))
+      .filter((hint) => hint.line >= range.start.line && hint.line <= range.end.line)
+      .map((hint) => {
+        const inlay = new vscode.InlayHint(new vscode.Position(hint.line, hint.col), outdatedHintLabel(hint));
+        inlay.paddingLeft = true;
+        inlay.tooltip = [
+          hint.allowed && `Newest version allowed by the version marker: ${hint.allowed}`,
+          hint.latest && `Newest version overall: ${hint.latest}`,
+        ]
+          .filter(Boolean)
+          .join("\n");
+        return inlay;
+      });
+  }
+}
+
+/**
+ * Fetches the `maven-metadata.xml` of every dependency in the active `dependencies.conf` from the repository set in
+ * `sbt-dependencies.outdatedHints.repositoryUrl`, so the outdated hints don't depend on what Coursier has cached.
+ */
+async function refreshAvailableVersions(): Promise<void> {
+  const editor = vscode.window.activeTextEditor;
+  if (!editor || editor.document.languageId !== "sbt-dependencies") return;
+
+  const repositoryUrl = vscode.workspace
+    .getConfiguration("sbt-dependencies")
+    .get("outdatedHints.repositoryUrl", "https://repo1.maven.org/maven2");
+
+  const queries = versionQueries(parsed(editor.document));
+
+  await vscode.window.withProgress(
+    { location: vscode.ProgressLocation.Notification, title: "Fetching available versions", cancellable: true },
+    async (progress, token) => {
+      for (const query of queries) {
+        if (token.isCancellationRequested) break;
+        const key = versionsKey(query);
+        progress.report({ message: key, increment: 100 / queries.length });
+
+        const versions: string[] = [];
+        for (const url of mavenMetadataUrls(repositoryUrl, query)) {
+          try {
+            const response = await fetch(url);
+            if (response.ok) versions.push(...parseMavenMetadataVersions(await response.text()));
+          } catch {
+            // Offline or unreachable: keep what's known
+          }
+        }
+        if (versions.length > 0) fetchedVersions.set(key, versions);
+      }
+    }
+  );
+
+  versionsChanged.fire();
+}
+
 /** Decoration type that hides text by making it invisible and zero-width. */
 const hideDecorationType = vscode.window.createTextEditorDecorationType({
   opacity: "0",
@@ -1090,13 +1848,8 @@ const noteDecorationType = vscode.window.createTextEditorDecorationType({});
 function applyNoteDecorations(editor: vscode.TextEditor): void {
   if (editor.document.languageId !== "sbt-dependencies") return;
 
-  const lines: string[] = [];
-  for (let i = 0; i < editor.document.lineCount; i++) {
-    lines.push(editor.document.lineAt(i).text);
-  }
-
   const cursorLines = new Set(editor.selections.map(s => s.active.line));
-  const decorations = parseNoteDecorations(lines).filter(d => !cursorLines.has(d.line));
+  const decorations = parseNoteDecorations(parsed(editor.document)).filter(d => !cursorLines.has(d.line));
 
   const hideRanges: vscode.DecorationOptions[] = [];
   const noteRanges: vscode.DecorationOptions[] = [];
@@ -1147,12 +1900,7 @@ function applyResolvedDecorations(editor: vscode.TextEditor): void {
     return;
   }
 
-  const lines: string[] = [];
-  for (let i = 0; i < editor.document.lineCount; i++) {
-    lines.push(editor.document.lineAt(i).text);
-  }
-
-  const decorations: vscode.DecorationOptions[] = parseResolvedDecorations(lines, lookup).map((d) => ({
+  const decorations: vscode.DecorationOptions[] = parseResolvedDecorations(parsed(editor.document), lookup).map((d) => ({
     range: new vscode.Range(d.line, d.afterCol, d.line, d.afterCol),
     renderOptions: {
       after: {
@@ -1166,25 +1914,395 @@ function applyResolvedDecorations(editor: vscode.TextEditor): void {
   editor.setDecorations(resolvedDecorationType, decorations);
 }
 
-/** Registers providers, commands, and diagnostics. */
+/** The back end the `sbt-dependencies.buildImport.backend` setting picks for the build at `root`. */
+function importBackend(root: string | undefined): ImportBackend | undefined {
+  const config = vscode.workspace.getConfiguration("sbt-dependencies.buildImport");
+  return chooseImportBackend(config.get<ImportBackendSetting>("backend", "auto"), {
+    metalsInstalled: vscode.extensions.getExtension("scalameta.metals") !== undefined,
+    sbtServerRunning: root !== undefined && fs.existsSync(activeJsonPath(root)),
+    customCommand: config.get("command", ""),
+  });
+}
+
 /**
  * Imports the sbt build through Metals, the same action its own "build needs to be re-imported"
  * notification runs. The `metals.build-import` command only exists once the Metals language client
  * has started, hence the fallback message.
  */
-async function runImportBuild(): Promise<void> {
-  if (!vscode.extensions.getExtension("scalameta.metals")) {
-    vscode.window.showErrorMessage("The Metals extension is required to import the sbt build.");
+async function importWithMetals(): Promise<void> {
+  try {
+    await vscode.commands.executeCommand("metals.build-import");
+  } catch {
+    vscode.window.showErrorMessage("Metals is not ready yet. Try again once it has started.");
+  }
+}
+
+/**
+ * Reloads the sbt build with the back end picked by `sbt-dependencies.buildImport.backend`: Metals, `reload` on the
+ * running sbt server (or through `sbtn` when none answers), `sbtn reload` as a task, or the user's command as a task
+ * run in the build's directory. Reloads the build at `root`, or the one {@link pickBuildRoot} picks.
+ */
+async function runImportBuild(root?: string): Promise<void> {
+  const config = vscode.workspace.getConfiguration("sbt-dependencies.buildImport");
+  root ??= await pickBuildRoot();
+  if (!root) return;
+
+  const backend = importBackend(root);
+  if (!backend) {
+    vscode.window.showErrorMessage(
+      config.get("backend") === "metals"
+        ? "The Metals extension is required to import the sbt build."
+        : "Set `sbt-dependencies.buildImport.command` to the command reloading the build."
+    );
+    return;
+  }
+  if (backend === "metals") return importWithMetals();
+
+  const folder = vscode.workspace.getWorkspaceFolder(vscode.Uri.file(root));
+  if (!folder || !taskProvider) {
+    vscode.window.showErrorMessage("No workspace folder open.");
     return;
   }
 
+  const reload = inBuildRoot({ type: TASK_TYPE, command: "reload" }, folder, root);
+  if (backend === "sbtServer") return runPluginTask(reload, root);
+
+  const execution = new vscode.ShellExecution(config.get("command", ""), { cwd: root });
+  const task =
+    backend === "sbtn"
+      ? taskProvider.createTask(reload, folder)
+      : new vscode.Task(reload, folder, "reload", TASK_TYPE, execution, ["$sbt-dependencies"]);
+  await vscode.tasks.executeTask(task);
+}
+
+// ── Explorer ────────────────────────────────────────────────────────
+
+/** A node of the Dependencies explorer: a `dependencies.conf` file, one of its groups, or a dependency. */
+type ExplorerNode =
+  | { kind: "file"; uri: vscode.Uri }
+  | { kind: "group"; uri: vscode.Uri; group: ExplorerGroup }
+  | { kind: "dependency"; uri: vscode.Uri; group: string; dependency: ExplorerDependency };
+
+/** The text of a `dependencies.conf`: its open buffer when there is one, the file on disk otherwise. */
+function confText(uri: vscode.Uri): string | undefined {
+  return openDocument(uri)?.getText() ?? readFileText(uri);
+}
+
+/** The contents of the file at `uri` on disk, or `undefined` when it can't be read. */
+function readFileText(uri: vscode.Uri): string | undefined {
   try {
-    await vscode.commands.executeCommand("metals.build-import");
+    return fs.readFileSync(uri.fsPath, "utf8");
   } catch {
-    vscode.window.showErrorMessage("Metals is not ready yet. Try again once it has started.");
+    return undefined;
   }
 }
 
+/**
+ * Lists every `dependencies.conf` of the workspace with its groups and dependencies, resolving `*` and `{{variable}}`
+ * versions from the sbt dumps. The tree is rebuilt from the files on every refresh; they are small.
+ */
+class DependenciesExplorerProvider implements vscode.TreeDataProvider<ExplorerNode> {
+  private readonly emitter = new vscode.EventEmitter<ExplorerNode | undefined>();
+  readonly onDidChangeTreeData = this.emitter.event;
+
+  /** The file nodes last listed by URI, so that changing a file only rebuilds its own node. */
+  private fileNodes = new Map<string, ExplorerNode>();
+
+  /** Lists the `dependencies.conf` files again, rebuilding every node. */
+  refresh(): void {
+    this.emitter.fire(undefined);
+  }
+
+  /** Rebuilds the node of the file at `uri`, when the explorer shows it. */
+  refreshFile(uri: vscode.Uri): void {
+    const node = this.fileNodes.get(uri.toString());
+    if (node) this.emitter.fire(node);
+  }
+
+  async getChildren(node?: ExplorerNode): Promise<ExplorerNode[]> {
+    if (!node) {
+      const uris = await vscode.workspace.findFiles("**/dependencies.conf", "**/{node_modules,target}/**");
+      const nodes = uris
+        .sort((a, b) => a.fsPath.localeCompare(b.fsPath))
+        .map((uri): ExplorerNode => ({ kind: "file", uri }));
+      this.fileNodes = new Map(nodes.map((file) => [file.uri.toString(), file]));
+      return nodes;
+    }
+
+    if (node.kind === "file") {
+      const text = confText(node.uri);
+      if (text === undefined) return [];
+      const lookup = resolutionsFor(node.uri.fsPath, text);
+      return explorerGroups(parseText(text), lookup).map((group): ExplorerNode => ({ kind: "group", uri: node.uri, group }));
+    }
+
+    if (node.kind === "group") {
+      return node.group.dependencies.map(
+        (dependency): ExplorerNode => ({ kind: "dependency", uri: node.uri, group: node.group.name, dependency })
+      );
+    }
+
+    return [];
+  }
+
+  getTreeItem(node: ExplorerNode): vscode.TreeItem {
+    switch (node.kind) {
+      case "file": {
+        const item = new vscode.TreeItem(node.uri, vscode.TreeItemCollapsibleState.Expanded);
+        item.description = vscode.workspace.asRelativePath(node.uri, true);
+        item.contextValue = "file";
+        item.command = { title: "Open", command: "vscode.open", arguments: [node.uri] };
+        return item;
+      }
+      case "group": {
+        const item = new vscode.TreeItem(node.group.name, vscode.TreeItemCollapsibleState.Collapsed);
+        item.iconPath = new vscode.ThemeIcon("symbol-namespace");
+        item.description = `${node.group.dependencies.length}`;
+        item.contextValue = "group";
+        item.command = { title: "Reveal", command: "sbt-dependencies.explorer.reveal", arguments: [node] };
+        return item;
+      }
+      case "dependency": {
+        const { dependency } = node;
+        const item = new vscode.TreeItem(dependency.label, vscode.TreeItemCollapsibleState.None);
+        item.iconPath = new vscode.ThemeIcon(dependencyIcon(dependency));
+        item.description = dependencyDescription(dependency);
+        if (dependency.note) item.tooltip = `${dependency.label}\n\n${dependency.note}`;
+        item.contextValue = dependency.note ? "dependency.noted" : "dependency";
+        item.command = { title: "Reveal", command: "sbt-dependencies.explorer.reveal", arguments: [node] };
+        return item;
+      }
+    }
+  }
+}
+
+/** Opens `uri` (in `column`, the active one by default) and selects `range` (a zero-based {@link TextRange}), when given. */
+async function revealRange(uri: vscode.Uri, range?: TextRange, column?: vscode.ViewColumn): Promise<vscode.TextEditor> {
+  const document = await vscode.workspace.openTextDocument(uri);
+  const editor = await vscode.window.showTextDocument(document, column);
+  if (range) {
+    const selection = new vscode.Range(range.startLine, range.startCol, range.endLine, range.endCol);
+    editor.selection = new vscode.Selection(selection.start, selection.end);
+    editor.revealRange(selection, vscode.TextEditorRevealType.InCenterIfOutsideViewport);
+  }
+  return editor;
+}
+
+/** Opens the file of an explorer node and selects its group or dependency. */
+function revealExplorerNode(node: ExplorerNode): Promise<vscode.TextEditor> {
+  const range = node.kind === "group" ? node.group.range : node.kind === "dependency" ? node.dependency.range : undefined;
+  return revealRange(node.uri, range);
+}
+
+async function updateExplorerDependency(node: ExplorerNode): Promise<void> {
+  if (node.kind !== "dependency" || !node.dependency.dependency) return;
+  const { org, artifact } = node.dependency.dependency;
+  await runUpdateSpecificDependency(org, artifact, buildRootOf(node.uri.fsPath));
+}
+
+async function openExplorerRepository(node: ExplorerNode): Promise<void> {
+  const dep = node.kind === "dependency" ? node.dependency.dependency : undefined;
+  if (!dep) return;
+  await vscode.env.openExternal(vscode.Uri.parse((await resolveAndCacheRepoUrl(dep)) ?? buildMvnRepositoryUrl(dep)));
+}
+
+async function addExplorerNote(node: ExplorerNode): Promise<void> {
+  if (node.kind !== "dependency") return;
+  await revealExplorerNode(node);
+  await addDependencyNote(node.dependency.range.startLine);
+}
+
+async function installInExplorerGroup(node: ExplorerNode): Promise<void> {
+  if (node.kind !== "group") return;
+  await revealExplorerNode(node);
+  await runInstallDependencyInGroup(node.group.name);
+}
+
+// ── BOM explorer ────────────────────────────────────────────────────
+
+/** A node of the BOMs view: a `dependencies.conf` (when the workspace has several), a BOM, or one of its pins. */
+type BomNode =
+  | { kind: "conf"; uri: vscode.Uri }
+  | { kind: "bom"; uri: vscode.Uri; bom: BomSummary }
+  | { kind: "pin"; uri: vscode.Uri; bom: BomSummary; pin: BomPinSummary };
+
+/**
+ * Lists the BOMs of the resolutions dumps next to each `dependencies.conf`, with the groups importing them and their
+ * pins, marking the pins a higher-precedence BOM shadows. `filter` narrows the BOMs and pins shown.
+ */
+class BomExplorerProvider implements vscode.TreeDataProvider<BomNode> {
+  private readonly emitter = new vscode.EventEmitter<void>();
+  readonly onDidChangeTreeData = this.emitter.event;
+
+  filter = "";
+
+  refresh(): void {
+    this.emitter.fire();
+  }
+
+  async getChildren(node?: BomNode): Promise<BomNode[]> {
+    if (!node) {
+      const uris = await vscode.workspace.findFiles("**/dependencies.conf", "**/{node_modules,target}/**");
+      const confs = uris
+        .filter((uri) => resolutionsIndexFor(uri.fsPath))
+        .sort((a, b) => a.fsPath.localeCompare(b.fsPath));
+      if (confs.length === 1) return this.bomsOf(confs[0]);
+      return confs.map((uri): BomNode => ({ kind: "conf", uri }));
+    }
+
+    if (node.kind === "conf") return this.bomsOf(node.uri);
+    if (node.kind === "bom") return node.bom.pins.map((pin): BomNode => ({ kind: "pin", uri: node.uri, bom: node.bom, pin }));
+    return [];
+  }
+
+  private bomsOf(uri: vscode.Uri): BomNode[] {
+    const boms = summarizeBoms(...(resolutionsIndexFor(uri.fsPath)?.dumps ?? []));
+    return filterBoms(boms, this.filter).map((bom): BomNode => ({ kind: "bom", uri, bom }));
+  }
+
+  getTreeItem(node: BomNode): vscode.TreeItem {
+    switch (node.kind) {
+      case "conf": {
+        const item = new vscode.TreeItem(vscode.workspace.asRelativePath(node.uri, true), vscode.TreeItemCollapsibleState.Expanded);
+        item.iconPath = vscode.ThemeIcon.File;
+        item.resourceUri = node.uri;
+        return item;
+      }
+      case "bom": {
+        const { bom } = node;
+        const state = this.filter ? vscode.TreeItemCollapsibleState.Expanded : vscode.TreeItemCollapsibleState.Collapsed;
+        const item = new vscode.TreeItem(bomCoordinate(bom), state);
+        item.iconPath = new vscode.ThemeIcon("library");
+        item.description = bom.groups.length > 0 ? bom.groups.join(", ") : "not imported";
+        item.tooltip = `${bom.pins.length} pins, imported by ${bom.groups.length > 0 ? bom.groups.join(", ") : "no group"}`;
+        item.contextValue = "bom";
+        return item;
+      }
+      case "pin": {
+        const { pin } = node;
+        const item = new vscode.TreeItem(`${pin.organization}:${pin.name}`, vscode.TreeItemCollapsibleState.None);
+        const shadowed = pin.shadowedBy.length > 0;
+        item.iconPath = new vscode.ThemeIcon(shadowed ? "eye-closed" : "package");
+        item.description = shadowed ? `${pin.version} · shadowed in ${pin.shadowedBy.map((s) => s.group).join(", ")}` : pin.version;
+        if (shadowed) {
+          item.tooltip = pin.shadowedBy.map((s) => `${s.group}: ${s.bom} pins ${s.version}`).join("\n");
+        }
+        item.contextValue = "pin";
+        return item;
+      }
+    }
+  }
+}
+
+/** Prompts for the BOMs view filter, matched against BOM coordinates and pinned artifacts. */
+async function filterBomExplorer(provider: BomExplorerProvider, view: vscode.TreeView<BomNode>): Promise<void> {
+  const filter = await vscode.window.showInputBox({
+    prompt: "Filter BOMs and pins",
+    placeHolder: "jackson-databind",
+    value: provider.filter,
+  });
+  if (filter === undefined) return;
+  setBomExplorerFilter(provider, view, filter.trim());
+}
+
+function setBomExplorerFilter(provider: BomExplorerProvider, view: vscode.TreeView<BomNode>, filter: string): void {
+  provider.filter = filter;
+  view.description = filter ? `Filter: ${filter}` : undefined;
+  vscode.commands.executeCommand("setContext", "sbt-dependencies.bomsFiltered", filter !== "");
+  provider.refresh();
+}
+
+/**
+ * Jumps to the dependencies hardcoding the version of a pin's artifact where its BOM could manage it, picking one
+ * when several groups do. The BOM-managed CodeLens there offers the replacement with `*`.
+ */
+async function useWildcardForPin(node: BomNode): Promise<void> {
+  if (node.kind !== "pin") return;
+
+  const text = confText(node.uri);
+  const lookup = text !== undefined ? resolutionsFor(node.uri.fsPath, text) : undefined;
+  const matches = text !== undefined && lookup ? hardcodedPinned(parseText(text), lookup, node.bom, node.pin) : [];
+
+  if (matches.length === 0) {
+    vscode.window.showInformationMessage(`No dependency hardcodes the version ${node.bom.name} pins for ${node.pin.name}.`);
+    return;
+  }
+
+  const match =
+    matches.length === 1
+      ? matches[0]
+      : (
+          await vscode.window.showQuickPick(
+            matches.map((m) => ({ label: m.group, description: m.version, match: m })),
+            { placeHolder: `Dependencies on ${node.pin.name} with a hardcoded version` }
+          )
+        )?.match;
+  if (match) await revealRange(node.uri, match.range);
+}
+
+// ── Dependency matrix ───────────────────────────────────────────────
+
+/** The Dependency Matrix panel, reused across invocations, and the `dependencies.conf` it shows. */
+let matrixPanel: { panel: vscode.WebviewPanel; uri: vscode.Uri } | undefined;
+
+/**
+ * Re-renders the Dependency Matrix panel from the current contents of its file and dumps. The visible page gets the
+ * new table posted so that it keeps its scroll position; `reload` rebuilds the whole page instead, which a hidden
+ * panel needs once it shows again.
+ */
+function renderDependencyMatrix(reload = false): void {
+  if (!matrixPanel) return;
+
+  const { panel, uri } = matrixPanel;
+  if (!reload && !panel.visible) return;
+
+  const text = confText(uri) ?? "";
+  const matrix = dependencyMatrix(parseText(text), resolutionsFor(uri.fsPath, text));
+  if (reload) {
+    const nonce = crypto.randomBytes(16).toString("hex");
+    panel.webview.html = matrixHtml(matrix, vscode.workspace.asRelativePath(uri), panel.webview.cspSource, nonce);
+  } else {
+    void panel.webview.postMessage({ table: matrixTableHtml(matrix) });
+  }
+}
+
+/** Opens the Dependency Matrix of the active `dependencies.conf`, whose cells jump to their line when clicked. */
+function showDependencyMatrix(): void {
+  const editor = vscode.window.activeTextEditor;
+  if (!editor || editor.document.languageId !== "sbt-dependencies") {
+    vscode.window.showErrorMessage("Open a dependencies.conf file first.");
+    return;
+  }
+
+  const uri = editor.document.uri;
+  if (matrixPanel) {
+    matrixPanel.uri = uri;
+    matrixPanel.panel.reveal(vscode.ViewColumn.Beside);
+  } else {
+    const panel = vscode.window.createWebviewPanel("sbt-dependencies.matrix", "Dependency Matrix", vscode.ViewColumn.Beside, {
+      enableScripts: true,
+    });
+    const current = { panel, uri };
+    matrixPanel = current;
+    panel.onDidDispose(() => (matrixPanel = undefined));
+    // Hidden webviews are discarded, and rebuilt from their last HTML when shown again
+    let visible = panel.visible;
+    panel.onDidChangeViewState(() => {
+      if (panel.visible && !visible) renderDependencyMatrix(true);
+      visible = panel.visible;
+    });
+    panel.webview.onDidReceiveMessage((message: { line: number; col: number }) =>
+      revealRange(
+        current.uri,
+        { startLine: message.line, startCol: message.col, endLine: message.line, endCol: message.col },
+        vscode.ViewColumn.One
+      )
+    );
+  }
+  renderDependencyMatrix(true);
+}
+
+/** Registers providers, commands, and diagnostics. */
 export function activate(context: vscode.ExtensionContext): void {
   const selector: vscode.DocumentSelector = { language: "sbt-dependencies", scheme: "file" };
 
@@ -1203,6 +2321,7 @@ export function activate(context: vscode.ExtensionContext): void {
       selector,
       new DependencyDocumentSymbolProvider()
     ),
+    vscode.languages.registerWorkspaceSymbolProvider(new DependencyWorkspaceSymbolProvider()),
     vscode.languages.registerReferenceProvider(
       selector,
       new DependencyReferenceProvider()
@@ -1211,10 +2330,33 @@ export function activate(context: vscode.ExtensionContext): void {
       selector,
       new DependencyDocumentLinkProvider()
     ),
+    vscode.languages.registerInlayHintsProvider(
+      selector,
+      new OutdatedInlayHintsProvider()
+    ),
+    vscode.commands.registerCommand(
+      "sbt-dependencies.refreshAvailableVersions",
+      refreshAvailableVersions
+    ),
+    versionsChanged,
+    vscode.workspace.onDidChangeConfiguration((e) => {
+      if (e.affectsConfiguration("sbt-dependencies.outdatedHints")) versionsChanged.fire();
+    }),
+    vscode.languages.registerCompletionItemProvider(
+      selector,
+      new DependencyCompletionProvider(),
+      '"',
+      ":",
+      "{"
+    ),
     vscode.languages.registerRenameProvider(
       selector,
       new DependencyRenameProvider()
     ),
+    vscode.languages.registerRenameProvider(
+      { pattern: "**/build.sbt", scheme: "file" },
+      new BuildSbtRenameProvider()
+    ),
     vscode.languages.registerDocumentFormattingEditProvider(
       selector,
       new DependencyDocumentFormattingProvider()
@@ -1227,7 +2369,7 @@ export function activate(context: vscode.ExtensionContext): void {
       selector,
       new DependencyPasteEditProvider(),
       {
-        providedPasteEditKinds: [DependencyPasteEditProvider.kind],
+        providedPasteEditKinds: [DependencyPasteEditProvider.kind, ...Object.values(DependencyPasteEditProvider.formatKinds)],
         pasteMimeTypes: ["text/plain"],
       }
     ),
@@ -1236,6 +2378,16 @@ export function activate(context: vscode.ExtensionContext): void {
       new DependencyCodeActionProvider(),
       { providedCodeActionKinds: [vscode.CodeActionKind.QuickFix, vscode.CodeActionKind.RefactorRewrite] }
     ),
+    vscode.languages.registerCodeActionsProvider(
+      [{ pattern: "**/*.sbt", scheme: "file" }, { pattern: "**/project/*.scala", scheme: "file" }],
+      new BuildSbtCodeActionProvider(),
+      { providedCodeActionKinds: [vscode.CodeActionKind.QuickFix] }
+    ),
+    vscode.languages.registerCodeActionsProvider(
+      { pattern: "**/*.sbt", scheme: "file" },
+      new SbtMigrationCodeActionProvider(),
+      { providedCodeActionKinds: [vscode.CodeActionKind.QuickFix] }
+    ),
     vscode.commands.registerCommand(
       "sbt-dependencies.updateAllDependencies",
       runUpdateAllDependencies
@@ -1261,7 +2413,7 @@ export function activate(context: vscode.ExtensionContext): void {
       replaceVersionsWithVariable
     ),
     vscode.languages.registerCodeLensProvider(
-      { pattern: "**/*.sbt", scheme: "file" },
+      [{ pattern: "**/*.sbt", scheme: "file" }, { pattern: "**/project/*.scala", scheme: "file" }],
       new SbtBuildCodeLensProvider()
     ),
     vscode.commands.registerCommand(
@@ -1294,13 +2446,67 @@ export function activate(context: vscode.ExtensionContext): void {
     ),
     vscode.commands.registerCommand(
       "sbt-dependencies.importBuild",
-      runImportBuild
+      () => runImportBuild()
     ),
   );
 
+  const explorerProvider = new DependenciesExplorerProvider();
+  const confWatcher = vscode.workspace.createFileSystemWatcher("**/dependencies.conf");
+  const onConfAddedOrRemoved = (uri: vscode.Uri) => {
+    explorerProvider.refresh();
+    indexWorkspaceSymbols(uri);
+  };
+  confWatcher.onDidCreate(onConfAddedOrRemoved);
+  confWatcher.onDidChange((uri) => {
+    explorerProvider.refreshFile(uri);
+    indexWorkspaceSymbols(uri);
+  });
+  confWatcher.onDidDelete(onConfAddedOrRemoved);
+
+  context.subscriptions.push(
+    confWatcher,
+    vscode.window.registerTreeDataProvider("sbt-dependencies.explorer", explorerProvider),
+    vscode.commands.registerCommand("sbt-dependencies.explorer.refresh", () => explorerProvider.refresh()),
+    vscode.commands.registerCommand("sbt-dependencies.explorer.reveal", revealExplorerNode),
+    vscode.commands.registerCommand("sbt-dependencies.explorer.updateDependency", updateExplorerDependency),
+    vscode.commands.registerCommand("sbt-dependencies.explorer.openRepository", openExplorerRepository),
+    vscode.commands.registerCommand("sbt-dependencies.explorer.addNote", addExplorerNote),
+    vscode.commands.registerCommand("sbt-dependencies.explorer.installInGroup", installInExplorerGroup),
+    vscode.workspace.onDidChangeTextDocument(e => {
+      if (e.document.languageId !== "sbt-dependencies") return;
+      explorerProvider.refreshFile(e.document.uri);
+      if (e.document.uri.scheme === "file") indexWorkspaceSymbols(e.document.uri);
+    }),
+    vscode.workspace.onDidCloseTextDocument(document => {
+      // Unsaved edits are gone: go back to what is on disk
+      if (document.languageId === "sbt-dependencies" && document.uri.scheme === "file") {
+        indexWorkspaceSymbols(document.uri, true);
+      }
+    })
+  );
+
+  const bomExplorerProvider = new BomExplorerProvider();
+  const bomExplorerView = vscode.window.createTreeView("sbt-dependencies.boms", { treeDataProvider: bomExplorerProvider });
+
+  context.subscriptions.push(
+    bomExplorerView,
+    vscode.commands.registerCommand("sbt-dependencies.boms.refresh", () => bomExplorerProvider.refresh()),
+    vscode.commands.registerCommand("sbt-dependencies.boms.filter", () => filterBomExplorer(bomExplorerProvider, bomExplorerView)),
+    vscode.commands.registerCommand("sbt-dependencies.boms.clearFilter", () =>
+      setBomExplorerFilter(bomExplorerProvider, bomExplorerView, "")
+    ),
+    vscode.commands.registerCommand("sbt-dependencies.boms.useWildcard", useWildcardForPin)
+  );
+
+  context.subscriptions.push(
+    vscode.commands.registerCommand("sbt-dependencies.showDependencyMatrix", showDependencyMatrix),
+    vscode.workspace.onDidChangeTextDocument(e => {
+      if (matrixPanel && e.document.uri.toString() === matrixPanel.uri.toString()) renderDependencyMatrix();
+    })
+  );
+
   const importStatusBarItem = vscode.window.createStatusBarItem(vscode.StatusBarAlignment.Left);
   importStatusBarItem.text = importStatusBarText;
-  importStatusBarItem.tooltip = importStatusBarTooltip;
   importStatusBarItem.command = "sbt-dependencies.importBuild";
   context.subscriptions.push(importStatusBarItem);
 
@@ -1310,6 +2516,7 @@ export function activate(context: vscode.ExtensionContext): void {
         ? getResolutions(editor.document)?.stale
         : undefined;
     if (stale) {
+      importStatusBarItem.tooltip = importStatusBarTooltip(importBackend(activeBuildRoot()));
       importStatusBarItem.show();
     } else {
       importStatusBarItem.hide();
@@ -1325,28 +2532,51 @@ export function activate(context: vscode.ExtensionContext): void {
 
       const stale = getResolutions(document)?.stale;
       const hash = crypto.createHash("sha1").update(document.getText(), "utf8").digest("hex");
-      const metalsInstalled = vscode.extensions.getExtension("scalameta.metals") !== undefined;
 
-      if (!shouldPromptImport(stale, metalsInstalled, promptedHashes.get(document.uri.fsPath), hash)) return;
+      const root = buildRootOf(document.uri.fsPath, vscode.workspace.getWorkspaceFolder(document.uri)?.uri.fsPath);
+      if (!shouldPromptImport(stale, importBackend(root), promptedHashes.get(document.uri.fsPath), hash)) return;
 
       promptedHashes.set(document.uri.fsPath, hash);
 
       const choice = await vscode.window.showInformationMessage(importPromptMessage, importPromptButton);
-      if (choice === importPromptButton) await runImportBuild();
+      if (choice === importPromptButton) await runImportBuild(root);
     })
   );
 
   const diagnostics = vscode.languages.createDiagnosticCollection("sbt-dependencies");
   context.subscriptions.push(diagnostics);
 
+  // Build files changed outside the editor (a checkout, a generator...) change the projects diagnostics check against
+  const buildFileWatcher = vscode.workspace.createFileSystemWatcher("**/{*.sbt,project/*.scala}");
+  const onBuildFileChanged = (uri: vscode.Uri) => {
+    invalidateBuildProjects(uri);
+    const conf = openDocument(dependenciesConfUriFor(uri));
+    if (conf) updateDiagnostics(conf, diagnostics);
+  };
+  // Adding or removing a `build.sbt` can move build roots, so drop every build's projects then
+  const onBuildFileAddedOrRemoved = (uri: vscode.Uri) => {
+    buildProjectsCache.clear();
+    onBuildFileChanged(uri);
+  };
+  buildFileWatcher.onDidCreate(onBuildFileAddedOrRemoved);
+  buildFileWatcher.onDidChange(onBuildFileChanged);
+  buildFileWatcher.onDidDelete(onBuildFileAddedOrRemoved);
+  context.subscriptions.push(buildFileWatcher);
+
   context.subscriptions.push(
     vscode.workspace.onDidOpenTextDocument(doc => {
       updateDiagnostics(doc, diagnostics);
+      updateCounterpartDiagnostics(doc, diagnostics);
       warmAvailabilityCache(doc);
       warmRepoUrlCache(doc);
     }),
     vscode.workspace.onDidChangeTextDocument(e => {
+      if (e.document.languageId === "sbt-dependencies") {
+        parsedDocuments.update(e.document.uri.toString(), e.document.version, e.contentChanges);
+      }
+      invalidateBuildProjects(e.document.uri);
       updateDiagnostics(e.document, diagnostics);
+      updateCounterpartDiagnostics(e.document, diagnostics);
       warmAvailabilityCache(e.document);
       warmRepoUrlCache(e.document);
       const editor = vscode.window.activeTextEditor;
@@ -1356,7 +2586,12 @@ export function activate(context: vscode.ExtensionContext): void {
         updateImportStatus(editor);
       }
     }),
-    vscode.workspace.onDidCloseTextDocument(doc => diagnostics.delete(doc.uri)),
+    vscode.workspace.onDidCloseTextDocument(doc => {
+      diagnostics.delete(doc.uri);
+      parsedDocuments.delete(doc.uri.toString());
+      // Unsaved edits are gone: go back to what is on disk
+      invalidateBuildProjects(doc.uri);
+    }),
     vscode.window.onDidChangeTextEditorSelection(e => {
       applyNoteDecorations(e.textEditor);
     }),
@@ -1372,13 +2607,46 @@ export function activate(context: vscode.ExtensionContext): void {
   // Refresh resolved-version decorations when the plugin rewrites its dump on sbt (re)load.
   const refreshResolutions = () => {
     resolutionsCache.clear();
+    buildProjectsCache.clear();
     for (const editor of vscode.window.visibleTextEditors) {
       applyResolvedDecorations(editor);
     }
     bomManagedCodeLensProvider.refresh();
+    explorerProvider.refresh();
+    bomExplorerProvider.refresh();
+    renderDependencyMatrix();
+    // The dump's projects are what the group/project cross-checks match against
+    vscode.workspace.textDocuments.forEach((doc) => updateDiagnostics(doc, diagnostics));
     updateImportStatus(vscode.window.activeTextEditor);
+    reindexCoursierCache();
   };
 
+  // Plugin commands run on the sbt server or as tasks; once one changing the build ends, pick up whatever it rewrote.
+  const taskDiagnostics = vscode.languages.createDiagnosticCollection("sbt-dependencies-tasks");
+  taskProvider = new SbtTaskProvider(taskDiagnostics);
+
+  sbtServerOutput = vscode.window.createOutputChannel("sbt-dependencies");
+  sbtServerDiagnostics = vscode.languages.createDiagnosticCollection("sbt-server");
+
+  context.subscriptions.push(
+    taskDiagnostics,
+    sbtServerOutput,
+    sbtServerDiagnostics,
+    pluginCommandEnded,
+    vscode.tasks.registerTaskProvider(TASK_TYPE, taskProvider),
+    vscode.tasks.onDidEndTask(({ execution }) => {
+      const definition = execution.task.definition as SbtTaskDefinition;
+      if (definition.type === TASK_TYPE) pluginCommandEnded.fire(definition);
+    }),
+    pluginCommandEnded.event((definition) => {
+      if (isModifyingTask(definition)) refreshResolutions();
+    }),
+    vscode.workspace.onDidChangeTextDocument(e => {
+      // Task diagnostics point at the file as the task left it, so drop them once the user edits it
+      if (e.document.isDirty) taskDiagnostics.delete(e.document.uri);
+    })
+  );
+
   const resolutionsWatcher = vscode.workspace.createFileSystemWatcher("**/target/sbt-dependencies/.sbt-resolutions");
   resolutionsWatcher.onDidCreate(refreshResolutions);
   resolutionsWatcher.onDidChange(refreshResolutions);
@@ -1424,6 +2692,7 @@ export function activate(context: vscode.ExtensionContext): void {
   }
 
   updateImportStatus(vscode.window.activeTextEditor);
+  reindexCoursierCache();
 }
 
 export function deactivate(): void {}
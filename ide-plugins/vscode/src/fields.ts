@@ -0,0 +1,37 @@
+/**
+ * The field and setting vocabulary of `dependencies.conf`. Mirrored from the
+ * Scala `Fields` object so the extension and the SBT plugin stay aligned.
+ */
+
+/** The dependency line of an object entry. */
+export const DEPENDENCY = "dependency";
+
+/** The free-form note annotation of an object entry. */
+export const NOTE = "note";
+
+/** The intransitive flag of an object entry. */
+export const INTRANSITIVE = "intransitive";
+
+/** The Scala-binary-version filter annotation of an object entry. */
+export const SCALA_FILTER = "scala-filter";
+
+/** The cross-version annotation of an object entry. */
+export const CROSS_VERSION = "cross-version";
+
+/** The keys an object entry can declare. */
+export const ENTRY_FIELDS: readonly string[] = [DEPENDENCY, NOTE, INTRANSITIVE, SCALA_FILTER, CROSS_VERSION];
+
+/** The single-Scala-version setting of an advanced group. */
+export const SCALA_VERSION = "scala-version";
+
+/** The multiple-Scala-versions setting of an advanced group. */
+export const SCALA_VERSIONS = "scala-versions";
+
+/** The Java target version setting of an advanced group. */
+export const JAVA_VERSION = "java-version";
+
+/** The dependency array of an advanced group. */
+export const DEPENDENCIES = "dependencies";
+
+/** The keys an advanced group block can declare. */
+export const GROUP_SETTINGS: readonly string[] = [SCALA_VERSION, SCALA_VERSIONS, JAVA_VERSION, DEPENDENCIES];
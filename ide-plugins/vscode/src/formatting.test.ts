@@ -1,5 +1,6 @@
 import { describe, it, expect } from "vitest";
-import { formatDocument } from "./formatting";
+import { defaultFormatOptions, formatDocument, formatRange, formattingEdits, FormatOptions, FormattingEdit } from "./formatting";
+import { parseText } from "./parser";
 
 describe("formatDocument", () => {
   it("sorts unsorted deps alphabetically in simple group", () => {
@@ -20,7 +21,7 @@ describe("formatDocument", () => {
     ].join("\n") + "\n");
   });
 
-  it("strips comments above deps", () => {
+  it("keeps comments above deps with them through sorting", () => {
     const lines = [
       'my-group = [',
       '  // Core library',
@@ -32,7 +33,9 @@ describe("formatDocument", () => {
     const result = formatDocument(lines);
     expect(result).toBe([
       'my-group = [',
+      '  // FS2 streaming',
       '  "co.fs2::fs2-core:^3.9.4"',
+      '  // Core library',
       '  "org.typelevel::cats-core:2.10.0"',
       ']',
     ].join("\n") + "\n");
@@ -128,7 +131,7 @@ describe("formatDocument", () => {
     expect(result).toBe('my-group = []\n');
   });
 
-  it("strips trailing comments at end of group", () => {
+  it("keeps comments at the end of a group there", () => {
     const lines = [
       'my-group = [',
       '  "org.typelevel::cats-core:2.10.0"',
@@ -136,11 +139,7 @@ describe("formatDocument", () => {
       ']',
     ];
     const result = formatDocument(lines);
-    expect(result).toBe([
-      'my-group = [',
-      '  "org.typelevel::cats-core:2.10.0"',
-      ']',
-    ].join("\n") + "\n");
+    expect(result).toBe(lines.join("\n") + "\n");
   });
 
   it("does not change already sorted deps", () => {
@@ -180,6 +179,7 @@ describe("formatDocument", () => {
     ];
     const result = formatDocument(lines);
     expect(result).toBe([
+      '// SBT build plugins',
       'sbt-build = [',
       '  "ch.epfl.scala:sbt-scalafix:0.14.5:sbt-plugin"',
       '  "com.alejandrohdezma:sbt-ci:2.22.0:sbt-plugin"',
@@ -246,27 +246,28 @@ describe("formatDocument", () => {
     ].join("\n") + "\n");
   });
 
-  it("strips comment between groups", () => {
+  it("moves a comment between groups with the group below it", () => {
     const lines = [
-      'group-a = [',
+      'group-b = [',
       '  "org.typelevel::cats-core:2.10.0"',
       ']',
       '',
       '',
       '// Shared utilities',
       '',
-      'group-b = [',
+      'group-a = [',
       '  "co.fs2::fs2-core:^3.9.4"',
       ']',
     ];
     const result = formatDocument(lines);
     expect(result).toBe([
+      '// Shared utilities',
       'group-a = [',
-      '  "org.typelevel::cats-core:2.10.0"',
+      '  "co.fs2::fs2-core:^3.9.4"',
       ']',
       '',
       'group-b = [',
-      '  "co.fs2::fs2-core:^3.9.4"',
+      '  "org.typelevel::cats-core:2.10.0"',
       ']',
     ].join("\n") + "\n");
   });
@@ -387,7 +388,7 @@ describe("formatDocument", () => {
     ].join("\n") + "\n");
   });
 
-  it("strips hash comments in groups", () => {
+  it("keeps hash comments in groups", () => {
     const lines = [
       'my-group = [',
       '  # Core',
@@ -399,7 +400,9 @@ describe("formatDocument", () => {
     const result = formatDocument(lines);
     expect(result).toBe([
       'my-group = [',
+      '  # Testing',
       '  "co.fs2::fs2-core:^3.9.4"',
+      '  # Core',
       '  "org.typelevel::cats-core:2.10.0"',
       ']',
     ].join("\n") + "\n");
@@ -779,4 +782,455 @@ describe("formatDocument", () => {
       ']',
     ].join("\n") + "\n");
   });
+
+  it("formats groups declared on a single line", () => {
+    const lines = [
+      'b = ["org.typelevel::cats-core:2.10.0", "co.fs2::fs2-core:^3.9.4"], a = []',
+    ];
+    const result = formatDocument(lines);
+    expect(result).toBe([
+      'a = []',
+      '',
+      'b = [',
+      '  "co.fs2::fs2-core:^3.9.4"',
+      '  "org.typelevel::cats-core:2.10.0"',
+      ']',
+    ].join("\n") + "\n");
+  });
+
+  it("keeps a closing brace inside a note of a multi-line object", () => {
+    const lines = [
+      'my-group = [',
+      '  {',
+      '    dependency = "org.typelevel::cats-core:^2.10.0"',
+      '    note = "see {issue} }"',
+      '  }',
+      '  "co.fs2::fs2-core:^3.9.4"',
+      ']',
+    ];
+    const result = formatDocument(lines);
+    expect(result).toBe([
+      'my-group = [',
+      '  "co.fs2::fs2-core:^3.9.4"',
+      '  { dependency = "org.typelevel::cats-core:^2.10.0", note = "see {issue} }" }',
+      ']',
+    ].join("\n") + "\n");
+  });
+
+  it("leaves documents with syntax errors untouched", () => {
+    const lines = [
+      'b-group = [',
+      '  "co.fs2::fs2-core:^3.9.4"',
+      '',
+      'a-group = []',
+    ];
+    expect(formatDocument(lines)).toBe(lines.join("\n"));
+  });
+
+  it("keeps include statements at the top", () => {
+    const lines = [
+      'my-group = [',
+      '  "co.fs2::fs2-core:^3.9.4"',
+      ']',
+      'include "shared.conf"',
+    ];
+    const result = formatDocument(lines);
+    expect(result).toBe([
+      'include "shared.conf"',
+      '',
+      'my-group = [',
+      '  "co.fs2::fs2-core:^3.9.4"',
+      ']',
+    ].join("\n") + "\n");
+  });
+});
+
+describe("formatDocument with comments", () => {
+  /** Formats `lines` and checks that formatting the result again changes nothing. */
+  function roundTrip(lines: string[]): string {
+    const once = formatDocument(lines);
+    expect(formatDocument(once.split("\n"))).toBe(once);
+    return once;
+  }
+
+  it("keeps trailing comments on their dependency's line", () => {
+    const result = roundTrip([
+      'my-group = [',
+      '  "org.typelevel::cats-core:=2.10.0" // 2.11 breaks the http4s build',
+      '  "co.fs2::fs2-core:^3.9.4" # streaming',
+      ']',
+    ]);
+    expect(result).toBe([
+      'my-group = [',
+      '  "co.fs2::fs2-core:^3.9.4" # streaming',
+      '  "org.typelevel::cats-core:=2.10.0" // 2.11 breaks the http4s build',
+      ']',
+    ].join("\n") + "\n");
+  });
+
+  it("keeps comments on group opening and closing lines", () => {
+    const lines = [
+      'core = [ // runtime',
+      '  "co.fs2::fs2-core:^3.9.4"',
+      '] // end of core',
+      '',
+      'empty = [] // nothing yet',
+    ];
+    expect(roundTrip(lines)).toBe(lines.join("\n") + "\n");
+  });
+
+  it("moves groups with the comments above them", () => {
+    const result = roundTrip([
+      '# Web layer',
+      'web = []',
+      '',
+      '// Core layer, pinned',
+      '// for binary compatibility',
+      'core = [',
+      '  "co.fs2::fs2-core:=3.9.4"',
+      ']',
+    ]);
+    expect(result).toBe([
+      '// Core layer, pinned',
+      '// for binary compatibility',
+      'core = [',
+      '  "co.fs2::fs2-core:=3.9.4"',
+      ']',
+      '',
+      '# Web layer',
+      'web = []',
+    ].join("\n") + "\n");
+  });
+
+  it("keeps a header comment at the top of the file", () => {
+    const result = roundTrip([
+      '// Managed by the platform team.',
+      '// Run `sbt updateAllDependencies` to update.',
+      '',
+      'web = []',
+      '',
+      'core = []',
+    ]);
+    expect(result).toBe([
+      '// Managed by the platform team.',
+      '// Run `sbt updateAllDependencies` to update.',
+      '',
+      'core = []',
+      '',
+      'web = []',
+    ].join("\n") + "\n");
+  });
+
+  it("keeps comments at the end of the file there", () => {
+    const lines = ['core = []', '', '// TODO: add a web group'];
+    expect(roundTrip(lines)).toBe(lines.join("\n") + "\n");
+  });
+
+  it("keeps block comments in place, re-indenting their lines together", () => {
+    const result = roundTrip([
+      'my-group = [',
+      '    /*',
+      '     * Pinned until the',
+      '     * migration lands',
+      '     */',
+      '    "org.typelevel::cats-core:=2.10.0"',
+      '    "co.fs2::fs2-core:^3.9.4" /* streaming */',
+      ']',
+    ]);
+    expect(result).toBe([
+      'my-group = [',
+      '  "co.fs2::fs2-core:^3.9.4" /* streaming */',
+      '  /*',
+      '   * Pinned until the',
+      '   * migration lands',
+      '   */',
+      '  "org.typelevel::cats-core:=2.10.0"',
+      ']',
+    ].join("\n") + "\n");
+  });
+
+  it("keeps comments on settings and dependencies of advanced groups", () => {
+    const lines = [
+      'core {',
+      '  // 3.3 is the LTS',
+      '  scala-version = 3.3.3 // bump with care',
+      '  dependencies = [',
+      '    "org.typelevel::cats-core:2.10.0" // pinned',
+      '    // streaming',
+      '    "co.fs2::fs2-core:^3.9.4"',
+      '  ]',
+      '}',
+    ];
+    expect(roundTrip(lines)).toBe([
+      'core {',
+      '  // 3.3 is the LTS',
+      '  scala-version = 3.3.3 // bump with care',
+      '  dependencies = [',
+      '    // streaming',
+      '    "co.fs2::fs2-core:^3.9.4"',
+      '    "org.typelevel::cats-core:2.10.0" // pinned',
+      '  ]',
+      '}',
+    ].join("\n") + "\n");
+  });
+
+  it("keeps a commented-out empty dependencies array", () => {
+    const lines = ['core {', '  scala-version = 3.3.3', '  dependencies = [', '    // "co.fs2::fs2-core:3.9.4"', '  ]', '}'];
+    expect(roundTrip(lines)).toBe(lines.join("\n") + "\n");
+  });
+
+  it("keeps object entries with comments inside as written", () => {
+    const lines = [
+      'my-group = [',
+      '  { dependency = "org.typelevel::cats-core:=2.10.0", /* see below */ note = "2.11 breaks the build" }',
+      ']',
+    ];
+    expect(roundTrip(lines)).toBe(lines.join("\n") + "\n");
+  });
+
+  it("returns a file of pure comments unchanged", () => {
+    const lines = ['# Nothing here yet', '', '/* groups go', '   here */', '// done'];
+    expect(formatDocument(lines)).toBe(lines.join("\n"));
+  });
+
+  it("leaves the document untouched rather than drop a comment", () => {
+    const lines = ['version = "1.0" // not a group', 'core = []'];
+    expect(formatDocument(lines)).toBe(lines.join("\n"));
+  });
+});
+
+describe("formatRange", () => {
+  const lines = [
+    "sbt-build = [",
+    '  "org.scalameta:sbt-scalafmt:2.5.2:sbt-plugin"',
+    "]",
+    "",
+    "zeta = [",
+    '    "org.typelevel::cats-core:2.10.0"',
+    '  "co.fs2::fs2-core:3.9.4"',
+    "]",
+    "",
+    "alpha = [",
+    '  "org.typelevel::cats-effect:3.5.4"',
+    '      "com.typesafe:config:1.4.3"',
+    "]",
+    "",
+  ];
+  const text = lines.join("\n");
+
+  it("formats only the groups the range touches, in place", () => {
+    const result = formatRange(parseText(text), { startLine: 6, startCol: 0, endLine: 6, endCol: 5 });
+    expect(result).toBe([
+      ...lines.slice(0, 5),
+      '  "co.fs2::fs2-core:3.9.4"',
+      '  "org.typelevel::cats-core:2.10.0"',
+      ...lines.slice(7),
+    ].join("\n"));
+  });
+
+  it("formats every group across the range", () => {
+    const result = formatRange(parseText(text), { startLine: 7, startCol: 0, endLine: 10, endCol: 0 });
+    expect(result).toBe([
+      ...lines.slice(0, 5),
+      '  "co.fs2::fs2-core:3.9.4"',
+      '  "org.typelevel::cats-core:2.10.0"',
+      ...lines.slice(7, 10),
+      '  "com.typesafe:config:1.4.3"',
+      '  "org.typelevel::cats-effect:3.5.4"',
+      ...lines.slice(12),
+    ].join("\n"));
+  });
+
+  it("leaves out a line the range ends at the start of", () => {
+    expect(formatRange(parseText(text), { startLine: 3, startCol: 0, endLine: 4, endCol: 0 })).toBe(text);
+  });
+
+  it("keeps comments around and inside the group", () => {
+    const source = [
+      "// Libraries",
+      "b = [ // main",
+      '  "org.typelevel::cats-core:2.10.0"',
+      "  // Streams",
+      '  "co.fs2::fs2-core:3.9.4"',
+      "] // end",
+    ].join("\n");
+    expect(formatRange(parseText(source), { startLine: 2, startCol: 0, endLine: 2, endCol: 0 })).toBe([
+      "// Libraries",
+      "b = [ // main",
+      "  // Streams",
+      '  "co.fs2::fs2-core:3.9.4"',
+      '  "org.typelevel::cats-core:2.10.0"',
+      "] // end",
+    ].join("\n"));
+  });
+
+  it("re-indents an indented group from the start of its line", () => {
+    const source = '  core = [\n  "b:b:1"\n  "a:a:1"\n  ]\n';
+    expect(formatRange(parseText(source), { startLine: 1, startCol: 0, endLine: 1, endCol: 0 })).toBe('core = [\n  "a:a:1"\n  "b:b:1"\n]\n');
+  });
+
+  it("leaves documents with syntax errors untouched", () => {
+    const source = 'core = [\n  "b:b:1"\n  "a:a:1"\n';
+    expect(formatRange(parseText(source), { startLine: 0, startCol: 0, endLine: 2, endCol: 0 })).toBe(source);
+  });
+});
+
+describe("formattingEdits", () => {
+  /** Applies `edits` (non-overlapping, in document order) to `text`. */
+  function apply(text: string, edits: FormattingEdit[]): string {
+    const starts = [0];
+    for (let i = 0; i < text.length; i++) if (text[i] === "\n") starts.push(i + 1);
+    let result = "";
+    let offset = 0;
+    for (const { range, newText } of edits) {
+      const start = starts[range.startLine] + range.startCol;
+      result += text.slice(offset, start) + newText;
+      offset = starts[range.endLine] + range.endCol;
+    }
+    return result + text.slice(offset);
+  }
+
+  it("returns no edit for identical texts", () => {
+    expect(formattingEdits("a\nb\n", "a\nb\n")).toEqual([]);
+  });
+
+  it("replaces only the changed lines", () => {
+    const edits = formattingEdits("a\nb\nc\nd\n", "a\nB\nc\nd\n");
+    expect(edits).toEqual([{ range: { startLine: 1, startCol: 0, endLine: 2, endCol: 0 }, newText: "B\n" }]);
+  });
+
+  it("returns one edit per run of changed lines", () => {
+    const before = "a\nb\nc\nd\ne\n";
+    const after = "a\nx\nc\nd\ny\nz\n";
+    const edits = formattingEdits(before, after);
+    expect(edits.map((edit) => edit.range.startLine)).toEqual([1, 4]);
+    expect(apply(before, edits)).toBe(after);
+  });
+
+  it("turns moved lines into an insertion and a deletion", () => {
+    const before = "a\nb\nc\nd\n";
+    const after = "b\nc\nd\na\n";
+    const edits = formattingEdits(before, after);
+    expect(edits).toEqual([
+      { range: { startLine: 0, startCol: 0, endLine: 1, endCol: 0 }, newText: "" },
+      { range: { startLine: 4, startCol: 0, endLine: 4, endCol: 0 }, newText: "a\n" },
+    ]);
+  });
+
+  it("handles a last line without terminator", () => {
+    expect(apply("a\nb", formattingEdits("a\nb", "a\nb\n"))).toBe("a\nb\n");
+    expect(apply("a\nb\n", formattingEdits("a\nb\n", "a\nc"))).toBe("a\nc");
+    expect(apply("a", formattingEdits("a", "a\nb"))).toBe("a\nb");
+  });
+
+  it("ignores lines only differing in their terminator", () => {
+    expect(formattingEdits("a\r\nb\r\n", "a\nb\n")).toEqual([]);
+  });
+
+  it("rebuilds the formatted document", () => {
+    const before = ["zeta = [", '  "b:b:1"', '  "a:a:1"', "]", "", "alpha = [", '  "c:c:1"', "]"].join("\n");
+    const after = formatDocument(before.split("\n"));
+    const edits = formattingEdits(before, after);
+    expect(apply(before, edits)).toBe(after);
+    expect(edits.length).toBeGreaterThan(1);
+  });
+});
+
+describe("formatDocument with options", () => {
+  const options = (overrides: Partial<FormatOptions>): FormatOptions => ({ ...defaultFormatOptions, ...overrides });
+
+  const lines = [
+    "zeta {",
+    '   scala-version = "2.13.12"',
+    "   dependencies = [",
+    '     "org.typelevel::munit-cats-effect:2.0.0:test"',
+    '     "co.fs2::fs2-core:3.9.4"',
+    '     { dependency = "org.typelevel::cats-core:2.10.0", note = "Pinned" }',
+    "   ]",
+    "}",
+    "",
+    "alpha = [",
+    '  "org.typelevel::cats-effect:3.5.4:test"',
+    '  "org.typelevel::cats-effect:3.5.4"',
+    "]",
+  ];
+
+  it("matches the default layout when given the defaults", () => {
+    expect(formatDocument(lines, defaultFormatOptions)).toBe(formatDocument(lines));
+  });
+
+  it("indents by the given width", () => {
+    expect(formatDocument(lines, options({ indentWidth: 4 }))).toBe([
+      "alpha = [",
+      '    "org.typelevel::cats-effect:3.5.4"',
+      '    "org.typelevel::cats-effect:3.5.4:test"',
+      "]",
+      "",
+      "zeta {",
+      '    scala-version = "2.13.12"',
+      "    dependencies = [",
+      '        "co.fs2::fs2-core:3.9.4"',
+      '        { dependency = "org.typelevel::cats-core:2.10.0", note = "Pinned" }',
+      '        "org.typelevel::munit-cats-effect:2.0.0:test"',
+      "    ]",
+      "}",
+    ].join("\n") + "\n");
+  });
+
+  it("sorts by org:artifact first", () => {
+    const result = formatDocument(lines, options({ sortOrder: "org-first" }));
+    expect(result.split("\n").slice(0, 4)).toEqual([
+      "alpha = [",
+      '  "org.typelevel::cats-effect:3.5.4"',
+      '  "org.typelevel::cats-effect:3.5.4:test"',
+      "]",
+    ]);
+    expect(result).toContain([
+      '    "co.fs2::fs2-core:3.9.4"',
+      '    { dependency = "org.typelevel::cats-core:2.10.0", note = "Pinned" }',
+      '    "org.typelevel::munit-cats-effect:2.0.0:test"',
+    ].join("\n"));
+  });
+
+  it("keeps groups and dependencies in their order", () => {
+    expect(formatDocument(lines, options({ sortOrder: "preserve" }))).toBe([
+      "zeta {",
+      '  scala-version = "2.13.12"',
+      "  dependencies = [",
+      '    "org.typelevel::munit-cats-effect:2.0.0:test"',
+      '    "co.fs2::fs2-core:3.9.4"',
+      '    { dependency = "org.typelevel::cats-core:2.10.0", note = "Pinned" }',
+      "  ]",
+      "}",
+      "",
+      "alpha = [",
+      '  "org.typelevel::cats-effect:3.5.4:test"',
+      '  "org.typelevel::cats-effect:3.5.4"',
+      "]",
+    ].join("\n") + "\n");
+  });
+
+  it("expands objects always or past the max line length", () => {
+    const expanded = [
+      "    {",
+      '      dependency = "org.typelevel::cats-core:2.10.0"',
+      '      note = "Pinned"',
+      "    }",
+    ].join("\n");
+    expect(formatDocument(lines, options({ expandObjects: true }))).toContain(expanded);
+    expect(formatDocument(lines, options({ maxObjectLineLength: 40 }))).toContain(expanded);
+    expect(formatDocument(lines, options({ indentWidth: 3, expandObjects: true }))).toContain([
+      "      {",
+      '         dependency = "org.typelevel::cats-core:2.10.0"',
+      '         note = "Pinned"',
+      "      }",
+    ].join("\n"));
+  });
+
+  it("applies to range formatting", () => {
+    const source = 'core = [\n"b:b:1"\n"a:a:1"\n]\n';
+    expect(formatRange(parseText(source), { startLine: 1, startCol: 0, endLine: 1, endCol: 0 }, options({ indentWidth: 4 }))).toBe(
+      'core = [\n    "a:a:1"\n    "b:b:1"\n]\n'
+    );
+  });
 });
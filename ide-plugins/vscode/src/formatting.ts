@@ -1,12 +1,37 @@
-import { walkDocument, objectDepFieldPattern, objectIntransitiveFieldPattern, objectScalaFilterFieldPattern, objectCrossVersionFieldPattern } from "./parser";
+import { rangeOf, toDocument, DependenciesDocument, DependencyObject, Entry, Group, Span, DocumentSource, TextRange } from "./parser";
+import { HoconArray, HoconComment, HoconField, HoconObject, HoconValue } from "./hocon";
+import { DEPENDENCIES } from "./fields";
 import { groupSortKey } from "./groups";
 
 /** Regex mirroring Scala-side `Dependency.dependencyRegex`. */
 const dependencyPattern =
   /^\s*([^\s:]+)\s*(::?)\s*([^\s:]+)\s*(?::\s*([^\s:]+)\s*(?::\s*([^\s:]+)\s*)?)?$/;
 
-/** Max line length for single-line object entries. */
-const maxObjectLineLength = 120;
+/** How dependencies are ordered within a group, and groups within the document. */
+export type SortOrder = "config-first" | "org-first" | "preserve";
+
+/** The layout the formatter writes. */
+export interface FormatOptions {
+  /** The spaces of one indentation level. */
+  indentWidth: number;
+  /** The longest single-line object entry, not counting its indentation. */
+  maxObjectLineLength: number;
+  /** Whether object entries are always written on several lines, however short. */
+  expandObjects: boolean;
+  /**
+   * `config-first` sorts dependencies by configuration, then `org:artifact`; `org-first` by `org:artifact`, then
+   * configuration; both put groups in the plugin's order. `preserve` keeps groups and dependencies as ordered.
+   */
+  sortOrder: SortOrder;
+}
+
+/** The layout the plugin's own `formatDependenciesFile` writes. */
+export const defaultFormatOptions: FormatOptions = {
+  indentWidth: 2,
+  maxObjectLineLength: 120,
+  expandObjects: false,
+  sortOrder: "config-first",
+};
 
 /** Matches SBT-style dependency: "org" %% "art" % "ver" [% "config" | % Test] */
 export const sbtDependencyPattern =
@@ -23,212 +48,221 @@ interface DependencyEntry {
  * Formats a `dependencies.conf` document by sorting groups (`sbt-build`
  * first, then `common-settings`, then alphabetically) and dependencies within each group.
  *
- * - Simple groups: 2-space indent for dependencies
- * - Advanced blocks: 2-space indent for fields, 4-space indent for
- *   dependencies inside `dependencies = [...]`
- * - All comments are stripped (the SBT plugin never writes them back)
+ * - Simple groups: one indentation level for dependencies
+ * - Advanced blocks: one level for fields, two for dependencies inside
+ *   `dependencies = [...]`
+ * - Comments are kept with what they annotate: comments on their own lines
+ *   move with the group, setting or dependency below them, comments after
+ *   one on its line stay after it, and a header comment separated from the
+ *   first group by a blank line stays at the top of the file
  * - Object entries (`{ dependency = "...", note = "..." }`) are preserved
+ *
+ * Documents with syntax errors are returned untouched, as the SBT plugin would
+ * refuse to read them, as are documents without any group (a file of comments)
+ * and any document whose comments couldn't all be placed.
  */
-export function formatDocument(lines: string[]): string {
-  const groups: { name: string; lines: string[] }[] = [];
-  let currentGroup: { name: string; lines: string[] } | undefined;
-  let depIndent = "  ";
-  let entries: DependencyEntry[] = [];
-  let inDepsArray = false;
-
-  let objectLines: string[] = [];
-  let objectDepString: string | undefined;
-  let inObject = false;
-
-  /** Tracks lines already handled as SBT conversions to skip duplicate events. */
-  let sbtConvertedLine = -1;
-
-  const output = { push(line: string) { currentGroup!.lines.push(line); } };
-
-  for (const event of walkDocument(lines)) {
-    switch (event.type) {
-      case "group-start": {
-        currentGroup = { name: event.name, lines: [] };
-        groups.push(currentGroup);
-
-        if (event.groupKind === "simple") {
-          depIndent = "  ";
-          if (event.singleLine) {
-            output.push(formatSingleLineGroup(event.rawLine, depIndent));
-          } else {
-            output.push(event.rawLine);
-            entries = [];
-            inDepsArray = true;
-          }
-        } else {
-          depIndent = "    ";
-          output.push(event.rawLine);
-          inDepsArray = false;
-        }
-        break;
+export function formatDocument(source: DocumentSource, options: FormatOptions = defaultFormatOptions): string {
+  const document = toDocument(source);
+  const { text } = document;
+  const { root } = document.syntax;
+  if (document.syntax.errors.length > 0) return text;
+  if (document.groups.length === 0 && root.includes.length === 0) return text;
+
+  const comments = new CommentAttachments(document);
+  const annotated = (span: Span, lines: string[]) => comments.around(span, "", lines);
+
+  const groups = document.groups.map((group) => ({ name: group.name, lines: annotated(group.span, formatGroup(text, group, comments, options)) }));
+
+  if (options.sortOrder !== "preserve") {
+    groups.sort((a, b) => {
+      const ka = groupSortKey(a.name);
+      const kb = groupSortKey(b.name);
+      return ka < kb ? -1 : ka > kb ? 1 : 0;
+    });
+  }
+
+  const includes = root.includes.flatMap((include) => annotated(include.span, [sourceText(text, include.span)]));
+  const sections = groups.map(g => g.lines.join("\n"));
+  if (includes.length > 0) sections.unshift(includes.join("\n"));
+  if (comments.header) sections.unshift(comments.header);
+
+  const trailing = comments.dangling(comments.rootSpan, "");
+  if (trailing.length > 0) sections.push(trailing.join("\n"));
+
+  const formatted = sections.join("\n\n") + "\n";
+  return keepsComments(document, formatted) ? formatted : text;
+}
+
+/**
+ * Formats the groups of a `dependencies.conf` document that `range` touches, in place: their settings and
+ * dependencies are sorted and re-indented as {@link formatDocument} would, while groups are neither reordered nor
+ * moved and everything outside them stays as written. A range ending at the start of a line doesn't touch that line.
+ *
+ * Documents with syntax errors are returned untouched, as is any document whose comments couldn't all be placed.
+ */
+export function formatRange(source: DocumentSource, range: TextRange, options: FormatOptions = defaultFormatOptions): string {
+  const document = toDocument(source);
+  const { text } = document;
+  if (document.syntax.errors.length > 0) return text;
+
+  const endLine = range.endCol === 0 && range.endLine > range.startLine ? range.endLine - 1 : range.endLine;
+  const touched = document.groups.filter((group) => {
+    const span = rangeOf(document, group.span);
+    return span.startLine <= endLine && span.endLine >= range.startLine;
+  });
+  if (touched.length === 0) return text;
+
+  const comments = new CommentAttachments(document);
+  let formatted = "";
+  let offset = 0;
+  for (const group of touched) {
+    // Replace the group's indentation too, as the formatted group starts at the beginning of its line
+    const lineStart = text.lastIndexOf("\n", group.span.start - 1) + 1;
+    const start = text.slice(lineStart, group.span.start).trim() === "" ? lineStart : group.span.start;
+    formatted += text.slice(offset, start) + formatGroup(text, group, comments, options).join("\n");
+    offset = group.span.end;
+  }
+  formatted += text.slice(offset);
+
+  return keepsComments(document, formatted) ? formatted : text;
+}
+
+/** Formats a group into its output lines. */
+function formatGroup(text: string, group: Group, comments: CommentAttachments, options: FormatOptions): string[] {
+  const key = sourceText(text, group.node.key.span);
+  const field = indentation(options, 1);
+  const nested = indentation(options, 2);
+
+  if (group.kind === "simple") {
+    const array = group.node.value as HoconArray;
+    const entries = formatEntries(text, group.entries, field, comments, options);
+    const dangling = comments.dangling(array.span, field);
+    const opening = comments.opening(array.span);
+    if (entries.length === 0 && dangling.length === 0) return [`${key} = []${opening}`];
+    return [`${key} = [${opening}`, ...entries, ...dangling, "]"];
+  }
+
+  const object = group.node.value as HoconObject;
+  const output = [`${key} {${comments.opening(object.span)}`];
+  const hasOtherSettings = group.settings.length > 0;
+  let dependenciesWritten = false;
+
+  for (const setting of object.fields) {
+    if (setting.key.value === DEPENDENCIES && setting.value?.type === "array") {
+      // All `dependencies` arrays are merged into the first one
+      if (dependenciesWritten) continue;
+      dependenciesWritten = true;
+
+      const entries = formatEntries(text, group.entries, nested, comments, options);
+      const dangling = comments.dangling(setting.value.span, nested);
+      const opening = comments.opening(setting.value.span);
+      const lines =
+        entries.length > 0 || dangling.length > 0
+          ? [`${field}dependencies = [${opening}`, ...entries, ...dangling, `${field}]`]
+          : [`${field}dependencies = []${opening}`];
+      if (entries.length > 0 || dangling.length > 0 || !hasOtherSettings || comments.annotates(setting.span)) {
+        output.push(...comments.around(setting.span, field, lines));
       }
-      case "setting-line": {
-        output.push(`  ${event.rawLine.trim()}`);
+    } else {
+      const line = comments.inside(setting.span) ? verbatim(text, setting.span, field) : `${field}${formatSetting(text, setting)}`;
+      output.push(...comments.around(setting.span, field, line.split("\n")));
+    }
+  }
+
+  output.push(...comments.dangling(object.span, field), "}");
+  return output;
+}
+
+/** Formats a setting as `key = value`, with arrays on a single line. */
+function formatSetting(text: string, field: HoconField): string {
+  const key = sourceText(text, field.key.span);
+  if (!field.value) return key;
+  return `${key} = ${formatValue(text, field.value)}`;
+}
+
+function formatValue(text: string, value: HoconValue): string {
+  switch (value.type) {
+    case "array":
+      return `[${value.elements.map((element) => formatValue(text, element)).join(", ")}]`;
+    case "object":
+      return `{ ${value.fields.map((field) => formatSetting(text, field)).join(", ")} }`;
+    default:
+      return sourceText(text, value.span);
+  }
+}
+
+/** Converts, sorts and renders a group's entries at the given indent, each with its comments. */
+function formatEntries(text: string, entries: Entry[], indent: string, comments: CommentAttachments, options: FormatOptions): string[] {
+  const sortKey = (dependency: string) => buildSortKey(dependency, options.sortOrder);
+  const formatted: { entry: DependencyEntry; span: Span }[] = [];
+
+  for (const entry of entries) {
+    switch (entry.kind) {
+      case "line": {
+        if (entry.content.length > 0) {
+          formatted.push({ entry: { depLine: `${indent}"${entry.content}"`, sortKey: sortKey(entry.content) }, span: entry.span });
+        }
         break;
       }
-      case "dependency-string": {
-        if (!inDepsArray && event.arrayKind === "dependencies") {
-          // First dep in advanced block's dependencies array
-          output.push(`  dependencies = [`);
-          entries = [];
-          inDepsArray = true;
-        }
-        // SBT lines have multiple quoted strings; only process once per line
-        if (event.lineIndex === sbtConvertedLine) break;
-        const sbtDep = convertSbtDependency(event.rawLine);
+      case "raw": {
+        // SBT lines (`"org" %% "name" % "1.0"`) are read as a single raw entry
+        const sbtDep = convertSbtDependency(entry.text);
         if (sbtDep) {
-          sbtConvertedLine = event.lineIndex;
-          entries.push({ depLine: `${depIndent}"${sbtDep}"`, sortKey: buildSortKey(sbtDep) });
+          formatted.push({ entry: { depLine: `${indent}"${sbtDep}"`, sortKey: sortKey(sbtDep) }, span: entry.span });
         } else {
-          if (event.content.length > 0) {
-            entries.push({ depLine: `${depIndent}"${event.content}"`, sortKey: buildSortKey(event.content) });
-          }
+          formatted.push({ entry: { depLine: `${indent}${entry.text.trim()}`, sortKey: sortKey(entry.text) }, span: entry.span });
         }
         break;
       }
-      case "single-line-object": {
-        if (!inDepsArray && event.arrayKind === "dependencies") {
-          output.push(`  dependencies = [`);
-          entries = [];
-          inDepsArray = true;
-        }
-        const entry = extractDependencyEntryFromObject(event.objectText, depIndent);
-        if (entry) entries.push(entry);
-        break;
-      }
-      case "multi-line-object-start": {
-        if (!inDepsArray && event.arrayKind === "dependencies") {
-          output.push(`  dependencies = [`);
-          entries = [];
-          inDepsArray = true;
-        }
-        objectLines = [event.rawLine];
-        objectDepString = undefined;
-        const depMatch = objectDepFieldPattern.exec(event.rawLine);
-        if (depMatch) objectDepString = depMatch[1];
-        inObject = true;
-        break;
-      }
-      case "multi-line-object-field": {
-        if (inObject && objectLines.length > 0 && objectLines[objectLines.length - 1] !== event.rawLine) {
-          objectLines.push(event.rawLine);
-        }
-        const depMatch = objectDepFieldPattern.exec(event.rawLine);
-        if (depMatch) objectDepString = depMatch[1];
-        break;
-      }
-      case "multi-line-object-end": {
-        if (inObject && objectLines.length > 0 && objectLines[objectLines.length - 1] !== event.rawLine) {
-          objectLines.push(event.rawLine);
-        }
-        const entry = buildObjectEntry(objectLines, depIndent, objectDepString);
-        entries.push(entry);
-        objectLines = [];
-        objectDepString = undefined;
-        inObject = false;
-        break;
-      }
-      case "group-end": {
-        if (inDepsArray) {
-          flushEntries(output, entries);
-          if (event.groupKind === "simple") {
-            output.push("]");
-          } else {
-            output.push("  ]");
-          }
-          entries = [];
-          inDepsArray = false;
-        }
-        if (event.groupKind === "advanced") {
-          output.push(event.rawLine);
-        }
+      case "object": {
+        formatted.push({ entry: formatObjectEntry(text, entry, indent, comments, options), span: entry.span });
         break;
       }
     }
   }
 
-  groups.sort((a, b) => {
-    const ka = groupSortKey(a.name);
-    const kb = groupSortKey(b.name);
-    return ka < kb ? -1 : ka > kb ? 1 : 0;
-  });
-
-  return groups.map(g => g.lines.join("\n")).join("\n\n") + "\n";
-}
-
-/**
- * Extracts a dependency entry from a single-line object text.
- */
-function extractDependencyEntryFromObject(
-  objectText: string,
-  indent: string
-): DependencyEntry | undefined {
-  const depMatch = objectDepFieldPattern.exec(objectText);
-  if (!depMatch) return undefined;
-
-  const depString = depMatch[1];
-  const noteMatch = /note\s*=\s*"([^"]*)"/.exec(objectText);
-  const note = noteMatch?.[1];
-  const isIntransitive = objectIntransitiveFieldPattern.test(objectText);
-  const scalaFilterMatch = objectScalaFilterFieldPattern.exec(objectText);
-  const scalaFilter = scalaFilterMatch?.[1];
-  const crossVersionMatch = objectCrossVersionFieldPattern.exec(objectText);
-  const crossVersion = crossVersionMatch?.[1];
-
-  if (note || isIntransitive || scalaFilter || crossVersion) {
-    return formatObjectFields(depString, note, isIntransitive, scalaFilter, crossVersion, indent);
-  } else {
-    return { depLine: `${indent}${objectText.trim()}`, sortKey: buildSortKey(depString) };
+  if (options.sortOrder !== "preserve") {
+    formatted.sort((a, b) => a.entry.sortKey < b.entry.sortKey ? -1 : a.entry.sortKey > b.entry.sortKey ? 1 : 0);
   }
+  return formatted.flatMap(({ entry, span }) => comments.around(span, indent, entry.depLine.split("\n")));
 }
 
 /**
- * Builds a DependencyEntry from accumulated multi-line object lines.
+ * Formats an object entry. Entries with annotations are normalized; entries
+ * without a dependency or without annotations, or with comments inside, are
+ * kept as written (re-indented).
  */
-function buildObjectEntry(
-  objectLines: string[],
+function formatObjectEntry(
+  text: string,
+  entry: DependencyObject,
   indent: string,
-  depString: string | undefined
+  comments: CommentAttachments,
+  options: FormatOptions
 ): DependencyEntry {
-  if (!depString) {
-    return {
-      depLine: objectLines.map(l => `${indent}${l.trim()}`).join("\n"),
-      sortKey: "",
-    };
-  }
-
-  let note: string | undefined;
-  let isIntransitive = false;
-  let scalaFilter: string | undefined;
-  let crossVersion: string | undefined;
-  for (const l of objectLines) {
-    const noteMatch = /note\s*=\s*"([^"]*)"/.exec(l);
-    if (noteMatch) note = noteMatch[1];
-    if (objectIntransitiveFieldPattern.test(l)) isIntransitive = true;
-    const scalaFilterMatch = objectScalaFilterFieldPattern.exec(l);
-    if (scalaFilterMatch) scalaFilter = scalaFilterMatch[1];
-    const crossVersionMatch = objectCrossVersionFieldPattern.exec(l);
-    if (crossVersionMatch) crossVersion = crossVersionMatch[1];
-  }
+  const { dependency, note, intransitive, scalaFilter, crossVersion } = entry;
 
-  if (note || isIntransitive || scalaFilter || crossVersion) {
-    return formatObjectFields(depString, note, isIntransitive, scalaFilter, crossVersion, indent);
+  if (dependency && (note || intransitive || scalaFilter || crossVersion) && !comments.inside(entry.span)) {
+    return formatObjectFields(dependency.value, note?.value, intransitive, scalaFilter?.value, crossVersion?.value, indent, options);
   }
 
   return {
-    depLine: objectLines.map(l => `${indent}${l.trim()}`).join("\n"),
-    sortKey: buildSortKey(depString),
+    depLine: verbatim(text, entry.span, indent),
+    sortKey: dependency ? buildSortKey(dependency.value, options.sortOrder) : "",
   };
 }
 
+function sourceText(text: string, span: Span): string {
+  return text.slice(span.start, span.end);
+}
+
+/** The text of `span` with every line re-indented at `indent`. */
+function verbatim(text: string, span: Span, indent: string): string {
+  return sourceText(text, span).split("\n").map(l => `${indent}${l.trim()}`).join("\n");
+}
+
 /**
  * Formats an object entry with dependency, optional note, and optional intransitive fields.
- * Uses single-line format if it fits within the threshold, multi-line otherwise.
+ * Uses single-line format if it fits within the threshold (unless objects always expand), multi-line otherwise.
  */
 function formatObjectFields(
   depString: string,
@@ -236,7 +270,8 @@ function formatObjectFields(
   isIntransitive: boolean,
   scalaFilter: string | undefined,
   crossVersion: string | undefined,
-  indent: string
+  indent: string,
+  options: FormatOptions
 ): DependencyEntry {
   const noteField = note ? `note = "${note}"` : undefined;
   const intransitiveField = isIntransitive ? "intransitive = true" : undefined;
@@ -246,16 +281,18 @@ function formatObjectFields(
 
   // The threshold applies to the unindented object text, mirroring `AnnotatedDependency.format`.
   const singleLine = `{ dependency = "${depString}", ${fields} }`;
-  if (singleLine.length <= maxObjectLineLength) {
-    return { depLine: `${indent}${singleLine}`, sortKey: buildSortKey(depString) };
+  const sortKey = buildSortKey(depString, options.sortOrder);
+  if (!options.expandObjects && singleLine.length <= options.maxObjectLineLength) {
+    return { depLine: `${indent}${singleLine}`, sortKey };
   } else {
-    const noteSection = note ? `\n${indent}  note = "${note}"` : "";
-    const intransitiveSection = isIntransitive ? `\n${indent}  intransitive = true` : "";
-    const scalaFilterSection = scalaFilter ? `\n${indent}  scala-filter = "${scalaFilter}"` : "";
-    const crossVersionSection = crossVersion ? `\n${indent}  cross-version = "${crossVersion}"` : "";
+    const inner = `${indent}${indentation(options, 1)}`;
+    const noteSection = note ? `\n${inner}note = "${note}"` : "";
+    const intransitiveSection = isIntransitive ? `\n${inner}intransitive = true` : "";
+    const scalaFilterSection = scalaFilter ? `\n${inner}scala-filter = "${scalaFilter}"` : "";
+    const crossVersionSection = crossVersion ? `\n${inner}cross-version = "${crossVersion}"` : "";
     return {
-      depLine: `${indent}{\n${indent}  dependency = "${depString}"${noteSection}${intransitiveSection}${scalaFilterSection}${crossVersionSection}\n${indent}}`,
-      sortKey: buildSortKey(depString),
+      depLine: `${indent}{\n${inner}dependency = "${depString}"${noteSection}${intransitiveSection}${scalaFilterSection}${crossVersionSection}\n${indent}}`,
+      sortKey,
     };
   }
 }
@@ -286,49 +323,264 @@ export function convertSbtDependency(line: string): string | undefined {
 }
 
 /**
- * Builds a composite sort key: config + \0 + org + \0 + artifact.
+ * Builds a composite sort key: config + \0 + org + \0 + artifact, or org + \0 + artifact + \0 + config when sorting
+ * `org-first`.
  *
  * Mirrors the Scala-side `AnnotatedDependencyOrdering`: entries without a
  * configuration sort as `compile` (so e.g. `bom` sorts before them and `test`
  * after), and unparseable lines sort last.
  */
-function buildSortKey(depString: string): string {
+function buildSortKey(depString: string, order: SortOrder): string {
   const m = dependencyPattern.exec(depString);
-  if (!m) return `zzz\0${depString.toLowerCase()}\0`;
+  if (!m) return order === "org-first" ? `\uffff\0${depString.toLowerCase()}` : `zzz\0${depString.toLowerCase()}\0`;
 
   const org = m[1].toLowerCase();
   const artifact = m[3].toLowerCase();
   const config = (m[5] ?? "compile").toLowerCase();
 
-  return `${config}\0${org}\0${artifact}`;
+  return order === "org-first" ? `${org}\0${artifact}\0${config}` : `${config}\0${org}\0${artifact}`;
 }
 
-/** Sorts entries and flushes them to output. */
-function flushEntries(
-  output: { push(line: string): void },
-  entries: DependencyEntry[]
-): void {
-  entries.sort((a, b) => a.sortKey < b.sortKey ? -1 : a.sortKey > b.sortKey ? 1 : 0);
-  for (const entry of entries) {
-    for (const line of entry.depLine.split("\n")) {
-      output.push(line);
+/** The indentation of `level` levels. */
+function indentation(options: FormatOptions, level: number): string {
+  return " ".repeat(options.indentWidth * level);
+}
+
+// ── Edits ───────────────────────────────────────────────────────────
+
+/** A replacement of whole lines of a document, line terminators included. */
+export interface FormattingEdit {
+  range: TextRange;
+  newText: string;
+}
+
+/** The lines of `text`, each with its line terminator (`\r\n` or `\n`); the last one has none. */
+function linesOf(text: string): string[] {
+  return text.match(/[^\n]*\n|[^\n]+$/g) ?? [];
+}
+
+/**
+ * The edits turning `before` into `after`, one per run of changed lines, from a line diff of the two texts. Lines
+ * that only differ in their terminator (`\r\n` against `\n`) are left alone, so that formatting a CRLF document
+ * doesn't rewrite every line.
+ */
+export function formattingEdits(before: string, after: string): FormattingEdit[] {
+  const oldLines = linesOf(before);
+  const newLines = linesOf(after);
+  const same = (i: number, j: number) => oldLines[i].replace(/\r\n$/, "\n") === newLines[j].replace(/\r\n$/, "\n");
+
+  // Lines kept on both sides are skipped before diffing the rest
+  let prefix = 0;
+  while (prefix < oldLines.length && prefix < newLines.length && same(prefix, prefix)) prefix++;
+  let suffix = 0;
+  while (
+    suffix < oldLines.length - prefix &&
+    suffix < newLines.length - prefix &&
+    same(oldLines.length - 1 - suffix, newLines.length - 1 - suffix)
+  ) {
+    suffix++;
+  }
+
+  // Longest common subsequence of the remaining lines: `lengths[i * width + j]` is the one of `old[i..]` and `new[j..]`
+  const rows = oldLines.length - prefix - suffix;
+  const columns = newLines.length - prefix - suffix;
+  const width = columns + 1;
+  const lengths = new Uint32Array((rows + 1) * width);
+  for (let i = rows - 1; i >= 0; i--) {
+    for (let j = columns - 1; j >= 0; j--) {
+      lengths[i * width + j] = same(prefix + i, prefix + j)
+        ? lengths[(i + 1) * width + j + 1] + 1
+        : Math.max(lengths[(i + 1) * width + j], lengths[i * width + j + 1]);
     }
   }
+
+  const edits: FormattingEdit[] = [];
+  const replace = (oldStart: number, oldEnd: number, newStart: number, newEnd: number) => {
+    if (oldStart === oldEnd && newStart === newEnd) return;
+    const start = lineStartOf(oldLines, oldStart);
+    const end = lineStartOf(oldLines, oldEnd);
+    edits.push({
+      range: { startLine: start.line, startCol: start.col, endLine: end.line, endCol: end.col },
+      newText: newLines.slice(newStart, newEnd).join(""),
+    });
+  };
+
+  let i = 0;
+  let j = 0;
+  let hunkI = 0;
+  let hunkJ = 0;
+  while (i < rows || j < columns) {
+    if (i < rows && j < columns && same(prefix + i, prefix + j)) {
+      replace(prefix + hunkI, prefix + i, prefix + hunkJ, prefix + j);
+      i++;
+      j++;
+      hunkI = i;
+      hunkJ = j;
+    } else if (j < columns && (i === rows || lengths[i * width + j + 1] >= lengths[(i + 1) * width + j])) {
+      j++;
+    } else {
+      i++;
+    }
+  }
+  replace(prefix + hunkI, prefix + rows, prefix + hunkJ, prefix + columns);
+
+  return edits;
+}
+
+/** The position where the `index`th of `lines` starts, or the end of the text past the last one. */
+function lineStartOf(lines: string[], index: number): { line: number; col: number } {
+  if (index === lines.length && index > 0 && !lines[index - 1].endsWith("\n")) {
+    return { line: index - 1, col: lines[index - 1].length };
+  }
+  return { line: index, col: 0 };
+}
+
+// ── Comments ────────────────────────────────────────────────────────
+
+/** Whether `inner` lies within `outer`. */
+function within(inner: Span, outer: Span): boolean {
+  return inner.start >= outer.start && inner.end <= outer.end;
 }
 
 /**
- * Formats a single-line group (e.g. `group = ["dep1" "dep2"]`).
- * Extracts all quoted strings, sorts them, and reconstructs.
+ * Where each comment of a document goes when formatting. A comment after an element on its line trails it (or, right
+ * after an opening bracket, stays on the opening line); a comment on its own lines leads the next element of its array
+ * or object, or stays at its end when nothing follows. Comments inside a dependency or a setting keep it as written.
  */
-function formatSingleLineGroup(line: string, indent: string): string {
-  const pattern = /"([^"]*)"/g;
-  const deps: string[] = [];
-  let match;
-  while ((match = pattern.exec(line)) !== null) {
-    deps.push(match[1]);
+class CommentAttachments {
+  readonly rootSpan: Span;
+  /** The comments at the top of the file separated from the first element by a blank line, as written. */
+  readonly header: string | undefined;
+
+  private readonly leading = new Map<number, HoconComment[]>();
+  private readonly trailing = new Map<number, HoconComment[]>();
+  private readonly openings = new Map<number, HoconComment[]>();
+  private readonly danglings = new Map<number, HoconComment[]>();
+
+  constructor(private readonly document: DependenciesDocument) {
+    const { root } = document.syntax;
+    this.rootSpan = { start: 0, end: document.text.length };
+
+    const elements = [...root.fields, ...root.includes].map((node) => node.span).sort((a, b) => a.start - b.start);
+    this.attach(this.rootSpan, elements, true);
+
+    for (const group of document.groups) {
+      const value = group.node.value as HoconArray | HoconObject;
+      if (value.type === "array") {
+        this.attach(value.span, group.entries.map((entry) => entry.span));
+        continue;
+      }
+
+      this.attach(value.span, value.fields.map((field) => field.span));
+      for (const field of value.fields) {
+        if (field.key.value !== DEPENDENCIES || field.value?.type !== "array") continue;
+        const array = field.value.span;
+        this.attach(array, group.entries.filter((entry) => within(entry.span, array)).map((entry) => entry.span));
+      }
+    }
+
+    this.header = elements.length > 0 ? this.takeHeader(elements[0]) : undefined;
+  }
+
+  /** Whether a comment lies strictly inside `span`, so that reformatting it would drop the comment. */
+  inside(span: Span): boolean {
+    return this.document.syntax.comments.some((comment) => comment.span.start > span.start && comment.span.end < span.end);
+  }
+
+  /** Whether comments lead or trail the element at `span`. */
+  annotates(span: Span): boolean {
+    return this.leading.has(span.start) || this.trailing.has(span.start);
+  }
+
+  /** The `lines` of the element at `span`, under its leading comments (at `indent`) and followed by its trailing ones. */
+  around(span: Span, indent: string, lines: string[]): string[] {
+    const above = (this.leading.get(span.start) ?? []).flatMap((comment) => this.lines(comment, indent));
+    const after = this.inline(this.trailing.get(span.start));
+    if (!after) return [...above, ...lines];
+    return [...above, ...lines.slice(0, -1), `${lines[lines.length - 1]}${after}`];
   }
-  if (deps.length === 0) return line;
 
-  deps.sort((a, b) => { const ka = buildSortKey(a), kb = buildSortKey(b); return ka < kb ? -1 : ka > kb ? 1 : 0; });
-  return line;
+  /** The comments on the opening line of the array or object at `span`, to write after its bracket. */
+  opening(span: Span): string {
+    return this.inline(this.openings.get(span.start));
+  }
+
+  /** The comments after the last element of the array or object at `span` (or of the file), as lines at `indent`. */
+  dangling(span: Span, indent: string): string[] {
+    return (this.danglings.get(span.start) ?? []).flatMap((comment) => this.lines(comment, indent));
+  }
+
+  /** Assigns the comments of the array or object at `container` (and not inside one of its `elements`). */
+  private attach(container: Span, elements: Span[], isRoot = false): void {
+    const { text } = this.document;
+
+    for (const comment of this.document.syntax.comments) {
+      if (!within(comment.span, container) || elements.some((element) => within(comment.span, element))) continue;
+
+      const lineStart = text.lastIndexOf("\n", comment.span.start - 1) + 1;
+      const previous = elements.filter((element) => element.end <= comment.span.start).pop();
+      const next = elements.find((element) => element.start >= comment.span.end);
+
+      if (previous && previous.end >= lineStart) add(this.trailing, previous.start, comment);
+      else if (!isRoot && container.start >= lineStart) add(this.openings, container.start, comment);
+      else if (next) add(this.leading, next.start, comment);
+      else add(this.danglings, container.start, comment);
+    }
+  }
+
+  /** Splits off the leading comments of the file's first element that a blank line separates from it. */
+  private takeHeader(first: Span): string | undefined {
+    const { text } = this.document;
+    const leading = this.leading.get(first.start) ?? [];
+    const header = leading.filter((comment) => /\n[ \t]*\r?\n/.test(text.slice(comment.span.end, first.start)));
+    if (header.length === 0) return undefined;
+
+    if (header.length === leading.length) this.leading.delete(first.start);
+    else this.leading.set(first.start, leading.slice(header.length));
+
+    const start = text.lastIndexOf("\n", header[0].span.start - 1) + 1;
+    return text.slice(start, header[header.length - 1].span.end).split("\n").map((line) => line.trimEnd()).join("\n");
+  }
+
+  /** A comment on lines of its own at `indent`, keeping the relative indentation of a block comment's lines. */
+  private lines(comment: HoconComment, indent: string): string[] {
+    const { text } = this.document;
+    const lineStart = text.lastIndexOf("\n", comment.span.start - 1) + 1;
+    const original = text.slice(lineStart, comment.span.start).replace(/\S.*$/, "");
+
+    return sourceText(text, comment.span)
+      .split("\n")
+      .map((line, i) => (i === 0 || line.startsWith(original) ? `${indent}${line.slice(i === 0 ? 0 : original.length)}` : line).trimEnd());
+  }
+
+  /** Comments written after an element on its line, with a separating space; empty when there are none. */
+  private inline(comments: HoconComment[] | undefined): string {
+    if (!comments) return "";
+    return comments.map((comment) => ` ${sourceText(this.document.text, comment.span).trimEnd()}`).join("");
+  }
+}
+
+function add(map: Map<number, HoconComment[]>, key: number, comment: HoconComment): void {
+  const comments = map.get(key);
+  if (comments) comments.push(comment);
+  else map.set(key, [comment]);
+}
+
+/** Whether every comment of `document` made it into `formatted`, whitespace aside. */
+function keepsComments(document: DependenciesDocument, formatted: string): boolean {
+  const output = formatted.replace(/\s+/g, "");
+  const counts = new Map<string, number>();
+  for (const comment of document.syntax.comments) {
+    const key = sourceText(document.text, comment.span).replace(/\s+/g, "");
+    counts.set(key, (counts.get(key) ?? 0) + 1);
+  }
+
+  for (const [comment, count] of counts) {
+    let found = 0;
+    for (let index = output.indexOf(comment); index !== -1 && found < count; index = output.indexOf(comment, index + comment.length)) {
+      found++;
+    }
+    if (found < count) return false;
+  }
+  return true;
 }
@@ -1,4 +1,4 @@
-import { simpleGroupStartPattern, advancedGroupStartPattern } from "./parser";
+import { parseDocument } from "./parser";
 import { COMMON_SETTINGS, SBT_BUILD } from "./groups";
 
 export interface GroupHeaderMatch {
@@ -19,13 +19,10 @@ export interface GroupHeaderMatch {
  * still falls through to the dependency hover provider.
  */
 export function parseGroupHeader(line: string): GroupHeaderMatch | undefined {
-  const match = simpleGroupStartPattern.exec(line) ?? advancedGroupStartPattern.exec(line);
-  if (!match) return undefined;
+  const group = parseDocument([line]).groups[0];
+  if (!group) return undefined;
 
-  const indent = match[1] ?? "";
-  const name = match[2];
-  const startCol = indent.length;
-  return { name, startCol, endCol: startCol + name.length };
+  return { name: group.name, startCol: group.nameSpan.start, endCol: group.nameSpan.end };
 }
 
 const fence = "```";
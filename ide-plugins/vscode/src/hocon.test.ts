@@ -0,0 +1,262 @@
+import { describe, it, expect } from "vitest";
+import { parseHocon, reparseHocon, forEachString, valueTypeOf, HoconArray, HoconObject, HoconString } from "./hocon";
+
+function field(text: string, index = 0) {
+  return parseHocon(text).root.fields[index];
+}
+
+describe("parseHocon", () => {
+  describe("strings", () => {
+    it("resolves escapes in quoted strings and keeps the content span", () => {
+      const text = `a = "x\\"y\\u0041"`;
+      const value = field(text).value as HoconString;
+      expect(value).toMatchObject({ type: "string", value: 'x"yA', quoted: true });
+      expect(text.slice(value.contentSpan.start, value.contentSpan.end)).toBe('x\\"y\\u0041');
+      expect(text.slice(value.span.start, value.span.end)).toBe('"x\\"y\\u0041"');
+    });
+
+    it("parses triple-quoted strings across lines", () => {
+      const value = field(`a = """one\n"two""""`).value as HoconString;
+      expect(value.value).toBe('one\n"two"');
+    });
+
+    it("parses unquoted strings", () => {
+      expect(field(`a = true`).value).toMatchObject({ type: "string", value: "true", quoted: false });
+      expect(field(`a = 1.5`).value).toMatchObject({ type: "string", value: "1.5", quoted: false });
+    });
+
+    it("parses substitutions", () => {
+      expect(field(`a = \${?HOME}`).value).toMatchObject({ type: "substitution", path: "HOME", optional: true });
+    });
+
+    it("concatenates simple values on one line", () => {
+      expect(field(`a = foo "bar" baz`).value).toMatchObject({ type: "concatenation", value: "foo bar baz" });
+    });
+  });
+
+  describe("fields", () => {
+    it("records the separator", () => {
+      expect(field(`a = 1`).separator).toBe("=");
+      expect(field(`a : 1`).separator).toBe(":");
+      expect(field(`a += 1`).separator).toBe("+=");
+      expect(field(`a { }`).separator).toBeUndefined();
+    });
+
+    it("keeps path keys and unquotes quoted keys", () => {
+      expect(field(`a.b-c = 1`).key.value).toBe("a.b-c");
+      expect(field(`"a b" = 1`).key.value).toBe("a b");
+    });
+
+    it("starts a new field on the same line without a comma", () => {
+      const fields = parseHocon(`a = 1 b = 2 c { }`).root.fields;
+      expect(fields.map((f) => f.key.value)).toEqual(["a", "b", "c"]);
+      expect(fields[0].value).toMatchObject({ value: "1" });
+    });
+
+    it("leaves the value undefined when nothing follows the key", () => {
+      expect(field(`a =\nb = 1`)).toMatchObject({ key: { value: "a" }, value: undefined });
+      expect(field(`a =\nb = 1`, 1)).toMatchObject({ key: { value: "b" } });
+    });
+
+    it("parses include statements", () => {
+      const root = parseHocon(`include "a.conf"\ninclude required(file("b.conf"))\nx = 1`).root;
+      expect(root.includes.map((i) => i.target?.value)).toEqual(["a.conf", "b.conf"]);
+      expect(root.fields.map((f) => f.key.value)).toEqual(["x"]);
+    });
+  });
+
+  describe("arrays and objects", () => {
+    it("splits whitespace-separated quoted strings into elements", () => {
+      const array = field(`a = ["x" "y", "z"]`).value as HoconArray;
+      expect(array.elements.map((e) => (e as HoconString).value)).toEqual(["x", "y", "z"]);
+      expect(array.closed).toBe(true);
+    });
+
+    it("keeps stray separators inside an element", () => {
+      const array = field(`a = [\n  foo += "x" % "y"\n]`).value as HoconArray;
+      expect(array.elements).toHaveLength(1);
+      expect(array.elements[0]).toMatchObject({ type: "concatenation", value: 'foo += x % y' });
+    });
+
+    it("parses nested objects", () => {
+      const object = field(`a {\n  b = [{ c = 1 }]\n}`).value as HoconObject;
+      expect(object.closed).toBe(true);
+      const inner = (object.fields[0].value as HoconArray).elements[0] as HoconObject;
+      expect(inner.fields[0].key.value).toBe("c");
+    });
+
+    it("marks unclosed arrays and objects and ends them at their last token", () => {
+      const text = `a {\n  b = [\n    "x"\n`;
+      const object = field(text).value as HoconObject;
+      const array = object.fields[0].value as HoconArray;
+      expect(object.closed).toBe(false);
+      expect(array.closed).toBe(false);
+      expect(text.slice(array.span.start, array.span.end)).toBe(`[\n    "x"`);
+    });
+
+    it("lets a `]` close the array around an unclosed object", () => {
+      const array = field(`a = [\n  { b = 1\n]\nc = 2`).value as HoconArray;
+      expect(array.closed).toBe(true);
+      expect((array.elements[0] as HoconObject).closed).toBe(false);
+      expect(parseHocon(`a = [\n  { b = 1\n]\nc = 2`).root.fields.map((f) => f.key.value)).toEqual(["a", "c"]);
+    });
+  });
+
+  describe("comments", () => {
+    it("collects comments separately", () => {
+      const document = parseHocon(`# one\na = 1 // two\n/* three\n*/ b = 2`);
+      expect(document.comments.map((c) => c.kind)).toEqual(["line", "line", "block"]);
+      expect(document.root.fields.map((f) => f.key.value)).toEqual(["a", "b"]);
+    });
+
+    it("treats an unclosed block comment as running to the end", () => {
+      const document = parseHocon(`a = 1\n/* b = 2`);
+      expect(document.root.fields).toHaveLength(1);
+      expect(document.comments[0].span.end).toBe(`a = 1\n/* b = 2`.length);
+    });
+  });
+});
+
+describe("syntax errors", () => {
+  /** The errors of `text`, each with the text it points at. */
+  function errors(text: string): [string, string][] {
+    return parseHocon(text).errors.map((error) => [error.message, text.slice(error.span.start, error.span.end)]);
+  }
+
+  it("reports nothing for a valid document", () => {
+    expect(errors(`a = [\n  "x"\n]\nb {\n  c = [{ d = 1 }]\n}\n/* done */`)).toEqual([]);
+  });
+
+  it("points unclosed arrays and objects at their opening token", () => {
+    expect(errors(`a = [\n  "x"`)).toEqual([['Unclosed array: missing "]"', "["]]);
+    expect(errors(`a {\n  b = 1`)).toEqual([['Unclosed object: missing "}"', "{"]]);
+  });
+
+  it("points an unclosed block comment at its opening token", () => {
+    expect(errors(`a = 1\n/* b = 2`)).toEqual([['Unclosed block comment: missing "*/"', "/*"]]);
+  });
+
+  it("reports stray closers", () => {
+    expect(errors(`a = []\n]\n}`)).toEqual([
+      ['Unexpected "]": no array to close', "]"],
+      ['Unexpected "}": no object to close', "}"],
+    ]);
+    expect(errors(`a {\n  b = 1 ]\n}`)).toEqual([['Unexpected "]": no array to close', "]"]]);
+  });
+
+  it("reports a missing `=` at the key", () => {
+    expect(errors(`my-group [\n  "x"\n]`)).toEqual([['Missing "=" after "my-group"', "my-group"]]);
+    expect(errors(`my-group {\n}\nalone`)).toEqual([]);
+  });
+
+  it("ends an unclosed array at the next top-level group", () => {
+    const document = parseHocon(`a = [\n  "x"\n\nb = [\n  "y"\n]\nc { }`);
+    expect(document.root.fields.map((f) => f.key.value)).toEqual(["a", "b", "c"]);
+    expect((document.root.fields[0].value as HoconArray).elements).toHaveLength(1);
+  });
+
+  it("ends an unclosed array inside an object at the next top-level group", () => {
+    const document = parseHocon(`a {\n  dependencies = [\n    "x"\n}\nb = []`);
+    expect(document.root.fields.map((f) => f.key.value)).toEqual(["a", "b"]);
+
+    const nested = parseHocon(`a {\n  dependencies = [\n    "x"\nb = []`);
+    expect(nested.root.fields.map((f) => f.key.value)).toEqual(["a", "b"]);
+    expect(nested.errors.map((e) => e.message)).toEqual(['Unclosed object: missing "}"', 'Unclosed array: missing "]"']);
+  });
+
+  it("ends an object missing its `}` at the next top-level group", () => {
+    const document = parseHocon(`a {\n  scala-version = 2.13.12\n\nb = [\n  "y"\n]`);
+    expect(document.root.fields.map((f) => f.key.value)).toEqual(["a", "b"]);
+    expect((document.root.fields[0].value as HoconObject).fields.map((f) => f.key.value)).toEqual(["scala-version"]);
+  });
+
+  it("keeps unindented fields inside a closed object", () => {
+    const document = parseHocon(`a {\ndependencies = [\n"x"\n]\n}`);
+    expect(document.root.fields.map((f) => f.key.value)).toEqual(["a"]);
+    expect(document.errors).toEqual([]);
+  });
+});
+
+describe("valueTypeOf", () => {
+  it("reads unquoted numbers, booleans and null as such", () => {
+    const types = (text: string) => parseHocon(text).root.fields.map((f) => valueTypeOf(f.value!));
+    expect(types(`a = 17\nb = 2.13\nc = 2.13.12\nd = "17"\ne = true\nf = null\ng = []\nh {}\ni = \${x}`)).toEqual([
+      "NUMBER", "NUMBER", "STRING", "STRING", "BOOLEAN", "NULL", "LIST", "OBJECT", undefined,
+    ]);
+  });
+});
+
+describe("forEachString", () => {
+  it("visits keys, values and elements in text order", () => {
+    const values: string[] = [];
+    forEachString(parseHocon(`a = ["x", { b = "y" }]\nc = d e`), (node) => values.push(node.value));
+    expect(values).toEqual(["a", "x", "b", "y", "c", "d", "e"]);
+  });
+});
+
+describe("reparseHocon", () => {
+  const base = [
+    "# header",
+    "sbt-build = [",
+    '  "ch.epfl.scala:sbt-scalafix:0.14.0:sbt-plugin"',
+    "]",
+    "",
+    "core {",
+    '  scala-versions = ["2.13.12", "3.3.3"]',
+    "  dependencies = [",
+    '    { dependency = "org.typelevel::cats-core:^2.10.0", note = "see }" }',
+    '    "co.fs2::fs2-core:3.9.4" // trailing',
+    "  ]",
+    "}",
+    "",
+    "/* block",
+    "   comment */",
+    'include "other.conf"',
+    "extras = [",
+    '  "io.circe::circe-core:0.14.6"',
+    "]",
+  ].join("\n");
+
+  const insertions = ["x", "\n", "[", "]", "{", "}", '"', '"""', "/*", "*/", "# ", "a = [", '"org:art:1.0"\n', "=", ", b = []"];
+
+  /** Applies a change and checks the incremental result (when offered) against a full parse. */
+  function check(text: string, offset: number, length: number, insert: string): string {
+    const change = { offset, length, text: insert };
+    const newText = text.slice(0, offset) + insert + text.slice(offset + length);
+    const incremental = reparseHocon(parseHocon(text), text, newText, change);
+    if (incremental) expect(incremental).toEqual(parseHocon(newText));
+    return newText;
+  }
+
+  it("reuses the fields a change didn't touch", () => {
+    const offset = base.indexOf("3.9.4");
+    const newText = base.slice(0, offset) + "3.10.0" + base.slice(offset + 5);
+    const previous = parseHocon(base);
+    const result = reparseHocon(previous, base, newText, { offset, length: 5, text: "3.10.0" });
+
+    expect(result).toEqual(parseHocon(newText));
+    expect(result!.root.fields[0]).toBe(previous.root.fields[0]);
+  });
+
+  it("declines changes that leave something open", () => {
+    const offset = base.indexOf("extras") - 1;
+    expect(reparseHocon(parseHocon(base), base, base.slice(0, offset) + "/*" + base.slice(offset), { offset, length: 0, text: "/*" })).toBeUndefined();
+  });
+
+  it("matches a full parse for every insertion and deletion", () => {
+    let seed = 42;
+    const random = (max: number) => {
+      seed = (seed * 1103515245 + 12345) % 2147483648;
+      return seed % max;
+    };
+
+    let text = base;
+    for (let i = 0; i < 2000; i++) {
+      const offset = random(text.length + 1);
+      const length = random(3) === 0 ? random(Math.min(12, text.length - offset) + 1) : 0;
+      const insert = length > 0 && random(2) === 0 ? "" : insertions[random(insertions.length)];
+      text = check(text, offset, length, insert);
+      if (i % 50 === 49) text = base;
+    }
+  });
+});
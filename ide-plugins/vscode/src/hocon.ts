@@ -0,0 +1,804 @@
+/**
+ * A tolerant HOCON parser producing a positioned syntax tree.
+ *
+ * It never throws: an unclosed bracket, a missing `=` or a stray closer still yields whatever structure the text has,
+ * so editor features keep working mid-edit, and is reported in `HoconDocument.errors`. An unclosed bracket stops at the
+ * next line that starts a top-level group, so one mistake doesn't swallow the rest of the file. Every node carries
+ * absolute `[start, end)` offsets into the parsed text.
+ *
+ * Two deliberate deviations from the HOCON spec, matching what `dependencies.conf` files contain in practice:
+ * whitespace-separated quoted strings inside an array are read as separate elements rather than concatenated, and
+ * `/* ... *\/` block comments are accepted.
+ */
+
+// ── Syntax tree ─────────────────────────────────────────────────────
+
+/** Absolute character offsets `[start, end)` into the parsed text. */
+export interface Span {
+  start: number;
+  end: number;
+}
+
+export type HoconValue = HoconString | HoconSubstitution | HoconConcatenation | HoconArray | HoconObject;
+
+/** A quoted, triple-quoted or unquoted string (unquoted numbers and booleans included). */
+export interface HoconString {
+  type: "string";
+  /** The string's value, with escapes resolved for quoted strings. */
+  value: string;
+  quoted: boolean;
+  /** The whole token, quotes included. */
+  span: Span;
+  /** The text between the quotes (the whole token for unquoted strings). */
+  contentSpan: Span;
+}
+
+/** A `${path}` or `${?path}` substitution. */
+export interface HoconSubstitution {
+  type: "substitution";
+  path: string;
+  optional: boolean;
+  span: Span;
+}
+
+/** Several simple values on one line, e.g. `foo bar` or the pieces of `"org" %% "name" % "1.0"`. */
+export interface HoconConcatenation {
+  type: "concatenation";
+  parts: (HoconString | HoconSubstitution)[];
+  /** The parts' values joined with the whitespace between them. */
+  value: string;
+  span: Span;
+}
+
+export interface HoconArray {
+  type: "array";
+  elements: HoconValue[];
+  /** From `[` to `]`, or to the last element when unclosed. */
+  span: Span;
+  closed: boolean;
+}
+
+export interface HoconObject {
+  type: "object";
+  fields: HoconField[];
+  includes: HoconInclude[];
+  /** From `{` to `}` (the whole text for the root object), or to the last field when unclosed. */
+  span: Span;
+  /** Whether the object is delimited by braces (only the root object may not be). */
+  braced: boolean;
+  closed: boolean;
+}
+
+/** A field key. Path expressions (`a.b`) are kept whole, as `value` joins every key piece. */
+export interface HoconKey {
+  value: string;
+  span: Span;
+  parts: HoconString[];
+}
+
+export interface HoconField {
+  key: HoconKey;
+  /** `undefined` for the `key { ... }` shorthand, or when the separator is missing. */
+  separator: "=" | ":" | "+=" | undefined;
+  separatorSpan: Span | undefined;
+  /** `undefined` while the value hasn't been typed yet. */
+  value: HoconValue | undefined;
+  /** From the key to the end of the value. */
+  span: Span;
+}
+
+/** An `include "file"` / `include file("...")` / `include required(...)` statement. */
+export interface HoconInclude {
+  /** The first quoted string of the statement, or `undefined` when there is none. */
+  target: HoconString | undefined;
+  span: Span;
+}
+
+export interface HoconComment {
+  kind: "line" | "block";
+  span: Span;
+}
+
+/** A syntax error, positioned at the token it is about (the opening bracket of an unclosed array...). */
+export interface HoconError {
+  message: string;
+  span: Span;
+}
+
+export interface HoconDocument {
+  root: HoconObject;
+  comments: HoconComment[];
+  /** Syntax errors, in text order. */
+  errors: HoconError[];
+}
+
+// ── Tokens ──────────────────────────────────────────────────────────
+
+type TokenKind = "{" | "}" | "[" | "]" | "=" | ":" | "+=" | "," | "newline" | "quoted" | "unquoted" | "substitution" | "eof";
+
+interface Token {
+  kind: TokenKind;
+  start: number;
+  end: number;
+  /** Resolved value for strings, path for substitutions, raw text otherwise. */
+  value: string;
+  /** Span of the text between the quotes, for quoted strings. */
+  contentStart: number;
+  contentEnd: number;
+}
+
+const escapes: Record<string, string> = { n: "\n", t: "\t", r: "\r", b: "\b", f: "\f", '"': '"', "\\": "\\", "/": "/" };
+
+/** Characters that end an unquoted string. */
+const unquotedTerminators = new Set(["{", "}", "[", "]", "=", ":", ",", '"', "#", "\n", " ", "\t", "\r"]);
+
+function tokenize(text: string): { tokens: Token[]; comments: HoconComment[] } {
+  const tokens: Token[] = [];
+  const comments: HoconComment[] = [];
+  let pos = 0;
+
+  const push = (kind: TokenKind, start: number, end: number, value = text.slice(start, end)) =>
+    tokens.push({ kind, start, end, value, contentStart: start, contentEnd: end });
+
+  while (pos < text.length) {
+    const ch = text[pos];
+
+    if (ch === "\n") {
+      push("newline", pos, pos + 1);
+      pos++;
+    } else if (ch === " " || ch === "\t" || ch === "\r" || ch === "\uFEFF") {
+      pos++;
+    } else if (ch === "#" || text.startsWith("//", pos)) {
+      const end = text.indexOf("\n", pos);
+      comments.push({ kind: "line", span: { start: pos, end: end === -1 ? text.length : end } });
+      pos = end === -1 ? text.length : end;
+    } else if (text.startsWith("/*", pos)) {
+      const close = text.indexOf("*/", pos + 2);
+      const end = close === -1 ? text.length : close + 2;
+      comments.push({ kind: "block", span: { start: pos, end } });
+      // A block comment spanning lines still separates what comes before it from what comes after.
+      if (text.slice(pos, end).includes("\n")) push("newline", pos, end, "\n");
+      pos = end;
+    } else if (text.startsWith('"""', pos)) {
+      const close = text.indexOf('"""', pos + 3);
+      let end = close === -1 ? text.length : close + 3;
+      // Quotes right before the closing `"""` belong to the string.
+      while (close !== -1 && text[end] === '"') end++;
+      const contentEnd = close === -1 ? end : end - 3;
+      tokens.push({ kind: "quoted", start: pos, end, value: text.slice(pos + 3, contentEnd), contentStart: pos + 3, contentEnd });
+      pos = end;
+    } else if (ch === '"') {
+      let value = "";
+      let i = pos + 1;
+      while (i < text.length && text[i] !== '"' && text[i] !== "\n") {
+        if (text[i] === "\\" && i + 1 < text.length && text[i + 1] !== "\n") {
+          const next = text[i + 1];
+          if (next === "u" && /^[0-9a-fA-F]{4}$/.test(text.slice(i + 2, i + 6))) {
+            value += String.fromCharCode(parseInt(text.slice(i + 2, i + 6), 16));
+            i += 6;
+          } else {
+            value += escapes[next] ?? next;
+            i += 2;
+          }
+        } else {
+          value += text[i];
+          i++;
+        }
+      }
+      // An unterminated string ends at the end of its line.
+      const terminated = text[i] === '"';
+      const end = terminated ? i + 1 : i;
+      tokens.push({ kind: "quoted", start: pos, end, value, contentStart: pos + 1, contentEnd: i });
+      pos = end;
+    } else if (text.startsWith("${", pos)) {
+      const close = text.indexOf("}", pos);
+      const lineEnd = text.indexOf("\n", pos);
+      const end = close !== -1 && (lineEnd === -1 || close < lineEnd) ? close + 1 : lineEnd === -1 ? text.length : lineEnd;
+      const inner = text.slice(pos + 2, close !== -1 && end === close + 1 ? close : end).trim();
+      push("substitution", pos, end, inner);
+      pos = end;
+    } else if (ch === "+" && text[pos + 1] === "=") {
+      push("+=", pos, pos + 2);
+      pos += 2;
+    } else if ("{}[]=:,".includes(ch)) {
+      push(ch as TokenKind, pos, pos + 1);
+      pos++;
+    } else {
+      let end = pos;
+      while (
+        end < text.length &&
+        !unquotedTerminators.has(text[end]) &&
+        !text.startsWith("//", end) &&
+        !text.startsWith("/*", end) &&
+        !text.startsWith("${", end) &&
+        !text.startsWith("+=", end)
+      ) {
+        end++;
+      }
+      push("unquoted", pos, end);
+      pos = end;
+    }
+  }
+
+  push("eof", text.length, text.length, "");
+  return { tokens, comments };
+}
+
+// ── Parser ──────────────────────────────────────────────────────────
+
+/** Parses `text` into its positioned syntax tree. Never throws. */
+export function parseHocon(text: string): HoconDocument {
+  const { tokens, comments } = tokenize(text);
+
+  let parser = new Parser(text, tokens, false);
+  let root = parser.parseRoot();
+
+  // A group object missing its `}` would take every following group as one of its fields: read the text again,
+  // ending objects at the next top-level group too.
+  if (hasUnclosedObject(root)) {
+    parser = new Parser(text, tokens, true);
+    root = parser.parseRoot();
+  }
+
+  const errors = [...parser.errors];
+  for (const comment of comments) {
+    if (comment.kind === "block" && !isClosedComment(text, comment)) {
+      errors.push({ message: 'Unclosed block comment: missing "*/"', span: { start: comment.span.start, end: comment.span.start + 2 } });
+    }
+  }
+  errors.sort((a, b) => a.span.start - b.span.start);
+
+  return { root, comments, errors };
+}
+
+function hasUnclosedObject(root: HoconObject): boolean {
+  return root.fields.some((field) => field.value?.type === "object" && !field.value.closed);
+}
+
+function isClosedComment(text: string, comment: HoconComment): boolean {
+  return comment.span.end - comment.span.start >= 4 && text.startsWith("*/", comment.span.end - 2);
+}
+
+function isSimple(token: Token): boolean {
+  return token.kind === "quoted" || token.kind === "unquoted" || token.kind === "substitution";
+}
+
+function isSeparator(token: Token): boolean {
+  return token.kind === "=" || token.kind === ":" || token.kind === "+=";
+}
+
+class Parser {
+  readonly errors: HoconError[] = [];
+
+  private pos = 0;
+
+  /** End offset of the last consumed token, used to end unclosed arrays and objects. */
+  private lastEnd = 0;
+
+  /** How many arrays are open around the current position. */
+  private openArrays = 0;
+
+  /** Set when an unclosed array or object stopped at a top-level group, until the root reads it. */
+  private resyncing = false;
+
+  /**
+   * @param resyncObjects whether braced objects also end at a top-level group. Arrays always do: a group can't be an
+   *   array element, while it can be a field of an (unindented) object.
+   */
+  constructor(
+    private readonly text: string,
+    private readonly tokens: Token[],
+    private readonly resyncObjects: boolean
+  ) {}
+
+  parseRoot(): HoconObject {
+    this.skipNewlines();
+
+    const root: HoconObject = {
+      type: "object",
+      fields: [],
+      includes: [],
+      span: { start: 0, end: this.text.length },
+      braced: false,
+      closed: true,
+    };
+
+    const braced = this.peek().kind === "{";
+    if (braced) {
+      const object = this.parseObject();
+      root.fields.push(...object.fields);
+      root.includes.push(...object.includes);
+    }
+
+    // Anything after a braced root (or the whole text of an unbraced one) is read as more root fields.
+    this.parseObjectBody(root);
+    root.braced = braced;
+    return root;
+  }
+
+  private peek(offset = 0): Token {
+    return this.tokens[Math.min(this.pos + offset, this.tokens.length - 1)];
+  }
+
+  private advance(): Token {
+    const token = this.peek();
+    if (token.kind !== "eof") {
+      this.pos++;
+      this.lastEnd = token.end;
+    }
+    return token;
+  }
+
+  private skipNewlines(): void {
+    while (this.peek().kind === "newline") this.advance();
+  }
+
+  /** Reads fields into `object` until its closing brace (braced objects) or the end of the text. */
+  private parseObjectBody(object: HoconObject): void {
+    for (;;) {
+      const token = this.peek();
+
+      if (object.braced && (this.resyncing || (this.resyncObjects && this.startsGroup()))) {
+        this.resyncing = true;
+        return;
+      }
+      this.resyncing = false;
+
+      if (token.kind === "eof") return;
+
+      if (token.kind === "newline" || token.kind === ",") {
+        this.advance();
+      } else if (token.kind === "}") {
+        if (object.braced) {
+          this.advance();
+          object.closed = true;
+          object.span.end = token.end;
+          return;
+        }
+        this.error('Unexpected "}": no object to close', this.advance());
+      } else if (token.kind === "]") {
+        // Inside a braced object a `]` most likely closes the enclosing array: leave it there.
+        if (object.braced && this.openArrays > 0) return;
+        this.error('Unexpected "]": no array to close', this.advance());
+      } else if (isSeparator(token) || token.kind === "substitution") {
+        this.advance();
+      } else if (token.kind === "[") {
+        this.parseArray();
+      } else if (token.kind === "{") {
+        this.parseObject();
+      } else if (token.kind === "unquoted" && token.value === "include" && this.isIncludeTarget(this.peek(1))) {
+        object.includes.push(this.parseInclude());
+      } else {
+        object.fields.push(this.parseField());
+      }
+
+      if (object.braced) object.span.end = this.lastEnd;
+    }
+  }
+
+  private isIncludeTarget(token: Token): boolean {
+    return token.kind === "quoted" || (token.kind === "unquoted" && /^(file|url|classpath|required)\(/.test(token.value));
+  }
+
+  private parseInclude(): HoconInclude {
+    const start = this.advance().start;
+    let target: HoconString | undefined;
+
+    while (isSimple(this.peek())) {
+      const token = this.advance();
+      if (token.kind === "quoted" && !target) target = this.stringNode(token);
+    }
+
+    return { target, span: { start, end: this.lastEnd } };
+  }
+
+  private parseField(): HoconField {
+    const parts: HoconString[] = [];
+    let value = "";
+
+    while (this.peek().kind === "quoted" || this.peek().kind === "unquoted") {
+      const token = this.advance();
+      if (parts.length > 0) value += this.text.slice(parts[parts.length - 1].span.end, token.start);
+      value += token.value;
+      parts.push(this.stringNode(token));
+    }
+
+    const key: HoconKey = { value, span: { start: parts[0].span.start, end: parts[parts.length - 1].span.end }, parts };
+
+    let separator: HoconField["separator"];
+    let separatorSpan: Span | undefined;
+    const next = this.peek();
+    if (isSeparator(next)) {
+      this.advance();
+      separator = next.kind as HoconField["separator"];
+      separatorSpan = { start: next.start, end: next.end };
+    }
+
+    const fieldValue = this.parseValue("field");
+    if (!separator && fieldValue?.type === "array") this.error(`Missing "=" after "${value}"`, key.span);
+
+    return { key, separator, separatorSpan, value: fieldValue, span: { start: key.span.start, end: this.lastEnd } };
+  }
+
+  private parseValue(context: "field" | "element"): HoconValue | undefined {
+    const token = this.peek();
+    if (token.kind === "{") return this.parseObject();
+    if (token.kind === "[") return this.parseArray();
+    if (isSimple(token) || (context === "element" && isSeparator(token))) return this.parseSimple(context);
+    return undefined;
+  }
+
+  /**
+   * Reads the simple values on the current line. In a field value it stops before the key of a following field
+   * (`a = 1 b = 2`); in an array element, stray separators are taken as plain text, so lines like
+   * `libraryDependencies += "org" %% "name" % "1.0"` read as one element.
+   */
+  private parseSimple(context: "field" | "element"): HoconValue {
+    const parts: (HoconString | HoconSubstitution)[] = [];
+
+    for (;;) {
+      const token = this.peek();
+
+      if (isSimple(token)) {
+        if (context === "field" && parts.length > 0 && this.startsField()) break;
+        this.advance();
+        parts.push(token.kind === "substitution" ? this.substitutionNode(token) : this.stringNode(token));
+      } else if (context === "element" && isSeparator(token)) {
+        this.advance();
+        parts.push({ type: "string", value: token.value, quoted: false, span: { start: token.start, end: token.end }, contentSpan: { start: token.start, end: token.end } });
+      } else {
+        break;
+      }
+    }
+
+    if (parts.length === 1) return parts[0];
+
+    let value = "";
+    parts.forEach((part, i) => {
+      if (i > 0) value += this.text.slice(parts[i - 1].span.end, part.span.start);
+      value += part.type === "string" ? part.value : this.text.slice(part.span.start, part.span.end);
+    });
+
+    return { type: "concatenation", parts, value, span: { start: parts[0].span.start, end: parts[parts.length - 1].span.end } };
+  }
+
+  /**
+   * Whether the current token starts a top-level group: a key at the start of a line followed by `= [`, `= {` (or `:`),
+   * `{` or a `[` missing its `=`.
+   */
+  private startsGroup(): boolean {
+    const start = this.peek().start;
+    if (start > 0 && this.text[start - 1] !== "\n") return false;
+
+    let offset = 0;
+    while (this.peek(offset).kind === "quoted" || this.peek(offset).kind === "unquoted") offset++;
+    if (offset === 0 || (offset === 1 && this.peek().value === "include")) return false;
+
+    if (this.peek(offset).kind === "=" || this.peek(offset).kind === ":") offset++;
+    const next = this.peek(offset);
+    return next.kind === "[" || next.kind === "{";
+  }
+
+  /** Whether the tokens from the current position read as `key =`, `key :`, `key +=` or `key {` on this line. */
+  private startsField(): boolean {
+    let offset = 0;
+    while (this.peek(offset).kind === "quoted" || this.peek(offset).kind === "unquoted") offset++;
+    const next = this.peek(offset);
+    return offset > 0 && (isSeparator(next) || next.kind === "{");
+  }
+
+  private parseArray(): HoconArray {
+    const open = this.advance();
+    const array: HoconArray = { type: "array", elements: [], span: { start: open.start, end: open.end }, closed: false };
+
+    this.openArrays++;
+    try {
+      this.parseElements(array);
+    } finally {
+      this.openArrays--;
+    }
+
+    if (!array.closed) this.error('Unclosed array: missing "]"', open);
+    return array;
+  }
+
+  private parseElements(array: HoconArray): void {
+    for (;;) {
+      const token = this.peek();
+
+      if (token.kind === "eof" || token.kind === "}" || this.resyncing) return;
+
+      if (token.kind === "newline" || token.kind === ",") {
+        this.advance();
+        continue;
+      }
+
+      if (this.startsGroup()) {
+        this.resyncing = true;
+        return;
+      }
+
+      if (token.kind === "]") {
+        this.advance();
+        array.closed = true;
+        array.span.end = token.end;
+        return;
+      }
+
+      const value = this.parseValue("element");
+      if (!value) {
+        this.advance();
+      } else if (value.type === "concatenation" && value.parts.every((p) => p.type === "string" && p.quoted)) {
+        array.elements.push(...value.parts);
+      } else {
+        array.elements.push(value);
+      }
+      array.span.end = this.lastEnd;
+    }
+  }
+
+  private parseObject(): HoconObject {
+    const open = this.advance();
+    const object: HoconObject = {
+      type: "object",
+      fields: [],
+      includes: [],
+      span: { start: open.start, end: open.end },
+      braced: true,
+      closed: false,
+    };
+    this.parseObjectBody(object);
+    if (!object.closed) this.error('Unclosed object: missing "}"', open);
+    return object;
+  }
+
+  private error(message: string, at: Span): void {
+    this.errors.push({ message, span: { start: at.start, end: at.end } });
+  }
+
+  private stringNode(token: Token): HoconString {
+    const quoted = token.kind === "quoted";
+    return {
+      type: "string",
+      value: token.value,
+      quoted,
+      span: { start: token.start, end: token.end },
+      contentSpan: quoted ? { start: token.contentStart, end: token.contentEnd } : { start: token.start, end: token.end },
+    };
+  }
+
+  private substitutionNode(token: Token): HoconSubstitution {
+    const optional = token.value.startsWith("?");
+    return { type: "substitution", path: optional ? token.value.slice(1) : token.value, optional, span: { start: token.start, end: token.end } };
+  }
+}
+
+// ── Incremental reparsing ───────────────────────────────────────────
+
+/** A text change: `length` characters at `offset` replaced by `text`. */
+export interface TextChange {
+  offset: number;
+  length: number;
+  text: string;
+}
+
+type RootItem = HoconField | HoconInclude;
+
+/**
+ * Reparses only the root fields a change touched, reusing (and shifting) every other root field of `previous`.
+ * `newText` is `oldText` with `change` applied.
+ *
+ * Returns `undefined` when the result could differ from a full parse — a braced root, a group object missing its `}`
+ * (which makes `parseHocon` read the whole text again), or a change leaving an open bracket, block comment or
+ * triple-quoted string that would swallow the fields after it — so callers fall back to `parseHocon`.
+ */
+export function reparseHocon(previous: HoconDocument, oldText: string, newText: string, change: TextChange): HoconDocument | undefined {
+  if (previous.root.braced || hasUnclosedObject(previous.root)) return undefined;
+
+  const changeEnd = change.offset + change.length;
+  const delta = change.text.length - change.length;
+  const items: RootItem[] = [...previous.root.fields, ...previous.root.includes].sort((a, b) => a.span.start - b.span.start);
+
+  // Fields before the change survive when they end their line before it and nothing in them is left open.
+  let before = 0;
+  while (
+    before < items.length &&
+    items[before].span.end < change.offset &&
+    isClosed(items[before]) &&
+    endsLine(oldText.slice(items[before].span.end, change.offset))
+  ) {
+    before++;
+  }
+
+  // Fields after the change survive from the first one that starts its own line.
+  let after = before;
+  while (after < items.length && (items[after].span.start < changeEnd || !startsLine(newText, items[after].span.start + delta))) after++;
+
+  const regionStart = before > 0 ? items[before - 1].span.end : 0;
+  const regionEnd = (after < items.length ? items[after].span.start : oldText.length) + delta;
+  const regionText = newText.slice(regionStart, regionEnd);
+
+  const region = parseHocon(regionText);
+  if (region.root.braced || !isSelfContained(region, regionText)) return undefined;
+
+  const shiftedEnd = regionEnd - delta;
+  const root: HoconObject = {
+    type: "object",
+    fields: [],
+    includes: [],
+    span: { start: 0, end: newText.length },
+    braced: false,
+    closed: true,
+  };
+
+  for (const field of previous.root.fields) {
+    if (field.span.end <= regionStart) root.fields.push(field);
+  }
+  root.fields.push(...region.root.fields.map((field) => shiftField(field, regionStart)));
+  for (const field of previous.root.fields) {
+    if (field.span.start >= shiftedEnd) root.fields.push(shiftField(field, delta));
+  }
+
+  for (const include of previous.root.includes) {
+    if (include.span.end <= regionStart) root.includes.push(include);
+  }
+  root.includes.push(...region.root.includes.map((include) => shiftInclude(include, regionStart)));
+  for (const include of previous.root.includes) {
+    if (include.span.start >= shiftedEnd) root.includes.push(shiftInclude(include, delta));
+  }
+
+  const comments = [
+    ...previous.comments.filter((comment) => comment.span.end <= regionStart),
+    ...region.comments.map((comment) => ({ kind: comment.kind, span: shiftSpan(comment.span, regionStart) })),
+    ...previous.comments.filter((comment) => comment.span.start >= shiftedEnd).map((comment) => ({ kind: comment.kind, span: shiftSpan(comment.span, delta) })),
+  ];
+
+  const errors = [
+    ...previous.errors.filter((error) => error.span.end <= regionStart),
+    ...region.errors.map((error) => ({ message: error.message, span: shiftSpan(error.span, regionStart) })),
+    ...previous.errors.filter((error) => error.span.start >= shiftedEnd).map((error) => ({ message: error.message, span: shiftSpan(error.span, delta) })),
+  ];
+
+  return { root, comments, errors };
+}
+
+function isClosed(item: RootItem): boolean {
+  const value = "key" in item ? item.value : undefined;
+  return (value?.type !== "array" && value?.type !== "object") || value.closed;
+}
+
+/** Whether `text` starts with the rest of a line: blanks and at most a line comment, then a newline. */
+function endsLine(text: string): boolean {
+  return /^[ \t\r]*(?:(?:#|\/\/)[^\n]*)?\n/.test(text);
+}
+
+function startsLine(text: string, offset: number): boolean {
+  const lineStart = text.lastIndexOf("\n", offset - 1) + 1;
+  return text.slice(lineStart, offset).trim() === "";
+}
+
+/** Whether a parse ends with nothing left open, so the text after it is read the same as in a full parse. */
+function isSelfContained(document: HoconDocument, text: string): boolean {
+  for (const field of document.root.fields) {
+    if (!isClosed(field)) return false;
+  }
+
+  // A stray, unclosed `[` or `{` at the root runs to the end, so it can only follow the last field.
+  const lastEnd = Math.max(0, ...[...document.root.fields, ...document.root.includes].map((item) => item.span.end));
+  if (/[[{]/.test(text.slice(lastEnd))) return false;
+
+  for (const comment of document.comments) {
+    if (comment.kind === "block" && !isClosedComment(text, comment)) return false;
+  }
+
+  // Strings aren't all in the tree (stray values and extra include pieces are dropped), so check the tokens.
+  return tokenize(text).tokens.every((token) => {
+    const source = text.slice(token.start, token.end);
+    return token.kind !== "quoted" || !source.startsWith('"""') || (source.length >= 6 && source.endsWith('"""'));
+  });
+}
+
+function shiftSpan(span: Span, delta: number): Span {
+  return { start: span.start + delta, end: span.end + delta };
+}
+
+function shiftString(node: HoconString, delta: number): HoconString {
+  return { ...node, span: shiftSpan(node.span, delta), contentSpan: shiftSpan(node.contentSpan, delta) };
+}
+
+function shiftValue(node: HoconValue, delta: number): HoconValue {
+  switch (node.type) {
+    case "string":
+      return shiftString(node, delta);
+    case "substitution":
+      return { ...node, span: shiftSpan(node.span, delta) };
+    case "concatenation":
+      return { ...node, parts: node.parts.map((part) => shiftValue(part, delta) as HoconString | HoconSubstitution), span: shiftSpan(node.span, delta) };
+    case "array":
+      return { ...node, elements: node.elements.map((element) => shiftValue(element, delta)), span: shiftSpan(node.span, delta) };
+    case "object":
+      return {
+        ...node,
+        fields: node.fields.map((field) => shiftField(field, delta)),
+        includes: node.includes.map((include) => shiftInclude(include, delta)),
+        span: shiftSpan(node.span, delta),
+      };
+  }
+}
+
+function shiftField(field: HoconField, delta: number): HoconField {
+  if (delta === 0) return field;
+  return {
+    key: { value: field.key.value, span: shiftSpan(field.key.span, delta), parts: field.key.parts.map((part) => shiftString(part, delta)) },
+    separator: field.separator,
+    separatorSpan: field.separatorSpan && shiftSpan(field.separatorSpan, delta),
+    value: field.value && shiftValue(field.value, delta),
+    span: shiftSpan(field.span, delta),
+  };
+}
+
+function shiftInclude(include: HoconInclude, delta: number): HoconInclude {
+  if (delta === 0) return include;
+  return { target: include.target && shiftString(include.target, delta), span: shiftSpan(include.span, delta) };
+}
+
+// ── Value types ─────────────────────────────────────────────────────
+
+/** The Typesafe Config `ConfigValueType` names, as the SBT plugin reports them in its errors. */
+export type HoconValueType = "STRING" | "NUMBER" | "BOOLEAN" | "NULL" | "LIST" | "OBJECT";
+
+const numberPattern = /^-?\d+(?:\.\d+)?(?:[eE][+-]?\d+)?$/;
+
+/**
+ * The type Typesafe Config reads `value` as: unquoted numbers, `true`/`false` and `null` aren't strings. Returns
+ * `undefined` for substitutions, whose type depends on what they resolve to.
+ */
+export function valueTypeOf(value: HoconValue): HoconValueType | undefined {
+  switch (value.type) {
+    case "array":
+      return "LIST";
+    case "object":
+      return "OBJECT";
+    case "substitution":
+      return undefined;
+    case "concatenation":
+      return value.parts.every((part) => part.type === "string") ? "STRING" : undefined;
+    case "string":
+      if (value.quoted) return "STRING";
+      if (value.value === "true" || value.value === "false") return "BOOLEAN";
+      if (value.value === "null") return "NULL";
+      return numberPattern.test(value.value) ? "NUMBER" : "STRING";
+  }
+}
+
+// ── Traversal ───────────────────────────────────────────────────────
+
+/** Calls `visit` on every string in the tree — keys, values, array elements and concatenation parts — in text order. */
+export function forEachString(document: HoconDocument, visit: (node: HoconString) => void): void {
+  const value = (node: HoconValue | undefined): void => {
+    if (!node) return;
+    switch (node.type) {
+      case "string":
+        visit(node);
+        break;
+      case "concatenation":
+        node.parts.forEach(value);
+        break;
+      case "array":
+        node.elements.forEach(value);
+        break;
+      case "object":
+        object(node);
+        break;
+    }
+  };
+
+  const object = (node: HoconObject): void => {
+    for (const field of node.fields) {
+      field.key.parts.forEach(visit);
+      value(field.value);
+    }
+  };
+
+  object(document.root);
+}
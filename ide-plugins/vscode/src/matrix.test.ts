@@ -0,0 +1,109 @@
+import { describe, it, expect } from "vitest";
+import { dependencyMatrix, matrixHtml, matrixTableHtml } from "./matrix";
+import { ResolutionLookup } from "./resolutions";
+
+/** A fake lookup resolving `*` to 2.18.2 in the `api` group. */
+function fakeLookup(): ResolutionLookup {
+  return {
+    resolveWildcard: (group) =>
+      group === "api"
+        ? { version: "2.18.2", bom: { organization: "com.fasterxml.jackson", name: "jackson-bom", version: "2.18.2" } }
+        : undefined,
+    resolveVariable: () => undefined,
+    pinFor: () => undefined,
+    knownVariables: () => new Map(),
+    stale: false,
+  };
+}
+
+const lines = [
+  "sbt-build = [",
+  '  "org.typelevel::cats-core:2.6.0"',
+  "]",
+  "",
+  "common-settings {",
+  "  dependencies = [",
+  '    "org.typelevel::cats-core:2.10.0"',
+  "  ]",
+  "}",
+  "",
+  "core = [",
+  '  "org.typelevel::cats-core:=2.10.0"',
+  '  "com.fasterxml.jackson.core:jackson-databind:2.17.0"',
+  "]",
+  "",
+  "api = [",
+  '  "com.fasterxml.jackson.core:jackson-databind:*"',
+  "]",
+];
+
+describe("dependencyMatrix", () => {
+  it("puts groups in the plugin's order and artifacts in alphabetical order", () => {
+    const matrix = dependencyMatrix(lines);
+
+    expect(matrix.groups).toEqual(["sbt-build", "common-settings", "api", "core"]);
+    expect(matrix.rows.map((r) => r.artifact)).toEqual([
+      "com.fasterxml.jackson.core:jackson-databind",
+      "org.typelevel::cats-core",
+    ]);
+  });
+
+  it("records the declared version and where it is written", () => {
+    const cats = dependencyMatrix(lines).rows[1];
+
+    expect(Object.keys(cats.cells)).toEqual(["sbt-build", "common-settings", "core"]);
+    expect(cats.cells.core).toEqual({
+      declared: "=2.10.0",
+      range: { startLine: 11, startCol: 3, endLine: 11, endCol: 35 },
+      overridesCommon: true,
+    });
+    expect(cats.cells["common-settings"].overridesCommon).toBe(false);
+  });
+
+  it("compares versions without markers and ignores the meta-build", () => {
+    expect(dependencyMatrix(lines).rows[1].mismatch).toBe(false);
+  });
+
+  it("flags rows whose groups disagree, comparing resolved versions", () => {
+    expect(dependencyMatrix(lines).rows[0].mismatch).toBe(true);
+
+    const [jackson] = dependencyMatrix(lines, fakeLookup()).rows;
+    expect(jackson.cells.api.resolved).toBe("2.18.2");
+    expect(jackson.mismatch).toBe(true);
+
+    const same = lines.map((line) => line.replace("2.17.0", "2.18.2"));
+    expect(dependencyMatrix(same, fakeLookup()).rows[0].mismatch).toBe(false);
+  });
+
+  it("keeps the first declaration of an artifact in a group", () => {
+    const matrix = dependencyMatrix(["g = [", '  "a:b:1.0"', '  "a:b:2.0"', "]"]);
+
+    expect(matrix.rows[0].cells.g.declared).toBe("1.0");
+  });
+});
+
+describe("matrixHtml", () => {
+  it("renders a clickable cell per declaration and highlights mismatches", () => {
+    const html = matrixHtml(dependencyMatrix(lines), "project/dependencies.conf", "vscode-resource:", "abc");
+
+    expect(html).toContain('<tr class="mismatch"><th scope="row">com.fasterxml.jackson.core:jackson-databind</th>');
+    expect(html).toContain('<td class="cell" data-line="11" data-col="3">=2.10.0 <span class="override"');
+    expect(html).toContain("script-src 'nonce-abc'");
+  });
+
+  it("escapes what the file contains", () => {
+    const html = matrixHtml(dependencyMatrix(['"<g>" = [', '  "a:b:1.0"', "]"]), "<x>", "s", "n");
+
+    expect(html).toContain("<th>&lt;g&gt;</th>");
+    expect(html).not.toContain("<x>");
+  });
+});
+
+describe("matrixTableHtml", () => {
+  it("renders the table the page swaps in on edits", () => {
+    const matrix = dependencyMatrix(lines);
+
+    expect(matrixHtml(matrix, "t", "s", "n")).toContain(`<div id="matrix">\n${matrixTableHtml(matrix)}\n</div>`);
+    expect(matrixTableHtml(dependencyMatrix(["sbt-build = []"]))).toBe("<p>No dependencies.</p>");
+  });
+});
@@ -0,0 +1,164 @@
+import { COMMON_SETTINGS, SBT_BUILD, groupSortKey } from "./groups";
+import { parseDependency } from "./hover";
+import { dependencyOf, rangeOf, toDocument, DocumentSource, TextRange } from "./parser";
+import { ResolutionLookup } from "./resolutions";
+
+/** One group's declaration of an artifact. */
+export interface MatrixCell {
+  /** The version as written (`2.10.0`, `=2.10.0`, `*`, `{{cats}}`...). */
+  declared: string;
+  /** What a `*` or `{{variable}}` version resolved to on the last sbt load. */
+  resolved?: string;
+  /** The range of the dependency string (inside its quotes), to jump to. */
+  range: TextRange;
+  /** Whether this group overrides the same artifact declared in `common-settings`. */
+  overridesCommon: boolean;
+}
+
+/** An artifact and the version each group declares it at. */
+export interface MatrixRow {
+  /** `org:artifact`, or `org::artifact` for Scala artifacts. */
+  artifact: string;
+  /** The cells by group name; groups not declaring the artifact have none. */
+  cells: Record<string, MatrixCell>;
+  /** Whether the project groups (so not `sbt-build`, which is the meta-build) disagree on the version. */
+  mismatch: boolean;
+}
+
+/** Every artifact of a `dependencies.conf` against every group. */
+export interface DependencyMatrix {
+  /** The columns, in the order the plugin writes groups. */
+  groups: string[];
+  /** The rows, sorted by artifact. */
+  rows: MatrixRow[];
+}
+
+/**
+ * Builds the matrix of the artifacts of `source` against its groups, with the versions `*` and `{{variable}}`
+ * resolved to when given a `lookup`. A group declaring an artifact twice keeps the first declaration. Versions are
+ * compared as resolved (falling back to what is written, without markers) to flag mismatched rows.
+ */
+export function dependencyMatrix(source: DocumentSource, lookup?: ResolutionLookup): DependencyMatrix {
+  const document = toDocument(source);
+  const rows = new Map<string, MatrixRow>();
+  const groups: string[] = [];
+
+  for (const group of document.groups) {
+    if (!groups.includes(group.name)) groups.push(group.name);
+
+    for (const entry of group.entries) {
+      const field = dependencyOf(entry);
+      const dep = field && parseDependency(field.value);
+      if (!field || !dep?.version) continue;
+
+      const artifact = `${dep.org}${dep.separator}${dep.artifact}`;
+      const row = rows.get(artifact) ?? { artifact, cells: {}, mismatch: false };
+      rows.set(artifact, row);
+      if (row.cells[group.name]) continue;
+
+      const isCross = dep.separator === "::";
+      const resolved =
+        dep.version === "*"
+          ? lookup?.resolveWildcard(group.name, dep.org, dep.artifact, isCross)?.version
+          : dep.version.startsWith("{{")
+            ? lookup?.resolveVariable(group.name, dep.org, dep.artifact, isCross)?.version
+            : undefined;
+
+      const cell: MatrixCell = { declared: dep.version, range: rangeOf(document, field.valueSpan), overridesCommon: false };
+      if (resolved) cell.resolved = resolved;
+      row.cells[group.name] = cell;
+    }
+  }
+
+  for (const row of rows.values()) {
+    const versions = new Set<string>();
+    for (const [group, cell] of Object.entries(row.cells)) {
+      if (group === SBT_BUILD) continue;
+      if (group !== COMMON_SETTINGS && row.cells[COMMON_SETTINGS]) cell.overridesCommon = true;
+      versions.add(cell.resolved ?? cell.declared.replace(/^[=^~]/, ""));
+    }
+    row.mismatch = versions.size > 1;
+  }
+
+  return {
+    groups: groups.sort((a, b) => groupSortKey(a).localeCompare(groupSortKey(b))),
+    rows: [...rows.values()].sort((a, b) => a.artifact.localeCompare(b.artifact)),
+  };
+}
+
+// ── Rendering ───────────────────────────────────────────────────────
+
+function escapeHtml(text: string): string {
+  return text.replace(/&/g, "&amp;").replace(/</g, "&lt;").replace(/>/g, "&gt;").replace(/"/g, "&quot;");
+}
+
+function cellHtml(cell: MatrixCell | undefined): string {
+  if (!cell) return "<td></td>";
+
+  const resolved = cell.resolved ? ` <span class="resolved">→ ${escapeHtml(cell.resolved)}</span>` : "";
+  const override = cell.overridesCommon ? ' <span class="override" title="Overrides common-settings">⤴</span>' : "";
+  const { startLine, startCol } = cell.range;
+  return `<td class="cell" data-line="${startLine}" data-col="${startCol}">${escapeHtml(cell.declared)}${resolved}${override}</td>`;
+}
+
+/** The table showing `matrix`, mismatched rows highlighted, or a note when it has no dependencies. */
+export function matrixTableHtml(matrix: DependencyMatrix): string {
+  if (matrix.rows.length === 0) return "<p>No dependencies.</p>";
+
+  const header = matrix.groups.map((group) => `<th>${escapeHtml(group)}</th>`).join("");
+  const rows = matrix.rows
+    .map((row) => {
+      const cells = matrix.groups.map((group) => cellHtml(row.cells[group])).join("");
+      return `<tr${row.mismatch ? ' class="mismatch"' : ""}><th scope="row">${escapeHtml(row.artifact)}</th>${cells}</tr>`;
+    })
+    .join("\n");
+
+  return `<table>
+<thead><tr><th>Artifact</th>${header}</tr></thead>
+<tbody>
+${rows}
+</tbody>
+</table>`;
+}
+
+/**
+ * The webview document showing {@link matrixTableHtml}. Clicking a cell posts `{ line, col }` to the extension, and
+ * the `{ table }` messages it posts back replace the table in place, so edits don't reload the page and lose its
+ * scroll position. `cspSource` and `nonce` restrict the page to its own inline script and styles.
+ */
+export function matrixHtml(matrix: DependencyMatrix, title: string, cspSource: string, nonce: string): string {
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="UTF-8">
+<meta http-equiv="Content-Security-Policy" content="default-src 'none'; style-src ${cspSource} 'nonce-${nonce}'; script-src 'nonce-${nonce}';">
+<title>${escapeHtml(title)}</title>
+<style nonce="${nonce}">
+  body { font-family: var(--vscode-font-family); color: var(--vscode-foreground); }
+  table { border-collapse: collapse; }
+  th, td { padding: 2px 8px; border: 1px solid var(--vscode-panel-border); text-align: left; white-space: nowrap; }
+  thead th { position: sticky; top: 0; background: var(--vscode-editor-background); }
+  td.cell { font-family: var(--vscode-editor-font-family); cursor: pointer; }
+  td.cell:hover { background: var(--vscode-list-hoverBackground); }
+  tr.mismatch { background: var(--vscode-inputValidation-warningBackground); }
+  .resolved, .override { color: var(--vscode-descriptionForeground); }
+</style>
+</head>
+<body>
+<h2>${escapeHtml(title)}</h2>
+<div id="matrix">
+${matrixTableHtml(matrix)}
+</div>
+<script nonce="${nonce}">
+  const vscode = acquireVsCodeApi();
+  document.addEventListener("click", (event) => {
+    const cell = event.target.closest("td.cell");
+    if (cell) vscode.postMessage({ line: Number(cell.dataset.line), col: Number(cell.dataset.col) });
+  });
+  window.addEventListener("message", (event) => {
+    document.getElementById("matrix").innerHTML = event.data.table;
+  });
+</script>
+</body>
+</html>`;
+}
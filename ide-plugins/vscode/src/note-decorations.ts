@@ -1,4 +1,5 @@
-import { walkDocument } from "./parser";
+import { toDocument, positionAt, DocumentSource } from "./parser";
+import { DEPENDENCY } from "./fields";
 
 export interface NoteDecorationData {
   line: number;
@@ -10,49 +11,41 @@ export interface NoteDecorationData {
   noteText: string;
 }
 
-/** Matches a single-line object entry: `{ dependency = "...", note = "..." [, ...] }` */
-const singleLineObjectPattern =
-  /(\{\s*dependency\s*=\s*)"([^"]*)"(\s*,\s*note\s*=\s*"([^"]*)"[^}]*\})/;
-
-/** Matches a single-line object entry with scala-filter but no note: `{ dependency = "...", scala-filter = "..." }` */
-const scalaFilterObjectPattern =
-  /(\{\s*dependency\s*=\s*)"([^"]*)"(\s*,\s*scala-filter\s*=\s*"([^"]*)"[^}]*\})/;
-
 /**
- * Scans lines from a `dependencies.conf` file and returns decoration data
- * for single-line object entries that have both `dependency` and `note` fields.
+ * Returns decoration data for single-line object entries whose first field is
+ * `dependency` and that declare a `note` (or, failing that, a `scala-filter`).
  *
- * Only processes entries inside dependency array contexts (simple-group
- * `= [...]` or advanced-group `dependencies = [...]`).
+ * Only entries inside dependency arrays (simple-group `= [...]` or
+ * advanced-group `dependencies = [...]`) are decorated.
  */
-export function parseNoteDecorations(lines: string[]): NoteDecorationData[] {
+export function parseNoteDecorations(source: DocumentSource): NoteDecorationData[] {
+  const document = toDocument(source);
   const results: NoteDecorationData[] = [];
 
-  for (const event of walkDocument(lines)) {
-    if (event.type !== "single-line-object") continue;
-
-    // Use the specialized regex that captures prefix/suffix ranges for decoration hiding
-    const match = singleLineObjectPattern.exec(event.rawLine) ?? scalaFilterObjectPattern.exec(event.rawLine);
-    if (!match) continue;
-
-    const isScalaFilter = !singleLineObjectPattern.test(event.rawLine);
-    const fullMatchStart = match.index;
-    const prefix = match[1]; // `{ dependency = `
-    const depString = match[2]; // the dependency string
-    const suffix = match[3]; // `, note/scala-filter = "..." }`
-    const fieldText = match[4]; // the note content or scala-filter value
-
-    // Prefix ends before the opening `"`, suffix starts after the closing `"`
-    const prefixEnd = fullMatchStart + prefix.length;
-    const suffixStart = prefixEnd + 1 + depString.length + 1; // 1 for `"` on each side
-    const suffixEnd = suffixStart + suffix.length;
-
-    results.push({
-      line: event.lineIndex,
-      prefixRange: { startCol: fullMatchStart, endCol: prefixEnd },
-      suffixRange: { startCol: suffixStart, endCol: suffixEnd },
-      noteText: isScalaFilter ? `only for Scala ${fieldText}` : fieldText,
-    });
+  for (const group of document.groups) {
+    for (const entry of group.entries) {
+      if (entry.kind !== "object" || !entry.dependency) continue;
+      const first = entry.node.fields[0];
+      if (first?.key.value !== DEPENDENCY || first.value?.type !== "string" || !first.value.quoted) continue;
+
+      const noteText = entry.note?.value ?? (entry.scalaFilter ? `only for Scala ${entry.scalaFilter.value}` : undefined);
+      if (noteText === undefined) continue;
+
+      const start = positionAt(document, entry.span.start);
+      const end = positionAt(document, entry.span.end);
+      if (start.line !== end.line) continue;
+
+      // Prefix ends before the opening `"`, suffix starts after the closing `"`
+      const depStart = positionAt(document, entry.dependency.valueSpan.start).col;
+      const depEnd = positionAt(document, entry.dependency.valueSpan.end).col;
+
+      results.push({
+        line: start.line,
+        prefixRange: { startCol: start.col, endCol: depStart - 1 },
+        suffixRange: { startCol: depEnd + 1, endCol: end.col },
+        noteText,
+      });
+    }
   }
 
   return results;
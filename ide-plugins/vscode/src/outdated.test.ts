@@ -0,0 +1,120 @@
+import { describe, it, expect } from "vitest";
+import { mavenMetadataUrls, newerVersions, outdatedHintLabel, parseOutdatedHints, versionQueries, VersionsQuery } from "./outdated";
+import { ResolutionLookup } from "./resolutions";
+
+describe("newerVersions", () => {
+  const available = ["2.9.0", "2.10.0", "2.12.0", "2.12.1", "3.0.0", "3.1.0-RC1", "3.0", "4.0.0.Final"];
+
+  it("picks the newest version without a marker", () => {
+    expect(newerVersions("2.10.0", available)).toEqual({ allowed: "3.0.0" });
+  });
+
+  it("keeps `^` within the major version and `~` within the minor version", () => {
+    expect(newerVersions("^2.10.0", available)).toEqual({ allowed: "2.12.1", latest: "3.0.0" });
+    expect(newerVersions("~2.12.0", available)).toEqual({ allowed: "2.12.1", latest: "3.0.0" });
+    expect(newerVersions("~2.10.0", available)).toEqual({ latest: "3.0.0" });
+  });
+
+  it("never allows an update for `=`", () => {
+    expect(newerVersions("=2.10.0", available)).toEqual({ latest: "3.0.0" });
+  });
+
+  it("only considers candidates of the same shape and suffix type", () => {
+    expect(newerVersions("3.1.0-RC0", available)).toEqual({ allowed: "3.1.0-RC1" });
+    expect(newerVersions("2.0", available)).toEqual({ allowed: "3.0" });
+    expect(newerVersions("1.0.0.Final", available)).toEqual({ allowed: "4.0.0.Final" });
+  });
+
+  it("reports nothing when up to date", () => {
+    expect(newerVersions("3.0.0", available)).toEqual({});
+    expect(newerVersions("9.0.0", available)).toEqual({});
+  });
+
+  it("ignores non-numeric versions", () => {
+    expect(newerVersions("{{cats}}", available)).toBeUndefined();
+    expect(newerVersions("*", available)).toBeUndefined();
+  });
+});
+
+describe("parseOutdatedHints", () => {
+  const versions: Record<string, string[]> = {
+    "org.typelevel::cats-core": ["2.10.0", "2.12.0", "3.0.0"],
+    "ch.epfl.scala:sbt-scalafix:sbt-plugin": ["0.14.0", "0.14.3"],
+    "com.example:lib": ["1.0.0", "1.1.0"],
+  };
+  const versionsOf = (q: VersionsQuery) => versions[`${q.org}${q.separator}${q.artifact}${q.sbtPlugin ? ":sbt-plugin" : ""}`] ?? [];
+
+  it("places a hint after each outdated dependency string", () => {
+    const lines = [
+      "sbt-build = [",
+      '  "ch.epfl.scala:sbt-scalafix:0.14.0:sbt-plugin"',
+      "]",
+      "",
+      "core = [",
+      '  "org.typelevel::cats-core:^2.10.0"',
+      '  { dependency = "com.example:lib:1.0.0", note = "x" }',
+      '  "org.typelevel::cats-core:3.0.0:test"',
+      '  "com.example:lib:*"',
+      "]",
+    ];
+    expect(parseOutdatedHints(lines, versionsOf)).toEqual([
+      { line: 1, col: 48, allowed: "0.14.3" },
+      { line: 5, col: 36, allowed: "2.12.0", latest: "3.0.0" },
+      { line: 6, col: 40, allowed: "1.1.0" },
+    ]);
+  });
+
+  it("checks variables through their resolved version", () => {
+    const lookup: ResolutionLookup = {
+      resolveWildcard: () => undefined,
+      resolveVariable: (group, org) => (group === "core" && org === "com.example" ? { version: "1.0.0", variable: "lib" } : undefined),
+      pinFor: () => undefined,
+      knownVariables: () => new Map(),
+      stale: false,
+    };
+    const lines = ["core = [", '  "com.example:lib:{{lib}}"', '  "org.typelevel::cats-core:{{cats}}"', "]"];
+    expect(parseOutdatedHints(lines, versionsOf, lookup)).toEqual([{ line: 1, col: 27, allowed: "1.1.0" }]);
+    expect(parseOutdatedHints(lines, versionsOf)).toEqual([]);
+  });
+});
+
+describe("versionQueries", () => {
+  it("lists each dependency with a version once, skipping BOM-managed ones", () => {
+    const lines = [
+      "sbt-build = [",
+      '  "ch.epfl.scala:sbt-scalafix:0.14.0:sbt-plugin"',
+      "]",
+      "core = [",
+      '  "org.typelevel::cats-core:2.10.0"',
+      '  "org.typelevel::cats-core:2.10.0:test"',
+      '  "com.example:lib:*"',
+      '  "com.example:other"',
+      "]",
+    ];
+    expect(versionQueries(lines)).toEqual([
+      { org: "ch.epfl.scala", artifact: "sbt-scalafix", separator: ":", sbtPlugin: true },
+      { org: "org.typelevel", artifact: "cats-core", separator: "::", sbtPlugin: false },
+    ]);
+  });
+});
+
+describe("outdatedHintLabel", () => {
+  it("shows the allowed version first", () => {
+    expect(outdatedHintLabel({ line: 0, col: 0, allowed: "2.12.0", latest: "3.0.0" })).toBe("→ 2.12.0 (latest 3.0.0)");
+    expect(outdatedHintLabel({ line: 0, col: 0, allowed: "2.12.0" })).toBe("→ 2.12.0");
+    expect(outdatedHintLabel({ line: 0, col: 0, latest: "3.0.0" })).toBe("latest 3.0.0");
+  });
+});
+
+describe("mavenMetadataUrls", () => {
+  it("tries every artifact name the dependency may be published under", () => {
+    const scala = { org: "org.typelevel", artifact: "cats-core", separator: "::", sbtPlugin: false };
+    expect(mavenMetadataUrls("https://repo1.maven.org/maven2/", scala)).toEqual([
+      "https://repo1.maven.org/maven2/org/typelevel/cats-core_3/maven-metadata.xml",
+      "https://repo1.maven.org/maven2/org/typelevel/cats-core_2.13/maven-metadata.xml",
+    ]);
+    expect(mavenMetadataUrls("https://repo", { ...scala, separator: ":", sbtPlugin: true })).toEqual([
+      "https://repo/org/typelevel/cats-core_2.12_1.0/maven-metadata.xml",
+    ]);
+  });
+});
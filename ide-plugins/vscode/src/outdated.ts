@@ -0,0 +1,133 @@
+import { parseDependency, DependencyMatch } from "./hover";
+import { dependencyOf, toDocument, positionAt, DocumentSource } from "./parser";
+import { ResolutionLookup } from "./resolutions";
+import { compareVersions, isSameVersion, isValidCandidate, parseNumeric, toVersionString, NumericVersion } from "./version";
+
+/** The coordinates to look versions up for, in `dependencies.conf` terms. */
+export interface VersionsQuery {
+  org: string;
+  artifact: string;
+  separator: string;
+  sbtPlugin: boolean;
+}
+
+/** Where to show that a dependency has newer versions, and which ones. */
+export interface OutdatedHintData {
+  /** Zero-based position right after the dependency string's closing quote. */
+  line: number;
+  col: number;
+  /** The newest version the marker allows, when newer than the current one. */
+  allowed?: string;
+  /** The newest version of the same shape, when newer than `allowed` (or the current version). */
+  latest?: string;
+}
+
+/** The newer versions of a dependency: what its marker allows and what exists overall. */
+export interface NewerVersions {
+  allowed?: string;
+  latest?: string;
+}
+
+// ── Newer versions ──────────────────────────────────────────────────────
+
+/**
+ * Picks, from `available`, the newest version the plugin would update `version` to (following its marker, so never
+ * anything for `=`) and the newest it would pick without the marker. Each is only returned when it differs from the
+ * current version, and `latest` only when it differs from `allowed`. Returns `undefined` for non-numeric versions.
+ */
+export function newerVersions(version: string, available: string[]): NewerVersions | undefined {
+  const current = parseNumeric(version);
+  if (!current) return undefined;
+
+  const unmarked: NumericVersion = { ...current, marker: "" };
+  const newest = (of: NumericVersion) =>
+    available
+      .map((v) => parseNumeric(v))
+      .filter((v): v is NumericVersion => v !== undefined && v.marker === "" && isValidCandidate(of, v))
+      .reduce<NumericVersion | undefined>((max, v) => (max && compareVersions(max, v) >= 0 ? max : v), undefined);
+
+  const allowed = newest(current);
+  const latest = newest(unmarked);
+
+  const result: NewerVersions = {};
+  if (allowed && !isSameVersion(allowed, current)) result.allowed = toVersionString(allowed);
+  if (latest && !isSameVersion(latest, current) && !(allowed && isSameVersion(latest, allowed))) {
+    result.latest = toVersionString(latest);
+  }
+  return result;
+}
+
+// ── Hints ───────────────────────────────────────────────────────────────
+
+/**
+ * Finds the dependencies of a `dependencies.conf` document with newer versions in `versionsOf`. `{{variable}}`
+ * versions are checked through the version they resolved to in `lookup`; `*` versions are left to their BOM.
+ */
+export function parseOutdatedHints(
+  source: DocumentSource,
+  versionsOf: (query: VersionsQuery) => string[],
+  lookup?: ResolutionLookup
+): OutdatedHintData[] {
+  const document = toDocument(source);
+  const results: OutdatedHintData[] = [];
+
+  for (const group of document.groups) {
+    for (const entry of group.entries) {
+      const field = dependencyOf(entry);
+      const dep = field && parseDependency(field.value);
+      if (!field || !dep?.version || dep.version === "*") continue;
+
+      let version = dep.version;
+      if (version.startsWith("{{")) {
+        const resolved = lookup?.resolveVariable(group.name, dep.org, dep.artifact, dep.separator === "::");
+        if (!resolved) continue;
+        version = resolved.version;
+      }
+
+      const newer = newerVersions(version, versionsOf(queryOf(dep)));
+      if (!newer || (!newer.allowed && !newer.latest)) continue;
+
+      // Right after the closing quote
+      const { line, col } = positionAt(document, field.valueSpan.end + 1);
+      results.push({ line, col, ...newer });
+    }
+  }
+
+  return results;
+}
+
+/** The coordinates of every dependency with a concrete (or `{{variable}}`) version, once each. */
+export function versionQueries(source: DocumentSource): VersionsQuery[] {
+  const queries = new Map<string, VersionsQuery>();
+  for (const group of toDocument(source).groups) {
+    for (const entry of group.entries) {
+      const field = dependencyOf(entry);
+      const dep = field && parseDependency(field.value);
+      if (!dep?.version || dep.version === "*") continue;
+
+      const query = queryOf(dep);
+      queries.set(`${query.org}${query.separator}${query.artifact}:${query.sbtPlugin}`, query);
+    }
+  }
+  return [...queries.values()];
+}
+
+function queryOf(dep: DependencyMatch): VersionsQuery {
+  return { org: dep.org, artifact: dep.artifact, separator: dep.separator, sbtPlugin: dep.config === "sbt-plugin" };
+}
+
+/** The hint label: `→ 2.12.0`, `→ 2.12.0 (latest 3.0.0)` or `latest 3.0.0` when the marker allows nothing newer. */
+export function outdatedHintLabel(hint: OutdatedHintData): string {
+  if (hint.allowed && hint.latest) return `→ ${hint.allowed} (latest ${hint.latest})`;
+  return hint.allowed ? `→ ${hint.allowed}` : `latest ${hint.latest}`;
+}
+
+/**
+ * The URLs of the `maven-metadata.xml` files listing the versions of `query` in the Maven repository at
+ * `repositoryUrl`: one per artifact name it may be published under (`_3` and `_2.13` for Scala artifacts).
+ */
+export function mavenMetadataUrls(repositoryUrl: string, query: VersionsQuery): string[] {
+  const base = `${repositoryUrl.replace(/\/+$/, "")}/${query.org.split(".").join("/")}/${query.artifact}`;
+  const suffixes = query.sbtPlugin ? ["_2.12_1.0"] : query.separator === "::" ? ["_3", "_2.13"] : [""];
+  return suffixes.map((suffix) => `${base}${suffix}/maven-metadata.xml`);
+}
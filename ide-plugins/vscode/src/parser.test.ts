@@ -1,354 +1,258 @@
 import { describe, it, expect } from "vitest";
-import { walkDocument, stripComments, DocumentEvent } from "./parser";
+import { parseDocument, positionAt, offsetAt, rangeOf, groupAt, dependencyOf, DependenciesDocument, Span } from "./parser";
 
-function collectEvents(text: string): DocumentEvent[] {
-  return [...walkDocument(text.split("\n"))];
+function parse(text: string): DependenciesDocument {
+  return parseDocument(text.split("\n"));
 }
 
-function eventsOfType<T extends DocumentEvent["type"]>(
-  text: string,
-  type: T
-): Extract<DocumentEvent, { type: T }>[] {
-  return collectEvents(text).filter((e): e is Extract<DocumentEvent, { type: T }> => e.type === type);
+function slice(document: DependenciesDocument, span: Span): string {
+  return document.text.slice(span.start, span.end);
 }
 
-describe("stripComments", () => {
-  it("strips line comments with //", () => {
-    const { effectiveLine } = stripComments('  "org:art:1.0" // a comment', false);
-    expect(effectiveLine).toBe('  "org:art:1.0" ');
-  });
-
-  it("strips line comments with #", () => {
-    const { effectiveLine } = stripComments('  "org:art:1.0" # a comment', false);
-    expect(effectiveLine).toBe('  "org:art:1.0" ');
-  });
-
-  it("strips block comments on a single line", () => {
-    const { effectiveLine, inBlockComment } = stripComments("before /* comment */ after", false);
-    expect(effectiveLine).toBe("before  after");
-    expect(inBlockComment).toBe(false);
-  });
-
-  it("handles block comment start without end", () => {
-    const { effectiveLine, inBlockComment } = stripComments("before /* start", false);
-    expect(effectiveLine).toBe("before ");
-    expect(inBlockComment).toBe(true);
-  });
-
-  it("handles block comment continuation", () => {
-    const { effectiveLine, inBlockComment } = stripComments("still in comment */ after", true);
-    expect(effectiveLine).toBe(" after");
-    expect(inBlockComment).toBe(false);
-  });
-
-  it("handles block comment spanning full line", () => {
-    const { effectiveLine, inBlockComment } = stripComments("middle of block comment", true);
-    expect(effectiveLine).toBe("");
-    expect(inBlockComment).toBe(true);
-  });
-});
+function dependencies(text: string): string[] {
+  return parse(text).groups.flatMap((g) => g.entries.map((e) => dependencyOf(e)?.value ?? `<${e.kind}>`));
+}
 
-describe("walkDocument", () => {
+describe("parseDocument", () => {
   describe("simple groups", () => {
-    it("emits group-start and group-end for simple groups", () => {
-      const events = collectEvents(
-        `my-group = [\n  "org:art:1.0"\n]`
-      );
-      const starts = events.filter(e => e.type === "group-start");
-      const ends = events.filter(e => e.type === "group-end");
-      expect(starts).toHaveLength(1);
-      expect(ends).toHaveLength(1);
-      expect(starts[0]).toMatchObject({
-        type: "group-start",
-        name: "my-group",
-        lineIndex: 0,
-        groupKind: "simple",
-        singleLine: false,
-      });
-      expect(ends[0]).toMatchObject({
-        type: "group-end",
-        lineIndex: 2,
-        groupKind: "simple",
-      });
+    it("parses a simple group and its span", () => {
+      const document = parse(`my-group = [\n  "org:art:1.0"\n]`);
+      expect(document.groups).toHaveLength(1);
+
+      const group = document.groups[0];
+      expect(group).toMatchObject({ name: "my-group", kind: "simple", settings: [] });
+      expect(slice(document, group.nameSpan)).toBe("my-group");
+      expect(rangeOf(document, group.span)).toEqual({ startLine: 0, startCol: 0, endLine: 2, endCol: 1 });
     });
 
-    it("emits dependency-string events for plain strings", () => {
-      const deps = eventsOfType(
-        `group = [\n  "org:art:1.0"\n  "org2::art2:2.0"\n]`,
-        "dependency-string"
-      );
-      expect(deps).toHaveLength(2);
-      expect(deps[0]).toMatchObject({ content: "org:art:1.0", lineIndex: 1, arrayKind: "simple" });
-      expect(deps[1]).toMatchObject({ content: "org2::art2:2.0", lineIndex: 2, arrayKind: "simple" });
+    it("parses plain string entries with their content spans", () => {
+      const document = parse(`group = [\n  "org:art:1.0"\n  "org2::art2:2.0"\n]`);
+      const entries = document.groups[0].entries;
+      expect(entries).toHaveLength(2);
+      expect(entries[0]).toMatchObject({ kind: "line", content: "org:art:1.0" });
+      expect(entries[1]).toMatchObject({ kind: "line", content: "org2::art2:2.0" });
+      expect(rangeOf(document, (entries[1] as { contentSpan: Span }).contentSpan)).toEqual({ startLine: 2, startCol: 3, endLine: 2, endCol: 17 });
     });
 
     it("handles single-line groups", () => {
-      const events = collectEvents(`group = ["org:art:1.0" "org2:art2:2.0"]`);
-      const starts = events.filter(e => e.type === "group-start");
-      const deps = events.filter(e => e.type === "dependency-string");
-      const ends = events.filter(e => e.type === "group-end");
-      expect(starts).toHaveLength(1);
-      expect(starts[0]).toMatchObject({ singleLine: true });
-      expect(deps).toHaveLength(2);
-      expect(ends).toHaveLength(1);
+      expect(dependencies(`group = ["org:art:1.0" "org2:art2:2.0"]`)).toEqual(["org:art:1.0", "org2:art2:2.0"]);
+      expect(dependencies(`group = ["org:art:1.0", "org2:art2:2.0"]`)).toEqual(["org:art:1.0", "org2:art2:2.0"]);
     });
 
     it("handles empty groups", () => {
-      const events = collectEvents(`group = [\n]`);
-      const deps = events.filter(e => e.type === "dependency-string");
-      expect(deps).toHaveLength(0);
+      expect(parse(`group = [\n]`).groups[0].entries).toEqual([]);
+      expect(parse(`group = []`).groups[0].entries).toEqual([]);
     });
   });
 
   describe("advanced groups", () => {
-    it("emits group-start/end for advanced groups", () => {
-      const events = collectEvents(
-        `api {\n  scala-version = "3.3.6"\n  dependencies = [\n    "org:art:1.0"\n  ]\n}`
-      );
-      const starts = events.filter(e => e.type === "group-start");
-      const ends = events.filter(e => e.type === "group-end");
-      expect(starts).toHaveLength(1);
-      expect(starts[0]).toMatchObject({ name: "api", groupKind: "advanced" });
-      expect(ends).toHaveLength(1);
-      expect(ends[0]).toMatchObject({ groupKind: "advanced" });
-    });
-
-    it("emits setting-line for non-dependency fields", () => {
-      const settings = eventsOfType(
-        `api {\n  scala-version = "3.3.6"\n  dependencies = [\n    "org:art:1.0"\n  ]\n}`,
-        "setting-line"
-      );
-      expect(settings).toHaveLength(1);
-      expect(settings[0].effectiveLine).toContain("scala-version");
-    });
-
-    it("emits setting-line for java-version", () => {
-      const settings = eventsOfType(
-        `api {\n  java-version = "17"\n  dependencies = [\n    "org:art:1.0"\n  ]\n}`,
-        "setting-line"
-      );
-      expect(settings).toHaveLength(1);
-      expect(settings[0].effectiveLine).toContain("java-version");
-    });
-
-    it("emits dependency-string with arrayKind 'dependencies'", () => {
-      const deps = eventsOfType(
-        `api {\n  dependencies = [\n    "org:art:1.0"\n  ]\n}`,
-        "dependency-string"
-      );
-      expect(deps).toHaveLength(1);
-      expect(deps[0]).toMatchObject({ content: "org:art:1.0", arrayKind: "dependencies" });
+    it("separates settings from the dependencies array", () => {
+      const document = parse(`api {\n  scala-version = "3.3.6"\n  dependencies = [\n    "org:art:1.0"\n  ]\n}`);
+      const group = document.groups[0];
+      expect(group).toMatchObject({ name: "api", kind: "advanced" });
+      expect(group.settings.map((s) => s.key)).toEqual(["scala-version"]);
+      expect(slice(document, group.settings[0].keySpan)).toBe("scala-version");
+      expect(group.entries).toMatchObject([{ kind: "line", content: "org:art:1.0" }]);
+      expect(rangeOf(document, group.span)).toEqual({ startLine: 0, startCol: 0, endLine: 5, endCol: 1 });
+    });
+
+    it("keeps array-valued settings", () => {
+      const group = parse(`api {\n  scala-versions = ["2.13.12", "3.3.3"]\n  java-version = "17"\n}`).groups[0];
+      expect(group.settings.map((s) => s.key)).toEqual(["scala-versions", "java-version"]);
+      expect(group.settings[0].value).toMatchObject({ type: "array", elements: [{ value: "2.13.12" }, { value: "3.3.3" }] });
+      expect(group.entries).toEqual([]);
     });
 
     it("handles single-line dependencies array", () => {
-      const deps = eventsOfType(
-        `api {\n  dependencies = ["org:art:1.0" "org2:art2:2.0"]\n}`,
-        "dependency-string"
-      );
-      expect(deps).toHaveLength(2);
+      expect(dependencies(`api {\n  dependencies = ["org:art:1.0" "org2:art2:2.0"]\n}`)).toEqual(["org:art:1.0", "org2:art2:2.0"]);
+    });
+
+    it("handles an advanced group written on a single line", () => {
+      const group = parse(`api { scala-version = "3.3.6", dependencies = ["org:art:1.0"] }`).groups[0];
+      expect(group.settings.map((s) => s.key)).toEqual(["scala-version"]);
+      expect(group.entries).toMatchObject([{ content: "org:art:1.0" }]);
     });
   });
 
-  describe("single-line objects", () => {
-    it("emits single-line-object events", () => {
-      const objs = eventsOfType(
-        `group = [\n  { dependency = "org:art:1.0", note = "reason" }\n]`,
-        "single-line-object"
-      );
-      expect(objs).toHaveLength(1);
-      expect(objs[0]).toMatchObject({
-        dependency: "org:art:1.0",
-        note: "reason",
-        intransitive: false,
-      });
+  describe("object entries", () => {
+    it("parses single-line objects", () => {
+      const document = parse(`group = [\n  { dependency = "org:art:1.0", note = "reason" }\n]`);
+      const entry = document.groups[0].entries[0];
+      expect(entry).toMatchObject({ kind: "object", dependency: { value: "org:art:1.0" }, note: { value: "reason" }, intransitive: false });
+      expect(rangeOf(document, entry.span)).toEqual({ startLine: 1, startCol: 2, endLine: 1, endCol: 49 });
+      expect(slice(document, dependencyOf(entry)!.valueSpan)).toBe("org:art:1.0");
     });
 
-    it("detects intransitive field", () => {
-      const objs = eventsOfType(
-        `group = [\n  { dependency = "org:art:1.0", intransitive = true }\n]`,
-        "single-line-object"
-      );
-      expect(objs).toHaveLength(1);
-      expect(objs[0].intransitive).toBe(true);
+    it("parses every annotation", () => {
+      const entry = parse(
+        `group = [\n  { dependency = "org::art:1.0", intransitive = true, scala-filter = "2.13", cross-version = "full" }\n]`
+      ).groups[0].entries[0];
+      expect(entry).toMatchObject({
+        kind: "object",
+        note: undefined,
+        intransitive: true,
+        scalaFilter: { value: "2.13" },
+        crossVersion: { value: "full" },
+      });
     });
 
-    it("detects scala-filter field", () => {
-      const objs = eventsOfType(
-        `group = [\n  { dependency = "org:art:1.0", scala-filter = "2.13" }\n]`,
-        "single-line-object"
-      );
-      expect(objs).toHaveLength(1);
-      expect(objs[0].scalaFilter).toBe("2.13");
+    it("parses multi-line objects", () => {
+      const document = parse(`group = [\n  {\n    dependency = "org:art:1.0"\n    note = "reason"\n    intransitive = true\n  }\n]`);
+      const entry = document.groups[0].entries[0];
+      expect(entry).toMatchObject({ kind: "object", dependency: { value: "org:art:1.0" }, note: { value: "reason" }, intransitive: true });
+      expect(rangeOf(document, entry.span)).toEqual({ startLine: 1, startCol: 2, endLine: 5, endCol: 3 });
+      expect(positionAt(document, dependencyOf(entry)!.valueSpan.start)).toEqual({ line: 2, col: 18 });
     });
 
-    it("detects cross-version field", () => {
-      const objs = eventsOfType(
-        `group = [\n  { dependency = "org.typelevel::kind-projector:0.13.3:compiler-plugin", cross-version = "full" }\n]`,
-        "single-line-object"
-      );
-      expect(objs).toHaveLength(1);
-      expect(objs[0].crossVersion).toBe("full");
+    it("parses objects with fields on the opening line", () => {
+      expect(dependencies(`group = [\n  { dependency = "org:art:1.0"\n    note = "reason"\n  }\n  "a:b:1.0"\n]`)).toEqual(["org:art:1.0", "a:b:1.0"]);
     });
 
-    it("calculates dependencyStartCol correctly", () => {
-      const objs = eventsOfType(
-        `group = [\n  { dependency = "org:art:1.0", note = "reason" }\n]`,
-        "single-line-object"
-      );
-      const obj = objs[0];
-      expect(obj.dependencyStartCol).toBeDefined();
-      const line = `  { dependency = "org:art:1.0", note = "reason" }`;
-      expect(line.substring(obj.dependencyStartCol!, obj.dependencyStartCol! + "org:art:1.0".length)).toBe("org:art:1.0");
+    it("reads a closing brace inside a note as text", () => {
+      const document = parse(`group = [\n  {\n    dependency = "org:art:1.0"\n    note = "see {issue}"\n  }\n  "a:b:1.0"\n]`);
+      const entries = document.groups[0].entries;
+      expect(entries).toHaveLength(2);
+      expect(entries[0]).toMatchObject({ note: { value: "see {issue}" } });
     });
 
-    it("does not treat {{var}} inside strings as objects", () => {
-      const events = collectEvents(
-        `group = [\n  "org::art:{{myVar}}"\n]`
-      );
-      const objs = events.filter(e => e.type === "single-line-object");
-      const deps = events.filter(e => e.type === "dependency-string");
-      expect(objs).toHaveLength(0);
-      expect(deps).toHaveLength(1);
-      expect(deps[0]).toMatchObject({ content: "org::art:{{myVar}}" });
+    it("leaves the dependency absent while it hasn't been typed", () => {
+      const entry = parse(`group = [\n  { note = "missing" }\n]`).groups[0].entries[0];
+      expect(entry).toMatchObject({ kind: "object", dependency: undefined });
     });
-  });
 
-  describe("multi-line objects", () => {
-    it("emits start, field, and end events", () => {
-      const events = collectEvents(
-        `group = [\n  {\n    dependency = "org:art:1.0"\n    note = "reason"\n  }\n]`
-      );
-      const starts = events.filter(e => e.type === "multi-line-object-start");
-      const fields = events.filter(e => e.type === "multi-line-object-field");
-      const ends = events.filter(e => e.type === "multi-line-object-end");
-      expect(starts).toHaveLength(1);
-      expect(fields).toHaveLength(4); // opening {, dependency line, note line, closing }
-      expect(ends).toHaveLength(1);
-    });
-
-    it("aggregates fields in end event", () => {
-      const ends = eventsOfType(
-        `group = [\n  {\n    dependency = "org:art:1.0"\n    note = "reason"\n    intransitive = true\n  }\n]`,
-        "multi-line-object-end"
-      );
-      expect(ends).toHaveLength(1);
-      expect(ends[0]).toMatchObject({
-        hasDependency: true,
-        dependencyValue: "org:art:1.0",
-        hasNote: true,
-        noteValue: "reason",
-        hasIntransitive: true,
-        objectStartLine: 1,
-      });
-      expect(ends[0].objectLines).toHaveLength(5);
-    });
-
-    it("tracks dependency start column", () => {
-      const ends = eventsOfType(
-        `group = [\n  {\n    dependency = "org:art:1.0"\n  }\n]`,
-        "multi-line-object-end"
-      );
-      expect(ends[0].dependencyStartCol).toBeDefined();
-      expect(ends[0].dependencyLineIndex).toBe(2);
-    });
-
-    it("emits fields on opening line of object", () => {
-      const fields = eventsOfType(
-        `group = [\n  { dependency = "org:art:1.0"\n    note = "reason"\n  }\n]`,
-        "multi-line-object-field"
-      );
-      expect(fields[0]).toMatchObject({ field: "dependency", lineIndex: 1 });
-    });
-
-    it("aggregates cross-version field in end event", () => {
-      const ends = eventsOfType(
-        `group = [\n  {\n    dependency = "org.typelevel::kind-projector:0.13.3:compiler-plugin"\n    cross-version = "full"\n  }\n]`,
-        "multi-line-object-end"
-      );
-      expect(ends).toHaveLength(1);
-      expect(ends[0]).toMatchObject({
-        hasDependency: true,
-        hasCrossVersion: true,
-        crossVersionValue: "full",
-      });
+    it("does not treat {{var}} inside strings as objects", () => {
+      const entries = parse(`group = [\n  "org::art:{{myVar}}"\n]`).groups[0].entries;
+      expect(entries).toMatchObject([{ kind: "line", content: "org::art:{{myVar}}" }]);
     });
   });
 
   describe("comments", () => {
     it("ignores dependencies inside line comments", () => {
-      const deps = eventsOfType(
-        `group = [\n  // "org:art:1.0"\n  "org2:art2:2.0"\n]`,
-        "dependency-string"
-      );
-      expect(deps).toHaveLength(1);
-      expect(deps[0].content).toBe("org2:art2:2.0");
+      expect(dependencies(`group = [\n  // "org:art:1.0"\n  # "x:y:1.0"\n  "org2:art2:2.0" // trailing\n]`)).toEqual(["org2:art2:2.0"]);
     });
 
     it("ignores dependencies inside block comments", () => {
-      const deps = eventsOfType(
-        `group = [\n  /* "org:art:1.0" */\n  "org2:art2:2.0"\n]`,
-        "dependency-string"
-      );
-      expect(deps).toHaveLength(1);
-      expect(deps[0].content).toBe("org2:art2:2.0");
+      expect(dependencies(`group = [\n  /* "org:art:1.0" */\n  "org2:art2:2.0"\n]`)).toEqual(["org2:art2:2.0"]);
     });
 
     it("handles multi-line block comments", () => {
-      const deps = eventsOfType(
-        `group = [\n  /*\n  "org:art:1.0"\n  */\n  "org2:art2:2.0"\n]`,
-        "dependency-string"
-      );
-      expect(deps).toHaveLength(1);
-      expect(deps[0].content).toBe("org2:art2:2.0");
+      expect(dependencies(`group = [\n  /*\n  "org:art:1.0"\n  */\n  "org2:art2:2.0"\n]`)).toEqual(["org2:art2:2.0"]);
     });
 
     it("ignores groups inside block comments", () => {
-      const events = collectEvents(
-        `/* hidden = [\n  "org:art:1.0"\n] */\nreal = [\n  "org2:art2:2.0"\n]`
-      );
-      const starts = events.filter(e => e.type === "group-start");
-      expect(starts).toHaveLength(1);
-      expect(starts[0]).toMatchObject({ name: "real" });
+      const groups = parse(`/* hidden = [\n  "org:art:1.0"\n] */\nreal = [\n  "org2:art2:2.0"\n]`).groups;
+      expect(groups.map((g) => g.name)).toEqual(["real"]);
+    });
+
+    it("keeps comment markers inside strings", () => {
+      expect(dependencies(`group = [\n  { dependency = "org:art:1.0", note = "see https://example.com/#42" }\n]`)).toEqual(["org:art:1.0"]);
+      expect(parse(`group = [\n  { dependency = "org:art:1.0", note = "see https://example.com/#42" }\n]`).groups[0].entries[0]).toMatchObject({
+        note: { value: "see https://example.com/#42" },
+      });
     });
   });
 
-  describe("multiple groups", () => {
-    it("handles consecutive simple and advanced groups", () => {
-      const events = collectEvents(
-        `simple = [\n  "a:b:1.0"\n]\n\nadvanced {\n  dependencies = [\n    "c:d:2.0"\n  ]\n}`
-      );
-      const starts = events.filter(e => e.type === "group-start");
-      expect(starts).toHaveLength(2);
-      expect(starts[0]).toMatchObject({ name: "simple", groupKind: "simple" });
-      expect(starts[1]).toMatchObject({ name: "advanced", groupKind: "advanced" });
+  describe("HOCON syntax", () => {
+    it("parses two groups on one line", () => {
+      const document = parse(`a = ["x:y:1.0"], b { dependencies = ["z:w:2.0"] }`);
+      expect(document.groups.map((g) => [g.name, g.kind])).toEqual([["a", "simple"], ["b", "advanced"]]);
+      expect(dependencies(`a = ["x:y:1.0"] b = ["z:w:2.0"]`)).toEqual(["x:y:1.0", "z:w:2.0"]);
+    });
+
+    it("parses quoted group names", () => {
+      const document = parse(`"my-group" = [\n  "org:art:1.0"\n]`);
+      expect(document.groups[0].name).toBe("my-group");
+      expect(slice(document, document.groups[0].nameSpan)).toBe("my-group");
+    });
+
+    it("parses `:` and `+=` separators", () => {
+      const document = parse(`a: ["x:y:1.0"]\nb += "z:w:2.0"\nc += ["z:w:2.0"]`);
+      expect(document.groups.map((g) => g.name)).toEqual(["a", "c"]);
+    });
+
+    it("reads unquoted values and SBT-style lines as raw entries", () => {
+      const entries = parse(`group = [\n  unquoted\n  "org" %% "art" % "1.0"\n  libraryDependencies += "org" % "art" % "1.0" % Test\n]`).groups[0].entries;
+      expect(entries).toMatchObject([
+        { kind: "raw", text: "unquoted" },
+        { kind: "raw", text: '"org" %% "art" % "1.0"' },
+        { kind: "raw", text: 'libraryDependencies += "org" % "art" % "1.0" % Test' },
+      ]);
+    });
+
+    it("skips include statements", () => {
+      const document = parse(`include "base.conf"\ngroup = [\n  "org:art:1.0"\n]`);
+      expect(document.groups.map((g) => g.name)).toEqual(["group"]);
+      expect(document.syntax.root.includes).toHaveLength(1);
+      expect(document.syntax.root.includes[0].target?.value).toBe("base.conf");
+    });
+
+    it("does not read non-group fields as groups", () => {
+      expect(parse(`"just-a-word"\nversion = "1.0"\ngroup = []`).groups.map((g) => g.name)).toEqual(["group"]);
+    });
+
+    it("accepts a braced root object", () => {
+      expect(parse(`{\n  group = [\n    "org:art:1.0"\n  ]\n}`).groups.map((g) => g.name)).toEqual(["group"]);
     });
   });
 
-  describe("edge cases", () => {
+  describe("tolerance", () => {
+    it("keeps an unclosed group until the end of what was parsed", () => {
+      const document = parse(`group = [\n  "org:art:1.0"\n  "org2:art2:2.0"`);
+      expect(document.groups).toHaveLength(1);
+      expect(document.groups[0].entries).toHaveLength(2);
+      expect(document.groups[0].dependencies?.closed).toBe(false);
+      expect(rangeOf(document, document.groups[0].span).endLine).toBe(2);
+    });
+
+    it("resumes at the next group after an unclosed one", () => {
+      const document = parse(`group = [\n  "org:art:1.0"\n\nother {\n  dependencies = [\n    "org2:art2:2.0"\n  ]\n}`);
+      expect(document.groups.map((g) => g.name)).toEqual(["group", "other"]);
+      expect(dependencies(`group = [\n  "org:art:1.0"\n\nother {\n  dependencies = [\n    "org2:art2:2.0"\n  ]\n}`)).toEqual(["org:art:1.0", "org2:art2:2.0"]);
+    });
+
+    it("keeps an unclosed object entry", () => {
+      const entries = parse(`group = [\n  { dependency = "org:art:1.0", note = "x"\n]`).groups[0].entries;
+      expect(entries).toMatchObject([{ kind: "object", dependency: { value: "org:art:1.0" } }]);
+    });
+
+    it("skips stray closers", () => {
+      expect(dependencies(`]\n}\ngroup = [\n  "org:art:1.0"\n]\n]`)).toEqual(["org:art:1.0"]);
+    });
+
+    it("reads a group with a missing `=`", () => {
+      expect(parse(`group [\n  "org:art:1.0"\n]`).groups).toMatchObject([{ name: "group", kind: "simple" }]);
+    });
+
+    it("ends an unterminated string at the end of its line", () => {
+      expect(dependencies(`group = [\n  "org:art:1.0\n  "org2:art2:2.0"\n]`)).toEqual(["org:art:1.0", "org2:art2:2.0"]);
+    });
+
     it("handles dependency on closing bracket line", () => {
-      const deps = eventsOfType(
-        `group = [\n  "a:b:1.0"\n  "c:d:2.0" ]`,
-        "dependency-string"
-      );
-      expect(deps).toHaveLength(2);
+      expect(dependencies(`group = [\n  "a:b:1.0"\n  "c:d:2.0" ]`)).toEqual(["a:b:1.0", "c:d:2.0"]);
     });
 
     it("handles group names with dots and hyphens", () => {
-      const starts = eventsOfType(
-        `my.group-name = [\n]`,
-        "group-start"
-      );
-      expect(starts).toHaveLength(1);
-      expect(starts[0].name).toBe("my.group-name");
-    });
-
-    it("handles advanced group closing } on same line as ]", () => {
-      const events = collectEvents(
-        `api {\n  scala-version = "3.3.6"\n  dependencies = [\n    "org:art:1.0"\n  ]\n}`
-      );
-      const groupEnds = events.filter(e => e.type === "group-end");
-      expect(groupEnds).toHaveLength(1);
-      expect(groupEnds[0]).toMatchObject({ groupKind: "advanced" });
+      expect(parse(`my.group-name = [\n]`).groups[0].name).toBe("my.group-name");
     });
+
+    it("handles empty documents", () => {
+      expect(parse("").groups).toEqual([]);
+    });
+  });
+});
+
+describe("positions", () => {
+  const document = parse(`a = [\n  "x:y:1.0"\n]`);
+
+  it("converts between offsets and positions", () => {
+    expect(positionAt(document, 0)).toEqual({ line: 0, col: 0 });
+    expect(positionAt(document, 9)).toEqual({ line: 1, col: 3 });
+    expect(offsetAt(document, 1, 3)).toBe(9);
+    expect(positionAt(document, document.text.length)).toEqual({ line: 2, col: 1 });
+  });
+
+  it("finds the group at an offset", () => {
+    expect(groupAt(document, offsetAt(document, 1, 4))?.name).toBe("a");
+    expect(groupAt(parse(`\n\na = []`), 0)).toBeUndefined();
   });
 });
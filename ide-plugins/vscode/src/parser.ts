@@ -1,511 +1,241 @@
-// ── Shared regexes ──────────────────────────────────────────────────
-
-export const simpleGroupStartPattern = /^(\s*)([\w][\w.-]*)\s*=\s*\[/;
-export const advancedGroupStartPattern = /^(\s*)([\w][\w.-]*)\s*\{/;
-export const dependenciesArrayStartPattern = /^\s*dependencies\s*=\s*\[/;
-export const objectDepFieldPattern = /dependency\s*=\s*"([^"]*)"/;
-export const objectNoteFieldPattern = /note\s*=\s*"([^"]*)"/;
-export const objectIntransitiveFieldPattern = /intransitive\s*=\s*true/;
-export const objectScalaFilterFieldPattern = /scala-filter\s*=\s*"([^"]*)"/;
-export const objectCrossVersionFieldPattern = /cross-version\s*=\s*"([^"]*)"/;
-export const singleLineObjectPattern = /\{(?:[^}"{]*(?:"[^"]*")?)*\}/g;
-
-// ── Event types ─────────────────────────────────────────────────────
-
-export type DocumentEvent =
-  | GroupStartEvent
-  | GroupEndEvent
-  | DependencyStringEvent
-  | SingleLineObjectEvent
-  | MultiLineObjectStartEvent
-  | MultiLineObjectFieldEvent
-  | MultiLineObjectEndEvent
-  | SettingLineEvent;
-
-export interface GroupStartEvent {
-  type: "group-start";
-  name: string;
-  lineIndex: number;
-  startCol: number;
-  nameEndCol: number;
-  groupKind: "simple" | "advanced";
-  /** True if the array opens and closes on the same line. */
-  singleLine: boolean;
-  rawLine: string;
-  effectiveLine: string;
-}
+import { parseHocon, reparseHocon, HoconArray, HoconDocument, HoconField, HoconObject, HoconString, HoconValue, Span, TextChange } from "./hocon";
+import { CROSS_VERSION, DEPENDENCIES, DEPENDENCY, INTRANSITIVE, NOTE, SCALA_FILTER } from "./fields";
+
+/**
+ * A positioned, lenient view of a `dependencies.conf` document, built on the HOCON syntax tree. Mirrors the Scala
+ * `DependenciesDocument`: it never fails and returns whatever structure the text currently has, even mid-edit.
+ */
+
+export type { Span, TextChange } from "./hocon";
+
+// ── Document model ──────────────────────────────────────────────────
 
-export interface GroupEndEvent {
-  type: "group-end";
-  lineIndex: number;
-  rawLine: string;
-  groupKind: "simple" | "advanced";
+/** A value with the span it occupies in the text. `value` is the raw source text of `valueSpan`. */
+export interface Field {
+  value: string;
+  valueSpan: Span;
 }
 
-export interface DependencyStringEvent {
-  type: "dependency-string";
-  /** The quoted string content (without quotes). */
-  content: string;
-  lineIndex: number;
-  /** Column of the first character inside the quotes. */
+/** A zero-based line/column range, as used by every provider. */
+export interface TextRange {
+  startLine: number;
   startCol: number;
+  endLine: number;
   endCol: number;
-  rawLine: string;
-  arrayKind: "simple" | "dependencies";
 }
 
-export interface SingleLineObjectEvent {
-  type: "single-line-object";
-  lineIndex: number;
-  /** The full `{...}` match. */
-  objectText: string;
-  objectStartCol: number;
-  dependency: string | undefined;
-  dependencyStartCol: number | undefined;
-  note: string | undefined;
-  intransitive: boolean;
-  scalaFilter: string | undefined;
-  crossVersion: string | undefined;
-  rawLine: string;
-  arrayKind: "simple" | "dependencies";
+export interface DependenciesDocument {
+  text: string;
+  /** The text split into lines, without line terminators. */
+  lines: string[];
+  /** Offset of the first character of each line. */
+  lineStarts: number[];
+  syntax: HoconDocument;
+  groups: Group[];
+}
+
+/**
+ * A group and everything it declares. `span` runs from the name to the closing bracket/brace, or to the last parsed
+ * token when the group is still unclosed.
+ */
+export interface Group {
+  name: string;
+  /** The name as written, without quotes. */
+  nameSpan: Span;
+  /** Whether the group uses the simple (`name = [...]`) or advanced (`name { ... }`) format. */
+  kind: "simple" | "advanced";
+  settings: Setting[];
+  entries: Entry[];
+  span: Span;
+  /** The array holding the entries: the group itself when simple, its `dependencies` setting when advanced. */
+  dependencies: HoconArray | undefined;
+  node: HoconField;
 }
 
-export interface MultiLineObjectStartEvent {
-  type: "multi-line-object-start";
-  lineIndex: number;
-  rawLine: string;
-  effectiveLine: string;
-  arrayKind: "simple" | "dependencies";
+/** A setting inside an advanced group block (`scala-version`, `java-version`...). */
+export interface Setting {
+  key: string;
+  keySpan: Span;
+  value: HoconValue | undefined;
+  span: Span;
+  node: HoconField;
 }
 
-export interface MultiLineObjectFieldEvent {
-  type: "multi-line-object-field";
-  lineIndex: number;
-  rawLine: string;
-  effectiveLine: string;
-  field: "dependency" | "note" | "intransitive" | "scala-filter" | "cross-version" | null;
-  fieldValue: string | undefined;
-  fieldValueStartCol: number | undefined;
+export type Entry = DependencyLine | DependencyObject | RawEntry;
+
+/** A plain quoted dependency line. `contentSpan` covers the text inside the quotes. */
+export interface DependencyLine {
+  kind: "line";
+  content: string;
+  contentSpan: Span;
+  span: Span;
 }
 
-export interface MultiLineObjectEndEvent {
-  type: "multi-line-object-end";
-  lineIndex: number;
-  rawLine: string;
-  /** All raw lines from object-start through object-end (inclusive). */
-  objectLines: string[];
-  hasDependency: boolean;
-  dependencyValue: string | undefined;
-  dependencyStartCol: number | undefined;
-  dependencyLineIndex: number | undefined;
-  hasNote: boolean;
-  noteValue: string | undefined;
-  hasIntransitive: boolean;
-  hasScalaFilter: boolean;
-  scalaFilterValue: string | undefined;
-  hasCrossVersion: boolean;
-  crossVersionValue: string | undefined;
-  objectStartLine: number;
-  arrayKind: "simple" | "dependencies";
+/** An object entry (`{ dependency = ..., note = ... }`), single- or multi-line. */
+export interface DependencyObject {
+  kind: "object";
+  /** Absent while the field hasn't been typed yet. */
+  dependency: Field | undefined;
+  note: Field | undefined;
+  intransitive: boolean;
+  scalaFilter: Field | undefined;
+  crossVersion: Field | undefined;
+  span: Span;
+  node: HoconObject;
 }
 
-export interface SettingLineEvent {
-  type: "setting-line";
-  lineIndex: number;
-  rawLine: string;
-  effectiveLine: string;
+/** Any other array element: unquoted text, SBT-style lines (`"org" %% "name" % "1.0"`), nested arrays. */
+export interface RawEntry {
+  kind: "raw";
+  text: string;
+  span: Span;
 }
 
-// ── Comment stripping ───────────────────────────────────────────────
-
-export function stripComments(
-  line: string,
-  inBlockComment: boolean
-): { effectiveLine: string; inBlockComment: boolean } {
-  let pos = 0;
-  let effectiveLine = "";
-
-  while (pos < line.length) {
-    if (inBlockComment) {
-      const endIdx = line.indexOf("*/", pos);
-      if (endIdx === -1) {
-        pos = line.length;
-      } else {
-        inBlockComment = false;
-        pos = endIdx + 2;
-      }
-    } else {
-      const startIdx = line.indexOf("/*", pos);
-      if (startIdx === -1) {
-        effectiveLine += line.slice(pos);
-        pos = line.length;
-      } else {
-        effectiveLine += line.slice(pos, startIdx);
-        inBlockComment = true;
-        pos = startIdx + 2;
-      }
-    }
-  }
+/**
+ * The dependency line an entry declares: the quoted content for plain entries, the `dependency` field for object
+ * entries (absent while the field hasn't been typed yet).
+ */
+export function dependencyOf(entry: Entry): Field | undefined {
+  if (entry.kind === "line") return { value: entry.content, valueSpan: entry.contentSpan };
+  if (entry.kind === "object") return entry.dependency;
+  return undefined;
+}
 
-  const commentIdx = Math.min(
-    effectiveLine.indexOf("//") === -1 ? Infinity : effectiveLine.indexOf("//"),
-    effectiveLine.indexOf("#") === -1 ? Infinity : effectiveLine.indexOf("#")
-  );
-  if (commentIdx !== Infinity) {
-    effectiveLine = effectiveLine.slice(0, commentIdx);
-  }
+// ── Parsing ─────────────────────────────────────────────────────────
 
-  return { effectiveLine, inBlockComment };
+/** Parses the lines of a `dependencies.conf` file into its positioned document view. Never throws. */
+export function parseDocument(lines: string[]): DependenciesDocument {
+  return parseText(lines.join("\n"));
 }
 
-// ── Helpers ─────────────────────────────────────────────────────────
+/** Parses the text of a `dependencies.conf` file into its positioned document view. Never throws. */
+export function parseText(text: string): DependenciesDocument {
+  return buildDocument(text, parseHocon(text));
+}
 
-/** Strips quoted strings so brace checks ignore content inside `"..."`. */
-function stripQuotedStrings(line: string): string {
-  return line.replace(/"[^"]*"/g, "");
+/**
+ * Applies `change` to `document` and returns the updated view, reparsing only the groups the change touched when that
+ * gives the same result as a full parse.
+ */
+export function updateDocument(document: DependenciesDocument, change: TextChange): DependenciesDocument {
+  const text = document.text.slice(0, change.offset) + change.text + document.text.slice(change.offset + change.length);
+  return buildDocument(text, reparseHocon(document.syntax, document.text, text, change) ?? parseHocon(text));
 }
 
-function detectField(
-  effectiveLine: string,
-  rawLine: string
-): { field: "dependency" | "note" | "intransitive" | "scala-filter" | "cross-version" | null; fieldValue: string | undefined; fieldValueStartCol: number | undefined } {
-  const depMatch = objectDepFieldPattern.exec(rawLine);
-  if (depMatch) {
-    return {
-      field: "dependency",
-      fieldValue: depMatch[1],
-      fieldValueStartCol: depMatch.index + depMatch[0].indexOf('"') + 1,
-    };
-  }
-  const noteMatch = objectNoteFieldPattern.exec(effectiveLine);
-  if (noteMatch) {
-    return { field: "note", fieldValue: noteMatch[1], fieldValueStartCol: undefined };
-  }
-  if (objectIntransitiveFieldPattern.test(effectiveLine)) {
-    return { field: "intransitive", fieldValue: undefined, fieldValueStartCol: undefined };
-  }
-  const sfMatch = objectScalaFilterFieldPattern.exec(effectiveLine);
-  if (sfMatch) {
-    return { field: "scala-filter", fieldValue: sfMatch[1], fieldValueStartCol: undefined };
+/** Either the lines of a document or its already-parsed view. */
+export type DocumentSource = string[] | DependenciesDocument;
+
+/** Returns the parsed view of `source`, parsing it only when given raw lines. */
+export function toDocument(source: DocumentSource): DependenciesDocument {
+  return Array.isArray(source) ? parseDocument(source) : source;
+}
+
+function buildDocument(text: string, syntax: HoconDocument): DependenciesDocument {
+  const lines = text.split("\n").map((line) => (line.endsWith("\r") ? line.slice(0, -1) : line));
+  const lineStarts = [0];
+  for (let i = 0; i < text.length; i++) {
+    if (text[i] === "\n") lineStarts.push(i + 1);
   }
-  const cvMatch = objectCrossVersionFieldPattern.exec(effectiveLine);
-  if (cvMatch) {
-    const cvStartCol = cvMatch.index + cvMatch[0].indexOf('"') + 1;
-    return { field: "cross-version", fieldValue: cvMatch[1], fieldValueStartCol: cvStartCol };
+
+  const groups: Group[] = [];
+  for (const field of syntax.root.fields) {
+    const group = toGroup(text, field);
+    if (group) groups.push(group);
   }
-  return { field: null, fieldValue: undefined, fieldValueStartCol: undefined };
+
+  return { text, lines, lineStarts, syntax, groups };
 }
 
-// ── The generator ───────────────────────────────────────────────────
-
-type ParserState = "outside" | "simple_array" | "advanced_block" | "dependencies_array" | "dependency_object";
-
-export function* walkDocument(lines: string[]): Generator<DocumentEvent> {
-  let state: ParserState = "outside";
-  let preObjectState: "simple_array" | "dependencies_array" = "simple_array";
-  let inBlockComment = false;
-
-  // Multi-line object accumulator
-  let objectLines: string[] = [];
-  let objectStartLine = 0;
-  let objectHasDep = false;
-  let objectDepValue: string | undefined;
-  let objectDepStartCol: number | undefined;
-  let objectDepLineIndex: number | undefined;
-  let objectHasNote = false;
-  let objectNoteValue: string | undefined;
-  let objectHasIntransitive = false;
-  let objectHasScalaFilter = false;
-  let objectScalaFilterValue: string | undefined;
-  let objectHasCrossVersion = false;
-  let objectCrossVersionValue: string | undefined;
-
-  function resetObjectTracking(lineIndex: number) {
-    objectLines = [];
-    objectStartLine = lineIndex;
-    objectHasDep = false;
-    objectDepValue = undefined;
-    objectDepStartCol = undefined;
-    objectDepLineIndex = undefined;
-    objectHasNote = false;
-    objectNoteValue = undefined;
-    objectHasIntransitive = false;
-    objectHasScalaFilter = false;
-    objectScalaFilterValue = undefined;
-    objectHasCrossVersion = false;
-    objectCrossVersionValue = undefined;
+function toGroup(text: string, field: HoconField): Group | undefined {
+  const value = field.value;
+  if (value?.type !== "array" && value?.type !== "object") return undefined;
+
+  const parts = field.key.parts;
+  const nameSpan = parts.length === 1 ? parts[0].contentSpan : field.key.span;
+  const base = { name: field.key.value, nameSpan, span: field.span, node: field };
+
+  if (value.type === "array") {
+    return { ...base, kind: "simple", settings: [], entries: toEntries(text, value), dependencies: value };
   }
 
-  function trackObjectField(effectiveLine: string, rawLine: string, lineIndex: number) {
-    objectLines.push(rawLine);
-    const depMatch = objectDepFieldPattern.exec(rawLine);
-    if (depMatch) {
-      objectHasDep = true;
-      objectDepValue = depMatch[1];
-      objectDepStartCol = depMatch.index + depMatch[0].indexOf('"') + 1;
-      objectDepLineIndex = lineIndex;
-    }
-    if (objectNoteFieldPattern.test(effectiveLine)) {
-      objectHasNote = true;
-      const noteMatch = objectNoteFieldPattern.exec(effectiveLine);
-      if (noteMatch) objectNoteValue = noteMatch[1];
-    }
-    if (objectIntransitiveFieldPattern.test(effectiveLine)) {
-      objectHasIntransitive = true;
-    }
-    const sfMatch = objectScalaFilterFieldPattern.exec(effectiveLine);
-    if (sfMatch) {
-      objectHasScalaFilter = true;
-      objectScalaFilterValue = sfMatch[1];
-    }
-    const cvMatch = objectCrossVersionFieldPattern.exec(effectiveLine);
-    if (cvMatch) {
-      objectHasCrossVersion = true;
-      objectCrossVersionValue = cvMatch[1];
+  const settings: Setting[] = [];
+  const entries: Entry[] = [];
+  let dependencies: HoconArray | undefined;
+
+  for (const setting of value.fields) {
+    if (setting.key.value === DEPENDENCIES && setting.value?.type === "array") {
+      dependencies ??= setting.value;
+      entries.push(...toEntries(text, setting.value));
+    } else {
+      settings.push({ key: setting.key.value, keySpan: setting.key.span, value: setting.value, span: setting.span, node: setting });
     }
   }
 
-  function arrayKind(): "simple" | "dependencies" {
-    return preObjectState === "simple_array" ? "simple" : "dependencies";
-  }
+  return { ...base, kind: "advanced", settings, entries, dependencies };
+}
 
-  function currentArrayKind(): "simple" | "dependencies" {
-    if (state === "simple_array") return "simple";
-    if (state === "dependencies_array") return "dependencies";
-    return preObjectState === "simple_array" ? "simple" : "dependencies";
-  }
+function toEntries(text: string, array: HoconArray): Entry[] {
+  return array.elements.map((element): Entry => {
+    if (element.type === "string" && element.quoted) {
+      return { kind: "line", content: rawContent(text, element), contentSpan: element.contentSpan, span: element.span };
+    }
 
-  for (let i = 0; i < lines.length; i++) {
-    const rawLine = lines[i];
-    const result = stripComments(rawLine, inBlockComment);
-    const effectiveLine = result.effectiveLine;
-    inBlockComment = result.inBlockComment;
-
-    // ── dependency_object state ──
-    if (state === "dependency_object") {
-      trackObjectField(effectiveLine, rawLine, i);
-
-      const { field, fieldValue, fieldValueStartCol } = detectField(effectiveLine, rawLine);
-      yield {
-        type: "multi-line-object-field",
-        lineIndex: i,
-        rawLine,
-        effectiveLine,
-        field,
-        fieldValue,
-        fieldValueStartCol,
+    if (element.type === "object") {
+      const fields = new Map<string, HoconField>();
+      for (const field of element.fields) fields.set(field.key.value, field);
+
+      const stringField = (key: string): Field | undefined => {
+        const value = fields.get(key)?.value;
+        return value?.type === "string" ? { value: rawContent(text, value), valueSpan: value.contentSpan } : undefined;
       };
 
-      if (stripQuotedStrings(effectiveLine).includes("}")) {
-        yield {
-          type: "multi-line-object-end",
-          lineIndex: i,
-          rawLine,
-          objectLines: [...objectLines],
-          hasDependency: objectHasDep,
-          dependencyValue: objectDepValue,
-          dependencyStartCol: objectDepStartCol,
-          dependencyLineIndex: objectDepLineIndex,
-          hasNote: objectHasNote,
-          noteValue: objectNoteValue,
-          hasIntransitive: objectHasIntransitive,
-          hasScalaFilter: objectHasScalaFilter,
-          scalaFilterValue: objectScalaFilterValue,
-          hasCrossVersion: objectHasCrossVersion,
-          crossVersionValue: objectCrossVersionValue,
-          objectStartLine,
-          arrayKind: arrayKind(),
-        };
-        state = preObjectState;
-      }
-      continue;
+      return {
+        kind: "object",
+        dependency: stringField(DEPENDENCY),
+        note: stringField(NOTE),
+        intransitive: stringField(INTRANSITIVE)?.value === "true",
+        scalaFilter: stringField(SCALA_FILTER),
+        crossVersion: stringField(CROSS_VERSION),
+        span: element.span,
+        node: element,
+      };
     }
 
-    // ── outside state ──
-    if (state === "outside") {
-      const simpleMatch = simpleGroupStartPattern.exec(effectiveLine);
-      if (simpleMatch) {
-        const name = simpleMatch[2];
-        const startCol = simpleMatch[1].length;
-        const singleLine = effectiveLine.includes("]");
-        yield {
-          type: "group-start",
-          name,
-          lineIndex: i,
-          startCol,
-          nameEndCol: startCol + name.length,
-          groupKind: "simple",
-          singleLine,
-          rawLine,
-          effectiveLine,
-        };
-        if (singleLine) {
-          // Emit deps on this single line
-          yield* emitDependenciesOnLine(rawLine, effectiveLine, i, "simple");
-          yield { type: "group-end", lineIndex: i, rawLine, groupKind: "simple" };
-          state = "outside";
-        } else {
-          state = "simple_array";
-        }
-        continue;
-      }
-
-      const advancedMatch = advancedGroupStartPattern.exec(effectiveLine);
-      if (advancedMatch) {
-        const name = advancedMatch[2];
-        const startCol = advancedMatch[1].length;
-        yield {
-          type: "group-start",
-          name,
-          lineIndex: i,
-          startCol,
-          nameEndCol: startCol + name.length,
-          groupKind: "advanced",
-          singleLine: false,
-          rawLine,
-          effectiveLine,
-        };
-        state = "advanced_block";
-        continue;
-      }
-      continue;
-    }
+    return { kind: "raw", text: text.slice(element.span.start, element.span.end), span: element.span };
+  });
+}
 
-    // ── advanced_block state ──
-    if (state === "advanced_block") {
-      if (dependenciesArrayStartPattern.test(effectiveLine)) {
-        if (effectiveLine.includes("]")) {
-          yield* emitDependenciesOnLine(rawLine, effectiveLine, i, "dependencies");
-        } else {
-          state = "dependencies_array";
-        }
-        continue;
-      }
-
-      if (effectiveLine.includes("}")) {
-        yield { type: "group-end", lineIndex: i, rawLine, groupKind: "advanced" };
-        state = "outside";
-        continue;
-      }
-
-      yield { type: "setting-line", lineIndex: i, rawLine, effectiveLine };
-      continue;
-    }
+function rawContent(text: string, node: HoconString): string {
+  return text.slice(node.contentSpan.start, node.contentSpan.end);
+}
 
-    // ── simple_array / dependencies_array states ──
-    if (state === "simple_array" || state === "dependencies_array") {
-      const ak = currentArrayKind();
-      const closingArray = state === "simple_array" ? "]" : "]";
-      const isClosing = effectiveLine.includes("]");
-
-      // Check for multi-line object start (strip quoted strings to avoid matching `}}` in `{{var}}`)
-      const unquoted = stripQuotedStrings(effectiveLine);
-      if (unquoted.includes("{") && !unquoted.includes("}")) {
-        preObjectState = state as "simple_array" | "dependencies_array";
-        resetObjectTracking(i);
-        trackObjectField(effectiveLine, rawLine, i);
-
-        const { field, fieldValue, fieldValueStartCol } = detectField(effectiveLine, rawLine);
-
-        yield { type: "multi-line-object-start", lineIndex: i, rawLine, effectiveLine, arrayKind: ak };
-        yield {
-          type: "multi-line-object-field",
-          lineIndex: i,
-          rawLine,
-          effectiveLine,
-          field,
-          fieldValue,
-          fieldValueStartCol,
-        };
-        state = "dependency_object";
-        continue;
-      }
-
-      // Emit single-line objects and plain strings on this line
-      yield* emitDependenciesOnLine(rawLine, effectiveLine, i, ak);
-
-      if (isClosing) {
-        if (state === "simple_array") {
-          yield { type: "group-end", lineIndex: i, rawLine, groupKind: "simple" };
-          state = "outside";
-        } else {
-          state = "advanced_block";
-        }
-      }
-      continue;
-    }
+// ── Positions ───────────────────────────────────────────────────────
+
+/** Converts an absolute offset into a zero-based line/column position. */
+export function positionAt(document: DependenciesDocument, offset: number): { line: number; col: number } {
+  let low = 0;
+  let high = document.lineStarts.length - 1;
+  while (low < high) {
+    const mid = (low + high + 1) >> 1;
+    if (document.lineStarts[mid] <= offset) low = mid;
+    else high = mid - 1;
   }
+  return { line: low, col: offset - document.lineStarts[low] };
 }
 
-/**
- * Emits SingleLineObjectEvent and DependencyStringEvent for objects and plain
- * strings found on a single line. Objects are detected first, then remaining
- * quoted strings outside object ranges are emitted as dependency strings.
- */
-function* emitDependenciesOnLine(
-  rawLine: string,
-  effectiveLine: string,
-  lineIndex: number,
-  ak: "simple" | "dependencies"
-): Generator<SingleLineObjectEvent | DependencyStringEvent> {
-  singleLineObjectPattern.lastIndex = 0;
-  let objMatch;
-  const objectRanges: [number, number][] = [];
-
-  while ((objMatch = singleLineObjectPattern.exec(effectiveLine)) !== null) {
-    const objectText = objMatch[0];
-    const objectStartCol = objMatch.index;
-
-    // Skip {…} matches inside quoted strings (e.g. "org::art:{{var}}")
-    const quotesBefore = (effectiveLine.substring(0, objectStartCol).match(/"/g) || []).length;
-    if (quotesBefore % 2 === 1) continue;
-
-    objectRanges.push([objectStartCol, objectStartCol + objectText.length]);
-
-    const depMatch = objectDepFieldPattern.exec(objectText);
-    const noteMatch = objectNoteFieldPattern.exec(objectText);
-    const sfMatch = objectScalaFilterFieldPattern.exec(objectText);
-    const cvMatch = objectCrossVersionFieldPattern.exec(objectText);
-
-    let dependencyStartCol: number | undefined;
-    if (depMatch) {
-      dependencyStartCol = objectStartCol + depMatch.index + depMatch[0].indexOf('"') + 1;
-    }
+/** Converts a zero-based line/column position into an absolute offset. */
+export function offsetAt(document: DependenciesDocument, line: number, col: number): number {
+  return (document.lineStarts[line] ?? document.text.length) + col;
+}
 
-    yield {
-      type: "single-line-object",
-      lineIndex,
-      objectText,
-      objectStartCol,
-      dependency: depMatch?.[1],
-      dependencyStartCol,
-      note: noteMatch?.[1],
-      intransitive: objectIntransitiveFieldPattern.test(objectText),
-      scalaFilter: sfMatch?.[1],
-      crossVersion: cvMatch?.[1],
-      rawLine,
-      arrayKind: ak,
-    };
-  }
+/** Converts a span into a line/column range. */
+export function rangeOf(document: DependenciesDocument, span: Span): TextRange {
+  const start = positionAt(document, span.start);
+  const end = positionAt(document, span.end);
+  return { startLine: start.line, startCol: start.col, endLine: end.line, endCol: end.col };
+}
 
-  // Emit plain string entries, skipping regions covered by objects
-  const stringPattern = /"([^"]*)"/g;
-  let strMatch;
-  while ((strMatch = stringPattern.exec(effectiveLine)) !== null) {
-    const inObject = objectRanges.some(([start, end]) => strMatch!.index >= start && strMatch!.index < end);
-    if (inObject) continue;
-
-    const content = strMatch[1];
-    if (content.length === 0) continue;
-
-    yield {
-      type: "dependency-string",
-      content,
-      lineIndex,
-      startCol: strMatch.index + 1,
-      endCol: strMatch.index + 1 + content.length,
-      rawLine,
-      arrayKind: ak,
-    };
-  }
+/** Returns the group whose span contains `offset`, if any. */
+export function groupAt(document: DependenciesDocument, offset: number): Group | undefined {
+  return document.groups.find((group) => group.span.start <= offset && offset <= group.span.end);
 }
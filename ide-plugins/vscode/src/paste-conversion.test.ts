@@ -0,0 +1,164 @@
+import { describe, it, expect } from "vitest";
+import { convertPastedText } from "./paste-conversion";
+
+describe("convertPastedText", () => {
+  it("converts sbt settings", () => {
+    const text = ['libraryDependencies += "org.typelevel" %% "cats-core" % "2.10.0"', '"org.scalameta" %% "munit" % "1.0.0" % Test'].join("\n");
+    expect(convertPastedText(text)).toEqual({
+      formats: ["sbt"],
+      entries: ['"org.typelevel::cats-core:2.10.0"', '"org.scalameta::munit:1.0.0:test"'],
+    });
+  });
+
+  it("converts multi-line Maven blocks, mapping scopes", () => {
+    const text = [
+      "<dependencies>",
+      "  <dependency>",
+      "    <groupId>com.typesafe</groupId>",
+      "    <artifactId>config</artifactId>",
+      "    <version>1.4.3</version>",
+      "  </dependency>",
+      "  <dependency>",
+      "    <groupId>org.typelevel</groupId>",
+      "    <artifactId>cats-core_2.13</artifactId>",
+      "    <version>${cats.version}</version>",
+      "    <scope>test</scope>",
+      "  </dependency>",
+      "  <dependency><groupId>io.netty</groupId><artifactId>netty-bom</artifactId><version>4.1.100.Final</version>",
+      "    <type>pom</type><scope>import</scope></dependency>",
+      "  <dependency>",
+      "    <groupId>javax.servlet</groupId>",
+      "    <artifactId>servlet-api</artifactId>",
+      "    <version>2.5</version>",
+      "    <scope>provided</scope>",
+      "  </dependency>",
+      "</dependencies>",
+    ].join("\n");
+    expect(convertPastedText(text)).toEqual({
+      formats: ["maven"],
+      entries: [
+        '"com.typesafe:config:1.4.3"',
+        '"org.typelevel::cats-core:{{cats_version}}:test"',
+        '"io.netty:netty-bom:4.1.100.Final:bom"',
+        '"javax.servlet:servlet-api:2.5:provided"',
+      ],
+    });
+  });
+
+  it("maps optional Maven dependencies and skips managed or classified ones", () => {
+    const block = (inner: string) => `<dependency><groupId>g</groupId><artifactId>a</artifactId>${inner}</dependency>`;
+    const text = [
+      block("<version>1.0</version><optional>true</optional>"),
+      block(""),
+      block("<version>1.0</version><classifier>sources</classifier>"),
+      block("<version>1.0</version><scope>weird</scope>"),
+    ].join("\n");
+    expect(convertPastedText(text)?.entries).toEqual(['"g:a:1.0:optional"']);
+  });
+
+  it("converts Gradle configurations", () => {
+    const text = [
+      'implementation("com.typesafe:config:1.4.3")',
+      "testImplementation 'org.scalameta:munit_3:1.0.0'",
+      'compileOnly "org.projectlombok:lombok:1.18.30"',
+      'runtimeOnly("org.postgresql:postgresql:$postgresVersion")',
+      'implementation(platform("io.netty:netty-bom:4.1.100.Final"))',
+      'annotationProcessor("org.projectlombok:lombok:1.18.30")',
+    ].join("\n");
+    expect(convertPastedText(text)).toEqual({
+      formats: ["gradle"],
+      entries: [
+        '"com.typesafe:config:1.4.3"',
+        '"org.scalameta::munit:1.0.0:test"',
+        '"org.projectlombok:lombok:1.18.30:provided"',
+        '"org.postgresql:postgresql:{{postgresVersion}}:runtime"',
+        '"io.netty:netty-bom:4.1.100.Final:bom"',
+      ],
+    });
+  });
+
+  it("converts Mill dependencies", () => {
+    const text = [
+      "def ivyDeps = Agg(",
+      '  ivy"org.typelevel::cats-core:2.10.0",',
+      '  mvn"com.typesafe:config:1.4.3", ivy"org.scala-lang:::scala-compiler:$scalaVersion"',
+      '  ivy"com.lihaoyi::scalatags::0.12.0"',
+      ")",
+    ].join("\n");
+    expect(convertPastedText(text)).toEqual({
+      formats: ["mill"],
+      entries: [
+        '"org.typelevel::cats-core:2.10.0"',
+        '"com.typesafe:config:1.4.3"',
+        '{ dependency = "org.scala-lang::scala-compiler:{{scalaVersion}}", cross-version = "full" }',
+        '"com.lihaoyi::scalatags:0.12.0"',
+      ],
+    });
+  });
+
+  it("converts scala-cli directives, mapping scopes", () => {
+    const text = [
+      "//> using scala 3.3.1",
+      "//> using dep org.typelevel::cats-core:2.10.0",
+      '//> using deps "com.lihaoyi::os-lib:0.9.1" "com.lihaoyi::upickle:3.1.0"',
+      "//> using test.dep org.scalameta::munit:1.0.0",
+      "//> using compileOnly.dep com.github.ghik:::zerowaste:0.2.7",
+      "//> using plugin org.wartremover:::wartremover:3.1.5",
+    ].join("\n");
+    expect(convertPastedText(text)).toEqual({
+      formats: ["scala-cli"],
+      entries: [
+        '"org.typelevel::cats-core:2.10.0"',
+        '"com.lihaoyi::os-lib:0.9.1"',
+        '"com.lihaoyi::upickle:3.1.0"',
+        '"org.scalameta::munit:1.0.0:test"',
+        '{ dependency = "com.github.ghik::zerowaste:0.2.7:provided", cross-version = "full" }',
+        '{ dependency = "org.wartremover::wartremover:3.1.5:compiler-plugin", cross-version = "full" }',
+      ],
+    });
+  });
+
+  it("converts Coursier coordinates", () => {
+    const text = ["cs fetch --scala 2.13 org.typelevel::cats-core:2.10.0 com.typesafe:config:1.4.3 -r central", "io.circe::circe-core:0.14.6"].join(
+      "\n"
+    );
+    expect(convertPastedText(text)).toEqual({
+      formats: ["coursier"],
+      entries: ['"org.typelevel::cats-core:2.10.0"', '"com.typesafe:config:1.4.3"', '"io.circe::circe-core:0.14.6"'],
+    });
+  });
+
+  it("turns property names the plugin can't read into valid variable names", () => {
+    const text = 'implementation("org.typelevel:cats-core_2.13:${cats-core.version}")';
+    expect(convertPastedText(text)?.entries).toEqual(['"org.typelevel::cats-core:{{cats_core_version}}"']);
+  });
+
+  it("leaves URLs, host:port and other colon-separated text alone", () => {
+    expect(convertPastedText("http://example.com:8080/path")).toBeUndefined();
+    expect(convertPastedText("localhost:8080:foo")).toBeUndefined();
+    expect(convertPastedText("foo:bar:baz")).toBeUndefined();
+    expect(convertPastedText("127.0.0.1:8080:9090")).toBeUndefined();
+  });
+
+  it("lists every format of a mixed paste", () => {
+    const text = ['"org.typelevel" %% "cats-core" % "2.10.0"', "//> using dep com.lihaoyi::os-lib:0.9.1"].join("\n");
+    expect(convertPastedText(text)?.formats).toEqual(["sbt", "scala-cli"]);
+  });
+
+  it("converts the lines pasted around Maven blocks too", () => {
+    const text = [
+      '"org.typelevel" %% "cats-core" % "2.10.0"',
+      "<dependency><groupId>com.google.guava</groupId><artifactId>guava</artifactId><version>33.0.0-jre</version></dependency>",
+      'implementation("io.circe:circe-core_2.13:0.14.6")',
+    ].join("\n");
+    expect(convertPastedText(text)).toEqual({
+      formats: ["sbt", "maven", "gradle"],
+      entries: ['"org.typelevel::cats-core:2.10.0"', '"com.google.guava:guava:33.0.0-jre"', '"io.circe::circe-core:0.14.6"'],
+    });
+  });
+
+  it("returns undefined without any dependency", () => {
+    expect(convertPastedText("// just a comment\nval x = 1\n")).toBeUndefined();
+    expect(convertPastedText("<dependency><groupId>g</groupId></dependency>")).toBeUndefined();
+  });
+});
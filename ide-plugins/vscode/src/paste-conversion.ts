@@ -0,0 +1,259 @@
+import { convertSbtDependency } from "./formatting";
+import { parseNumeric } from "./version";
+
+/**
+ * Converts the dependency snippets library READMEs give for each build tool into `dependencies.conf` entries: sbt
+ * settings, Maven `<dependency>` blocks, Gradle configurations, Mill `ivy"..."`/`mvn"..."` strings, scala-cli
+ * `//> using dep` directives and Coursier coordinates (`cs fetch org::name:version`). Scopes map to the configuration
+ * sbt gives them.
+ */
+
+/** The build tool a pasted snippet comes from. */
+export type PasteFormat = "sbt" | "maven" | "gradle" | "mill" | "scala-cli" | "coursier";
+
+/** The entries converted from a pasted text. */
+export interface PastedDependencies {
+  /** The formats found, in the order they first appear. */
+  formats: PasteFormat[];
+  /** The `dependencies.conf` entries, each on one line: a quoted dependency or an object entry. */
+  entries: string[];
+}
+
+/** Maven scopes and their sbt configuration; `compile` (and `system`) is sbt's default one. */
+const mavenScopes: Record<string, string | undefined> = {
+  compile: undefined,
+  system: undefined,
+  provided: "provided",
+  runtime: "runtime",
+  test: "test",
+  import: "bom",
+};
+
+/** Gradle configurations and their sbt configuration; others (`annotationProcessor`, `kapt`...) aren't converted. */
+const gradleConfigurations: Record<string, string | undefined> = {
+  implementation: undefined,
+  api: undefined,
+  compile: undefined,
+  compileOnly: "provided",
+  compileOnlyApi: "provided",
+  runtimeOnly: "runtime",
+  runtime: "runtime",
+  testImplementation: "test",
+  testApi: "test",
+  testCompile: "test",
+  testCompileOnly: "test",
+  testRuntimeOnly: "test",
+};
+
+/** scala-cli directive prefixes and their sbt configuration. */
+const scalaCliScopes: Record<string, string | undefined> = {
+  "": undefined,
+  "test.": "test",
+  "compileOnly.": "provided",
+};
+
+const mavenBlockPattern = /<dependency>([\s\S]*?)<\/dependency>/g;
+const gradlePattern =
+  /^\s*(\w+)\s*\(?\s*(?:(platform|enforcedPlatform)\s*\(\s*)?["']([^"':\s]+):([^"':\s]+):([^"':@\s]+)["']\s*\)?\s*\)?\s*$/;
+const millPattern = /\b(?:ivy|mvn)"([^"]+)"/g;
+const scalaCliPattern = /^\s*\/\/>\s*using\s+(test\.|compileOnly\.)?(deps?|dependency|dependencies|libs?|plugins?)\s+(.+)$/;
+const coursierPattern = /^\s*(?:cs|coursier)\s+(?:fetch|resolve)\s+(.+)$/;
+/** `org:name:version`, `org::name:version`, `org:::name:version` and `org::name::version`. */
+const coordinatePattern = /^([^\s:"]+)(:{1,3})([^\s:"]+)(:{1,2})([^\s:"]+)$/;
+
+/** Artifacts built for a Scala version (`cats-core_2.13`), which sbt writes with `%%`. */
+const scalaSuffixPattern = /_(?:2\.1[0-3]|3)$/;
+const sbtPluginSuffix = "_2.12_1.0";
+
+/** The dependency string of a Maven or Gradle coordinate, whose Scala artifacts carry their binary version. */
+function fromJvmCoordinate(org: string, artifact: string, version: string, config: string | undefined): string {
+  let name = artifact;
+  let separator = ":";
+  if (name.endsWith(sbtPluginSuffix)) {
+    name = name.slice(0, -sbtPluginSuffix.length);
+    config = "sbt-plugin";
+  } else if (scalaSuffixPattern.test(name)) {
+    name = name.replace(scalaSuffixPattern, "");
+    separator = "::";
+  }
+  return `${org}${separator}${name}:${version}${config ? `:${config}` : ""}`;
+}
+
+/**
+ * The entry of a coordinate as Mill, scala-cli and Coursier write it. A full cross-version (`:::`) becomes an object
+ * entry with `cross-version = "full"`, and the platform separator of `org::name::version` the usual `::`.
+ */
+function fromScalaCoordinate(coordinate: string, config: string | undefined): string | undefined {
+  const m = coordinatePattern.exec(coordinate);
+  if (!m) return undefined;
+  const [, org, separator, name, , version] = m;
+  const dependency = `${org}${separator === ":" ? ":" : "::"}${name}:${variable(version)}${config ? `:${config}` : ""}`;
+  return separator === ":::" ? `{ dependency = "${dependency}", cross-version = "full" }` : `"${dependency}"`;
+}
+
+const variablePattern = /^\$\{?([\w.-]+)\}?$/;
+
+/**
+ * A version given as a build variable (`${catsVersion}`, `$catsVersion`) as a `{{variable}}` reference. The plugin's
+ * variable names are word characters only, so Maven's `${cats.version}` becomes `{{cats_version}}`.
+ */
+function variable(version: string): string {
+  const m = variablePattern.exec(version);
+  return m ? `{{${m[1].replace(/[.-]/g, "_")}}}` : version;
+}
+
+/** The text of the `<tag>` element of a Maven block, trimmed. */
+function mavenElement(block: string, tag: string): string | undefined {
+  return new RegExp(`<${tag}>\\s*([^<]*?)\\s*</${tag}>`).exec(block)?.[1];
+}
+
+/**
+ * The entries of the Maven `<dependency>` blocks of `text`. `<scope>import</scope>` (a BOM) becomes `bom`, and
+ * `<optional>true</optional>` without a scope `optional`. Blocks without a version (managed by a parent POM) or with
+ * a classifier are skipped.
+ */
+function convertMaven(text: string): string[] {
+  const entries: string[] = [];
+  for (const [, block] of text.matchAll(mavenBlockPattern)) {
+    const org = mavenElement(block, "groupId");
+    const artifact = mavenElement(block, "artifactId");
+    const version = mavenElement(block, "version");
+    if (!org || !artifact || !version || mavenElement(block, "classifier")) continue;
+
+    const scope = mavenElement(block, "scope") ?? "compile";
+    if (!(scope in mavenScopes)) continue;
+    const config = mavenScopes[scope] ?? (mavenElement(block, "optional") === "true" ? "optional" : undefined);
+    entries.push(`"${fromJvmCoordinate(org, artifact, variable(version), config)}"`);
+  }
+  return entries;
+}
+
+/** The entry of a Gradle dependency line, `platform(...)` ones becoming `bom`. */
+function convertGradle(line: string): string | undefined {
+  const m = gradlePattern.exec(line);
+  if (!m || !(m[1] in gradleConfigurations)) return undefined;
+  const [, configuration, platform, org, artifact, version] = m;
+  const config = platform ? "bom" : gradleConfigurations[configuration];
+  return `"${fromJvmCoordinate(org, artifact, variable(version), config)}"`;
+}
+
+/** The entries of the Mill `ivy"..."`/`mvn"..."` dependencies of a line; those with attributes are skipped. */
+function convertMill(line: string): string[] {
+  return [...line.matchAll(millPattern)].flatMap(([, coordinate]) => {
+    const entry = coordinate.includes(";") ? undefined : fromScalaCoordinate(coordinate, undefined);
+    return entry ? [entry] : [];
+  });
+}
+
+/** The entries of a scala-cli `//> using dep` directive (or `test.dep`, `compileOnly.dep`, `plugin`...). */
+function convertScalaCli(line: string): string[] | undefined {
+  const m = scalaCliPattern.exec(line);
+  if (!m) return undefined;
+  const [, scope = "", kind, values] = m;
+  const config = kind.startsWith("plugin") ? "compiler-plugin" : scalaCliScopes[scope];
+
+  return values
+    .split(/\s+/)
+    .map((value) => value.replace(/^["`]|["`]$/g, ""))
+    .flatMap((coordinate) => {
+      const entry = coordinate.includes(",") ? undefined : fromScalaCoordinate(coordinate, config);
+      return entry ? [entry] : [];
+    });
+}
+
+/**
+ * Whether a line holding nothing but `org:name:version` is a coordinate rather than a URL, a `host:port` or any other
+ * colon-separated text: the organization and name must be identifiers and the version numeric or a variable.
+ */
+function isBareCoordinate(line: string): boolean {
+  const m = coordinatePattern.exec(line);
+  if (!m) return false;
+  const [, org, , name, , version] = m;
+  const identifier = /^[A-Za-z_][\w.-]*$/;
+  return identifier.test(org) && identifier.test(name) && (parseNumeric(version) !== undefined || variablePattern.test(version));
+}
+
+/**
+ * The entries of the coordinates of a `cs fetch` (or `cs resolve`) command, skipping its options, or of a line holding
+ * nothing but a coordinate.
+ */
+function convertCoursier(line: string): string[] | undefined {
+  const coordinate = isBareCoordinate(line) ? fromScalaCoordinate(line, undefined) : undefined;
+  if (coordinate) return [coordinate];
+
+  const m = coursierPattern.exec(line);
+  if (!m) return undefined;
+  const words = m[1].split(/\s+/);
+  const entries: string[] = [];
+  for (let i = 0; i < words.length; i++) {
+    // Options taking a value (`--scala 2.13`, `-r central`) are followed by a word without `:`
+    if (words[i].startsWith("-")) {
+      if (!words[i].includes("=") && words[i + 1] && !words[i + 1].includes(":")) i++;
+      continue;
+    }
+    const entry = fromScalaCoordinate(words[i], undefined);
+    if (entry) entries.push(entry);
+  }
+  return entries;
+}
+
+/**
+ * The `dependencies.conf` entries of a pasted text, or `undefined` when it holds no dependency of a known format.
+ * Maven `<dependency>` blocks may span several lines; the text around them is read line by line for every other
+ * format, blank lines and comments aside.
+ */
+export function convertPastedText(text: string): PastedDependencies | undefined {
+  const formats: PasteFormat[] = [];
+  const entries: string[] = [];
+  const found = (format: PasteFormat, converted: string[]) => {
+    if (converted.length === 0) return;
+    if (!formats.includes(format)) formats.push(format);
+    entries.push(...converted);
+  };
+
+  const convertLines = (lines: string) => {
+    for (const line of lines.split(/\r?\n/)) {
+      const trimmed = line.trim();
+
+      const directive = convertScalaCli(trimmed);
+      if (directive) {
+        found("scala-cli", directive);
+        continue;
+      }
+
+      // Skip blank lines and comments
+      if (trimmed === "" || trimmed.startsWith("//") || trimmed.startsWith("#")) continue;
+
+      const sbt = convertSbtDependency(line);
+      if (sbt) {
+        found("sbt", [`"${sbt}"`]);
+        continue;
+      }
+
+      const coursier = convertCoursier(trimmed);
+      if (coursier) {
+        found("coursier", coursier);
+        continue;
+      }
+
+      const mill = convertMill(line);
+      if (mill.length > 0) {
+        found("mill", mill);
+        continue;
+      }
+
+      const gradle = convertGradle(line);
+      if (gradle) found("gradle", [gradle]);
+    }
+  };
+
+  let rest = 0;
+  for (const block of text.matchAll(mavenBlockPattern)) {
+    convertLines(text.slice(rest, block.index));
+    found("maven", convertMaven(block[0]));
+    rest = block.index + block[0].length;
+  }
+  convertLines(text.slice(rest));
+
+  return formats.length > 0 ? { formats, entries } : undefined;
+}
@@ -1,19 +1,36 @@
 import * as vscode from "vscode";
-import { convertSbtDependency } from "./formatting";
+import { convertPastedText, PasteFormat } from "./paste-conversion";
+
+/** The build tool names shown in paste edit titles. */
+const formatNames: Record<PasteFormat, string> = {
+  sbt: "sbt",
+  maven: "Maven",
+  gradle: "Gradle",
+  mill: "Mill",
+  "scala-cli": "scala-cli",
+  coursier: "Coursier",
+};
 
 /**
  * Intercepts paste events in `dependencies.conf` files and converts
- * SBT-style dependency strings (e.g. from mvnrepository.com) into the
- * canonical HOCON format used by sbt-dependencies.
+ * dependencies copied from a library's README (sbt settings, Maven
+ * `<dependency>` blocks, Gradle, Mill, scala-cli directives or Coursier
+ * coordinates) into the canonical HOCON format used by sbt-dependencies.
  *
- * Comment lines (starting with `//` or `#`) and blank lines are stripped.
- * If no SBT dependency is found in the pasted text, the paste proceeds
- * unchanged.
+ * Each source format has its own paste edit kind (`text.sbt-dependencies.maven`...),
+ * so it can be picked in `editor.pasteAs.preferences`. Anything else in the
+ * pasted text (blank lines, comments, other code) is dropped. If no dependency
+ * is found in the pasted text, the paste proceeds unchanged.
  */
 export class DependencyPasteEditProvider implements vscode.DocumentPasteEditProvider {
 
   static readonly kind = vscode.DocumentDropOrPasteEditKind.Empty.append("text", "sbt-dependencies");
 
+  /** The kind of the edits converting each format. */
+  static readonly formatKinds = Object.fromEntries(
+    Object.keys(formatNames).map((format) => [format, DependencyPasteEditProvider.kind.append(format)])
+  ) as Record<PasteFormat, vscode.DocumentDropOrPasteEditKind>;
+
   async provideDocumentPasteEdits(
     _document: vscode.TextDocument,
     _ranges: readonly vscode.Range[],
@@ -27,31 +44,17 @@ export class DependencyPasteEditProvider implements vscode.DocumentPasteEditProv
     const text = await item.asString();
     if (token.isCancellationRequested) return undefined;
 
-    const lines = text.split(/\r?\n/);
-
-    const converted: string[] = [];
-    let hasMatch = false;
-
-    for (const line of lines) {
-      const trimmed = line.trim();
-
-      // Skip blank lines and comments
-      if (trimmed === "" || trimmed.startsWith("//") || trimmed.startsWith("#")) {
-        continue;
-      }
-
-      const dep = convertSbtDependency(line);
-      if (dep) {
-        converted.push(`"${dep}"`);
-        hasMatch = true;
-      }
-    }
+    const pasted = convertPastedText(text);
+    if (!pasted) return undefined;
 
-    if (!hasMatch) return undefined;
+    // Mixed formats get the generic kind
+    const [format] = pasted.formats;
+    const single = pasted.formats.length === 1;
+    const title = single ? `Paste ${formatNames[format]} dependencies as sbt-dependencies format` : "Paste as sbt-dependencies format";
+    const kind = single ? DependencyPasteEditProvider.formatKinds[format] : DependencyPasteEditProvider.kind;
 
-    const snippet = new vscode.SnippetString(converted.join("\n"));
-    return [
-      new vscode.DocumentPasteEdit(snippet, "Paste as sbt-dependencies format", DependencyPasteEditProvider.kind),
-    ];
+    // Appended as text, so that the `$` of build variables (`$group`, `${cats.version}`) isn't read as a placeholder
+    const snippet = new vscode.SnippetString().appendText(pasted.entries.join("\n"));
+    return [new vscode.DocumentPasteEdit(snippet, title, kind)];
   }
 }
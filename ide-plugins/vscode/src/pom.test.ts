@@ -111,36 +111,36 @@ describe("extractRepositoryUrl", () => {
 });
 
 describe("findMavenBases", () => {
-  it("finds base at depth 1 (maven2/)", () => {
+  it("finds base at depth 1 (maven2/)", async () => {
     const tree: Record<string, string[]> = {
       "/cache/repo1.maven.org": ["maven2"],
       "/cache/repo1.maven.org/maven2": ["org", "com"],
     };
-    const readdir = (dir: string) => tree[dir] ?? [];
-    expect(findMavenBases("/cache/repo1.maven.org", "org", readdir)).toEqual([
+    const readdir = async (dir: string) => tree[dir] ?? [];
+    expect(await findMavenBases("/cache/repo1.maven.org", "org", readdir)).toEqual([
       path.join("/cache/repo1.maven.org", "maven2"),
     ]);
   });
 
-  it("finds base at depth 3 (content/repositories/releases/)", () => {
+  it("finds base at depth 3 (content/repositories/releases/)", async () => {
     const tree: Record<string, string[]> = {
       "/cache/oss.sonatype.org": ["content"],
       "/cache/oss.sonatype.org/content": ["repositories"],
       "/cache/oss.sonatype.org/content/repositories": ["releases"],
       "/cache/oss.sonatype.org/content/repositories/releases": ["org", "com"],
     };
-    const readdir = (dir: string) => tree[dir] ?? [];
-    expect(findMavenBases("/cache/oss.sonatype.org", "org", readdir)).toEqual([
+    const readdir = async (dir: string) => tree[dir] ?? [];
+    expect(await findMavenBases("/cache/oss.sonatype.org", "org", readdir)).toEqual([
       path.join("/cache/oss.sonatype.org", "content", "repositories", "releases"),
     ]);
   });
 
-  it("returns empty array when not found", () => {
-    const readdir = (_dir: string): string[] => [];
-    expect(findMavenBases("/cache/unknown.host", "org", readdir)).toEqual([]);
+  it("returns empty array when not found", async () => {
+    const readdir = async (_dir: string): Promise<string[]> => [];
+    expect(await findMavenBases("/cache/unknown.host", "org", readdir)).toEqual([]);
   });
 
-  it("finds multiple bases under the same host (JFrog Artifactory)", () => {
+  it("finds multiple bases under the same host (JFrog Artifactory)", async () => {
     const tree: Record<string, string[]> = {
       "/cache/jfrog.io": ["artifactory"],
       "/cache/jfrog.io/artifactory": ["ivy", "maven", "custom-libs"],
@@ -148,8 +148,8 @@ describe("findMavenBases", () => {
       "/cache/jfrog.io/artifactory/maven": ["com"],
       "/cache/jfrog.io/artifactory/custom-libs": ["com"],
     };
-    const readdir = (dir: string) => tree[dir] ?? [];
-    expect(findMavenBases("/cache/jfrog.io", "com", readdir)).toEqual([
+    const readdir = async (dir: string) => tree[dir] ?? [];
+    expect(await findMavenBases("/cache/jfrog.io", "com", readdir)).toEqual([
       path.join("/cache/jfrog.io", "artifactory", "maven"),
       path.join("/cache/jfrog.io", "artifactory", "custom-libs"),
     ]);
@@ -160,13 +160,13 @@ describe("resolveRepositoryUrl", () => {
   const cachePath = "/fake/cache";
 
   function buildMockFs(structure: Record<string, string[] | string>) {
-    const readdir = (dir: string): string[] => {
+    const readdir = async (dir: string): Promise<string[]> => {
       const val = structure[dir];
       if (Array.isArray(val)) return val;
       throw new Error(`ENOENT: ${dir}`);
     };
 
-    const readFile = (file: string): string | undefined => {
+    const readFile = async (file: string): Promise<string | undefined> => {
       const val = structure[file];
       return typeof val === "string" ? val : undefined;
     };
@@ -174,7 +174,7 @@ describe("resolveRepositoryUrl", () => {
     return { readdir, readFile };
   }
 
-  it("resolves repo URL from Scala dependency POM", () => {
+  it("resolves repo URL from Scala dependency POM", async () => {
     const { readdir, readFile } = buildMockFs({
       "/fake/cache/https": ["repo1.maven.org"],
       "/fake/cache/https/repo1.maven.org": ["maven2"],
@@ -198,12 +198,12 @@ describe("resolveRepositoryUrl", () => {
       matchEnd: 30,
     };
 
-    expect(resolveRepositoryUrl(dep, cachePath, readdir, readFile)).toBe(
+    expect(await resolveRepositoryUrl(dep, cachePath, readdir, readFile)).toBe(
       "https://github.com/typelevel/cats"
     );
   });
 
-  it("searches multiple repos", () => {
+  it("searches multiple repos", async () => {
     const { readdir, readFile } = buildMockFs({
       "/fake/cache/https": ["repo1.maven.org", "oss.sonatype.org"],
       // repo1 has nothing useful
@@ -233,12 +233,12 @@ describe("resolveRepositoryUrl", () => {
       matchEnd: 20,
     };
 
-    expect(resolveRepositoryUrl(dep, cachePath, readdir, readFile)).toBe(
+    expect(await resolveRepositoryUrl(dep, cachePath, readdir, readFile)).toBe(
       "https://github.com/example/lib"
     );
   });
 
-  it("returns undefined when POM is missing", () => {
+  it("returns undefined when POM is missing", async () => {
     const { readdir, readFile } = buildMockFs({
       "/fake/cache/https": ["repo1.maven.org"],
       "/fake/cache/https/repo1.maven.org": ["maven2"],
@@ -254,10 +254,10 @@ describe("resolveRepositoryUrl", () => {
       matchEnd: 20,
     };
 
-    expect(resolveRepositoryUrl(dep, cachePath, readdir, readFile)).toBeUndefined();
+    expect(await resolveRepositoryUrl(dep, cachePath, readdir, readFile)).toBeUndefined();
   });
 
-  it("uses sbt-plugin suffix for sbt plugins", () => {
+  it("uses sbt-plugin suffix for sbt plugins", async () => {
     const { readdir, readFile } = buildMockFs({
       "/fake/cache/https": ["repo1.maven.org"],
       "/fake/cache/https/repo1.maven.org": ["maven2"],
@@ -283,12 +283,12 @@ describe("resolveRepositoryUrl", () => {
       matchEnd: 40,
     };
 
-    expect(resolveRepositoryUrl(dep, cachePath, readdir, readFile)).toBe(
+    expect(await resolveRepositoryUrl(dep, cachePath, readdir, readFile)).toBe(
       "https://github.com/scalacenter/scalafix"
     );
   });
 
-  it("tries multiple maven bases within the same host", () => {
+  it("tries multiple maven bases within the same host", async () => {
     const { readdir, readFile } = buildMockFs({
       "/fake/cache/https": ["jfrog.io"],
       "/fake/cache/https/jfrog.io": ["artifactory"],
@@ -318,7 +318,7 @@ describe("resolveRepositoryUrl", () => {
       matchEnd: 30,
     };
 
-    expect(resolveRepositoryUrl(dep, cachePath, readdir, readFile)).toBe(
+    expect(await resolveRepositoryUrl(dep, cachePath, readdir, readFile)).toBe(
       "https://github.com/acme/my-lib"
     );
   });
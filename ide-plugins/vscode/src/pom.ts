@@ -1,10 +1,13 @@
+import * as fs from "node:fs";
 import * as path from "node:path";
 import * as os from "node:os";
 
 import type { DependencyMatch } from "./hover";
 
-type ReadDir = (dir: string) => string[];
-type ReadFile = (file: string) => string | undefined;
+/** Lists a directory; rejects when it can't be read. */
+export type ReadDir = (dir: string) => Promise<string[]>;
+/** Reads a file, resolving to `undefined` when it can't be read. */
+export type ReadFile = (file: string) => Promise<string | undefined>;
 
 /**
  * Returns the Coursier cache directory.
@@ -96,11 +99,11 @@ function cleanUrl(url: string): string | undefined {
  * Searches up to 4 levels deep for directories containing the first component
  * of the org path (e.g., `org` for `org.typelevel`).
  */
-export function findMavenBases(
+export async function findMavenBases(
   hostDir: string,
   orgFirstComponent: string,
   readdir: ReadDir
-): string[] {
+): Promise<string[]> {
   const results: string[] = [];
   const queue: Array<{ dir: string; depth: number }> = [{ dir: hostDir, depth: 0 }];
 
@@ -109,7 +112,7 @@ export function findMavenBases(
 
     let entries: string[];
     try {
-      entries = readdir(dir);
+      entries = await readdir(dir);
     } catch {
       continue;
     }
@@ -142,12 +145,12 @@ const mavenBaseCache = new Map<string, string[]>();
  *
  * Returns `undefined` if no POM with a repository URL is found.
  */
-export function resolveRepositoryUrl(
+export async function resolveRepositoryUrl(
   dep: DependencyMatch,
   cachePath?: string,
   readdir?: ReadDir,
   readFile?: ReadFile
-): string | undefined {
+): Promise<string | undefined> {
   const cache = cachePath ?? getCoursierCachePath();
   const rd: ReadDir = readdir ?? defaultReaddir;
   const rf: ReadFile = readFile ?? defaultReadFile;
@@ -172,7 +175,7 @@ export function resolveRepositoryUrl(
   const httpsDir = path.join(cache, "https");
   let hostDirs: string[];
   try {
-    hostDirs = rd(httpsDir);
+    hostDirs = await rd(httpsDir);
   } catch {
     return undefined;
   }
@@ -186,7 +189,7 @@ export function resolveRepositoryUrl(
     if (mavenBaseCache.has(cacheKey)) {
       mavenBases = mavenBaseCache.get(cacheKey)!;
     } else {
-      mavenBases = findMavenBases(hostPath, orgFirstComponent, rd);
+      mavenBases = await findMavenBases(hostPath, orgFirstComponent, rd);
       mavenBaseCache.set(cacheKey, mavenBases);
     }
     if (mavenBases.length === 0) continue;
@@ -197,7 +200,7 @@ export function resolveRepositoryUrl(
 
         let versions: string[];
         try {
-          versions = rd(artifactDir);
+          versions = await rd(artifactDir);
         } catch {
           continue;
         }
@@ -207,7 +210,7 @@ export function resolveRepositoryUrl(
 
           let files: string[];
           try {
-            files = rd(versionDir);
+            files = await rd(versionDir);
           } catch {
             continue;
           }
@@ -215,7 +218,7 @@ export function resolveRepositoryUrl(
           const pomFile = files.find((f) => f.endsWith(".pom"));
           if (!pomFile) continue;
 
-          const pomContent = rf(path.join(versionDir, pomFile));
+          const pomContent = await rf(path.join(versionDir, pomFile));
           if (!pomContent) continue;
 
           const url = extractRepositoryUrl(pomContent);
@@ -228,16 +231,12 @@ export function resolveRepositoryUrl(
   return undefined;
 }
 
-function defaultReaddir(dir: string): string[] {
-  const fs = require("node:fs");
-  return fs.readdirSync(dir) as string[];
+/** Lists a directory without blocking the extension host. */
+export function defaultReaddir(dir: string): Promise<string[]> {
+  return fs.promises.readdir(dir);
 }
 
-function defaultReadFile(file: string): string | undefined {
-  const fs = require("node:fs");
-  try {
-    return fs.readFileSync(file, "utf-8") as string;
-  } catch {
-    return undefined;
-  }
+/** Reads a file without blocking the extension host, resolving to `undefined` when it can't be read. */
+export function defaultReadFile(file: string): Promise<string | undefined> {
+  return fs.promises.readFile(file, "utf-8").catch(() => undefined);
 }
@@ -0,0 +1,161 @@
+import { describe, it, expect } from "vitest";
+import {
+  checkGroupsAgainstProjects,
+  checkProjectsAgainstGroups,
+  groupInsertion,
+  groupRemoval,
+  missingGroupOf,
+  orphanGroupOf,
+} from "./project-groups";
+import { parseText, TextRange } from "./parser";
+import { discoverProjects } from "./projects";
+
+const conf = [
+  "sbt-build = [",
+  '  "ch.epfl.scala:sbt-scalafix:0.14.0:sbt-plugin"',
+  "]",
+  "",
+  "common-settings {",
+  "  scala-version = 2.13.12",
+  "}",
+  "",
+  "# Core module",
+  "core = [",
+  '  "org.typelevel::cats-core:2.10.0"',
+  "]",
+  "",
+  "web = []",
+].join("\n");
+
+const buildSbt = [
+  "lazy val core = project",
+  "lazy val `api-client` = (project in file(\"api\"))",
+  'lazy val server = Project("server", file("server"))',
+  "lazy val commonSettings = Seq(scalacOptions += \"-Xfatal-warnings\")",
+];
+
+const projects = discoverProjects([{ path: "build.sbt", lines: buildSbt }]);
+
+/** Applies a deletion of `range` to `text`. */
+function remove(text: string, range: TextRange): string {
+  const lines = text.split("\n");
+  const offset = (line: number, col: number) => lines.slice(0, line).reduce((sum, l) => sum + l.length + 1, 0) + col;
+  return text.slice(0, offset(range.startLine, range.startCol)) + text.slice(offset(range.endLine, range.endCol));
+}
+
+describe("checkGroupsAgainstProjects", () => {
+  it("warns on groups without a project, skipping reserved groups", () => {
+    const results = checkGroupsAgainstProjects(conf.split("\n"), projects);
+    expect(results).toEqual([
+      {
+        message: "Group 'web' has no matching project in build.sbt",
+        severity: "warning",
+        source: "sbt-dependencies",
+        range: { startLine: 13, startCol: 0, endLine: 13, endCol: 3 },
+      },
+    ]);
+  });
+
+  it("checks nothing when build.sbt defines no project", () => {
+    const single = discoverProjects([{ path: "build.sbt", lines: ['name := "single"'] }]);
+    expect(checkGroupsAgainstProjects(conf.split("\n"), single)).toEqual([]);
+  });
+
+  it("checks against the dump's projects when available", () => {
+    const dumped = discoverProjects([{ path: "build.sbt", lines: ['name := "single"'] }], ["web", "common-settings"]);
+    expect(checkGroupsAgainstProjects(conf.split("\n"), dumped).map((r) => r.message)).toEqual([
+      "Group 'core' has no matching project in build.sbt",
+    ]);
+  });
+});
+
+describe("checkProjectsAgainstGroups", () => {
+  it("warns on projects without a group at their name", () => {
+    const results = checkProjectsAgainstGroups(projects, "build.sbt", parseText(conf));
+    expect(results.map((r) => [r.message, r.range])).toEqual([
+      ["Project 'api-client' has no group in dependencies.conf", { startLine: 1, startCol: 10, endLine: 1, endCol: 20 }],
+      ["Project 'server' has no group in dependencies.conf", { startLine: 2, startCol: 9, endLine: 2, endCol: 15 }],
+    ]);
+  });
+
+  it("ignores lazy vals that aren't clearly projects", () => {
+    const helpers = discoverProjects([{ path: "build.sbt", lines: ["lazy val other = module", "lazy val settings = Seq()"] }]);
+    expect(checkProjectsAgainstGroups(helpers, "build.sbt", [])).toEqual([]);
+  });
+
+  it("only checks the definitions of the given file", () => {
+    const files = [
+      { path: "build.sbt", lines: ["lazy val core = project"] },
+      { path: "project/Modules.scala", lines: ["  lazy val web = project"] },
+    ];
+    const results = checkProjectsAgainstGroups(discoverProjects(files), "project/Modules.scala", ["core = []"]);
+    expect(results.map((r) => r.message)).toEqual(["Project 'web' has no group in dependencies.conf"]);
+  });
+
+  it("accepts any name of a cross project read statically", () => {
+    const cross = discoverProjects([{ path: "build.sbt", lines: ["lazy val core = crossProject(JVMPlatform, JSPlatform)"] }]);
+    expect(checkProjectsAgainstGroups(cross, "build.sbt", ["core-jvm = []"])).toEqual([]);
+    expect(checkProjectsAgainstGroups(cross, "build.sbt", []).map((r) => r.message)).toEqual([
+      "Project 'core' has no group in dependencies.conf",
+    ]);
+  });
+
+  it("wants a group for every name the dump confirms", () => {
+    const lines = ["lazy val core = crossProject(JVMPlatform, JSPlatform)"];
+    const cross = discoverProjects([{ path: "build.sbt", lines }], ["core-jvm", "core-js"]);
+    expect(checkProjectsAgainstGroups(cross, "build.sbt", ["core-jvm = []"]).map((r) => [r.message, r.range])).toEqual([
+      ["Project 'core-js' has no group in dependencies.conf", { startLine: 0, startCol: 9, endLine: 0, endCol: 13 }],
+    ]);
+  });
+});
+
+describe("message matchers", () => {
+  it("extract the group or project name", () => {
+    expect(orphanGroupOf("Group 'web' has no matching project in build.sbt")).toBe("web");
+    expect(missingGroupOf("Project 'api-client' has no group in dependencies.conf")).toBe("api-client");
+    expect(orphanGroupOf("Duplicate dependency: x")).toBeUndefined();
+    expect(missingGroupOf("Group 'web' has no matching project in build.sbt")).toBeUndefined();
+  });
+});
+
+describe("groupInsertion", () => {
+  it("inserts before the first group sorting after it, above its comments", () => {
+    expect(groupInsertion(parseText(conf), "api")).toEqual({ line: 8, col: 0, text: "api = []\n\n" });
+    expect(groupInsertion(parseText(conf), "server")).toEqual({ line: 13, col: 0, text: "server = []\n\n" });
+  });
+
+  it("keeps reserved groups first", () => {
+    expect(groupInsertion(parseText("core = []\n"), "common-settings")).toEqual({
+      line: 0,
+      col: 0,
+      text: "common-settings = []\n\n",
+    });
+  });
+
+  it("appends after the last group", () => {
+    expect(groupInsertion(parseText(conf), "zio")).toEqual({ line: 13, col: 8, text: "\n\nzio = []" });
+    expect(groupInsertion(parseText("core = []\n"), "zio")).toEqual({ line: 1, col: 0, text: "\nzio = []\n" });
+    expect(groupInsertion(parseText(""), "zio")).toEqual({ line: 0, col: 0, text: "zio = []\n" });
+  });
+});
+
+describe("groupRemoval", () => {
+  it("removes a group with its comments and the blank lines after it", () => {
+    expect(remove(conf, groupRemoval(parseText(conf), "core")!)).toBe(conf.replace(/# Core module\n[^]*?\]\n\n/, ""));
+  });
+
+  it("removes the last group with the blank lines before it", () => {
+    expect(remove(conf, groupRemoval(parseText(conf), "web")!)).toBe(conf.replace("\n\nweb = []", ""));
+    expect(remove(`${conf}\n`, groupRemoval(parseText(`${conf}\n`), "web")!)).toBe(conf.replace("\n\nweb = []", "\n"));
+    expect(remove("web = []\n", groupRemoval(parseText("web = []\n"), "web")!)).toBe("");
+  });
+
+  it("only removes the group when it shares a line with another one", () => {
+    const text = "a = [] b = []\n";
+    expect(remove(text, groupRemoval(parseText(text), "b")!)).toBe("a = [] \n");
+  });
+
+  it("returns undefined for an unknown group", () => {
+    expect(groupRemoval(parseText(conf), "nope")).toBeUndefined();
+  });
+});
@@ -0,0 +1,138 @@
+import { DiagnosticResult } from "./diagnostics";
+import { groupSortKey, RESERVED } from "./groups";
+import { toDocument, positionAt, rangeOf, DocumentSource, TextRange } from "./parser";
+import { BuildProjects } from "./projects";
+
+/** Text to insert at a zero-based line/column position. */
+export interface TextInsertion {
+  line: number;
+  col: number;
+  text: string;
+}
+
+const orphanGroupPattern = /^Group '([^']+)' has no matching project in build\.sbt$/;
+const missingGroupPattern = /^Project '([^']+)' has no group in dependencies\.conf$/;
+
+/**
+ * Warns on every group of a `dependencies.conf` document with no matching project in the build. The reserved
+ * `sbt-build` and `common-settings` groups never match a project, so they are skipped.
+ *
+ * A build without any known project (a single-project build read statically, as the root project's name isn't written
+ * in `build.sbt`) produces no warnings.
+ */
+export function checkGroupsAgainstProjects(source: DocumentSource, projects: BuildProjects): DiagnosticResult[] {
+  if (projects.names.size === 0) return [];
+
+  const document = toDocument(source);
+  return document.groups
+    .filter((group) => !RESERVED.has(group.name) && !projects.names.has(group.name))
+    .map((group) => ({
+      message: `Group '${group.name}' has no matching project in build.sbt`,
+      severity: "warning",
+      source: "sbt-dependencies",
+      range: rangeOf(document, group.nameSpan),
+    }));
+}
+
+/**
+ * Warns on every project defined in the build file at `file` with no group in the `dependencies.conf` document. Only
+ * certain definitions are checked. A cross project read statically needs a group under any one of its names; when the
+ * names come from the resolutions dump, each of them needs its own.
+ */
+export function checkProjectsAgainstGroups(
+  projects: BuildProjects,
+  file: string,
+  source: DocumentSource
+): DiagnosticResult[] {
+  const groups = new Set(toDocument(source).groups.map((group) => group.name));
+
+  return projects.definitions
+    .filter((definition) => definition.file === file && definition.certain)
+    .flatMap((definition) => {
+      const missing = definition.names.filter((name) => !groups.has(name));
+      const unmatched = projects.fromDump ? missing : missing.length === definition.names.length ? [missing[0]] : [];
+
+      return unmatched.map(
+        (name): DiagnosticResult => ({
+          message: `Project '${name}' has no group in dependencies.conf`,
+          severity: "warning",
+          source: "sbt-dependencies",
+          range: { startLine: definition.line, startCol: definition.startCol, endLine: definition.line, endCol: definition.endCol },
+        })
+      );
+    });
+}
+
+/** The group named by a "no matching project" diagnostic, or `undefined` for any other message. */
+export function orphanGroupOf(message: string): string | undefined {
+  return orphanGroupPattern.exec(message)?.[1];
+}
+
+/** The project named by a "no group" diagnostic, or `undefined` for any other message. */
+export function missingGroupOf(message: string): string | undefined {
+  return missingGroupPattern.exec(message)?.[1];
+}
+
+/**
+ * Where and what to insert to add an empty `name = []` group, keeping the groups in `groupSortKey` order: right before
+ * the first group sorting after it (and any comment lines above that group), or at the end of the document.
+ */
+export function groupInsertion(source: DocumentSource, name: string): TextInsertion {
+  const document = toDocument(source);
+  const group = `${name} = []`;
+
+  const key = groupSortKey(name);
+  const next = document.groups.find((g) => groupSortKey(g.name) > key);
+  if (next) {
+    let line = positionAt(document, next.span.start).line;
+    while (line > 0 && isCommentLine(document.lines[line - 1])) line--;
+    return { line, col: 0, text: `${group}\n\n` };
+  }
+
+  const { text } = document;
+  const end = positionAt(document, text.length);
+  if (text.trim() === "") return { line: end.line, col: end.col, text: `${group}\n` };
+
+  const separator = text.endsWith("\n\n") ? "" : text.endsWith("\n") ? "\n" : "\n\n";
+  return { line: end.line, col: end.col, text: `${separator}${group}${text.endsWith("\n") ? "\n" : ""}` };
+}
+
+/**
+ * The range to delete to remove the group called `name`: its lines, the comment lines right above it and the blank
+ * lines separating it from the next group (or from the previous one when it is the last). Only the group itself is
+ * removed when it shares a line with another group. Returns `undefined` when there is no such group.
+ */
+export function groupRemoval(source: DocumentSource, name: string): TextRange | undefined {
+  const document = toDocument(source);
+  const group = document.groups.find((g) => g.name === name);
+  if (!group) return undefined;
+
+  const { lines, lineStarts, text } = document;
+  let startLine = positionAt(document, group.span.start).line;
+  const endLine = positionAt(document, group.span.end).line;
+
+  const sharesLine = document.groups.some((other) => {
+    if (other === group) return false;
+    const otherStart = positionAt(document, other.span.start).line;
+    const otherEnd = positionAt(document, other.span.end).line;
+    return otherStart <= endLine && otherEnd >= startLine;
+  });
+  if (sharesLine) return rangeOf(document, group.span);
+
+  while (startLine > 0 && isCommentLine(lines[startLine - 1])) startLine--;
+
+  let after = endLine + 1;
+  while (after < lines.length && lines[after].trim() === "") after++;
+  if (after < lines.length) return rangeOf(document, { start: lineStarts[startLine], end: lineStarts[after] });
+
+  while (startLine > 0 && lines[startLine - 1].trim() === "") startLine--;
+  if (startLine === 0) return rangeOf(document, { start: 0, end: text.length });
+  // Keep the previous line's newline as the final one
+  const end = text.endsWith("\n") ? text.length - 1 : text.length;
+  return rangeOf(document, { start: lineStarts[startLine] - 1, end });
+}
+
+function isCommentLine(line: string): boolean {
+  const trimmed = line.trim();
+  return trimmed.startsWith("#") || trimmed.startsWith("//");
+}
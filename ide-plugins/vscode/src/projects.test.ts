@@ -0,0 +1,111 @@
+import { describe, it, expect } from "vitest";
+import { definesProject, discoverProjects, findProjectDefinitions } from "./projects";
+
+describe("findProjectDefinitions", () => {
+  it("finds the forms of a project definition", () => {
+    const lines = [
+      "lazy val core = project",
+      'lazy val api = (project in file("api"))',
+      'lazy val web = project.in(file("web"))',
+      'lazy val server = Project("server", file("server"))',
+      "val cli = project",
+      "lazy val typed: Project = project",
+      "  private lazy val inner = project",
+    ];
+    expect(findProjectDefinitions(lines).map((d) => [d.names, d.line, d.certain])).toEqual([
+      [["core"], 0, true],
+      [["api"], 1, true],
+      [["web"], 2, true],
+      [["server"], 3, true],
+      [["cli"], 4, true],
+      [["typed"], 5, true],
+      [["inner"], 6, true],
+    ]);
+  });
+
+  it("returns the columns of the name without backticks", () => {
+    const [definition] = findProjectDefinitions(["lazy val `api-client` = project"]);
+    expect(definition).toMatchObject({ names: ["api-client"], startCol: 10, endCol: 20 });
+  });
+
+  it("keeps other lazy vals as uncertain and skips other vals", () => {
+    const lines = ["lazy val core = module", "val settings = Seq()", "lazy val x == y"];
+    expect(findProjectDefinitions(lines).map((d) => [d.names, d.certain])).toEqual([[["core"], false]]);
+  });
+
+  it("names crossProject platforms after the val", () => {
+    const lines = [
+      "lazy val core = crossProject(JVMPlatform, JSPlatform, NativePlatform)",
+      "  .crossType(CrossType.Pure)",
+      "lazy val coreJVM = core.jvm",
+      "lazy val coreJS = core.js",
+    ];
+    expect(findProjectDefinitions(lines).map((d) => d.names)).toEqual([["core", "core-jvm", "core-js", "core-native"]]);
+  });
+
+  it("reads platforms from the lines continuing the statement only", () => {
+    const lines = [
+      "lazy val core = crossProject(",
+      "  JSPlatform,",
+      "  JVMPlatform",
+      ")",
+      "  .settings(commonSettings)",
+      "",
+      "lazy val web = crossProject(NativePlatform)",
+    ];
+    expect(findProjectDefinitions(lines).map((d) => d.names)).toEqual([
+      ["core", "core-jvm", "core-js"],
+      ["web", "web-native"],
+    ]);
+  });
+
+  it("names projectMatrix platforms after the val", () => {
+    const lines = ['lazy val core = (projectMatrix in file("core")).jvmPlatform(Seq(scala213)).jsPlatform(Seq(scala213))'];
+    expect(findProjectDefinitions(lines).map((d) => d.names)).toEqual([["core", "core-jvm", "core-js"]]);
+  });
+
+  it("ignores comments", () => {
+    expect(findProjectDefinitions(["// lazy val core = project"])).toEqual([]);
+  });
+});
+
+describe("definesProject", () => {
+  it("tells certain definitions apart", () => {
+    expect(definesProject("lazy val core = project")).toBe(true);
+    expect(definesProject("lazy val core = crossProject(JVMPlatform)")).toBe(true);
+    expect(definesProject("lazy val core = module")).toBe(false);
+    expect(definesProject("lazy val coreJVM = core.jvm")).toBe(false);
+  });
+});
+
+describe("discoverProjects", () => {
+  const files = [
+    { path: "build.sbt", lines: ["lazy val core = crossProject(JVMPlatform, JSPlatform)", "lazy val util = module"] },
+    { path: "project/Build.scala", lines: ["object Build {", "  lazy val docs = project", "}"] },
+  ];
+
+  it("collects the definitions of every file", () => {
+    const projects = discoverProjects(files);
+    expect(projects.fromDump).toBe(false);
+    expect([...projects.names]).toEqual(["core", "core-jvm", "core-js", "util", "docs"]);
+    expect(projects.definitions.map((d) => [d.file, d.line])).toEqual([
+      ["build.sbt", 0],
+      ["build.sbt", 1],
+      ["project/Build.scala", 1],
+    ]);
+  });
+
+  it("prefers the dump's projects, keeping the definitions it confirms", () => {
+    const projects = discoverProjects(files, ["common-settings", "core-jvm", "core-js", "util", "my-root"]);
+    expect(projects.fromDump).toBe(true);
+    expect([...projects.names]).toEqual(["core-jvm", "core-js", "util", "my-root"]);
+    expect(projects.definitions.map((d) => [d.names, d.certain])).toEqual([
+      [["core-jvm", "core-js"], true],
+      [["util"], true],
+    ]);
+  });
+
+  it("ignores a dump with only reserved groups", () => {
+    expect(discoverProjects(files, ["sbt-build"]).fromDump).toBe(false);
+  });
+});
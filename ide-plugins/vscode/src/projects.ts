@@ -0,0 +1,136 @@
+import { RESERVED } from "./groups";
+
+/**
+ * Discovery of the projects of an sbt build, whose names the groups of `dependencies.conf` must match. The build
+ * files are read statically (`*.sbt` at the build root, `project/*.scala`); when sbt has written its resolutions dump
+ * the projects it lists are the ground truth, as it knows every project's actual name.
+ */
+
+/** A definition of one or more projects in a build file. */
+export interface ProjectDefinition {
+  /**
+   * The names its group can have: the val's name, followed for cross projects (`crossProject`, `projectMatrix`) by
+   * one `<name>-<platform>` per platform they build (`core-jvm`, `core-js`, `core-native`).
+   */
+  names: string[];
+  /** The zero-based line of the definition. */
+  line: number;
+  /** The columns of the val's name, without backticks. */
+  startCol: number;
+  endCol: number;
+  /** Whether the definition certainly creates a project; `lazy val core = module(...)` may be a helper building one. */
+  certain: boolean;
+}
+
+/** A file of the build that may define projects. */
+export interface BuildFile {
+  path: string;
+  lines: string[];
+}
+
+/** A project definition and the file holding it. */
+export interface BuildProjectDefinition extends ProjectDefinition {
+  file: string;
+}
+
+/** The projects of a build. */
+export interface BuildProjects {
+  /** Every name a project of the build goes by, not counting the reserved groups. */
+  names: Set<string>;
+  /** The definitions found in the build files. */
+  definitions: BuildProjectDefinition[];
+  /** Whether `names` come from the resolutions dump rather than from reading the build files. */
+  fromDump: boolean;
+}
+
+const definitionPattern =
+  /^(\s*(?:(?:private|override|final)\s+)*(lazy\s+)?val\s+)(?:`([^`]+)`|(\w+))\s*(?::[^=]+)?=(?!=)\s*(.*)$/;
+
+const projectPattern = /^\(?\s*(?:project\b|Project\s*\()/;
+const crossProjectPattern = /^\(?\s*(?:crossProject\b|CrossProject\s*\(|projectMatrix\b)/;
+/** `lazy val coreJVM = core.jvm`: a platform of a cross project defined elsewhere, not a project of its own. */
+const platformAliasPattern = /^\(?\s*(?:`[^`]+`|\w+)\s*\.\s*(?:jvm|js|native)\b/;
+/** `crossProject(JVMPlatform, JSPlatform)` and `projectMatrix.jvmPlatform(...).jsPlatform(...)`. */
+const platformPattern = /\b(JVM|JS|Native)Platform\b|\.(jvm|js|native)Platform\s*\(/g;
+
+/** The indentation of `line`, in characters. */
+function indentOf(line: string): number {
+  return line.length - line.trimStart().length;
+}
+
+/** The text of the statement starting at `line`: the line and its continuation lines (more indented, or chained). */
+function statementAt(lines: string[], line: number): string {
+  const indent = indentOf(lines[line]);
+  let end = line + 1;
+  while (end < lines.length && lines[end].trim() !== "") {
+    const trimmed = lines[end].trimStart();
+    if (indentOf(lines[end]) <= indent && !trimmed.startsWith(".") && !trimmed.startsWith(")")) break;
+    end++;
+  }
+  return lines.slice(line, end).join("\n");
+}
+
+/** The platforms a cross project builds, in `jvm`, `js`, `native` order. */
+function platformsOf(statement: string): string[] {
+  const found = new Set<string>();
+  for (const match of statement.matchAll(platformPattern)) found.add((match[1] ?? match[2]).toLowerCase());
+  return ["jvm", "js", "native"].filter((platform) => found.has(platform));
+}
+
+/**
+ * The project definitions of a build file (`build.sbt`, another `.sbt` file, or a `project/*.scala` file):
+ * `val`s and `lazy val`s set to `project`, `Project(...)`, `crossProject(...)` or `projectMatrix`, in any of their
+ * forms (`(project in file(...))`, `project.in(...)`...). Other `lazy val`s may be project helpers, so they are kept
+ * as uncertain definitions, while aliases of a cross project's platform (`core.jvm`) are skipped.
+ */
+export function findProjectDefinitions(lines: string[]): ProjectDefinition[] {
+  const definitions: ProjectDefinition[] = [];
+
+  for (let i = 0; i < lines.length; i++) {
+    const match = definitionPattern.exec(lines[i]);
+    if (!match) continue;
+
+    const [, prefix, lazy, quoted, plain, rhs] = match;
+    const name = quoted ?? plain;
+    const startCol = prefix.length + (quoted ? 1 : 0);
+    const base = { line: i, startCol, endCol: startCol + name.length };
+
+    if (crossProjectPattern.test(rhs)) {
+      const platforms = platformsOf(statementAt(lines, i));
+      definitions.push({ ...base, names: [name, ...platforms.map((platform) => `${name}-${platform}`)], certain: true });
+    } else if (projectPattern.test(rhs)) {
+      definitions.push({ ...base, names: [name], certain: true });
+    } else if (lazy && !platformAliasPattern.test(rhs)) {
+      definitions.push({ ...base, names: [name], certain: false });
+    }
+  }
+
+  return definitions;
+}
+
+/** Whether a line of a build file certainly defines a project (`lazy val core = project...`). */
+export function definesProject(line: string): boolean {
+  return findProjectDefinitions([line]).some((definition) => definition.certain);
+}
+
+/**
+ * The projects of the build made of `files`. Given the project names of the resolutions dump (`dumpProjects`), those
+ * are the build's projects: definitions keep only the names the dump confirms, and count as certain. Otherwise, or
+ * when the dump only has reserved groups (as the meta-build's), every name of every definition counts.
+ */
+export function discoverProjects(files: BuildFile[], dumpProjects?: string[]): BuildProjects {
+  const definitions = files.flatMap((file) =>
+    findProjectDefinitions(file.lines).map((definition): BuildProjectDefinition => ({ ...definition, file: file.path }))
+  );
+
+  const names = new Set(dumpProjects?.filter((name) => !RESERVED.has(name)));
+  if (names.size === 0) {
+    return { names: new Set(definitions.flatMap((definition) => definition.names)), definitions, fromDump: false };
+  }
+
+  const confirmed = definitions.flatMap((definition): BuildProjectDefinition[] => {
+    const known = definition.names.filter((name) => names.has(name));
+    return known.length > 0 ? [{ ...definition, names: known, certain: true }] : [];
+  });
+  return { names, definitions: confirmed, fromDump: true };
+}
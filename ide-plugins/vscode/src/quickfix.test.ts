@@ -12,6 +12,15 @@ describe("getQuickFixes", () => {
     expect(result).toEqual([{ title: "Remove empty dependency", deleteLineIndex: 7 }]);
   });
 
+  it("offers the suggested setting for an unknown setting", () => {
+    const result = getQuickFixes("Unknown setting 'scala-verison': did you mean 'scala-version'?", 2);
+    expect(result).toEqual([{ title: "Change to 'scala-version'", replacement: "scala-version" }]);
+  });
+
+  it("returns empty array for an unknown setting without suggestion", () => {
+    expect(getQuickFixes("Unknown setting 'foo': expected one of scala-version, scala-versions, java-version, dependencies", 2)).toEqual([]);
+  });
+
   it("returns empty array for unrecognized diagnostic", () => {
     expect(getQuickFixes("Some other message", 0)).toEqual([]);
   });
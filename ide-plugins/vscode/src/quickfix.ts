@@ -1,6 +1,9 @@
 export interface QuickFixDescriptor {
   title: string;
-  deleteLineIndex: number;
+  /** The line to delete, for fixes removing the offending line. */
+  deleteLineIndex?: number;
+  /** The text replacing the diagnostic's range, for fixes rewriting it. */
+  replacement?: string;
 }
 
 const fixableDiagnostics: Record<string, string> = {
@@ -8,6 +11,9 @@ const fixableDiagnostics: Record<string, string> = {
   "Empty dependency string": "Remove empty dependency",
 };
 
+/** Matches the unknown-setting diagnostic when it carries a suggestion. */
+const unknownSettingPattern = /^Unknown setting '[^']*': did you mean '([^']+)'\?$/;
+
 /**
  * Returns quick-fix descriptors for a diagnostic message.
  *
@@ -15,6 +21,9 @@ const fixableDiagnostics: Record<string, string> = {
  * descriptor; otherwise returns an empty array.
  */
 export function getQuickFixes(diagnosticMessage: string, lineIndex: number): QuickFixDescriptor[] {
+  const suggestion = unknownSettingPattern.exec(diagnosticMessage)?.[1];
+  if (suggestion) return [{ title: `Change to '${suggestion}'`, replacement: suggestion }];
+
   const title = fixableDiagnostics[diagnosticMessage];
   if (!title) return [];
   return [{ title, deleteLineIndex: lineIndex }];
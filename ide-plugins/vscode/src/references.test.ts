@@ -254,5 +254,18 @@ describe("findReferences", () => {
       expect(http4sRefs).toHaveLength(1);
       expect(http4sRefs![0].line).toBe(9);
     });
+
+  describe("comments", () => {
+    it("ignores occurrences inside comments", () => {
+      const lines = [
+        'core = [',
+        '  // "org.typelevel::cats-core:{{catsVersion}}"',
+        '  "org.typelevel::cats-core:{{catsVersion}}"',
+        ']',
+      ];
+      expect(findReferences(lines, 2, 35)).toEqual([{ line: 2, startCol: 28, endCol: 43 }]);
+      expect(findReferences(lines, 1, 10)).toBeUndefined();
+    });
+  });
   });
 });
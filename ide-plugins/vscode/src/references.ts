@@ -1,4 +1,6 @@
 import { dependencyPattern } from "./hover";
+import { forEachString } from "./hocon";
+import { toDocument, positionAt, offsetAt, DependenciesDocument, Span, DocumentSource } from "./parser";
 
 export interface ReferenceLocation {
   line: number;
@@ -8,6 +10,66 @@ export interface ReferenceLocation {
 
 const variablePattern = /\{\{(\w+)\}\}/g;
 
+/** The variable or dependency under the cursor. */
+type Entity =
+  | { kind: "variable"; name: string; span: Span }
+  | { kind: "dependency"; key: string; span: Span };
+
+/** The content of every quoted string in the document (keys included), with its start offset. Comments are skipped. */
+function quotedContents(document: DependenciesDocument): { start: number; text: string }[] {
+  const contents: { start: number; text: string }[] = [];
+  forEachString(document.syntax, (node) => {
+    if (!node.quoted) return;
+    contents.push({ start: node.contentSpan.start, text: document.text.slice(node.contentSpan.start, node.contentSpan.end) });
+  });
+  return contents;
+}
+
+/** Runs a global regex over every quoted string, yielding each match with its absolute start offset. */
+function* matchAll(document: DependenciesDocument, pattern: RegExp): Generator<{ match: RegExpExecArray; start: number }> {
+  for (const content of quotedContents(document)) {
+    pattern.lastIndex = 0;
+    let match: RegExpExecArray | null;
+    while ((match = pattern.exec(content.text)) !== null) {
+      yield { match, start: content.start + match.index };
+    }
+  }
+}
+
+/** Finds the variable (checked first) or dependency whose token covers `offset`. */
+function entityAt(document: DependenciesDocument, offset: number): Entity | undefined {
+  for (const { match, start } of matchAll(document, variablePattern)) {
+    if (offset >= start && offset < start + match[0].length) {
+      return { kind: "variable", name: match[1], span: { start, end: start + match[0].length } };
+    }
+  }
+
+  for (const { match, start } of matchAll(document, dependencyPattern)) {
+    if (offset >= start && offset < start + match[0].length) {
+      return { kind: "dependency", key: match[1] + match[2] + match[3], span: { start, end: start + match[0].length } };
+    }
+  }
+
+  return undefined;
+}
+
+/**
+ * Returns the range of the `{{varName}}` token under the cursor and the
+ * variable's name, or `undefined` when the cursor is not on a variable.
+ */
+export function findVariableAt(
+  source: DocumentSource,
+  line: number,
+  column: number
+): { name: string; location: ReferenceLocation } | undefined {
+  const document = toDocument(source);
+  if (line < 0 || line >= document.lines.length) return undefined;
+  const entity = entityAt(document, offsetAt(document, line, column));
+  if (entity?.kind !== "variable") return undefined;
+
+  return { name: entity.name, location: toLocation(document, entity.span) };
+}
+
 /**
  * Finds all references of the entity (variable or dependency) under the
  * cursor at the given line and column.
@@ -18,87 +80,37 @@ const variablePattern = /\{\{(\w+)\}\}/g;
  *   org + separator + artifact, with ranges spanning only the
  *   `org::artifact` portion.
  *
+ * Only quoted strings are searched, so mentions inside comments are ignored.
+ *
  * Returns `undefined` if no entity is found under the cursor.
  */
 export function findReferences(
-  lines: string[],
+  source: DocumentSource,
   line: number,
   column: number
 ): ReferenceLocation[] | undefined {
-  if (line < 0 || line >= lines.length) return undefined;
-
-  const currentLine = lines[line];
+  const document = toDocument(source);
+  if (line < 0 || line >= document.lines.length) return undefined;
+  const entity = entityAt(document, offsetAt(document, line, column));
+  if (!entity) return undefined;
 
-  // Try variable first
-  variablePattern.lastIndex = 0;
-  let varMatch: RegExpExecArray | null;
-  while ((varMatch = variablePattern.exec(currentLine)) !== null) {
-    const matchStart = varMatch.index;
-    const matchEnd = varMatch.index + varMatch[0].length;
-    if (column >= matchStart && column < matchEnd) {
-      const varName = varMatch[1];
-      return collectVariableReferences(lines, varName);
-    }
-  }
-
-  // Try dependency
-  dependencyPattern.lastIndex = 0;
-  let depMatch: RegExpExecArray | null;
-  while ((depMatch = dependencyPattern.exec(currentLine)) !== null) {
-    const matchStart = depMatch.index;
-    const matchEnd = depMatch.index + depMatch[0].length;
-    if (column >= matchStart && column < matchEnd) {
-      const key = depMatch[1] + depMatch[2] + depMatch[3];
-      return collectDependencyReferences(lines, key);
-    }
-  }
-
-  return undefined;
-}
-
-function collectVariableReferences(
-  lines: string[],
-  varName: string
-): ReferenceLocation[] | undefined {
   const results: ReferenceLocation[] = [];
-  const pattern = new RegExp(`\\{\\{${varName}\\}\\}`, "g");
 
-  for (let i = 0; i < lines.length; i++) {
-    pattern.lastIndex = 0;
-    let match: RegExpExecArray | null;
-    while ((match = pattern.exec(lines[i])) !== null) {
-      results.push({
-        line: i,
-        startCol: match.index,
-        endCol: match.index + match[0].length,
-      });
+  if (entity.kind === "variable") {
+    for (const { match, start } of matchAll(document, variablePattern)) {
+      if (match[1] === entity.name) results.push(toLocation(document, { start, end: start + match[0].length }));
     }
-  }
-
-  return results.length > 0 ? results : undefined;
-}
-
-function collectDependencyReferences(
-  lines: string[],
-  key: string
-): ReferenceLocation[] | undefined {
-  const results: ReferenceLocation[] = [];
-
-  for (let i = 0; i < lines.length; i++) {
-    dependencyPattern.lastIndex = 0;
-    let match: RegExpExecArray | null;
-    while ((match = dependencyPattern.exec(lines[i])) !== null) {
+  } else {
+    for (const { match, start } of matchAll(document, dependencyPattern)) {
       const matchKey = match[1] + match[2] + match[3];
-      if (matchKey === key) {
-        const depPortionLength = match[1].length + match[2].length + match[3].length;
-        results.push({
-          line: i,
-          startCol: match.index,
-          endCol: match.index + depPortionLength,
-        });
-      }
+      if (matchKey === entity.key) results.push(toLocation(document, { start, end: start + matchKey.length }));
     }
   }
 
   return results.length > 0 ? results : undefined;
 }
+
+function toLocation(document: DependenciesDocument, span: Span): ReferenceLocation {
+  const start = positionAt(document, span.start);
+  return { line: start.line, startCol: start.col, endCol: positionAt(document, span.end).col };
+}
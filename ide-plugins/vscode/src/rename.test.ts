@@ -1,5 +1,13 @@
 import { describe, it, expect } from "vitest";
-import { prepareVariableRename, computeVariableRenameEdits } from "./rename";
+import {
+  prepareVariableRename,
+  computeVariableRenameEdits,
+  prepareGroupRename,
+  prepareProjectRename,
+  projectRenameError,
+  groupRenameEdits,
+  projectRenameEdits,
+} from "./rename";
 
 describe("prepareVariableRename", () => {
   it("returns name range when cursor is on variable name", () => {
@@ -91,3 +99,153 @@ describe("computeVariableRenameEdits", () => {
     expect(result).toBeUndefined();
   });
 });
+
+describe("prepareGroupRename", () => {
+  const conf = ["core = [", '  "org::art:1.0.0"', "]", '"my-app" {', "  dependencies = []", "}"];
+
+  it("returns the group name under the cursor", () => {
+    expect(prepareGroupRename(conf, 0, 2)).toEqual({
+      name: "core",
+      range: { startLine: 0, startCol: 0, endLine: 0, endCol: 4 },
+    });
+  });
+
+  it("returns the range inside the quotes of a quoted name", () => {
+    expect(prepareGroupRename(conf, 3, 3)!.range).toEqual({ startLine: 3, startCol: 1, endLine: 3, endCol: 7 });
+  });
+
+  it("returns undefined off a group name", () => {
+    expect(prepareGroupRename(conf, 1, 5)).toBeUndefined();
+    expect(prepareGroupRename(conf, 4, 4)).toBeUndefined();
+  });
+});
+
+describe("prepareProjectRename", () => {
+  const build = [
+    'lazy val core = project.in(file("core"))',
+    "lazy val `my-app` = (project in file(\"app\"))",
+    "lazy val commonSettings = Seq()",
+  ];
+
+  it("returns the project name of a lazy val under the cursor", () => {
+    expect(prepareProjectRename(build, 0, 10)).toEqual({
+      name: "core",
+      range: { startLine: 0, startCol: 9, endLine: 0, endCol: 13 },
+    });
+  });
+
+  it("returns the range inside backticks", () => {
+    expect(prepareProjectRename(build, 1, 12)).toEqual({
+      name: "my-app",
+      range: { startLine: 1, startCol: 10, endLine: 1, endCol: 16 },
+    });
+  });
+
+  it("returns undefined off the name or for vals that aren't projects", () => {
+    expect(prepareProjectRename(build, 0, 2)).toBeUndefined();
+    expect(prepareProjectRename(build, 0, 20)).toBeUndefined();
+    expect(prepareProjectRename(build, 2, 12)).toBeUndefined();
+  });
+});
+
+describe("projectRenameError", () => {
+  const conf = ["core = []", "api = []"];
+
+  it("rejects the reserved group names", () => {
+    expect(projectRenameError(conf, "core", "sbt-build")).toBe("'sbt-build' is a reserved group name");
+    expect(projectRenameError(conf, "core", "common-settings")).toBe("'common-settings' is a reserved group name");
+  });
+
+  it("rejects invalid project IDs", () => {
+    expect(projectRenameError(conf, "core", "my app")).toBe("'my app' is not a valid sbt project ID");
+    expect(projectRenameError(conf, "core", "")).toBeDefined();
+  });
+
+  it("rejects names of other groups", () => {
+    expect(projectRenameError(conf, "core", "api")).toBe("A group named 'api' already exists");
+  });
+
+  it("accepts valid names", () => {
+    expect(projectRenameError(conf, "core", "kernel")).toBeUndefined();
+    expect(projectRenameError(conf, "core", "my-core_2")).toBeUndefined();
+    expect(projectRenameError(conf, "core", "core")).toBeUndefined();
+  });
+});
+
+describe("groupRenameEdits", () => {
+  it("renames the group name, inside quotes when quoted", () => {
+    const conf = ["core = []", '"api" {', "}"];
+    expect(groupRenameEdits(conf, "core", "kernel")).toEqual([{ line: 0, startCol: 0, endCol: 4, newText: "kernel" }]);
+    expect(groupRenameEdits(conf, "api", "web")).toEqual([{ line: 1, startCol: 1, endCol: 4, newText: "web" }]);
+  });
+
+  it("returns no edits for a missing group", () => {
+    expect(groupRenameEdits(["core = []"], "api", "web")).toEqual([]);
+  });
+});
+
+describe("projectRenameEdits", () => {
+  function rename(lines: string[], oldName: string, newName: string): string[] {
+    const result = [...lines];
+    const edits = projectRenameEdits(lines, oldName, newName).sort((a, b) => b.line - a.line || b.startCol - a.startCol);
+    for (const e of edits) {
+      result[e.line] = result[e.line].slice(0, e.startCol) + e.newText + result[e.line].slice(e.endCol);
+    }
+    return result;
+  }
+
+  it("renames the lazy val and its references", () => {
+    const build = [
+      'lazy val core = project.in(file("core"))',
+      "lazy val app = project.dependsOn(core % \"test->test\").aggregate(core)",
+      "lazy val js = core.js",
+    ];
+    expect(rename(build, "core", "kernel")).toEqual([
+      'lazy val kernel = project.in(file("core"))',
+      "lazy val app = project.dependsOn(kernel % \"test->test\").aggregate(kernel)",
+      "lazy val js = kernel.js",
+    ]);
+  });
+
+  it("renames project IDs given as strings", () => {
+    const build = ['lazy val core = Project("core", file("core"))', 'lazy val app = project.dependsOn(LocalProject("core"))'];
+    expect(rename(build, "core", "kernel")).toEqual([
+      'lazy val kernel = Project("kernel", file("core"))',
+      'lazy val app = project.dependsOn(LocalProject("kernel"))',
+    ]);
+  });
+
+  it("leaves comments, strings and members of other values alone", () => {
+    const build = [
+      "// core is the base",
+      "/* core",
+      "   core */",
+      'lazy val core = project.settings(name := "core", description := """core""", x := other.core)',
+    ];
+    expect(rename(build, "core", "kernel")).toEqual([
+      "// core is the base",
+      "/* core",
+      "   core */",
+      'lazy val kernel = project.settings(name := "core", description := """core""", x := other.core)',
+    ]);
+  });
+
+  it("writes names that aren't Scala identifiers in backticks", () => {
+    const build = ["lazy val core = project", "lazy val app = project.dependsOn(core)"];
+    expect(rename(build, "core", "my-core")).toEqual([
+      "lazy val `my-core` = project",
+      "lazy val app = project.dependsOn(`my-core`)",
+    ]);
+    expect(rename(build, "core", "type")[0]).toBe("lazy val `type` = project");
+  });
+
+  it("renames backticked names", () => {
+    const build = ["lazy val `my-core` = project", "lazy val app = project.dependsOn(`my-core`)"];
+    expect(rename(build, "my-core", "kernel")).toEqual(["lazy val kernel = project", "lazy val app = project.dependsOn(kernel)"]);
+  });
+
+  it("doesn't treat a quote character literal as a string", () => {
+    const build = ["lazy val core = project", "val q = '\"'; val x = core"];
+    expect(rename(build, "core", "kernel")[1]).toBe("val q = '\"'; val x = kernel");
+  });
+});
@@ -1,4 +1,7 @@
-import { findReferences } from "./references";
+import { RESERVED } from "./groups";
+import { rangeOf, toDocument, DocumentSource } from "./parser";
+import { definesProject } from "./projects";
+import { findReferences, findVariableAt } from "./references";
 
 export interface RenameRange {
   startLine: number;
@@ -18,37 +21,25 @@ export interface RenameResult {
   edits: RenameEdit[];
 }
 
-const variablePattern = /\{\{(\w+)\}\}/g;
-
 /**
  * Checks whether the cursor is on a `{{varName}}` token and returns
  * the range of just the variable name (inside the braces).
  */
 export function prepareVariableRename(
-  lines: string[],
+  source: DocumentSource,
   line: number,
   column: number
 ): RenameRange | undefined {
-  if (line < 0 || line >= lines.length) return undefined;
-
-  const currentLine = lines[line];
-  variablePattern.lastIndex = 0;
-  let match: RegExpExecArray | null;
-
-  while ((match = variablePattern.exec(currentLine)) !== null) {
-    const matchStart = match.index;
-    const matchEnd = match.index + match[0].length;
-    if (column >= matchStart && column < matchEnd) {
-      return {
-        startLine: line,
-        startCol: matchStart + 2,
-        endLine: line,
-        endCol: matchEnd - 2,
-      };
-    }
-  }
+  const variable = findVariableAt(source, line, column);
+  if (!variable) return undefined;
 
-  return undefined;
+  const { location } = variable;
+  return {
+    startLine: location.line,
+    startCol: location.startCol + 2,
+    endLine: location.line,
+    endCol: location.endCol - 2,
+  };
 }
 
 /**
@@ -56,16 +47,17 @@ export function prepareVariableRename(
  * cursor.  Strips `{{` / `}}` from `newName` if the user includes them.
  */
 export function computeVariableRenameEdits(
-  lines: string[],
+  source: DocumentSource,
   line: number,
   column: number,
   newName: string
 ): RenameResult | undefined {
-  if (!prepareVariableRename(lines, line, column)) return undefined;
+  const document = toDocument(source);
+  if (!prepareVariableRename(document, line, column)) return undefined;
 
   const stripped = newName.replace(/^\{\{/, "").replace(/\}\}$/, "");
 
-  const refs = findReferences(lines, line, column);
+  const refs = findReferences(document, line, column);
   if (!refs) return undefined;
 
   const edits: RenameEdit[] = refs.map((r) => ({
@@ -77,3 +69,155 @@ export function computeVariableRenameEdits(
 
   return { edits };
 }
+
+// ── Groups and their projects ───────────────────────────────────────
+
+/** A group or project name under the cursor, with the range to rename (inside quotes or backticks). */
+export interface RenameTarget {
+  name: string;
+  range: RenameRange;
+}
+
+/** Returns the group whose name is under the cursor in `dependencies.conf`. */
+export function prepareGroupRename(source: DocumentSource, line: number, column: number): RenameTarget | undefined {
+  const document = toDocument(source);
+  for (const group of document.groups) {
+    const range = rangeOf(document, group.nameSpan);
+    if (range.startLine === line && column >= range.startCol && column <= range.endCol) {
+      return { name: group.name, range };
+    }
+  }
+  return undefined;
+}
+
+/** Returns the project whose `lazy val` name is under the cursor in `build.sbt`. */
+export function prepareProjectRename(buildSbtLines: string[], line: number, column: number): RenameTarget | undefined {
+  const text = buildSbtLines[line];
+  if (text === undefined || !definesProject(text)) return undefined;
+
+  const name = scalaTokens([text]).find((token) => token.kind === "identifier" && token.text !== "lazy" && token.text !== "val");
+  if (!name || column < name.startCol || column > name.endCol) return undefined;
+
+  const quoted = text[name.startCol] === "`";
+  const startCol = quoted ? name.startCol + 1 : name.startCol;
+  const endCol = quoted ? name.endCol - 1 : name.endCol;
+  return { name: name.text, range: { startLine: line, startCol, endLine: line, endCol } };
+}
+
+/**
+ * Why `newName` can't replace the group/project `oldName`, or `undefined` when it can: the reserved group names,
+ * anything sbt doesn't accept as a project ID, and names another group of `source` already has.
+ */
+export function projectRenameError(source: DocumentSource, oldName: string, newName: string): string | undefined {
+  if (RESERVED.has(newName)) return `'${newName}' is a reserved group name`;
+  if (!/^[A-Za-z0-9_][A-Za-z0-9_-]*$/.test(newName)) return `'${newName}' is not a valid sbt project ID`;
+  if (newName !== oldName && toDocument(source).groups.some((group) => group.name === newName)) {
+    return `A group named '${newName}' already exists`;
+  }
+  return undefined;
+}
+
+/** Renames the group `oldName` of `dependencies.conf`. Its name is edited inside the quotes when quoted. */
+export function groupRenameEdits(source: DocumentSource, oldName: string, newName: string): RenameEdit[] {
+  const document = toDocument(source);
+  return document.groups
+    .filter((group) => group.name === oldName)
+    .map((group) => {
+      const range = rangeOf(document, group.nameSpan);
+      return { line: range.startLine, startCol: range.startCol, endCol: range.endCol, newText: newName };
+    });
+}
+
+/**
+ * Renames the project `oldName` of `build.sbt`: its `lazy val` and every reference to it (`dependsOn(...)`,
+ * `aggregate(...)`, `core.jvm`...), plus the IDs given as `Project("core", ...)` and `LocalProject("core")`. Strings,
+ * comments and members of other values (`other.core`) are left alone, as are `file("core")` paths: the directory
+ * doesn't move. Names that aren't plain Scala identifiers are written in backticks.
+ */
+export function projectRenameEdits(buildSbtLines: string[], oldName: string, newName: string): RenameEdit[] {
+  const identifier = /^[A-Za-z_]\w*$/.test(newName) && !SCALA_KEYWORDS.has(newName) ? newName : `\`${newName}\``;
+
+  return scalaTokens(buildSbtLines).flatMap((token): RenameEdit[] => {
+    if (token.text !== oldName) return [];
+    if (token.kind === "identifier") {
+      return token.afterDot ? [] : [{ line: token.line, startCol: token.startCol, endCol: token.endCol, newText: identifier }];
+    }
+    const before = buildSbtLines[token.line].slice(0, token.startCol - 1);
+    return /\b(?:Local)?Project\s*\(\s*$/.test(before)
+      ? [{ line: token.line, startCol: token.startCol, endCol: token.endCol, newText: newName }]
+      : [];
+  });
+}
+
+const SCALA_KEYWORDS: ReadonlySet<string> = new Set([
+  "abstract", "case", "catch", "class", "def", "do", "else", "enum", "export", "extends", "false", "final",
+  "finally", "for", "forSome", "given", "if", "implicit", "import", "lazy", "match", "new", "null", "object",
+  "override", "package", "private", "protected", "return", "sealed", "super", "then", "this", "throw", "trait",
+  "true", "try", "type", "val", "var", "while", "with", "yield",
+]);
+
+/** An identifier (`core`, `` `my-app` ``) or a single-line string literal of Scala code. */
+interface ScalaToken {
+  kind: "identifier" | "string";
+  /** The identifier without backticks, or the string's contents. */
+  text: string;
+  line: number;
+  /** The columns of the identifier (backticks included) or of the string's contents. */
+  startCol: number;
+  endCol: number;
+  /** Whether the identifier selects a member (`other.core`). */
+  afterDot: boolean;
+}
+
+/**
+ * The identifiers and strings of `lines`, skipping comments and triple-quoted strings. Enough of a lexer for
+ * `build.sbt`, where an escape-free identifier scan is what tells references apart from text.
+ */
+function scalaTokens(lines: string[]): ScalaToken[] {
+  const tokens: ScalaToken[] = [];
+  let inComment = false;
+  let inMultiline = false;
+
+  lines.forEach((text, line) => {
+    let i = 0;
+    while (i < text.length) {
+      if (inComment || inMultiline) {
+        const end = text.indexOf(inComment ? "*/" : '"""', i);
+        if (end === -1) break;
+        i = end + (inComment ? 2 : 3);
+        inComment = inMultiline = false;
+        continue;
+      }
+
+      const char = text[i];
+      if (text.startsWith("//", i)) break;
+      if (text.startsWith("/*", i)) {
+        inComment = true;
+        i += 2;
+      } else if (text.startsWith('"""', i)) {
+        inMultiline = true;
+        i += 3;
+      } else if (char === '"') {
+        let end = i + 1;
+        while (end < text.length && text[end] !== '"') end += text[end] === "\\" ? 2 : 1;
+        tokens.push({ kind: "string", text: text.slice(i + 1, end), line, startCol: i + 1, endCol: end, afterDot: false });
+        i = end + 1;
+      } else if (char === "`" || /[A-Za-z_]/.test(char)) {
+        const end = char === "`" ? text.indexOf("`", i + 1) + 1 || text.length : i + /^[\w$]*/.exec(text.slice(i))![0].length;
+        const name = char === "`" ? text.slice(i + 1, end - 1) : text.slice(i, end);
+        const afterDot = text.slice(0, i).trimEnd().endsWith(".");
+        tokens.push({ kind: "identifier", text: name, line, startCol: i, endCol: end, afterDot });
+        i = end;
+      } else if (char === "'" && /^'(?:\\.|[^\\'])'/.test(text.slice(i))) {
+        // A character literal, so that '"' doesn't open a string
+        i += text[i + 1] === "\\" ? 4 : 3;
+      } else if (/\d/.test(char)) {
+        i += /^[\w.]*/.exec(text.slice(i))![0].length;
+      } else {
+        i++;
+      }
+    }
+  });
+
+  return tokens;
+}
@@ -134,6 +134,13 @@ describe("ResolutionsIndex", () => {
     expect(index.resolveVariable("myproject", "org.typelevel", "cats-effect", false)).toBeUndefined();
   });
 
+  it("lists the variables a group resolved", () => {
+    const index = new ResolutionsIndex(dump, metaDump);
+    expect(index.knownVariables("myproject")).toEqual(new Map([["ceVersion", "3.5.4"]]));
+    expect(index.knownVariables("sbt-build").size).toBe(0);
+    expect(index.knownVariables("nope").size).toBe(0);
+  });
+
   it("exposes hasData and a stale-carrying lookup", () => {
     expect(new ResolutionsIndex(undefined, undefined).hasData).toBe(false);
     const lookup = new ResolutionsIndex(dump, undefined).asLookup(true);
@@ -60,6 +60,8 @@ export interface ResolutionLookup {
   resolveWildcard(group: string, org: string, name: string, isCross: boolean): WildcardResolution | undefined;
   resolveVariable(group: string, org: string, name: string, isCross: boolean): VariableLookupResult | undefined;
   pinFor(group: string, org: string, name: string, isCross: boolean): WildcardResolution | undefined;
+  /** The `{{variable}}` names a group resolved, each with the first version it resolved to. */
+  knownVariables(group: string): Map<string, string>;
   stale: boolean;
 }
 
@@ -109,6 +111,11 @@ export class ResolutionsIndex {
     return this.main !== undefined || this.meta !== undefined;
   }
 
+  /** The loaded dumps, main build's first. */
+  get dumps(): ResolutionsDump[] {
+    return [this.main, this.meta].filter((dump): dump is ResolutionsDump => dump !== undefined);
+  }
+
   /** The SHA-1 of `dependencies.conf` recorded when the dump was written, for staleness checks. */
   get sourceHash(): string | undefined {
     return this.main?.sourceHash ?? this.meta?.sourceHash;
@@ -175,12 +182,21 @@ export class ResolutionsIndex {
     return this.resolveWildcard(group, org, name, isCross);
   }
 
+  knownVariables(group: string): Map<string, string> {
+    const variables = new Map<string, string>();
+    for (const v of this.dumpFor(group)?.projects[group]?.variables ?? []) {
+      if (!variables.has(v.variable)) variables.set(v.variable, v.version);
+    }
+    return variables;
+  }
+
   /** Wraps this index as a {@link ResolutionLookup} carrying the given staleness. */
   asLookup(stale: boolean): ResolutionLookup {
     return {
       resolveWildcard: this.resolveWildcard.bind(this),
       resolveVariable: this.resolveVariable.bind(this),
       pinFor: this.pinFor.bind(this),
+      knownVariables: this.knownVariables.bind(this),
       stale,
     };
   }
@@ -18,6 +18,7 @@ function fakeLookup(stale = false): ResolutionLookup {
       return undefined;
     },
     pinFor: () => undefined,
+    knownVariables: () => new Map(),
     stale,
   };
 }
@@ -1,4 +1,4 @@
-import { walkDocument } from "./parser";
+import { toDocument, positionAt, DocumentSource } from "./parser";
 import { parseDependency } from "./hover";
 import { ResolutionLookup } from "./resolutions";
 
@@ -19,39 +19,34 @@ export interface ResolvedDecorationData {
  *
  * ponytail: plain-string-only — object-form `*`/`{{var}}` deps are rare and covered by hover.
  */
-export function parseResolvedDecorations(lines: string[], lookup: ResolutionLookup): ResolvedDecorationData[] {
+export function parseResolvedDecorations(source: DocumentSource, lookup: ResolutionLookup): ResolvedDecorationData[] {
+  const document = toDocument(source);
   const results: ResolvedDecorationData[] = [];
-  let group: string | undefined;
 
-  for (const event of walkDocument(lines)) {
-    if (event.type === "group-start") {
-      group = event.name;
-      continue;
+  for (const group of document.groups) {
+    for (const entry of group.entries) {
+      if (entry.kind !== "line") continue;
+
+      const dep = parseDependency(entry.content);
+      if (!dep?.version) continue;
+
+      const isCross = dep.separator === "::";
+
+      let version: string | undefined;
+      if (dep.version === "*") {
+        version = lookup.resolveWildcard(group.name, dep.org, dep.artifact, isCross)?.version;
+      } else if (dep.version.startsWith("{{")) {
+        version = lookup.resolveVariable(group.name, dep.org, dep.artifact, isCross)?.version;
+      }
+      if (version === undefined) continue;
+
+      const end = positionAt(document, entry.span.end);
+      results.push({
+        line: end.line,
+        afterCol: end.col,
+        text: ` = ${version}${lookup.stale ? " (stale)" : ""}`,
+      });
     }
-    if (event.type === "group-end") {
-      group = undefined;
-      continue;
-    }
-    if (event.type !== "dependency-string" || group === undefined) continue;
-
-    const dep = parseDependency(event.content);
-    if (!dep?.version) continue;
-
-    const isCross = dep.separator === "::";
-
-    let version: string | undefined;
-    if (dep.version === "*") {
-      version = lookup.resolveWildcard(group, dep.org, dep.artifact, isCross)?.version;
-    } else if (dep.version.startsWith("{{")) {
-      version = lookup.resolveVariable(group, dep.org, dep.artifact, isCross)?.version;
-    }
-    if (version === undefined) continue;
-
-    results.push({
-      line: event.lineIndex,
-      afterCol: event.startCol + event.content.length + 1,
-      text: ` = ${version}${lookup.stale ? " (stale)" : ""}`,
-    });
   }
 
   return results;
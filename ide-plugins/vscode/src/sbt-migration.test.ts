@@ -0,0 +1,157 @@
+import { describe, it, expect } from "vitest";
+import {
+  dependenciesInsertion,
+  findMovableDependencies,
+  movableDependenciesRemoval,
+  movableDependencyDiagnostics,
+} from "./sbt-migration";
+
+const build = [
+  'ThisBuild / libraryDependencies += "org.typelevel" %% "munit-cats-effect" % "2.0.0" % Test',
+  "",
+  "lazy val core = project",
+  "  .settings(",
+  '    libraryDependencies += "org.typelevel" %% "cats-core" % "2.10.0",',
+  "    libraryDependencies ++= Seq(",
+  '      "co.fs2" %% "fs2-core" % "3.10.0",',
+  '      "com.typesafe" % "config" % "1.4.3"',
+  "    )",
+  "  )",
+  "",
+  "lazy val api = (project in file(\"api\"))",
+  "  .settings(",
+  '    libraryDependencies ++= Seq("io.circe" %% "circe-core" % "0.14.6", "io.circe" %% "circe-parser" % "0.14.6"),',
+  '    libraryDependencies += "org.http4s" %% "http4s-core" % http4sVersion',
+  "  )",
+  "",
+  'libraryDependencies += "com.lihaoyi" %% "pprint" % "0.9.0"',
+];
+
+describe("findMovableDependencies", () => {
+  it("assigns settings to their project, ThisBuild ones to common-settings", () => {
+    expect(findMovableDependencies(build, false)).toEqual([
+      {
+        startLine: 0,
+        endLine: 0,
+        group: "common-settings",
+        dependencies: ["org.typelevel::munit-cats-effect:2.0.0:test"],
+      },
+      { startLine: 4, endLine: 4, group: "core", dependencies: ["org.typelevel::cats-core:2.10.0"] },
+      { startLine: 5, endLine: 8, group: "core", dependencies: ["co.fs2::fs2-core:3.10.0", "com.typesafe:config:1.4.3"] },
+      { startLine: 13, endLine: 13, group: "api", dependencies: ["io.circe::circe-core:0.14.6", "io.circe::circe-parser:0.14.6"] },
+    ]);
+  });
+
+  it("leaves versions held in vals and bare root settings next to projects alone", () => {
+    const lines = findMovableDependencies(build, false).map((m) => m.startLine);
+
+    expect(lines).not.toContain(14);
+    expect(lines).not.toContain(17);
+  });
+
+  it("leaves the settings of cross projects alone, having a group per platform", () => {
+    const lines = [
+      "lazy val core = crossProject(JVMPlatform, JSPlatform)",
+      "  .settings(",
+      '    libraryDependencies += "org.typelevel" %% "cats-core" % "2.10.0"',
+      "  )",
+    ];
+    expect(findMovableDependencies(lines, false)).toEqual([]);
+  });
+
+  it("sends bare settings of single-project builds to common-settings", () => {
+    expect(findMovableDependencies(['libraryDependencies += "a" % "b" % "1.0"'], false)).toEqual([
+      { startLine: 0, endLine: 0, group: "common-settings", dependencies: ["a:b:1.0"] },
+    ]);
+  });
+
+  it("sends every meta-build dependency to sbt-build", () => {
+    const plugins = [
+      'addSbtPlugin("org.typelevel" % "sbt-tpolecat" % "0.5.2")',
+      'libraryDependencies += "org.scala-sbt" %% "io" % "1.10.0"',
+    ];
+
+    expect(findMovableDependencies(plugins, true)).toEqual([
+      { startLine: 0, endLine: 0, group: "sbt-build", dependencies: ["org.typelevel:sbt-tpolecat:0.5.2:sbt-plugin"] },
+      { startLine: 1, endLine: 1, group: "sbt-build", dependencies: ["org.scala-sbt::io:1.10.0"] },
+    ]);
+  });
+
+  it("skips a Seq when any element can't move", () => {
+    const lines = ['libraryDependencies ++= Seq(', '  "a" % "b" % "1.0",', '  "c" % "d" % dVersion', ")"];
+
+    expect(findMovableDependencies(lines, false)).toEqual([]);
+  });
+});
+
+describe("movableDependencyDiagnostics", () => {
+  it("reports each statement as information", () => {
+    const [, , seq] = movableDependencyDiagnostics(build, false);
+
+    expect(seq).toEqual({
+      message: "These dependencies can be managed in the 'core' group of dependencies.conf",
+      severity: "information",
+      source: "sbt-dependencies",
+      range: { startLine: 5, startCol: 4, endLine: 8, endCol: 5 },
+    });
+  });
+});
+
+describe("movableDependenciesRemoval", () => {
+  it("deletes whole lines", () => {
+    expect(movableDependenciesRemoval(build, { startLine: 5, endLine: 8, group: "core", dependencies: [] })).toEqual({
+      startLine: 5,
+      startCol: 0,
+      endLine: 9,
+      endCol: 0,
+    });
+  });
+
+  it("takes the previous newline for the last line", () => {
+    expect(movableDependenciesRemoval(["a", "b"], { startLine: 1, endLine: 1, group: "g", dependencies: [] })).toEqual({
+      startLine: 0,
+      startCol: 1,
+      endLine: 1,
+      endCol: 1,
+    });
+  });
+});
+
+describe("dependenciesInsertion", () => {
+  it("appends after the group's last entry, with its indentation", () => {
+    const conf = ["core = [", '  "a:b:1.0"', "]"];
+
+    expect(dependenciesInsertion(conf, "core", ["c:d:2.0"])).toEqual({ line: 1, col: 11, text: '\n  "c:d:2.0"' });
+  });
+
+  it("fills an empty array", () => {
+    expect(dependenciesInsertion(["core = []"], "core", ["c:d:2.0"])).toEqual({ line: 0, col: 8, text: '\n  "c:d:2.0"\n' });
+  });
+
+  it("adds a dependencies setting to advanced groups without one", () => {
+    const conf = ["core {", '  scala-version = "2.13.16"', "}"];
+
+    expect(dependenciesInsertion(conf, "core", ["c:d:2.0"])).toEqual({
+      line: 2,
+      col: 0,
+      text: '  dependencies = [\n    "c:d:2.0"\n  ]\n',
+    });
+  });
+
+  it("creates the group at its sorted position", () => {
+    const conf = ["sbt-build = [", '  "p:q:1.0:sbt-plugin"', "]", "", "zeta = []"];
+
+    expect(dependenciesInsertion(conf, "core", ["c:d:2.0"])).toEqual({
+      line: 4,
+      col: 0,
+      text: 'core = [\n  "c:d:2.0"\n]\n\n',
+    });
+  });
+
+  it("skips dependencies the group already declares", () => {
+    const conf = ["core = [", '  { dependency = "a:b:1.0", note = "x" }', "]"];
+
+    expect(dependenciesInsertion(conf, "core", ["a:b:1.0"])).toBeUndefined();
+    expect(dependenciesInsertion(conf, "core", ["a:b:1.0", "c:d:2.0"])?.text).toBe('\n  "c:d:2.0"');
+  });
+});
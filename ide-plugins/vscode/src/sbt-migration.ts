@@ -0,0 +1,186 @@
+import { DiagnosticResult } from "./diagnostics";
+import { convertSbtDependency } from "./formatting";
+import { COMMON_SETTINGS, SBT_BUILD } from "./groups";
+import { dependencyOf, positionAt, toDocument, DocumentSource, TextRange } from "./parser";
+import { groupInsertion, TextInsertion } from "./project-groups";
+import { definesProject, findProjectDefinitions } from "./projects";
+
+/**
+ * Finds the `libraryDependencies` and `addSbtPlugin` settings of `.sbt` files that `dependencies.conf` could declare
+ * instead, and computes the edits moving them there.
+ */
+
+/** A setting of a `.sbt` file whose dependencies can move to a `dependencies.conf` group. */
+export interface MovableDependencies {
+  /** The zero-based lines of the statement (inclusive). */
+  startLine: number;
+  endLine: number;
+  /** The group the dependencies belong to: the project's, `common-settings` or `sbt-build`. */
+  group: string;
+  /** The dependencies in `dependencies.conf` format. */
+  dependencies: string[];
+}
+
+const thisBuildPrefix = /^(\s*)ThisBuild\s*\/\s*/;
+const seqStartPattern = /^\s*libraryDependencies\s*\+\+=\s*Seq\(\s*$/;
+const seqLinePattern = /^\s*libraryDependencies\s*\+\+=\s*Seq\((.*)\)\s*,?\s*$/;
+const seqEndPattern = /^\s*\)\s*,?\s*$/;
+
+/** A dependency of the `.sbt` file in `dependencies.conf` format, or `undefined` for anything the plugin can't hold. */
+function convert(text: string): string | undefined {
+  const dependency = convertSbtDependency(text);
+  // Versions held in Scala vals would need a variable defined in the build first
+  return dependency && !dependency.includes("{{") ? dependency : undefined;
+}
+
+/** Converts every element of a `Seq(...)`, or returns `undefined` when any can't move. */
+function convertAll(elements: string[]): string[] | undefined {
+  const dependencies = elements.filter((e) => e.trim() !== "").map((e) => convert(e.replace(/,\s*$/, "")));
+  return dependencies.length > 0 && dependencies.every((d) => d !== undefined) ? (dependencies as string[]) : undefined;
+}
+
+/**
+ * The dependency settings of a `.sbt` file that can move to `dependencies.conf`: single-line
+ * `libraryDependencies +=`, `libraryDependencies ++= Seq(...)` on one or several lines, and `addSbtPlugin(...)`.
+ *
+ * In the meta-build (`meta`, a `project/*.sbt` file) everything goes to `sbt-build`. Otherwise settings inside a
+ * project definition go to that project's group, and `ThisBuild /` settings to `common-settings`, as do bare settings
+ * in builds without project definitions. Bare settings next to project definitions only apply to the root project,
+ * whose group name can't be told, so they are left alone, as are versions held in Scala vals.
+ */
+export function findMovableDependencies(lines: string[], meta: boolean): MovableDependencies[] {
+  const hasProjects = lines.some(definesProject);
+  const results: MovableDependencies[] = [];
+  let project: string | undefined;
+
+  for (let i = 0; i < lines.length; i++) {
+    const line = lines[i];
+
+    // A statement starting at column 0 ends the previous definition
+    if (/^[^\s.)]/.test(line) && !line.startsWith("//")) {
+      // Cross projects build one group per platform, so their settings have no single group to go to
+      const definition = findProjectDefinitions([line]).find((d) => d.certain);
+      project = definition?.names.length === 1 ? definition.names[0] : undefined;
+    }
+
+    const thisBuild = thisBuildPrefix.test(line);
+    const statement = line.replace(thisBuildPrefix, "$1");
+    const plugin = /^\s*addSbtPlugin\s*\(/.test(statement);
+
+    let group: string | undefined;
+    if (meta) group = SBT_BUILD;
+    else if (plugin) group = undefined;
+    else if (thisBuild) group = COMMON_SETTINGS;
+    else if (project && /^\s/.test(line)) group = project;
+    else if (!hasProjects) group = COMMON_SETTINGS;
+    if (!group) continue;
+
+    if (seqStartPattern.test(statement)) {
+      let end = i + 1;
+      while (end < lines.length && !seqEndPattern.test(lines[end])) end++;
+      if (end === lines.length) continue;
+
+      const dependencies = convertAll(lines.slice(i + 1, end));
+      if (dependencies) results.push({ startLine: i, endLine: end, group, dependencies });
+      i = end;
+      continue;
+    }
+
+    const seq = seqLinePattern.exec(statement);
+    if (seq) {
+      const dependencies = convertAll(seq[1].split(","));
+      if (dependencies) results.push({ startLine: i, endLine: i, group, dependencies });
+      continue;
+    }
+
+    if (!plugin && !/^\s*libraryDependencies\s*\+=/.test(statement)) continue;
+    const dependency = convert(statement);
+    if (dependency) results.push({ startLine: i, endLine: i, group, dependencies: [dependency] });
+  }
+
+  return results;
+}
+
+/** The message of the diagnostic on a movable setting. */
+export function movableDependenciesMessage(movable: MovableDependencies): string {
+  const subject = movable.dependencies.length === 1 ? "This dependency" : "These dependencies";
+  return `${subject} can be managed in the '${movable.group}' group of dependencies.conf`;
+}
+
+/** An information diagnostic on every setting of the `.sbt` file that can move to `dependencies.conf`. */
+export function movableDependencyDiagnostics(lines: string[], meta: boolean): DiagnosticResult[] {
+  return findMovableDependencies(lines, meta).map((movable) => ({
+    message: movableDependenciesMessage(movable),
+    severity: "information",
+    source: "sbt-dependencies",
+    range: {
+      startLine: movable.startLine,
+      startCol: lines[movable.startLine].length - lines[movable.startLine].trimStart().length,
+      endLine: movable.endLine,
+      endCol: lines[movable.endLine].length,
+    },
+  }));
+}
+
+/** The range deleting the statement's lines from the `.sbt` file, line terminators included. */
+export function movableDependenciesRemoval(lines: string[], movable: MovableDependencies): TextRange {
+  if (movable.endLine + 1 < lines.length) {
+    return { startLine: movable.startLine, startCol: 0, endLine: movable.endLine + 1, endCol: 0 };
+  }
+  // Last line of the file: take the newline before it instead
+  if (movable.startLine === 0) {
+    return { startLine: 0, startCol: 0, endLine: movable.endLine, endCol: lines[movable.endLine].length };
+  }
+  const previous = movable.startLine - 1;
+  return { startLine: previous, startCol: lines[previous].length, endLine: movable.endLine, endCol: lines[movable.endLine].length };
+}
+
+/**
+ * Where and what to insert in `dependencies.conf` to add `dependencies` to `group`: after its last entry, inside its
+ * empty array, as a new `dependencies` setting of an advanced group without one, or in a new group at its sorted
+ * position. Dependencies the group already declares are skipped; returns `undefined` when none is left.
+ */
+export function dependenciesInsertion(
+  source: DocumentSource,
+  group: string,
+  dependencies: string[]
+): TextInsertion | undefined {
+  const document = toDocument(source);
+  const target = document.groups.find((g) => g.name === group);
+  const declared = new Set(target?.entries.map((entry) => dependencyOf(entry)?.value));
+  const added = dependencies.filter((dependency, index) => !declared.has(dependency) && dependencies.indexOf(dependency) === index);
+  if (added.length === 0) return undefined;
+
+  const lineIndent = (offset: number) => {
+    const line = document.lines[positionAt(document, offset).line];
+    return line.slice(0, line.length - line.trimStart().length);
+  };
+  const block = (indent: string) => added.map((dependency) => `${indent}"${dependency}"`).join("\n");
+
+  if (!target) {
+    const insertion = groupInsertion(document, group);
+    return { ...insertion, text: insertion.text.replace(`${group} = []`, `${group} = [\n${block("  ")}\n]`) };
+  }
+
+  const array = target.dependencies;
+  if (array && array.elements.length > 0) {
+    const last = array.elements[array.elements.length - 1].span;
+    const { line, col } = positionAt(document, last.end);
+    return { line, col, text: `\n${block(lineIndent(last.start))}` };
+  }
+
+  if (array) {
+    const indent = lineIndent(array.span.start);
+    const { line, col } = positionAt(document, array.span.start + 1);
+    return { line, col, text: `\n${block(`${indent}  `)}\n${indent}` };
+  }
+
+  // Advanced group without a `dependencies` setting: add one before its closing brace
+  const indent = lineIndent(target.span.start);
+  const close = positionAt(document, target.span.end - 1);
+  const setting = `${indent}  dependencies = [\n${block(`${indent}    `)}\n${indent}  ]\n`;
+  if (document.lines[close.line].slice(0, close.col).trim() !== "") {
+    return { line: close.line, col: close.col, text: `\n${setting}${indent}` };
+  }
+  return { line: close.line, col: 0, text: setting };
+}
@@ -0,0 +1,181 @@
+import * as fs from "node:fs";
+import * as net from "node:net";
+import * as os from "node:os";
+import * as path from "node:path";
+import { afterEach, beforeEach, describe, it, expect } from "vitest";
+import {
+  activeJsonPath,
+  connectToSbtServer,
+  decodeMessages,
+  encodeMessage,
+  JsonRpcMessage,
+  logLines,
+  parseActiveJson,
+  SbtServerClient,
+} from "./sbt-server";
+
+describe("parseActiveJson", () => {
+  it("reads Unix domain sockets", () => {
+    expect(parseActiveJson('{"uri":"local:///home/me/.sbt/1.0/server/abc/sock"}')).toBe("/home/me/.sbt/1.0/server/abc/sock");
+  });
+
+  it("reads Windows named pipes", () => {
+    expect(parseActiveJson('{"uri":"local:sbt-server-abc"}')).toBe("\\\\.\\pipe\\sbt-server-abc");
+  });
+
+  it("ignores TCP servers and invalid files", () => {
+    expect(parseActiveJson('{"uri":"tcp://127.0.0.1:5010"}')).toBeUndefined();
+    expect(parseActiveJson("{")).toBeUndefined();
+    expect(parseActiveJson("{}")).toBeUndefined();
+  });
+});
+
+describe("decodeMessages", () => {
+  it("decodes the messages encodeMessage frames", () => {
+    const bytes = Buffer.concat([encodeMessage({ id: 1, result: "ü" }), encodeMessage({ method: "x" })]);
+
+    expect(decodeMessages(bytes)).toEqual({ messages: [{ id: 1, result: "ü" }, { method: "x" }], rest: Buffer.alloc(0) });
+  });
+
+  it("keeps incomplete messages for later", () => {
+    const bytes = encodeMessage({ id: 1 });
+    const { messages, rest } = decodeMessages(bytes.subarray(0, bytes.length - 2));
+
+    expect(messages).toEqual([]);
+    expect(decodeMessages(Buffer.concat([rest, bytes.subarray(bytes.length - 2)])).messages).toEqual([{ id: 1 }]);
+  });
+});
+
+describe("logLines", () => {
+  it("prefixes every line with its level", () => {
+    expect(logLines({ type: 2, message: "a\nb" })).toEqual(["[warn] a", "[warn] b"]);
+    expect(logLines({ message: "c" })).toEqual(["[info] c"]);
+  });
+});
+
+// ── Fake server ─────────────────────────────────────────────────────
+
+type Handler = (message: JsonRpcMessage, send: (message: object) => void) => void;
+
+describe("SbtServerClient", () => {
+  let dir: string;
+  let server: net.Server;
+  let received: Pick<JsonRpcMessage, "method" | "params">[];
+
+  const listen = (handler: Handler): Promise<string> => {
+    const socketPath = path.join(dir, "sock");
+    server = net.createServer((socket) => {
+      let buffer: Buffer = Buffer.alloc(0);
+      const send = (message: object) => socket.write(encodeMessage({ jsonrpc: "2.0", ...message }));
+      socket.on("data", (data: Buffer) => {
+        const { messages, rest } = decodeMessages(Buffer.concat([buffer, data]));
+        buffer = rest;
+        for (const message of messages) {
+          received.push({ method: message.method, params: message.params });
+          if (message.method === "initialize") send({ id: message.id, result: { capabilities: {} } });
+          else handler(message, send);
+        }
+      });
+    });
+    return new Promise((resolve) => server.listen(socketPath, () => resolve(socketPath)));
+  };
+
+  beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), "sbt-server-"));
+    received = [];
+  });
+
+  afterEach(async () => {
+    await new Promise((resolve) => (server ? server.close(resolve) : resolve(undefined)));
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  it("runs commands, forwarding logs and diagnostics until the response", async () => {
+    const socketPath = await listen((message, send) => {
+      send({ method: "window/logMessage", params: { type: 3, message: "↻ Updating dependencies for `core`" } });
+      send({
+        method: "build/publishDiagnostics",
+        params: { uri: "file:///b/build.sbt", diagnostics: [], reset: true },
+      });
+      send({ id: message.id, result: { status: "Done", exitCode: 0 } });
+    });
+
+    const client = await SbtServerClient.connect(socketPath);
+    const logs: string[] = [];
+    const uris: string[] = [];
+    const result = await client.exec("core/updateDependencies", {
+      onLog: (line) => logs.push(line),
+      onDiagnostics: (d) => uris.push(d.uri),
+    });
+    client.close();
+
+    expect(result).toEqual({ status: "done" });
+    expect(logs).toEqual(["[info] ↻ Updating dependencies for `core`"]);
+    expect(uris).toEqual(["file:///b/build.sbt"]);
+    expect(received.map((m) => m.method)).toEqual(["initialize", "sbt/exec"]);
+    expect(received[1].params).toEqual({ commandLine: "core/updateDependencies" });
+  });
+
+  it("reports failed commands", async () => {
+    const socketPath = await listen((message, send) => {
+      send({ id: message.id, error: { code: -32603, message: "Not a valid command: nope" } });
+    });
+
+    const client = await SbtServerClient.connect(socketPath);
+    const result = await client.exec("nope");
+    client.close();
+
+    expect(result).toEqual({ status: "failed", message: "Not a valid command: nope" });
+  });
+
+  it("cancels running commands", async () => {
+    let execId: JsonRpcMessage["id"];
+    const socketPath = await listen((message, send) => {
+      if (message.method === "sbt/exec") execId = message.id;
+      if (message.method === "sbt/cancelRequest") send({ id: execId, error: { code: -32800, message: "cancelled" } });
+    });
+
+    const client = await SbtServerClient.connect(socketPath);
+    const controller = new AbortController();
+    const running = client.exec("updateDependencies", {}, controller.signal);
+    setTimeout(() => controller.abort(), 20);
+    const result = await running;
+    client.close();
+
+    expect(result).toEqual({ status: "cancelled" });
+    expect(received[received.length - 1]).toEqual({ method: "sbt/cancelRequest", params: { id: String(execId) } });
+  });
+
+  it("fails pending commands when the server goes away", async () => {
+    const socketPath = await listen((_, __) => {
+      for (const connection of connections) connection.destroy();
+    });
+    const connections: net.Socket[] = [];
+    server.on("connection", (socket) => connections.push(socket));
+
+    const client = await SbtServerClient.connect(socketPath);
+    const result = await client.exec("updateDependencies");
+
+    expect(result.status).toBe("failed");
+  });
+
+  it("connects through the build's active.json", async () => {
+    const socketPath = await listen(() => {});
+    fs.mkdirSync(path.dirname(activeJsonPath(dir)), { recursive: true });
+    fs.writeFileSync(activeJsonPath(dir), JSON.stringify({ uri: `local://${socketPath}` }));
+
+    const client = await connectToSbtServer(dir);
+    client?.close();
+
+    expect(client).toBeInstanceOf(SbtServerClient);
+  });
+
+  it("returns undefined without a running server", async () => {
+    expect(await connectToSbtServer(dir)).toBeUndefined();
+
+    fs.mkdirSync(path.dirname(activeJsonPath(dir)), { recursive: true });
+    fs.writeFileSync(activeJsonPath(dir), JSON.stringify({ uri: `local://${path.join(dir, "stale")}` }));
+
+    expect(await connectToSbtServer(dir)).toBeUndefined();
+  });
+});
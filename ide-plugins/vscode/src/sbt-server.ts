@@ -0,0 +1,278 @@
+import * as fs from "node:fs";
+import * as net from "node:net";
+import * as path from "node:path";
+
+/** A position in a document reported by the sbt server, zero-based like LSP's. */
+export interface ServerPosition {
+  line: number;
+  character: number;
+}
+
+/** One diagnostic of a `build/publishDiagnostics` (or `textDocument/publishDiagnostics`) notification. */
+export interface ServerDiagnostic {
+  range: { start: ServerPosition; end: ServerPosition };
+  /** LSP severity: `1` error, `2` warning, `3` information, `4` hint. */
+  severity?: number;
+  message: string;
+  source?: string;
+}
+
+/** The diagnostics the sbt server published for one file, replacing (when `reset`) the previous ones. */
+export interface ServerDiagnostics {
+  uri: string;
+  diagnostics: ServerDiagnostic[];
+  reset?: boolean;
+}
+
+/** How an `sbt/exec` request ended. */
+export interface SbtExecResult {
+  status: "done" | "failed" | "cancelled";
+  /** The server's error message, for failed commands. */
+  message?: string;
+}
+
+/** Callbacks for the notifications the server sends while a command runs. */
+export interface SbtExecListener {
+  /** A `window/logMessage` line, already prefixed with its level (`[info] ...`) like sbt's own output. */
+  onLog?(line: string): void;
+  onDiagnostics?(diagnostics: ServerDiagnostics): void;
+}
+
+/** A JSON-RPC message of the sbt server connection, in either direction. */
+export interface JsonRpcMessage {
+  jsonrpc: "2.0";
+  id?: number | string;
+  method?: string;
+  params?: unknown;
+  result?: unknown;
+  error?: { code: number; message: string };
+}
+
+/** JSON-RPC error code of a request the client cancelled. */
+const requestCancelled = -32800;
+
+/** How long to wait for the server to accept the connection and answer `initialize`. */
+const connectTimeoutMs = 3000;
+
+const logLevels: Record<number, string> = { 1: "error", 2: "warn", 3: "info", 4: "debug" };
+
+// ── Discovery ───────────────────────────────────────────────────────
+
+/** Where sbt writes the URI of its running server, relative to the build root. */
+export function activeJsonPath(buildRoot: string): string {
+  return path.join(buildRoot, "project", "target", "active.json");
+}
+
+/**
+ * The socket path to connect to from the contents of `active.json`: a Unix domain socket for `local:///path`, or a
+ * named pipe for Windows' `local:name`. Returns `undefined` for anything else, including the legacy `tcp://` servers
+ * that require a token.
+ */
+export function parseActiveJson(text: string): string | undefined {
+  let uri: unknown;
+  try {
+    uri = (JSON.parse(text) as { uri?: unknown }).uri;
+  } catch {
+    return undefined;
+  }
+  if (typeof uri !== "string") return undefined;
+
+  if (uri.startsWith("local://")) return decodeURIComponent(uri.slice("local://".length));
+  if (uri.startsWith("local:")) return `\\\\.\\pipe\\${uri.slice("local:".length)}`;
+  return undefined;
+}
+
+// ── Framing ─────────────────────────────────────────────────────────
+
+/** Frames a JSON-RPC message with the `Content-Length` header the sbt server (like any LSP server) expects. */
+export function encodeMessage(message: object): Buffer {
+  const body = Buffer.from(JSON.stringify(message), "utf-8");
+  return Buffer.concat([Buffer.from(`Content-Length: ${body.length}\r\n\r\n`, "ascii"), body]);
+}
+
+/**
+ * Splits the complete messages off the front of `buffer`, returning them with the bytes of the incomplete message
+ * that follows (if any). Bodies that aren't valid JSON are skipped.
+ */
+export function decodeMessages(buffer: Buffer): { messages: JsonRpcMessage[]; rest: Buffer } {
+  const messages: JsonRpcMessage[] = [];
+  let rest = buffer;
+
+  for (;;) {
+    const headerEnd = rest.indexOf("\r\n\r\n");
+    if (headerEnd === -1) break;
+
+    const length = /Content-Length:\s*(\d+)/i.exec(rest.subarray(0, headerEnd).toString("ascii"));
+    if (!length) {
+      rest = rest.subarray(headerEnd + 4);
+      continue;
+    }
+
+    const start = headerEnd + 4;
+    const end = start + Number(length[1]);
+    if (rest.length < end) break;
+
+    try {
+      messages.push(JSON.parse(rest.subarray(start, end).toString("utf-8")) as JsonRpcMessage);
+    } catch {
+      // Not JSON: drop it and keep reading
+    }
+    rest = rest.subarray(end);
+  }
+
+  return { messages, rest };
+}
+
+/** The lines of a `window/logMessage` notification, prefixed with their level the way sbt prints them. */
+export function logLines(params: { type?: number; message?: string }): string[] {
+  const level = logLevels[params.type ?? 3] ?? "info";
+  return (params.message ?? "").split(/\r?\n/).map((line) => `[${level}] ${line}`);
+}
+
+// ── Client ──────────────────────────────────────────────────────────
+
+/**
+ * A connection to a running sbt server. Commands are sent as `sbt/exec` requests, whose response arrives once the
+ * command finished; the log and diagnostics notifications received meanwhile go to that command's listener.
+ */
+export class SbtServerClient {
+  private buffer: Buffer = Buffer.alloc(0);
+  private nextId = 1;
+  private readonly pending = new Map<number | string, (message: JsonRpcMessage) => void>();
+  private listener: SbtExecListener | undefined;
+  private closed = false;
+
+  private constructor(private readonly socket: net.Socket) {
+    socket.on("data", (data: Buffer) => this.receive(data));
+    socket.on("close", () => this.fail("The sbt server closed the connection"));
+    socket.on("error", (error) => this.fail(error.message));
+  }
+
+  /**
+   * Connects to the server listening on `socketPath` and initializes the session. Rejects when nothing listens there
+   * (sbt left a stale `active.json` behind) or the server doesn't answer in time.
+   */
+  static connect(socketPath: string): Promise<SbtServerClient> {
+    return new Promise((resolve, reject) => {
+      const socket = net.createConnection(socketPath);
+      const timer = setTimeout(() => {
+        socket.destroy();
+        reject(new Error("Timed out connecting to the sbt server"));
+      }, connectTimeoutMs);
+
+      socket.once("error", (error) => {
+        clearTimeout(timer);
+        reject(error);
+      });
+      socket.once("connect", () => {
+        const client = new SbtServerClient(socket);
+        client
+          .request("initialize", { initializationOptions: { skipAnalysis: true } })
+          .then((response) => {
+            clearTimeout(timer);
+            if (response.error) throw new Error(response.error.message);
+            resolve(client);
+          })
+          .catch((error: Error) => {
+            clearTimeout(timer);
+            client.close();
+            reject(error);
+          });
+      });
+    });
+  }
+
+  /**
+   * Runs `commandLine` (`updateDependencies`, `core/install org::name:1.0.0`, `reload`...) and resolves once the
+   * server reports it finished. Aborting `signal` sends `sbt/cancelRequest` and resolves with `"cancelled"`.
+   */
+  async exec(commandLine: string, listener: SbtExecListener = {}, signal?: AbortSignal): Promise<SbtExecResult> {
+    if (signal?.aborted) return { status: "cancelled" };
+
+    this.listener = listener;
+    const id = this.nextId;
+    const onAbort = () => this.notify("sbt/cancelRequest", { id: String(id) });
+    signal?.addEventListener("abort", onAbort, { once: true });
+
+    try {
+      const response = await this.request("sbt/exec", { commandLine });
+      if (signal?.aborted || response.error?.code === requestCancelled) return { status: "cancelled" };
+      if (response.error) return { status: "failed", message: response.error.message };
+
+      const exitCode = (response.result as { exitCode?: number } | undefined)?.exitCode;
+      return exitCode !== undefined && exitCode !== 0 ? { status: "failed" } : { status: "done" };
+    } catch (error) {
+      if (signal?.aborted) return { status: "cancelled" };
+      return { status: "failed", message: (error as Error).message };
+    } finally {
+      signal?.removeEventListener("abort", onAbort);
+      this.listener = undefined;
+    }
+  }
+
+  /** Closes the connection, leaving the server running. */
+  close(): void {
+    this.closed = true;
+    this.socket.end();
+  }
+
+  private request(method: string, params: object): Promise<JsonRpcMessage> {
+    if (this.closed) return Promise.reject(new Error("The sbt server connection is closed"));
+
+    const id = this.nextId++;
+    return new Promise((resolve) => {
+      this.pending.set(id, resolve);
+      this.socket.write(encodeMessage({ jsonrpc: "2.0", id, method, params }));
+    });
+  }
+
+  private notify(method: string, params: object): void {
+    if (!this.closed) this.socket.write(encodeMessage({ jsonrpc: "2.0", method, params }));
+  }
+
+  private receive(data: Buffer): void {
+    const { messages, rest } = decodeMessages(Buffer.concat([this.buffer, data]));
+    this.buffer = rest;
+
+    for (const message of messages) {
+      if (message.id !== undefined && message.method === undefined) {
+        // sbt echoes numeric ids back as strings in some versions
+        const key = this.pending.has(message.id) ? message.id : Number(message.id);
+        this.pending.get(key)?.(message);
+        this.pending.delete(key);
+      } else if (message.method === "window/logMessage") {
+        for (const line of logLines(message.params as { type?: number; message?: string })) this.listener?.onLog?.(line);
+      } else if (message.method === "build/publishDiagnostics" || message.method === "textDocument/publishDiagnostics") {
+        this.listener?.onDiagnostics?.(message.params as ServerDiagnostics);
+      }
+    }
+  }
+
+  private fail(reason: string): void {
+    this.closed = true;
+    for (const resolve of this.pending.values()) {
+      resolve({ jsonrpc: "2.0", error: { code: -32603, message: reason } });
+    }
+    this.pending.clear();
+  }
+}
+
+/**
+ * Connects to the sbt server of the build at `buildRoot`, if one is running. Returns `undefined` when there is no
+ * `active.json` or nothing answers at the socket it names.
+ */
+export async function connectToSbtServer(buildRoot: string): Promise<SbtServerClient | undefined> {
+  let socketPath: string | undefined;
+  try {
+    socketPath = parseActiveJson(fs.readFileSync(activeJsonPath(buildRoot), "utf-8"));
+  } catch {
+    return undefined;
+  }
+  if (!socketPath) return undefined;
+
+  try {
+    return await SbtServerClient.connect(socketPath);
+  } catch {
+    return undefined;
+  }
+}
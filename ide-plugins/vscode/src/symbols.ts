@@ -1,4 +1,4 @@
-import { walkDocument, objectDepFieldPattern } from "./parser";
+import { toDocument, dependencyOf, rangeOf, DocumentSource } from "./parser";
 
 export interface ParsedSymbol {
   name: string;
@@ -13,62 +13,18 @@ export interface ParsedSymbol {
  *
  * Supports both plain string entries and object entries with `dependency` and `note` fields.
  */
-export function parseDocumentSymbols(lines: string[]): ParsedSymbol[] {
-  const symbols: ParsedSymbol[] = [];
-  let currentGroup: ParsedSymbol | undefined;
+export function parseDocumentSymbols(source: DocumentSource): ParsedSymbol[] {
+  const document = toDocument(source);
 
-  for (const event of walkDocument(lines)) {
-    switch (event.type) {
-      case "group-start": {
-        currentGroup = {
-          name: event.name,
-          kind: "group",
-          range: { startLine: event.lineIndex, startCol: event.startCol, endLine: event.lineIndex, endCol: event.nameEndCol },
-          children: [],
-        };
-        break;
-      }
-      case "group-end": {
-        if (currentGroup) {
-          currentGroup.range.endLine = event.lineIndex;
-          currentGroup.range.endCol = event.rawLine.length;
-          symbols.push(currentGroup);
-          currentGroup = undefined;
-        }
-        break;
-      }
-      case "dependency-string": {
-        if (currentGroup) {
-          currentGroup.children!.push({
-            name: event.content,
-            kind: "dependency",
-            range: { startLine: event.lineIndex, startCol: event.startCol, endLine: event.lineIndex, endCol: event.endCol },
-          });
-        }
-        break;
-      }
-      case "single-line-object": {
-        if (currentGroup && event.dependency && event.dependency.length > 0 && event.dependencyStartCol !== undefined) {
-          currentGroup.children!.push({
-            name: event.dependency,
-            kind: "dependency",
-            range: { startLine: event.lineIndex, startCol: event.dependencyStartCol, endLine: event.lineIndex, endCol: event.dependencyStartCol + event.dependency.length },
-          });
-        }
-        break;
-      }
-      case "multi-line-object-end": {
-        if (currentGroup && event.dependencyValue && event.dependencyValue.length > 0 && event.dependencyStartCol !== undefined && event.dependencyLineIndex !== undefined) {
-          currentGroup.children!.push({
-            name: event.dependencyValue,
-            kind: "dependency",
-            range: { startLine: event.dependencyLineIndex, startCol: event.dependencyStartCol, endLine: event.dependencyLineIndex, endCol: event.dependencyStartCol + event.dependencyValue.length },
-          });
-        }
-        break;
-      }
+  return document.groups.map((group) => {
+    const children: ParsedSymbol[] = [];
+
+    for (const entry of group.entries) {
+      const dependency = dependencyOf(entry);
+      if (!dependency || dependency.value.length === 0) continue;
+      children.push({ name: dependency.value, kind: "dependency", range: rangeOf(document, dependency.valueSpan) });
     }
-  }
 
-  return symbols;
+    return { name: group.name, kind: "group", range: rangeOf(document, group.span), children };
+  });
 }
@@ -0,0 +1,141 @@
+import { describe, it, expect } from "vitest";
+import { installTask, isModifyingTask, mapTaskOutput, parseTaskOutputLine, taskCommandLine, TASK_TYPE } from "./tasks";
+
+describe("taskCommandLine", () => {
+  it("runs global commands as-is", () => {
+    expect(taskCommandLine({ type: TASK_TYPE, command: "updateAllDependencies" })).toBe("updateAllDependencies");
+  });
+
+  it("scopes commands to a project and appends arguments", () => {
+    expect(taskCommandLine({ type: TASK_TYPE, command: "updateDependencies", project: "core", args: " org.typelevel: " })).toBe(
+      "core/updateDependencies org.typelevel:"
+    );
+  });
+});
+
+describe("installTask", () => {
+  it("installs in a project group", () => {
+    expect(installTask("core", "org.typelevel::cats-core:2.10.0")).toEqual({
+      type: TASK_TYPE,
+      command: "install",
+      project: "core",
+      args: "org.typelevel::cats-core:2.10.0",
+    });
+  });
+
+  it("uses the global commands for sbt-build and common-settings", () => {
+    expect(installTask("sbt-build", "a:b").command).toBe("installBuildDependencies");
+    expect(installTask("common-settings", "a:b").command).toBe("installCommonDependencies");
+  });
+});
+
+describe("isModifyingTask", () => {
+  it("is true for commands rewriting the build", () => {
+    expect(isModifyingTask({ type: TASK_TYPE, command: "updateDependencies" })).toBe(true);
+    expect(isModifyingTask({ type: TASK_TYPE, command: "install", args: "a:b" })).toBe(true);
+  });
+
+  it("is false for anything else", () => {
+    expect(isModifyingTask({ type: TASK_TYPE, command: "showLibraryDependencies" })).toBe(false);
+  });
+});
+
+describe("parseTaskOutputLine", () => {
+  it("reads the group being updated", () => {
+    expect(parseTaskOutputLine("[info] ↻ Updating all dependencies for `core`")).toEqual({ kind: "group", group: "core" });
+    expect(parseTaskOutputLine("[info] ↻ Updating dependencies for `sbt-build` in project/dependencies.conf")).toEqual({
+      kind: "group",
+      group: "sbt-build",
+    });
+    expect(parseTaskOutputLine("[info] ➕ [core] org.typelevel::cats-core:2.10.0")).toEqual({ kind: "group", group: "core" });
+  });
+
+  it("reads updated dependencies, ignoring colours", () => {
+    expect(
+      parseTaskOutputLine("[info]  ↳ \x1b[33m⬆\x1b[0m \x1b[33morg.typelevel::cats-core:2.9.0\x1b[0m -> \x1b[36m2.10.0\x1b[0m")
+    ).toEqual({ kind: "updated", dependency: "org.typelevel::cats-core:2.9.0", latest: "2.10.0" });
+  });
+
+  it("reads errors and warnings", () => {
+    expect(parseTaskOutputLine("[error] Unable to resolve org.typelevel::cats-core:2.9.0")).toEqual({
+      kind: "problem",
+      severity: "error",
+      message: "Unable to resolve org.typelevel::cats-core:2.9.0",
+    });
+    expect(parseTaskOutputLine("[warn] Could not resolve com.example:lib")).toEqual({
+      kind: "problem",
+      severity: "warning",
+      message: "Could not resolve com.example:lib",
+    });
+  });
+
+  it("ignores anything else", () => {
+    expect(parseTaskOutputLine("[info]  ↳ ✓ org.typelevel::cats-core:2.10.0")).toBeUndefined();
+    expect(parseTaskOutputLine("[error] /home/me/build.sbt:12:5: not found: value foo")).toBeUndefined();
+    expect(parseTaskOutputLine("[error]")).toBeUndefined();
+  });
+});
+
+describe("mapTaskOutput", () => {
+  const conf = [
+    "core = [",
+    '  "org.typelevel::cats-core:2.10.0"',
+    '  "dev.zio::zio:{{zio}}"',
+    "]",
+    "",
+    "server = [",
+    '  "org.typelevel::cats-core:2.10.0"',
+    '  "com.example:lib:1.0.0"',
+    "]",
+  ];
+
+  it("marks updated dependencies in the group being updated", () => {
+    const output = [
+      "[info] ↻ Updating all dependencies for `server`",
+      "[info]  ↳ ⬆ org.typelevel::cats-core:2.9.0 -> 2.10.0",
+      "[info]  ↳ ✓ com.example:lib:1.0.0",
+    ];
+
+    expect(mapTaskOutput(conf, output)).toEqual([
+      {
+        message: "Updated from 2.9.0 to 2.10.0",
+        severity: "information",
+        source: "sbt-dependencies",
+        range: { startLine: 6, startCol: 3, endLine: 6, endCol: 34 },
+      },
+    ]);
+  });
+
+  it("maps errors naming a dependency, ignoring Scala suffixes", () => {
+    const output = ["[warn] Failed to retrieve versions for org.typelevel:cats-core_2.13: timeout"];
+
+    expect(mapTaskOutput(conf, output)).toEqual([
+      {
+        message: "Failed to retrieve versions for org.typelevel:cats-core_2.13: timeout",
+        severity: "warning",
+        source: "sbt-dependencies",
+        range: { startLine: 1, startCol: 3, endLine: 1, endCol: 34 },
+      },
+    ]);
+  });
+
+  it("maps errors naming a variable to the dependencies using it", () => {
+    const output = ["[error] Variable '{{zio}}' not found in dependencyVersionVariables. Available: "];
+
+    expect(mapTaskOutput(conf, output).map((d) => d.range.startLine)).toEqual([2]);
+  });
+
+  it("maps retraction warnings inside their box", () => {
+    const output = ["[warn] │ ⚠ com.example:lib 1.0.0 is retracted. │", "[warn] │   Reason: broken │"];
+
+    expect(mapTaskOutput(conf, output)).toEqual([
+      expect.objectContaining({ message: "⚠ com.example:lib 1.0.0 is retracted.", severity: "warning" }),
+    ]);
+  });
+
+  it("leaves problems that name no dependency to the terminal", () => {
+    expect(mapTaskOutput(conf, ["[error] ⚠ 'updateSbt' failed: boom", "[warn] project/build.properties not found"])).toEqual(
+      []
+    );
+  });
+});
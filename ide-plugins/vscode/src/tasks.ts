@@ -0,0 +1,188 @@
+import { DiagnosticResult } from "./diagnostics";
+import { COMMON_SETTINGS, SBT_BUILD } from "./groups";
+import { parseDependency } from "./hover";
+import { dependencyOf, toDocument, rangeOf, DocumentSource, Field, Group } from "./parser";
+
+/** The `type` of the tasks contributed by the extension (and of their `tasks.json` definitions). */
+export const TASK_TYPE = "sbt-dependencies";
+
+/** A task running one of the plugin's commands through `sbtn`, as written in `tasks.json`. */
+export interface SbtTaskDefinition {
+  type: typeof TASK_TYPE;
+  /** The sbt command or input task, e.g. `updateDependencies` or `install`. */
+  command: string;
+  /** The project to scope the command to (`core/updateDependencies`), when it is a per-project task. */
+  project?: string;
+  /** Arguments appended to the command, e.g. a dependency filter or the dependency to install. */
+  args?: string;
+  /** The directory of the sbt build to run in, relative to the workspace folder, when it isn't the folder itself. */
+  buildRoot?: string;
+}
+
+/** A plugin command offered as a task. */
+export interface PluginTask {
+  command: string;
+  detail: string;
+}
+
+/** The plugin commands that run without arguments, in the order the task picker lists them. */
+export const PLUGIN_TASKS: readonly PluginTask[] = [
+  { command: "updateAllDependencies", detail: "Update the plugin, Scala versions, dependencies, scalafmt and sbt" },
+  { command: "updateDependencies", detail: "Update the dependencies of every project" },
+  { command: "updateScalaVersions", detail: "Update the Scala versions of every project" },
+  { command: "updateBuildDependencies", detail: "Update the dependencies of the sbt-build group" },
+  { command: "updateCommonDependencies", detail: "Update the dependencies of the common-settings group" },
+  { command: "updateSbtPlugin", detail: "Update the sbt-dependencies plugin in project/project/plugins.sbt" },
+  { command: "updateScalafmtVersion", detail: "Update the scalafmt version in .scalafmt.conf" },
+  { command: "updateSbt", detail: "Update the sbt version in project/build.properties" },
+  { command: "initDependenciesFile", detail: "Create project/dependencies.conf from the build's dependencies" },
+  { command: "formatDependenciesFile", detail: "Sort and format project/dependencies.conf" },
+];
+
+/** The commands that change `dependencies.conf` (or the build), after which the build needs reloading. */
+const modifyingCommands = new Set([
+  "updateAllDependencies",
+  "updateDependencies",
+  "updateScalaVersions",
+  "updateBuildDependencies",
+  "updateCommonDependencies",
+  "updateBuildScalaVersions",
+  "updateCommonScalaVersions",
+  "updateSbtPlugin",
+  "updateSbt",
+  "install",
+  "installBuildDependencies",
+  "installCommonDependencies",
+  "initDependenciesFile",
+  "formatDependenciesFile",
+]);
+
+/** The sbt command line a task definition runs: `core/updateDependencies org.typelevel:cats-core`. */
+export function taskCommandLine(definition: SbtTaskDefinition): string {
+  const command = definition.project ? `${definition.project}/${definition.command}` : definition.command;
+  const args = definition.args?.trim();
+  return args ? `${command} ${args}` : command;
+}
+
+/**
+ * The task installing `dependency` in a group. The `sbt-build` and `common-settings` groups use separate global
+ * commands.
+ */
+export function installTask(groupName: string, dependency: string): SbtTaskDefinition {
+  if (groupName === SBT_BUILD) return { type: TASK_TYPE, command: "installBuildDependencies", args: dependency };
+  if (groupName === COMMON_SETTINGS) return { type: TASK_TYPE, command: "installCommonDependencies", args: dependency };
+  return { type: TASK_TYPE, command: "install", project: groupName, args: dependency };
+}
+
+/** Whether running the task's command changes `dependencies.conf` or the build. */
+export function isModifyingTask(definition: SbtTaskDefinition): boolean {
+  return modifyingCommands.has(definition.command);
+}
+
+// ── Output ──────────────────────────────────────────────────────────
+
+/** What a line of the plugin's output says about `dependencies.conf`. */
+export type TaskOutputEvent =
+  | { kind: "group"; group: string }
+  | { kind: "updated"; dependency: string; latest: string }
+  | { kind: "problem"; severity: "error" | "warning"; message: string };
+
+/** ANSI colour and style escapes the plugin's logger adds. */
+const ansiPattern = /\x1b\[[0-9;]*m/g;
+
+const logLevelPattern = /^\[(info|warn|error|success|debug)\]\s?/;
+const groupPattern = /↻ Updating .*\bfor `([^`]+)`/;
+const installPattern = /➕ \[([^\]]+)\]/;
+const updatedPattern = /↳ ⬆ (\S+) -> (\S+)/;
+
+/** The box the plugin draws around some warnings, e.g. retracted versions. */
+const boxPattern = /^[│┃|]\s?|\s?[│┃|]$/g;
+
+/**
+ * Reads one line of the plugin's output: the group the following lines are about (`↻ Updating ... for `core``),
+ * an updated dependency (`↳ ⬆ org::name:1.0.0 -> 1.1.0`) or an sbt error or warning. Returns `undefined` for anything
+ * else, including the `[error] file:line:col:` lines of compilation errors, left to the `$sbt-dependencies` problem
+ * matcher.
+ */
+export function parseTaskOutputLine(line: string): TaskOutputEvent | undefined {
+  const plain = line.replace(ansiPattern, "").trimEnd();
+  const level = logLevelPattern.exec(plain)?.[1];
+  const message = plain.replace(logLevelPattern, "").replace(boxPattern, "").trim();
+
+  const group = groupPattern.exec(message) ?? installPattern.exec(message);
+  if (group) return { kind: "group", group: group[1] };
+
+  const updated = updatedPattern.exec(message);
+  if (updated) return { kind: "updated", dependency: updated[1], latest: updated[2] };
+
+  if ((level === "error" || level === "warn") && message !== "" && !/^\S+:\d+:/.test(message)) {
+    return { kind: "problem", severity: level === "error" ? "error" : "warning", message };
+  }
+
+  return undefined;
+}
+
+/**
+ * Maps the output of a plugin task back to the `dependencies.conf` document it ran on: every updated dependency gets
+ * an informational diagnostic on its (new) version, and every error or warning naming a dependency (`Could not
+ * resolve org:name`, `org:name 1.0.0 is retracted.`, `Variable '{{name}}' not found...`) gets one on that
+ * dependency. Dependencies are looked up in the group the output was about at that point, then in every group.
+ *
+ * Problems that name no dependency of the document are left to the task's terminal.
+ */
+export function mapTaskOutput(source: DocumentSource, output: string[]): DiagnosticResult[] {
+  const document = toDocument(source);
+  const results: DiagnosticResult[] = [];
+  let current: string | undefined;
+
+  const report = (severity: DiagnosticResult["severity"], message: string, field: Field) => {
+    const range = rangeOf(document, field.valueSpan);
+    if (results.some((r) => r.message === message && r.range.startLine === range.startLine)) return;
+    results.push({ message, severity, source: "sbt-dependencies", range });
+  };
+
+  for (const line of output) {
+    const event = parseTaskOutputLine(line);
+    if (!event) continue;
+
+    if (event.kind === "group") {
+      current = event.group;
+    } else if (event.kind === "updated") {
+      const dep = parseDependency(event.dependency);
+      if (!dep?.version) continue;
+      const field = findDependency(document.groups, current, (value) => matchesCoordinates(value, dep.org, dep.artifact));
+      if (field) report("information", `Updated from ${dep.version} to ${event.latest}`, field);
+    } else {
+      const variable = /\{\{(\w+)\}\}/.exec(event.message)?.[1];
+      const coordinates = /([\w.-]+)::?([\w.-]*\w)/.exec(event.message);
+      const matches = variable
+        ? (value: string) => value.includes(`{{${variable}}}`)
+        : coordinates
+          ? (value: string) => matchesCoordinates(value, coordinates[1], coordinates[2])
+          : undefined;
+      const field = matches && findDependency(document.groups, current, matches);
+      if (field) report(event.severity, event.message, field);
+    }
+  }
+
+  return results;
+}
+
+/** The dependency in `group` (or else in any group) whose string satisfies `matches`. */
+function findDependency(groups: Group[], group: string | undefined, matches: (value: string) => boolean): Field | undefined {
+  const ordered = [...groups.filter((g) => g.name === group), ...groups.filter((g) => g.name !== group)];
+  for (const g of ordered) {
+    for (const entry of g.entries) {
+      const field = dependencyOf(entry);
+      if (field && matches(field.value)) return field;
+    }
+  }
+  return undefined;
+}
+
+/** Whether a dependency string has the given coordinates, ignoring any Scala suffix on the artifact (`_2.13`). */
+function matchesCoordinates(value: string, org: string, artifact: string): boolean {
+  const dep = parseDependency(value);
+  if (!dep || dep.org !== org) return false;
+  return dep.artifact === artifact || dep.artifact === artifact.replace(/_(?:2\.1[0-3]|3)(?:_1\.0)?$/, "");
+}
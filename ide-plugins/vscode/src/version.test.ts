@@ -0,0 +1,227 @@
+import { describe, it, expect } from "vitest";
+import {
+  compareNewestFirst,
+  compareVersions,
+  isSameVersion,
+  isStableVersion,
+  isValidCandidate,
+  numeric,
+  parseNumeric,
+  parseVersion,
+  showVersion,
+  suffixNumber,
+  toVersionString,
+  NumericVersion,
+} from "./version";
+
+function v(version: string): NumericVersion {
+  const parsed = parseNumeric(version);
+  if (!parsed) throw new Error(`Not a numeric version: ${version}`);
+  return parsed;
+}
+
+function sorted(versions: string[]): string[] {
+  return versions
+    .map(v)
+    .sort(compareVersions)
+    .map((version) => toVersionString(version));
+}
+
+describe("compareVersions", () => {
+  it("compares major versions", () => {
+    expect(compareVersions(v("1.0.0"), v("2.0.0"))).toBe(-1);
+    expect(compareVersions(v("2.0.0"), v("1.0.0"))).toBe(1);
+  });
+
+  it("compares minor versions", () => {
+    expect(compareVersions(v("1.1.0"), v("1.2.0"))).toBe(-1);
+  });
+
+  it("compares patch versions", () => {
+    expect(compareVersions(v("1.2.3"), v("1.2.4"))).toBe(-1);
+  });
+
+  it("treats equal versions as equal", () => {
+    expect(compareVersions(v("1.2.3"), v("1.2.3"))).toBe(0);
+  });
+
+  it("compares 2-part versions", () => {
+    expect(compareVersions(v("1.0"), v("1.1"))).toBe(-1);
+    expect(compareVersions(v("2.0"), v("1.9"))).toBe(1);
+  });
+
+  it("compares 4-part versions", () => {
+    expect(compareVersions(v("3.2.14.0"), v("3.2.14.1"))).toBe(-1);
+    expect(compareVersions(v("3.2.15.0"), v("3.2.14.9"))).toBe(1);
+  });
+
+  it("treats missing parts as 0", () => {
+    expect(compareVersions(v("1.0"), v("1.0.0"))).toBe(0);
+    expect(compareVersions(v("1.0"), v("1.0.1"))).toBe(-1);
+  });
+
+  it("orders suffix numbers", () => {
+    expect(compareVersions(v("1.0.0-rc1"), v("1.0.0-rc2"))).toBe(-1);
+    expect(compareVersions(v("1.0.0-rc2"), v("1.0.0-rc10"))).toBe(-1);
+    expect(compareVersions(v("1.0.0-alpha1"), v("1.0.0-alpha2"))).toBe(-1);
+    expect(compareVersions(v("1.0.0-M1"), v("1.0.0-M2"))).toBe(-1);
+  });
+
+  it("treats suffixes without numbers as equal", () => {
+    expect(compareVersions(v("1.0.0-rc"), v("1.0.0-rc"))).toBe(0);
+    expect(compareVersions(v("1.0.0-jre"), v("1.0.0-jre"))).toBe(0);
+  });
+
+  it("sorts release candidates", () => {
+    expect(sorted(["1.0.0-rc10", "1.0.0-rc2", "1.0.0-rc1"])).toEqual(["1.0.0-rc1", "1.0.0-rc2", "1.0.0-rc10"]);
+  });
+
+  it("sorts mixed versions", () => {
+    expect(sorted(["2.0.0", "1.0.0", "1.10.0", "1.2.0", "1.2.10", "1.2.9"])).toEqual([
+      "1.0.0",
+      "1.2.0",
+      "1.2.9",
+      "1.2.10",
+      "1.10.0",
+      "2.0.0",
+    ]);
+  });
+
+  it("compares -jre versions by their parts", () => {
+    expect(compareVersions(v("32.1.0-jre"), v("32.1.1-jre"))).toBe(-1);
+  });
+
+  it("compares .Final versions by their parts", () => {
+    expect(compareVersions(v("4.2.6.Final"), v("4.2.7.Final"))).toBe(-1);
+    expect(compareVersions(v("4.3.0.Final"), v("4.2.7.Final"))).toBe(1);
+  });
+
+  it("compares snapshot timestamps", () => {
+    expect(compareVersions(v("0.11.0-20260328142033-SNAPSHOT"), v("0.11.0-20260401061622-SNAPSHOT"))).toBe(-1);
+  });
+});
+
+describe("compareNewestFirst", () => {
+  it("orders version strings newest first as compareVersions does, non-numeric ones last", () => {
+    const versions = ["1.0.0-RC1", "latest", "0.9", "1.0.0", "1.10.0", "1.2.0", "1.0.0-RC2", "snapshot"];
+    expect(versions.sort(compareNewestFirst)).toEqual(["1.10.0", "1.2.0", "1.0.0-RC2", "1.0.0-RC1", "1.0.0", "0.9", "latest", "snapshot"]);
+  });
+});
+
+describe("isValidCandidate", () => {
+  it("requires the same number of parts", () => {
+    expect(isValidCandidate(v("1.2.3"), v("2.0.0"))).toBe(true);
+    expect(isValidCandidate(v("1.2.3"), v("2.0"))).toBe(false);
+  });
+
+  it("requires the same suffix type", () => {
+    expect(isValidCandidate(v("1.0.0-rc1"), v("1.0.0-rc2"))).toBe(true);
+    expect(isValidCandidate(v("1.0.0-rc1"), v("1.0.0"))).toBe(false);
+  });
+
+  it("rejects everything for exact versions", () => {
+    expect(isValidCandidate(v("=1.2.3"), v("1.2.3"))).toBe(false);
+    expect(isValidCandidate(v("=1.2.3"), v("1.2.4"))).toBe(false);
+    expect(isValidCandidate(v("=1.2.3"), v("2.0.0"))).toBe(false);
+  });
+
+  it("keeps the major version for ^ versions", () => {
+    expect(isValidCandidate(v("^1.2.3"), v("1.9.0"))).toBe(true);
+    expect(isValidCandidate(v("^1.2.3"), v("2.0.0"))).toBe(false);
+  });
+
+  it("keeps the minor version for ~ versions", () => {
+    expect(isValidCandidate(v("~1.2.3"), v("1.2.9"))).toBe(true);
+    expect(isValidCandidate(v("~1.2.3"), v("1.3.0"))).toBe(false);
+  });
+
+  it("rejects candidates older than the current version", () => {
+    expect(isValidCandidate(v("0.23.1"), v("0.20.14"))).toBe(false);
+    expect(isValidCandidate(v("0.23.1"), v("0.23.1"))).toBe(true);
+    expect(isValidCandidate(v("0.23.1"), v("0.24.0"))).toBe(true);
+  });
+
+  it("delegates variables and BOM versions to their resolved version", () => {
+    expect(isValidCandidate({ kind: "variable", name: "zio", resolved: v("^2.0.0") }, v("2.1.0"))).toBe(true);
+    expect(isValidCandidate({ kind: "variable", name: "zio", resolved: v("^2.0.0") }, v("3.0.0"))).toBe(false);
+    expect(isValidCandidate({ kind: "variable", name: "zio", resolved: undefined }, v("2.1.0"))).toBe(false);
+    expect(isValidCandidate({ kind: "bom", resolved: v("2.0.0") }, v("2.1.0"))).toBe(true);
+    expect(isValidCandidate({ kind: "bom", resolved: undefined }, v("2.1.0"))).toBe(false);
+  });
+});
+
+describe("parseNumeric", () => {
+  it("parses 3-part versions", () => {
+    expect(parseNumeric("1.2.3")).toEqual(numeric([1, 2, 3]));
+  });
+
+  it("parses 2-part versions", () => {
+    expect(parseNumeric("1.0")).toEqual(numeric([1, 0]));
+  });
+
+  it("parses 4-part versions", () => {
+    expect(parseNumeric("3.2.14.0")).toEqual(numeric([3, 2, 14, 0]));
+  });
+
+  it("parses dot suffixes", () => {
+    expect(parseNumeric("4.2.7.Final")).toEqual(numeric([4, 2, 7], ".Final"));
+  });
+
+  it("parses dash suffixes", () => {
+    expect(parseNumeric("1.0.0-rc1")).toEqual(numeric([1, 0, 0], "-rc1"));
+  });
+
+  it("parses markers", () => {
+    expect(parseNumeric("=1.2.3")).toEqual(numeric([1, 2, 3], undefined, "="));
+    expect(parseNumeric("^1.2.3")).toEqual(numeric([1, 2, 3], undefined, "^"));
+    expect(parseNumeric("~1.2.3")).toEqual(numeric([1, 2, 3], undefined, "~"));
+  });
+
+  it("reads snapshot timestamps as suffix numbers", () => {
+    expect(suffixNumber(v("0.11.0-20260328142033-SNAPSHOT"))).toBe(20260328142033n);
+  });
+
+  it("rejects parts that overflow Int", () => {
+    expect(parseNumeric("99999999999999")).toBeUndefined();
+  });
+
+  it("rejects versions that don't start with a number", () => {
+    expect(parseNumeric("latest")).toBeUndefined();
+    expect(parseNumeric("{{zio}}")).toBeUndefined();
+  });
+});
+
+describe("parseVersion", () => {
+  it("parses variables and BOM versions", () => {
+    expect(parseVersion("{{zio}}")).toEqual({ kind: "variable", name: "zio", resolved: undefined });
+    expect(parseVersion("*")).toEqual({ kind: "bom", resolved: undefined });
+    expect(parseVersion("^1.2.3")).toEqual(numeric([1, 2, 3], undefined, "^"));
+  });
+
+  it("shows versions the way they are written", () => {
+    expect(showVersion(v("~1.0.0-rc1"))).toBe("~1.0.0-rc1");
+    expect(showVersion({ kind: "variable", name: "zio", resolved: v("2.1.0") })).toBe("{{zio}}");
+    expect(showVersion({ kind: "bom", resolved: undefined })).toBe("*");
+  });
+});
+
+describe("isStableVersion", () => {
+  it("requires three parts and no suffix", () => {
+    expect(isStableVersion(v("1.2.3"))).toBe(true);
+    expect(isStableVersion(v("1.2"))).toBe(false);
+    expect(isStableVersion(v("1.2.3-rc1"))).toBe(false);
+  });
+});
+
+describe("isSameVersion", () => {
+  it("compares parts and suffix, ignoring the marker", () => {
+    expect(isSameVersion(v("^1.2.3"), v("1.2.3"))).toBe(true);
+    expect(isSameVersion(v("1.0"), v("1.0.0"))).toBe(false);
+    expect(isSameVersion(v("1.0.0-rc1"), v("1.0.0"))).toBe(false);
+  });
+
+  it("resolves variables", () => {
+    expect(isSameVersion({ kind: "variable", name: "zio", resolved: v("2.1.0") }, v("2.1.0"))).toBe(true);
+    expect(isSameVersion({ kind: "variable", name: "zio", resolved: undefined }, v("2.1.0"))).toBe(false);
+  });
+});
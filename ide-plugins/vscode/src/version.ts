@@ -0,0 +1,171 @@
+/**
+ * The version model of `dependencies.conf`. Mirrored from the Scala `Dependency.Version` so the editor compares,
+ * filters and picks versions exactly like the SBT plugin.
+ */
+
+/** Version pinning marker: none (update to the latest), `=` (never update), `^` (same major), `~` (same minor). */
+export type Marker = "" | "=" | "^" | "~";
+
+/**
+ * A numeric version with variable-length parts and optional suffix: `1.2.3`, `1.0`, `3.2.14.0`, `4.2.7.Final` or
+ * `1.0.0-rc1`.
+ */
+export interface NumericVersion {
+  kind: "numeric";
+  parts: number[];
+  suffix: string | undefined;
+  marker: Marker;
+}
+
+/** A `{{variable}}` version, with the numeric version it resolved to when known. */
+export interface VariableVersion {
+  kind: "variable";
+  name: string;
+  resolved: NumericVersion | undefined;
+}
+
+/** A BOM-managed `*` version, with the numeric version the BOM pins when known. */
+export interface BomVersion {
+  kind: "bom";
+  resolved: NumericVersion | undefined;
+}
+
+export type Version = NumericVersion | VariableVersion | BomVersion;
+
+/** Largest numeric part that fits the Scala side's `Int`. */
+const maxPart = 2147483647;
+
+/** Builds a numeric version. */
+export function numeric(parts: number[], suffix?: string, marker: Marker = ""): NumericVersion {
+  return { kind: "numeric", parts, suffix, marker };
+}
+
+// ── Parsing ─────────────────────────────────────────────────────────
+
+/**
+ * Parses a version string with an optional marker prefix (`Numeric.unapply`). Returns `undefined` when it doesn't
+ * start with dot-separated numbers or when a numeric part overflows `Int`.
+ */
+export function parseNumeric(version: string): NumericVersion | undefined {
+  const marker = (/^[=^~]/.test(version) ? version[0] : "") as Marker;
+  const m = /^(\d+(?:\.\d+)*)(.*)$/.exec(version.slice(marker.length));
+  if (!m) return undefined;
+
+  const parts = m[1].split(".").map(Number);
+  if (parts.some((part) => part > maxPart)) return undefined;
+
+  return numeric(parts, m[2] || undefined, marker);
+}
+
+/** Parses any version a dependency line can declare: numeric, `{{variable}}` or `*`. */
+export function parseVersion(version: string): Version | undefined {
+  if (version === "*") return { kind: "bom", resolved: undefined };
+
+  const variable = /^\{\{(\w+)\}\}$/.exec(version);
+  if (variable) return { kind: "variable", name: variable[1], resolved: undefined };
+
+  return parseNumeric(version);
+}
+
+// ── Accessors ───────────────────────────────────────────────────────
+
+/** First numeric part (major version). */
+export function major(version: NumericVersion): number {
+  return version.parts[0] ?? 0;
+}
+
+/** Second numeric part (minor version). */
+export function minor(version: NumericVersion): number {
+  return version.parts[1] ?? 0;
+}
+
+/** Suffix type: letters only, ignoring the leading separator, with any number replaced by `*` (`-RC2` → `rc*`). */
+export function suffixType(version: NumericVersion): string | undefined {
+  return version.suffix?.toLowerCase().replace(/^[.-]/, "").replace(/\d/g, "*");
+}
+
+/** The first number in the suffix (`-rc2` → `2n`, `-jre` → `undefined`), as a `bigint` so timestamps don't overflow. */
+export function suffixNumber(version: NumericVersion): bigint | undefined {
+  const digits = version.suffix && /\d+/.exec(version.suffix);
+  return digits ? BigInt(digits[0]) : undefined;
+}
+
+/** Whether the version is stable: three parts and no suffix. */
+export function isStableVersion(version: NumericVersion): boolean {
+  return version.suffix === undefined && version.parts.length === 3;
+}
+
+/** Version string without marker prefix (numeric), or the resolved version (variable, BOM) when known. */
+export function toVersionString(version: NumericVersion): string;
+export function toVersionString(version: Version): string | undefined;
+export function toVersionString(version: Version): string | undefined {
+  if (version.kind === "numeric") return version.parts.join(".") + (version.suffix ?? "");
+  return version.resolved && toVersionString(version.resolved);
+}
+
+/** Full string representation: with marker prefix (numeric), with braces (variable) or `*` (BOM). */
+export function showVersion(version: Version): string {
+  if (version.kind === "variable") return `{{${version.name}}}`;
+  if (version.kind === "bom") return "*";
+  return version.marker + toVersionString(version);
+}
+
+// ── Comparison ──────────────────────────────────────────────────────
+
+/** Orders versions by numeric parts left to right (missing parts count as `0`), then by suffix number. */
+export function compareVersions(a: NumericVersion, b: NumericVersion): number {
+  for (let i = 0; i < Math.max(a.parts.length, b.parts.length); i++) {
+    const diff = (a.parts[i] ?? 0) - (b.parts[i] ?? 0);
+    if (diff !== 0) return Math.sign(diff);
+  }
+
+  const na = suffixNumber(a) ?? 0n;
+  const nb = suffixNumber(b) ?? 0n;
+  return na === nb ? 0 : na < nb ? -1 : 1;
+}
+
+/**
+ * Orders version strings newest first with {@link compareVersions}, as the plugin orders candidates. Versions that
+ * aren't numeric go last, in their original order.
+ */
+export function compareNewestFirst(a: string, b: string): number {
+  const va = parseNumeric(a);
+  const vb = parseNumeric(b);
+  if (!va || !vb) return va ? -1 : vb ? 1 : 0;
+  return compareVersions(vb, va);
+}
+
+/** Whether two versions hold the same numeric value (parts and suffix), resolving variables and BOM versions. */
+export function isSameVersion(a: Version, b: Version): boolean {
+  if (a.kind !== "numeric") return a.resolved !== undefined && isSameVersion(a.resolved, b);
+  if (b.kind !== "numeric") return false;
+  return a.parts.length === b.parts.length && a.parts.every((p, i) => p === b.parts[i]) && a.suffix === b.suffix;
+}
+
+function passesMarker(version: NumericVersion, candidate: NumericVersion): boolean {
+  switch (version.marker) {
+    case "=":
+      return false;
+    case "^":
+      return major(version) === major(candidate);
+    case "~":
+      return major(version) === major(candidate) && minor(version) === minor(candidate);
+    default:
+      return true;
+  }
+}
+
+/**
+ * Whether `candidate` is a valid update for `version`: same number of parts, same suffix type, allowed by the marker
+ * and not older. Variables and BOM versions delegate to their resolved version, and accept nothing unresolved.
+ */
+export function isValidCandidate(version: Version, candidate: NumericVersion): boolean {
+  if (version.kind !== "numeric") return version.resolved !== undefined && isValidCandidate(version.resolved, candidate);
+
+  return (
+    version.parts.length === candidate.parts.length &&
+    suffixType(version) === suffixType(candidate) &&
+    passesMarker(version, candidate) &&
+    compareVersions(candidate, version) >= 0
+  );
+}
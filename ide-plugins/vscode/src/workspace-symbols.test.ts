@@ -0,0 +1,69 @@
+import { describe, it, expect } from "vitest";
+import { indexSymbols, matchesSymbolQuery, WorkspaceSymbolIndex } from "./workspace-symbols";
+
+const core = [
+  "sbt-build = [",
+  '  "org.typelevel:sbt-tpolecat:0.5.2:sbt-plugin"',
+  "]",
+  "",
+  "core = [",
+  '  "org.typelevel::cats-effect:3.5.4"',
+  '  { dependency = "co.fs2::fs2-core:*", note = "BOM" }',
+  '  "not a dependency"',
+  "]",
+];
+
+const api = ["api = [", '  "org.typelevel::cats-effect:{{ce}}"', "]"];
+
+describe("indexSymbols", () => {
+  it("lists groups followed by their dependencies", () => {
+    expect(indexSymbols(core).map((s) => [s.kind, s.name, s.group, s.version])).toEqual([
+      ["group", "sbt-build", "", undefined],
+      ["dependency", "org.typelevel:sbt-tpolecat", "sbt-build", "0.5.2"],
+      ["group", "core", "", undefined],
+      ["dependency", "org.typelevel::cats-effect", "core", "3.5.4"],
+      ["dependency", "co.fs2::fs2-core", "core", "*"],
+    ]);
+  });
+
+  it("keeps where each dependency is written", () => {
+    expect(indexSymbols(api)[1].range).toEqual({ startLine: 1, startCol: 3, endLine: 1, endCol: 36 });
+  });
+});
+
+describe("matchesSymbolQuery", () => {
+  it("matches characters in order, ignoring case", () => {
+    expect(matchesSymbolQuery("cats-effect", "org.typelevel::cats-effect")).toBe(true);
+    expect(matchesSymbolQuery("CatsEff", "org.typelevel::cats-effect")).toBe(true);
+    expect(matchesSymbolQuery("effect-cats", "org.typelevel::cats-effect")).toBe(false);
+  });
+
+  it("matches everything for an empty query", () => {
+    expect(matchesSymbolQuery("", "core")).toBe(true);
+  });
+});
+
+describe("WorkspaceSymbolIndex", () => {
+  it("finds a dependency in every file and group declaring it", () => {
+    const index = new WorkspaceSymbolIndex();
+    index.update("file:///a/project/dependencies.conf", core);
+    index.update("file:///b/project/dependencies.conf", api);
+
+    expect(index.search("cats-effect").map((r) => [r.key, r.symbol.group, r.symbol.version])).toEqual([
+      ["file:///a/project/dependencies.conf", "core", "3.5.4"],
+      ["file:///b/project/dependencies.conf", "api", "{{ce}}"],
+    ]);
+  });
+
+  it("reindexes and forgets files", () => {
+    const index = new WorkspaceSymbolIndex();
+    index.update("a", core);
+    index.update("a", api);
+    expect(index.search("fs2")).toEqual([]);
+    expect(index.search("cats-effect")).toHaveLength(1);
+
+    index.delete("a");
+    expect(index.has("a")).toBe(false);
+    expect(index.search("")).toEqual([]);
+  });
+});
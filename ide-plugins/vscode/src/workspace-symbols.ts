@@ -0,0 +1,81 @@
+import { parseDependency } from "./hover";
+import { DocumentSource, TextRange } from "./parser";
+import { parseDocumentSymbols } from "./symbols";
+
+/** A group or dependency of one `dependencies.conf`, as listed by workspace symbol search. */
+export interface IndexedSymbol {
+  /** The group name, or the dependency's `org:artifact` (`org::artifact` for Scala ones). */
+  name: string;
+  kind: "group" | "dependency";
+  /** The group a dependency belongs to; empty for groups. */
+  group: string;
+  /** The version as written, for dependencies that have one. */
+  version?: string;
+  range: TextRange;
+}
+
+/** The groups and dependencies of a `dependencies.conf`. Strings that aren't valid dependencies are left out. */
+export function indexSymbols(source: DocumentSource): IndexedSymbol[] {
+  return parseDocumentSymbols(source).flatMap((group) => {
+    const dependencies = (group.children ?? []).flatMap((child): IndexedSymbol[] => {
+      const dep = parseDependency(child.name);
+      if (!dep) return [];
+      const symbol: IndexedSymbol = {
+        name: `${dep.org}${dep.separator}${dep.artifact}`,
+        kind: "dependency",
+        group: group.name,
+        range: child.range,
+      };
+      if (dep.version) symbol.version = dep.version;
+      return [symbol];
+    });
+
+    return [{ name: group.name, kind: "group", group: "", range: group.range }, ...dependencies];
+  });
+}
+
+/**
+ * Whether `name` matches a workspace symbol `query`: the query's characters appear in it in order, ignoring case,
+ * like VS Code's own filtering. An empty query matches everything.
+ */
+export function matchesSymbolQuery(query: string, name: string): boolean {
+  const haystack = name.toLowerCase();
+  let index = 0;
+  for (const char of query.toLowerCase().replace(/\s+/g, "")) {
+    index = haystack.indexOf(char, index) + 1;
+    if (index === 0) return false;
+  }
+  return true;
+}
+
+/**
+ * The symbols of every `dependencies.conf` of the workspace, keyed by file. Files are (re)indexed one at a time as
+ * they are created, edited or deleted, so a search never reparses the whole workspace.
+ */
+export class WorkspaceSymbolIndex {
+  private readonly files = new Map<string, IndexedSymbol[]>();
+
+  /** Indexes (or reindexes) the file at `key`. */
+  update(key: string, source: DocumentSource): void {
+    this.files.set(key, indexSymbols(source));
+  }
+
+  delete(key: string): void {
+    this.files.delete(key);
+  }
+
+  has(key: string): boolean {
+    return this.files.has(key);
+  }
+
+  /** The symbols matching `query` with the file declaring each, in file order. */
+  search(query: string): { key: string; symbol: IndexedSymbol }[] {
+    const results: { key: string; symbol: IndexedSymbol }[] = [];
+    for (const [key, symbols] of this.files) {
+      for (const symbol of symbols) {
+        if (matchesSymbolQuery(query, symbol.name)) results.push({ key, symbol });
+      }
+    }
+    return results;
+  }
+}